@@ -19,10 +19,18 @@ interface CorsConfig {
   origins: string[];
 }
 
+interface UploadConfig {
+  /** Per-file limit for guilds without their own `maxUploadSize`, and for DMs */
+  defaultMaxFileSize: number;
+  /** Hard ceiling; a guild's `maxUploadSize` can't exceed this */
+  maxFileSize: number;
+}
+
 interface AppConfig {
   s3: S3Config;
   stream: StreamConfig;
   cors: CorsConfig;
+  uploads: UploadConfig;
 }
 
 function loadConfigFile(): Partial<AppConfig> {
@@ -55,4 +63,8 @@ export const config: AppConfig = {
       ? env.CORS_ORIGIN.split(",")
       : file.cors?.origins ?? ["http://localhost:3000"],
   },
+  uploads: {
+    defaultMaxFileSize: env.UPLOAD_DEFAULT_MAX_SIZE ?? file.uploads?.defaultMaxFileSize ?? 50 * 1024 * 1024,
+    maxFileSize: env.UPLOAD_MAX_SIZE ?? file.uploads?.maxFileSize ?? 500 * 1024 * 1024,
+  },
 };
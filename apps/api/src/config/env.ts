@@ -17,6 +17,8 @@ const envSchema = z.object({
     .string()
     .transform((v) => v === "true")
     .default("false"),
+  UPLOAD_DEFAULT_MAX_SIZE: z.coerce.number().optional(),
+  UPLOAD_MAX_SIZE: z.coerce.number().optional(),
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
   CORS_ORIGIN: z.string().default("http://localhost:3000"),
   VOICE_SERVICE_URL: z.string().optional(),
@@ -27,6 +29,20 @@ const envSchema = z.object({
     .string()
     .transform((v) => v === "true")
     .default("false"),
+  // Outgoing mail (verification codes, notification digests); disabled without SMTP_HOST
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().default(587),
+  SMTP_SECURE: z
+    .string()
+    .transform((v) => v === "true")
+    .default("false"),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  SMTP_FROM: z.string().default("Zent <no-reply@localhost>"),
+  // Web Push; generate a key pair with `npx web-push generate-vapid-keys`
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().default("mailto:admin@localhost"),
   GATEWAY_HEARTBEAT_INTERVAL: z.coerce.number().default(60000),
   WORKER_ID: z.coerce.number().default(1),
   PROCESS_ID: z.coerce.number().default(1),
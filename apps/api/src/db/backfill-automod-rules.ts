@@ -0,0 +1,139 @@
+/**
+ * One-off: convert each guild's legacy `automod_config` row into AutoMod rules.
+ *
+ * Run after `db:push` has created `automod_rules` and before `automodConfig` is removed
+ * from the schema. Each config row is deleted in the same transaction that writes its
+ * rules, so a rerun only picks up what's left.
+ *
+ * - keyword filter → KEYWORD rule; words still match inside other words (`*word*`)
+ * - mention spam → MENTION_SPAM rule with the same limit
+ * - link filter → KEYWORD rule with a regex for links outside the whitelist
+ * - anti-raid has no rule equivalent and is logged, not carried over
+ *
+ * "delete" and "warn" become a blocked message; "timeout" also times the author out.
+ */
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import mysql from "mysql2/promise";
+import { generateSnowflake } from "@yxc/snowflake";
+import type { AutoModAction, AutoModTriggerMetadata } from "@yxc/gateway-types";
+import * as schema from "./schema.js";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL is required");
+}
+
+const pool = mysql.createPool({ uri: connectionString, connectionLimit: 1 });
+const db = drizzle({ client: pool, schema, mode: "default" });
+
+// Mirror AutoModTriggerType / AutoModActionType in services/automod.service.ts, which
+// can't be imported here without the API's env and Redis
+const TRIGGER_KEYWORD = 1;
+const TRIGGER_MENTION_SPAM = 5;
+const ACTION_BLOCK_MESSAGE = 1;
+const ACTION_TIMEOUT = 3;
+const LEGACY_TIMEOUT_SECONDS = 60;
+
+type LegacyConfig = typeof schema.automodConfig.$inferSelect;
+
+interface BackfilledRule {
+  name: string;
+  triggerType: number;
+  triggerMetadata: AutoModTriggerMetadata;
+  actions: AutoModAction[];
+  enabled: boolean;
+}
+
+function toActions(action: "delete" | "warn" | "timeout"): AutoModAction[] {
+  const actions: AutoModAction[] = [{ type: ACTION_BLOCK_MESSAGE }];
+  if (action === "timeout") {
+    actions.push({ type: ACTION_TIMEOUT, metadata: { durationSeconds: LEGACY_TIMEOUT_SECONDS } });
+  }
+  return actions;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toRules(config: LegacyConfig): BackfilledRule[] {
+  const rules: BackfilledRule[] = [];
+  const { keywordFilters, mentionSpam, linkFilter } = config;
+
+  if (keywordFilters.enabled && keywordFilters.blockedWords.length > 0) {
+    rules.push({
+      name: "Blocked words",
+      triggerType: TRIGGER_KEYWORD,
+      triggerMetadata: { keywordFilter: keywordFilters.blockedWords.map((word) => `*${word}*`) },
+      actions: toActions(keywordFilters.action),
+      enabled: config.enabled,
+    });
+  }
+
+  if (mentionSpam.enabled) {
+    rules.push({
+      name: "Mention spam",
+      triggerType: TRIGGER_MENTION_SPAM,
+      triggerMetadata: { mentionTotalLimit: mentionSpam.maxMentions },
+      actions: toActions(mentionSpam.action),
+      enabled: config.enabled,
+    });
+  }
+
+  // The old filter did nothing unless it blocked all links or had a whitelist, and a
+  // link was allowed when its URL contained a whitelisted domain
+  if (linkFilter.enabled && (linkFilter.blockAllLinks || linkFilter.whitelist.length > 0)) {
+    const allowed = linkFilter.whitelist.map(escapeRegex).join("|");
+    rules.push({
+      name: "Links",
+      triggerType: TRIGGER_KEYWORD,
+      triggerMetadata: {
+        regexPatterns: [allowed ? `https?://(?![^\\s<]*(?:${allowed}))[^\\s<]+` : "https?://[^\\s<]+"],
+      },
+      actions: toActions(linkFilter.action),
+      enabled: config.enabled,
+    });
+  }
+
+  return rules;
+}
+
+async function backfill() {
+  const rows = await db
+    .select({ config: schema.automodConfig, ownerId: schema.guilds.ownerId })
+    .from(schema.automodConfig)
+    .innerJoin(schema.guilds, eq(schema.guilds.id, schema.automodConfig.guildId));
+
+  let created = 0;
+  for (const { config, ownerId } of rows) {
+    const rules = toRules(config);
+    if (config.antiRaid.enabled) {
+      console.log(`Guild ${config.guildId}: anti-raid has no AutoMod rule equivalent and was not carried over`);
+    }
+
+    await db.transaction(async (tx) => {
+      if (rules.length > 0) {
+        await tx.insert(schema.automodRules).values(rules.map((rule) => ({
+          id: generateSnowflake(),
+          guildId: config.guildId,
+          creatorId: ownerId,
+          eventType: 1,
+          exemptRoles: [],
+          exemptChannels: [],
+          ...rule,
+        })));
+      }
+      await tx.delete(schema.automodConfig).where(eq(schema.automodConfig.guildId, config.guildId));
+    });
+    created += rules.length;
+  }
+
+  console.log(`Created ${created} AutoMod rules from ${rows.length} legacy configs.`);
+  await pool.end();
+}
+
+backfill().catch((err) => {
+  console.error("AutoMod backfill failed:", err);
+  process.exit(1);
+});
@@ -15,6 +15,7 @@ import {
   unique,
 } from "drizzle-orm/mysql-core";
 import { sql } from "drizzle-orm";
+import type { AutoModTriggerMetadata, AutoModAction } from "@yxc/gateway-types";
 
 // ── Users ──
 export const users = mysqlTable(
@@ -39,6 +40,8 @@ export const users = mysqlTable(
     locale: varchar("locale", { length: 10 }).notNull().default("en-US"),
     isGuest: boolean("is_guest").notNull().default(false),
     guestExpiresAt: datetime("guest_expires_at", { mode: "date" }),
+    // Last gateway connect or disconnect; feeds member prune
+    lastSeenAt: datetime("last_seen_at", { mode: "date" }),
     createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
     updatedAt: datetime("updated_at", { mode: "date" }).notNull().default(sql`NOW()`),
   },
@@ -70,12 +73,14 @@ export const guilds = mysqlTable(
     vanityUrlCode: varchar("vanity_url_code", { length: 255 }),
     premiumTier: int("premium_tier").notNull().default(0),
     premiumSubscriptionCount: int("premium_subscription_count").notNull().default(0),
+    maxUploadSize: int("max_upload_size"),
     preferredLocale: varchar("preferred_locale", { length: 10 }).notNull().default("en-US"),
     createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
     updatedAt: datetime("updated_at", { mode: "date" }).notNull().default(sql`NOW()`),
   },
   (table) => [
     index("guilds_owner_id_idx").on(table.ownerId),
+    uniqueIndex("guilds_vanity_url_code_idx").on(table.vanityUrlCode),
   ]
 );
 
@@ -98,6 +103,8 @@ export const channels = mysqlTable(
     ownerId: varchar("owner_id", { length: 64 }),
     flags: int("flags").notNull().default(0),
     messageRetentionSeconds: int("message_retention_seconds"),
+    // Readable without an account at /public/channels/:channelId
+    isPublic: boolean("is_public").notNull().default(false),
     createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
   },
   (table) => [
@@ -122,6 +129,16 @@ export const messages = mysqlTable(
     flags: int("flags").notNull().default(0),
     tts: boolean("tts").notNull().default(false),
     mentionEveryone: boolean("mention_everyone").notNull().default(false),
+    // Resolved at send time: mentioned member IDs and roles the author was allowed to ping
+    mentions: json("mentions").$type<string[]>(),
+    mentionRoles: json("mention_roles").$type<string[]>(),
+    // `allowed_mentions` as sent, so edits resolve mentions under the same rules
+    allowedMentions: json("allowed_mentions").$type<{
+      parse?: Array<"users" | "roles" | "everyone">;
+      users?: string[];
+      roles?: string[];
+      repliedUser?: boolean;
+    }>(),
     pinned: boolean("pinned").notNull().default(false),
     editedTimestamp: datetime("edited_timestamp", { mode: "date" }),
     referencedMessageId: varchar("referenced_message_id", { length: 64 }),
@@ -182,11 +199,19 @@ export const members = mysqlTable(
     mute: boolean("mute").notNull().default(false),
     pending: boolean("pending").notNull().default(false),
     communicationDisabledUntil: datetime("communication_disabled_until", { mode: "date" }),
+    // Joined through a temporary invite and hasn't been given a role yet
+    temporary: boolean("temporary").notNull().default(false),
+    // Channels opted into through onboarding; null until the member submits responses
+    onboardingChannelIds: json("onboarding_channel_ids").$type<string[]>(),
+    onboardingCompletedAt: datetime("onboarding_completed_at", { mode: "date" }),
+    // Roles onboarding handed out, so dropping an option never takes back a role granted by hand
+    onboardingRoleIds: json("onboarding_role_ids").$type<string[]>(),
   },
   (table) => [
     primaryKey({ columns: [table.userId, table.guildId] }),
     index("members_guild_id_idx").on(table.guildId),
     index("members_user_id_idx").on(table.userId),
+    index("members_timeout_idx").on(table.communicationDisabledUntil),
   ]
 );
 
@@ -291,6 +316,31 @@ export const invites = mysqlTable(
   ]
 );
 
+// ── Invite Uses ──
+// One row per join. Kept after the invite is deleted or the member leaves, so the
+// numbers still describe where members came from.
+export const inviteUses = mysqlTable(
+  "invite_uses",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    guildId: varchar("guild_id", { length: 64 })
+      .notNull()
+      .references(() => guilds.id, { onDelete: "cascade" }),
+    code: varchar("code", { length: 64 }).notNull(),
+    channelId: varchar("channel_id", { length: 64 }),
+    inviterId: varchar("inviter_id", { length: 64 }),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    vanity: boolean("vanity").notNull().default(false),
+    createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
+  },
+  (table) => [
+    index("invite_uses_guild_code_idx").on(table.guildId, table.code),
+    index("invite_uses_guild_user_idx").on(table.guildId, table.userId),
+  ]
+);
+
 // ── Bans ──
 export const bans = mysqlTable(
   "bans",
@@ -326,10 +376,56 @@ export const messageAttachments = mysqlTable(
     contentType: varchar("content_type", { length: 255 }),
     width: int("width"),
     height: int("height"),
+    blurhash: varchar("blurhash", { length: 64 }),
   },
   (table) => [index("attachments_message_id_idx").on(table.messageId)]
 );
 
+// ── Upload Sessions (resumable chunked uploads) ──
+export const uploadSessions = mysqlTable(
+  "upload_sessions",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    channelId: varchar("channel_id", { length: 64 })
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    filename: varchar("filename", { length: 255 }).notNull(),
+    contentType: varchar("content_type", { length: 255 }).notNull(),
+    size: int("size").notNull(),
+    sha256: varchar("sha256", { length: 64 }).notNull(),
+    chunkSize: int("chunk_size").notNull(),
+    objectKey: varchar("object_key", { length: 512 }).notNull(),
+    s3UploadId: varchar("s3_upload_id", { length: 255 }).notNull(),
+    status: mysqlEnum("status", ["pending", "completed", "attached"]).notNull().default("pending"),
+    width: int("width"),
+    height: int("height"),
+    blurhash: varchar("blurhash", { length: 64 }),
+    messageId: varchar("message_id", { length: 64 }),
+    expiresAt: datetime("expires_at", { mode: "date" }).notNull(),
+    createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
+  },
+  (table) => [
+    index("upload_sessions_user_id_idx").on(table.userId),
+    index("upload_sessions_expires_at_idx").on(table.expiresAt),
+  ]
+);
+
+export const uploadSessionParts = mysqlTable(
+  "upload_session_parts",
+  {
+    sessionId: varchar("session_id", { length: 64 })
+      .notNull()
+      .references(() => uploadSessions.id, { onDelete: "cascade" }),
+    partNumber: int("part_number").notNull(),
+    etag: varchar("etag", { length: 255 }).notNull(),
+    size: int("size").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.sessionId, table.partNumber] })]
+);
+
 // ── Message Embeds ──
 export const messageEmbeds = mysqlTable(
   "message_embeds",
@@ -347,11 +443,34 @@ export const messageEmbeds = mysqlTable(
     image: json("image"),
     thumbnail: json("thumbnail"),
     author: json("author"),
+    provider: json("provider"),
+    video: json("video"),
     fields: json("fields"),
   },
   (table) => [index("embeds_message_id_idx").on(table.messageId)]
 );
 
+// ── Message Search Index ──
+// Inverted index: one row per (token, message). guildId/channelId are denormalized
+// so lookups never touch the messages table until results are hydrated.
+export const messageSearchTokens = mysqlTable(
+  "message_search_tokens",
+  {
+    token: varchar("token", { length: 64 }).notNull(),
+    messageId: varchar("message_id", { length: 64 })
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    guildId: varchar("guild_id", { length: 64 }).notNull(),
+    channelId: varchar("channel_id", { length: 64 }).notNull(),
+    frequency: int("frequency").notNull().default(1),
+  },
+  (table) => [
+    primaryKey({ columns: [table.token, table.messageId] }),
+    index("search_tokens_guild_token_idx").on(table.guildId, table.token),
+    index("search_tokens_message_id_idx").on(table.messageId),
+  ]
+);
+
 // ── Message Reactions ──
 // emojiId uses "" for unicode emoji (no custom ID) so the composite PK works in MySQL
 export const messageReactions = mysqlTable(
@@ -476,9 +595,14 @@ export const polls = mysqlTable(
     allowMultiselect: boolean("allow_multiselect").notNull().default(false),
     anonymous: boolean("anonymous").notNull().default(false),
     expiresAt: datetime("expires_at", { mode: "date" }),
+    // Set once the poll is closed and its results posted, by hand or by the expiry job
+    ended: boolean("ended").notNull().default(false),
     createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
   },
-  (table) => [index("polls_message_id_idx").on(table.messageId)]
+  (table) => [
+    index("polls_message_id_idx").on(table.messageId),
+    index("polls_expiry_idx").on(table.ended, table.expiresAt),
+  ]
 );
 
 export const pollOptions = mysqlTable(
@@ -603,16 +727,22 @@ export const banAppeals = mysqlTable(
 );
 
 // ── Thread Metadata ──
-export const threadMetadata = mysqlTable("thread_metadata", {
-  channelId: varchar("channel_id", { length: 64 })
-    .primaryKey()
-    .references(() => channels.id, { onDelete: "cascade" }),
-  archived: boolean("archived").notNull().default(false),
-  autoArchiveDuration: int("auto_archive_duration").notNull().default(1440),
-  archiveTimestamp: datetime("archive_timestamp", { mode: "date" }),
-  locked: boolean("locked").notNull().default(false),
-  invitable: boolean("invitable").notNull().default(true),
-});
+export const threadMetadata = mysqlTable(
+  "thread_metadata",
+  {
+    channelId: varchar("channel_id", { length: 64 })
+      .primaryKey()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    archived: boolean("archived").notNull().default(false),
+    autoArchiveDuration: int("auto_archive_duration").notNull().default(1440),
+    archiveTimestamp: datetime("archive_timestamp", { mode: "date" }),
+    // Last activity plus autoArchiveDuration; pushed back by every message in the thread
+    autoArchiveAt: datetime("auto_archive_at", { mode: "date" }),
+    locked: boolean("locked").notNull().default(false),
+    invitable: boolean("invitable").notNull().default(true),
+  },
+  (table) => [index("thread_metadata_auto_archive_idx").on(table.archived, table.autoArchiveAt)]
+);
 
 // ── Thread Members ──
 export const threadMembers = mysqlTable(
@@ -649,15 +779,44 @@ export const moderationQueue = mysqlTable(
     status: mysqlEnum("status", ["pending", "approved", "rejected", "escalated"]).notNull().default("pending"),
     moderatorId: varchar("moderator_id", { length: 64 }).references(() => users.id, { onDelete: "set null" }),
     moderatorNote: text("moderator_note"),
+    // The moderator working the item; others can't resolve it until it's reassigned
+    assigneeId: varchar("assignee_id", { length: 64 }).references(() => users.id, { onDelete: "set null" }),
+    claimedAt: datetime("claimed_at", { mode: "date" }),
+    escalatedAt: datetime("escalated_at", { mode: "date" }),
+    // What was done on resolve: ban, kick, delete, timeout or dismiss
+    resolution: varchar("resolution", { length: 16 }),
+    // Reported content as it was when first reported, so it survives deletion
+    snapshot: json("snapshot").$type<Record<string, unknown>>(),
+    reporterCount: int("reporter_count").notNull().default(1),
+    // guildId:type:targetId while the item is open, so repeat reports land on it; cleared on resolve
+    openKey: varchar("open_key", { length: 200 }),
     createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
     resolvedAt: datetime("resolved_at", { mode: "date" }),
   },
   (table) => [
     index("moderation_queue_guild_id_idx").on(table.guildId),
     index("moderation_queue_status_idx").on(table.status),
+    index("moderation_queue_guild_status_created_idx").on(table.guildId, table.status, table.createdAt),
+    uniqueIndex("moderation_queue_open_key_idx").on(table.openKey),
   ]
 );
 
+// Everyone who reported a queue item, to dedupe reports and tell them the outcome
+export const moderationQueueReporters = mysqlTable(
+  "moderation_queue_reporters",
+  {
+    itemId: varchar("item_id", { length: 64 })
+      .notNull()
+      .references(() => moderationQueue.id, { onDelete: "cascade" }),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    reason: text("reason").notNull(),
+    createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
+  },
+  (table) => [primaryKey({ columns: [table.itemId, table.userId] })]
+);
+
 // ── Notification Settings (per-server/channel granularity) ──
 export const notificationSettings = mysqlTable(
   "notification_settings",
@@ -673,6 +832,9 @@ export const notificationSettings = mysqlTable(
     suppressRoles: boolean("suppress_roles").notNull().default(false),
     muted: boolean("muted").notNull().default(false),
     muteUntil: datetime("mute_until", { mode: "date" }),
+    // Offline delivery channels; resolved channel > guild > global like the rest
+    pushEnabled: boolean("push_enabled").notNull().default(true),
+    emailEnabled: boolean("email_enabled").notNull().default(true),
   },
   (table) => [
     unique("notification_settings_user_guild_channel_unique").on(table.userId, table.guildId, table.channelId),
@@ -681,6 +843,27 @@ export const notificationSettings = mysqlTable(
   ]
 );
 
+// ── Web Push Subscriptions ──
+export const pushSubscriptions = mysqlTable(
+  "push_subscriptions",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    endpoint: varchar("endpoint", { length: 768 }).notNull(),
+    p256dh: varchar("p256dh", { length: 255 }).notNull(),
+    auth: varchar("auth", { length: 255 }).notNull(),
+    userAgent: varchar("user_agent", { length: 255 }),
+    createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
+    lastUsedAt: datetime("last_used_at", { mode: "date" }),
+  },
+  (table) => [
+    uniqueIndex("push_subscriptions_endpoint_idx").on(table.endpoint),
+    index("push_subscriptions_user_idx").on(table.userId),
+  ]
+);
+
 // ── Thread Templates ──
 export const threadTemplates = mysqlTable(
   "thread_templates",
@@ -742,7 +925,9 @@ export const forumPostTags = mysqlTable(
   ]
 );
 
-// ── AutoMod Config (persistent) ──
+// ── AutoMod Config (legacy) ──
+// Superseded by automodRules. Kept so `db:push` doesn't drop it before
+// `db:backfill-automod` has converted every row; remove it once that has run.
 export const automodConfig = mysqlTable("automod_config", {
   guildId: varchar("guild_id", { length: 64 })
     .primaryKey()
@@ -773,6 +958,28 @@ export const automodConfig = mysqlTable("automod_config", {
   updatedAt: datetime("updated_at", { mode: "date" }).notNull().default(sql`NOW()`),
 });
 
+// ── AutoMod Rules ──
+export const automodRules = mysqlTable(
+  "automod_rules",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    guildId: varchar("guild_id", { length: 64 })
+      .notNull()
+      .references(() => guilds.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    creatorId: varchar("creator_id", { length: 64 }).notNull(),
+    eventType: int("event_type").notNull().default(1),
+    triggerType: int("trigger_type").notNull(),
+    triggerMetadata: json("trigger_metadata").$type<AutoModTriggerMetadata>().notNull(),
+    actions: json("actions").$type<AutoModAction[]>().notNull(),
+    enabled: boolean("enabled").notNull().default(false),
+    exemptRoles: json("exempt_roles").$type<string[]>().notNull(),
+    exemptChannels: json("exempt_channels").$type<string[]>().notNull(),
+    createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
+  },
+  (table) => [index("automod_rules_guild_id_idx").on(table.guildId)]
+);
+
 // ── Passkey Credentials (WebAuthn) ──
 export const passkeyCredentials = mysqlTable(
   "passkey_credentials",
@@ -843,11 +1050,14 @@ export const guildEvents = mysqlTable(
       count?: number;
       endDate?: string;
     }>(),
+    // First occurrence of a recurring series; scheduledStartTime moves on to each next one
+    recurrenceAnchor: datetime("recurrence_anchor", { mode: "date" }),
     createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
   },
   (table) => [
     index("guild_events_guild_idx").on(table.guildId),
     index("guild_events_start_idx").on(table.scheduledStartTime),
+    index("guild_events_status_start_idx").on(table.status, table.scheduledStartTime),
   ]
 );
 
@@ -870,6 +1080,31 @@ export const guildEventUsers = mysqlTable(
   ]
 );
 
+// ── Stage Instances (a live stage in a stage channel; at most one per channel) ──
+export const stageInstances = mysqlTable(
+  "stage_instances",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    guildId: varchar("guild_id", { length: 64 })
+      .notNull()
+      .references(() => guilds.id, { onDelete: "cascade" }),
+    channelId: varchar("channel_id", { length: 64 })
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    topic: varchar("topic", { length: 120 }).notNull(),
+    privacyLevel: int("privacy_level").notNull().default(2),
+    discoverableDisabled: boolean("discoverable_disabled").notNull().default(false),
+    guildScheduledEventId: varchar("guild_scheduled_event_id", { length: 64 }).references(() => guildEvents.id, {
+      onDelete: "set null",
+    }),
+    createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
+  },
+  (table) => [
+    uniqueIndex("stage_instances_channel_idx").on(table.channelId),
+    index("stage_instances_guild_idx").on(table.guildId),
+  ]
+);
+
 // ══════════════════════════════════════════════════════════════════════════════
 // P1 High Priority Features
 // ══════════════════════════════════════════════════════════════════════════════
@@ -896,6 +1131,16 @@ export const applications = mysqlTable(
   (table) => [index("applications_owner_idx").on(table.ownerId)]
 );
 
+// ── Application Signing Keys (Ed25519 private half of applications.verifyKey) ──
+// Kept out of `applications` so the private key never rides along with application reads.
+export const applicationSigningKeys = mysqlTable("application_signing_keys", {
+  applicationId: varchar("application_id", { length: 64 })
+    .primaryKey()
+    .references(() => applications.id, { onDelete: "cascade" }),
+  privateKey: text("private_key").notNull(),
+  createdAt: datetime("created_at", { mode: "date" }).notNull().default(sql`NOW()`),
+});
+
 // ── Application Commands (Slash Commands) ──
 export const applicationCommands = mysqlTable(
   "application_commands",
@@ -1140,6 +1385,26 @@ export const guildOnboarding = mysqlTable("guild_onboarding", {
   updatedAt: datetime("updated_at", { mode: "date" }).notNull().default(sql`NOW()`),
 });
 
+// ── Onboarding Responses (one row per selected option) ──
+export const onboardingResponses = mysqlTable(
+  "onboarding_responses",
+  {
+    guildId: varchar("guild_id", { length: 64 })
+      .notNull()
+      .references(() => guilds.id, { onDelete: "cascade" }),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    promptId: varchar("prompt_id", { length: 64 }).notNull(),
+    optionId: varchar("option_id", { length: 64 }).notNull(),
+    respondedAt: datetime("responded_at", { mode: "date" }).notNull().default(sql`NOW()`),
+  },
+  (table) => [
+    primaryKey({ columns: [table.guildId, table.userId, table.optionId] }),
+    index("onboarding_responses_guild_prompt_idx").on(table.guildId, table.promptId),
+  ]
+);
+
 // ── Guild Widgets ──
 export const guildWidgets = mysqlTable("guild_widgets", {
   guildId: varchar("guild_id", { length: 64 })
@@ -1172,16 +1437,26 @@ export const channelFollowers = mysqlTable(
 );
 
 // ── Guild Previews (for discovery) ──
-export const guildPreviews = mysqlTable("guild_previews", {
-  guildId: varchar("guild_id", { length: 64 })
-    .primaryKey()
-    .references(() => guilds.id, { onDelete: "cascade" }),
-  approximateMemberCount: int("approximate_member_count").notNull().default(0),
-  approximatePresenceCount: int("approximate_presence_count").notNull().default(0),
-  discoverable: boolean("discoverable").notNull().default(false),
-  featuredAt: datetime("featured_at", { mode: "date" }),
-  updatedAt: datetime("updated_at", { mode: "date" }).notNull().default(sql`NOW()`),
-});
+export const guildPreviews = mysqlTable(
+  "guild_previews",
+  {
+    guildId: varchar("guild_id", { length: 64 })
+      .primaryKey()
+      .references(() => guilds.id, { onDelete: "cascade" }),
+    // Refreshed by the discovery counts job
+    approximateMemberCount: int("approximate_member_count").notNull().default(0),
+    approximatePresenceCount: int("approximate_presence_count").notNull().default(0),
+    discoverable: boolean("discoverable").notNull().default(false),
+    category: varchar("category", { length: 32 }),
+    tags: json("tags").$type<string[]>().notNull().default([]),
+    featuredAt: datetime("featured_at", { mode: "date" }),
+    updatedAt: datetime("updated_at", { mode: "date" }).notNull().default(sql`NOW()`),
+  },
+  (table) => [
+    index("guild_previews_discoverable_members_idx").on(table.discoverable, table.approximateMemberCount),
+    index("guild_previews_discoverable_presence_idx").on(table.discoverable, table.approximatePresenceCount),
+  ]
+);
 
 // ══════════════════════════════════════════════════════════════════════════════
 // Type Definitions for JSON fields
@@ -1,19 +1,20 @@
 import { createServer } from "http";
-import { createGateway } from "./gateway/index.js";
+import { createGateway, getEventStreamStats } from "./gateway/index.js";
 import { startBackgroundJobs } from "./jobs/index.js";
 
 const PORT = parseInt(process.env.GATEWAY_PORT || "4002");
 let draining = false;
 
-const server = createServer((req, res) => {
+const server = createServer(async (req, res) => {
   if (req.url === "/health") {
     if (draining) {
       res.writeHead(503, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ status: "draining", service: "gateway", pod: process.env.HOSTNAME }));
       return;
     }
+    const eventStream = await getEventStreamStats().catch(() => null);
     res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ status: "ok", service: "gateway", pod: process.env.HOSTNAME }));
+    res.end(JSON.stringify({ status: "ok", service: "gateway", pod: process.env.HOSTNAME, eventStream }));
     return;
   }
   res.writeHead(404);
@@ -0,0 +1,360 @@
+/**
+ * Erlang External Term Format, the `?encoding=etf` gateway wire format.
+ *
+ * Encoding follows what erlpack-based clients expect: strings become binaries,
+ * null/booleans become the atoms nil/true/false, objects become maps with binary
+ * keys, and integers outside int32 become small bigs. Decoding also accepts atoms,
+ * tuples (as arrays), charlists (as arrays of integers) and compressed terms.
+ */
+import zlib from "zlib";
+
+const FORMAT_VERSION = 131;
+
+const NEW_FLOAT_EXT = 70;
+const COMPRESSED = 80;
+const SMALL_INTEGER_EXT = 97;
+const INTEGER_EXT = 98;
+const FLOAT_EXT = 99;
+const ATOM_EXT = 100;
+const SMALL_TUPLE_EXT = 104;
+const LARGE_TUPLE_EXT = 105;
+const NIL_EXT = 106;
+const STRING_EXT = 107;
+const LIST_EXT = 108;
+const BINARY_EXT = 109;
+const SMALL_BIG_EXT = 110;
+const LARGE_BIG_EXT = 111;
+const SMALL_ATOM_EXT = 115;
+const MAP_EXT = 116;
+const ATOM_UTF8_EXT = 118;
+const SMALL_ATOM_UTF8_EXT = 119;
+
+export class EtfError extends Error {}
+
+// ── Encoding ──
+
+class Writer {
+  private buffer = Buffer.allocUnsafe(1024);
+  private offset = 0;
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes <= this.buffer.length) return;
+    const next = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + bytes));
+    this.buffer.copy(next, 0, 0, this.offset);
+    this.buffer = next;
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.buffer.writeUInt8(value, this.offset++);
+  }
+
+  u16(value: number) {
+    this.ensure(2);
+    this.buffer.writeUInt16BE(value, this.offset);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.ensure(4);
+    this.buffer.writeUInt32BE(value, this.offset);
+    this.offset += 4;
+  }
+
+  i32(value: number) {
+    this.ensure(4);
+    this.buffer.writeInt32BE(value, this.offset);
+    this.offset += 4;
+  }
+
+  f64(value: number) {
+    this.ensure(8);
+    this.buffer.writeDoubleBE(value, this.offset);
+    this.offset += 8;
+  }
+
+  bytes(data: Buffer) {
+    this.ensure(data.length);
+    data.copy(this.buffer, this.offset);
+    this.offset += data.length;
+  }
+
+  toBuffer() {
+    return this.buffer.subarray(0, this.offset);
+  }
+}
+
+function writeAtom(w: Writer, name: string) {
+  const data = Buffer.from(name, "utf8");
+  w.u8(SMALL_ATOM_UTF8_EXT);
+  w.u8(data.length);
+  w.bytes(data);
+}
+
+function writeBinary(w: Writer, value: string | Buffer) {
+  const data = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+  w.u8(BINARY_EXT);
+  w.u32(data.length);
+  w.bytes(data);
+}
+
+function writeBig(w: Writer, value: bigint) {
+  const sign = value < 0n ? 1 : 0;
+  let magnitude = sign ? -value : value;
+  const digits: number[] = [];
+  while (magnitude > 0n) {
+    digits.push(Number(magnitude & 0xffn));
+    magnitude >>= 8n;
+  }
+  if (digits.length > 255) throw new EtfError("Integer too large to encode");
+  w.u8(SMALL_BIG_EXT);
+  w.u8(digits.length);
+  w.u8(sign);
+  w.bytes(Buffer.from(digits));
+}
+
+function writeTerm(w: Writer, value: unknown, depth: number) {
+  if (depth > 256) throw new EtfError("Term nesting too deep");
+
+  if (value === null || value === undefined) return writeAtom(w, "nil");
+  if (typeof value === "boolean") return writeAtom(w, value ? "true" : "false");
+  if (typeof value === "string") return writeBinary(w, value);
+  if (typeof value === "bigint") return writeBig(w, value);
+
+  if (typeof value === "number") {
+    if (Number.isInteger(value)) {
+      if (value >= 0 && value <= 255) {
+        w.u8(SMALL_INTEGER_EXT);
+        w.u8(value);
+      } else if (value >= -0x80000000 && value <= 0x7fffffff) {
+        w.u8(INTEGER_EXT);
+        w.i32(value);
+      } else {
+        writeBig(w, BigInt(value));
+      }
+    } else {
+      w.u8(NEW_FLOAT_EXT);
+      w.f64(value);
+    }
+    return;
+  }
+
+  if (Buffer.isBuffer(value)) return writeBinary(w, value);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return w.u8(NIL_EXT);
+    w.u8(LIST_EXT);
+    w.u32(value.length);
+    for (const item of value) writeTerm(w, item, depth + 1);
+    w.u8(NIL_EXT);
+    return;
+  }
+
+  if (typeof value === "object") {
+    // Match JSON semantics for Date and anything else with toJSON
+    const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+    if (typeof toJSON === "function") return writeTerm(w, toJSON.call(value), depth + 1);
+
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined && typeof v !== "function");
+    w.u8(MAP_EXT);
+    w.u32(entries.length);
+    for (const [key, v] of entries) {
+      writeBinary(w, key);
+      writeTerm(w, v, depth + 1);
+    }
+    return;
+  }
+
+  throw new EtfError(`Cannot encode ${typeof value}`);
+}
+
+/** Encode a single term without the version byte, for splicing into a larger term. */
+export function encodeTerm(value: unknown): Buffer {
+  const w = new Writer();
+  writeTerm(w, value, 0);
+  return w.toBuffer();
+}
+
+export function encode(value: unknown): Buffer {
+  const w = new Writer();
+  w.u8(FORMAT_VERSION);
+  writeTerm(w, value, 0);
+  return w.toBuffer();
+}
+
+/**
+ * Encode a DISPATCH payload around an already-encoded `d` term, so a room
+ * broadcast encodes the event data once and only the sequence differs per socket.
+ */
+export function encodeDispatch(op: number, event: string, seq: number, encodedData: Buffer): Buffer {
+  const w = new Writer();
+  w.u8(FORMAT_VERSION);
+  w.u8(MAP_EXT);
+  w.u32(4);
+  writeBinary(w, "op");
+  writeTerm(w, op, 0);
+  writeBinary(w, "t");
+  writeBinary(w, event);
+  writeBinary(w, "s");
+  writeTerm(w, seq, 0);
+  writeBinary(w, "d");
+  w.bytes(encodedData);
+  return w.toBuffer();
+}
+
+// ── Decoding ──
+
+class Reader {
+  offset = 0;
+  constructor(private readonly buffer: Buffer) {}
+
+  private need(bytes: number) {
+    if (this.offset + bytes > this.buffer.length) throw new EtfError("Unexpected end of term");
+  }
+
+  u8() {
+    this.need(1);
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  u16() {
+    this.need(2);
+    const v = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return v;
+  }
+
+  u32() {
+    this.need(4);
+    const v = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return v;
+  }
+
+  i32() {
+    this.need(4);
+    const v = this.buffer.readInt32BE(this.offset);
+    this.offset += 4;
+    return v;
+  }
+
+  f64() {
+    this.need(8);
+    const v = this.buffer.readDoubleBE(this.offset);
+    this.offset += 8;
+    return v;
+  }
+
+  bytes(length: number) {
+    this.need(length);
+    const v = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return v;
+  }
+
+  get remaining() {
+    return this.buffer.length - this.offset;
+  }
+}
+
+function atomValue(name: string): unknown {
+  if (name === "nil" || name === "null") return null;
+  if (name === "true") return true;
+  if (name === "false") return false;
+  return name;
+}
+
+function readBig(r: Reader, length: number): number | string {
+  const sign = r.u8();
+  const digits = r.bytes(length);
+  let value = 0n;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(digits[i]!);
+  }
+  if (sign) value = -value;
+  // Snowflake-sized values come back as strings, like the JSON encoding
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
+
+// Caps a declared length at what the remaining input could possibly hold, so a
+// forged header can't make us allocate huge arrays
+function checkedCount(r: Reader, count: number, minBytesEach: number) {
+  if (count * minBytesEach > r.remaining) throw new EtfError("Declared length exceeds input");
+  return count;
+}
+
+function readTerm(r: Reader, depth: number): unknown {
+  if (depth > 256) throw new EtfError("Term nesting too deep");
+  const tag = r.u8();
+
+  switch (tag) {
+    case SMALL_INTEGER_EXT:
+      return r.u8();
+    case INTEGER_EXT:
+      return r.i32();
+    case NEW_FLOAT_EXT:
+      return r.f64();
+    case FLOAT_EXT:
+      return parseFloat(r.bytes(31).toString("latin1").replace(/\0+$/, ""));
+    case ATOM_EXT:
+    case ATOM_UTF8_EXT:
+      return atomValue(r.bytes(r.u16()).toString(tag === ATOM_EXT ? "latin1" : "utf8"));
+    case SMALL_ATOM_EXT:
+    case SMALL_ATOM_UTF8_EXT:
+      return atomValue(r.bytes(r.u8()).toString(tag === SMALL_ATOM_EXT ? "latin1" : "utf8"));
+    case BINARY_EXT:
+      return r.bytes(r.u32()).toString("utf8");
+    case STRING_EXT:
+      return [...r.bytes(r.u16())];
+    case NIL_EXT:
+      return [];
+    case LIST_EXT: {
+      const count = checkedCount(r, r.u32(), 1);
+      const list = new Array(count);
+      for (let i = 0; i < count; i++) list[i] = readTerm(r, depth + 1);
+      // Proper lists end in NIL; improper tails are dropped
+      readTerm(r, depth + 1);
+      return list;
+    }
+    case SMALL_TUPLE_EXT:
+    case LARGE_TUPLE_EXT: {
+      const count = checkedCount(r, tag === SMALL_TUPLE_EXT ? r.u8() : r.u32(), 1);
+      const tuple = new Array(count);
+      for (let i = 0; i < count; i++) tuple[i] = readTerm(r, depth + 1);
+      return tuple;
+    }
+    case MAP_EXT: {
+      const count = checkedCount(r, r.u32(), 2);
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < count; i++) {
+        const key = readTerm(r, depth + 1);
+        const value = readTerm(r, depth + 1);
+        if (key === "__proto__") continue;
+        map[String(key)] = value;
+      }
+      return map;
+    }
+    case SMALL_BIG_EXT:
+      return readBig(r, r.u8());
+    case LARGE_BIG_EXT:
+      return readBig(r, r.u32());
+    default:
+      throw new EtfError(`Unsupported term tag ${tag}`);
+  }
+}
+
+export function decode(data: Buffer, maxSize = 1_000_000): unknown {
+  const r = new Reader(data);
+  if (r.u8() !== FORMAT_VERSION) throw new EtfError("Missing ETF version byte");
+
+  if (data[1] === COMPRESSED) {
+    r.u8();
+    const size = r.u32();
+    if (size > maxSize) throw new EtfError("Compressed term too large");
+    const inflated = zlib.inflateSync(r.bytes(r.remaining), { maxOutputLength: size });
+    return readTerm(new Reader(inflated), 0);
+  }
+  return readTerm(r, 0);
+}
@@ -6,7 +6,9 @@ import crypto from "crypto";
 import { env } from "../config/env.js";
 import { config } from "../config/config.js";
 import { redisPub, redisSub, redis } from "../config/redis.js";
-import { verifyToken, getUserById } from "../services/auth.service.js";
+import { verifyToken, getUserById, ApiError } from "../services/auth.service.js";
+import * as voiceService from "../services/voice.service.js";
+import { USER_SESSIONS_PREFIX } from "../services/notification-delivery.service.js";
 import { getUserGuilds } from "../services/guild.service.js";
 import { getReadStates } from "../services/readstate.service.js";
 import { getRelationships, getUserDMChannels } from "../services/relationship.service.js";
@@ -22,6 +24,27 @@ import type {
 } from "@yxc/gateway-types";
 import { memberRepository } from "../repositories/member.repository.js";
 import { userRepository } from "../repositories/user.repository.js";
+import { GatewayTransport, PreparedDispatch, parseTransportOptions } from "./transport.js";
+import {
+  canViewChannel,
+  CHANNEL_STRUCTURE_EVENTS,
+  dispatchChannelId,
+  dispatchPermission,
+  hasGuildPermission,
+  invalidateGuild,
+  invalidateMember,
+  preloadMembers,
+} from "./visibility.js";
+import type { ChannelVisibilityCache } from "./visibility.js";
+import {
+  compareStreamIds,
+  getConsumerGroupStats,
+  getLatestStreamId,
+  readEventsAfter,
+  streamIdTime,
+  subscribeChangeFeed,
+  DURABLE_EVENTS,
+} from "../utils/event-stream.js";
 
 // ── Constants ──
 
@@ -35,6 +58,9 @@ const RESUME_BUFFER_TTL = 300; // 5 minutes
 const RESUME_CIRCUIT_BREAKER_THRESHOLD = 500_000;
 const MAX_CONNECTIONS = 500_000;
 const WS_PING_INTERVAL = 30_000; // 30s TCP-level liveness check
+const STREAM_GAP_GRACE_MS = 2000; // how long pub/sub gets to deliver a stream entry before we do
+const STREAM_GAP_MAX_AGE_MS = 30_000; // older entries are too stale to fill in live
+const STREAM_DELIVERED_MAX = 50_000;
 
 // ── Backpressure thresholds ──
 const HIGH_WATER_MARK = 1 * 1024 * 1024; // 1MB – drop non-critical messages
@@ -100,12 +126,6 @@ function circuitRecordFailure(name: string) {
   }
 }
 
-// ── Request timeout helper ──
-
-function fetchWithTimeout(url: string, options: RequestInit, timeoutMs = 5000): Promise<Response> {
-  return fetch(url, { ...options, signal: AbortSignal.timeout(timeoutMs) });
-}
-
 // ── Shard helper: consistent hash to determine which shard owns a guild ──
 
 function guildShardId(guildId: string): number {
@@ -133,6 +153,9 @@ interface GatewaySession {
   guilds: string[];
   intents: number;
   rateLimits: Record<number, { count: number; windowStart: number }>;
+  channelVisibility: ChannelVisibilityCache;
+  // Durable events sent live while a RESUME replays the stream, so the replay can skip them
+  liveStreamIds?: Set<string>;
 }
 
 // ── Per-opcode rate limits: [maxCount, windowMs] ──
@@ -188,6 +211,8 @@ const EVENT_INTENTS: Record<string, number> = {
   GUILD_AUDIT_LOG_ENTRY_CREATE: GatewayIntentBits.GUILD_MODERATION,
   GUILD_BAN_ADD: GatewayIntentBits.GUILD_MODERATION,
   GUILD_BAN_REMOVE: GatewayIntentBits.GUILD_MODERATION,
+  MODERATION_QUEUE_ADD: GatewayIntentBits.GUILD_MODERATION,
+  MODERATION_QUEUE_UPDATE: GatewayIntentBits.GUILD_MODERATION,
   GUILD_EMOJIS_UPDATE: GatewayIntentBits.GUILD_EMOJIS_AND_STICKERS,
   GUILD_STICKERS_UPDATE: GatewayIntentBits.GUILD_EMOJIS_AND_STICKERS,
   GUILD_INTEGRATIONS_UPDATE: GatewayIntentBits.GUILD_INTEGRATIONS,
@@ -228,6 +253,7 @@ const EVENT_INTENTS: Record<string, number> = {
 const guildRooms = new Map<string, Set<WebSocket>>();
 const userRooms = new Map<string, Set<WebSocket>>();
 const sessions = new Map<WebSocket, GatewaySession>();
+const transports = new Map<WebSocket, GatewayTransport>();
 
 // ── Local resume key counter (avoids redis.dbsize() on every dispatch) ──
 let resumeKeyCount = 0;
@@ -246,25 +272,27 @@ function removeFromRoom(rooms: Map<string, Set<WebSocket>>, key: string, ws: Web
   }
 }
 
-function send(ws: WebSocket, data: unknown) {
-  if (ws.readyState !== WebSocket.OPEN) return;
+/** Apply backpressure limits, then hand a frame to the socket's transport (compression) */
+function canSend(ws: WebSocket): boolean {
+  if (ws.readyState !== WebSocket.OPEN) return false;
   if (ws.bufferedAmount > MAX_BUFFER) {
     ws.terminate(); // Force close slow consumer
-    return;
+    return false;
   }
-  if (ws.bufferedAmount > HIGH_WATER_MARK) return; // Drop message for slow client
-  ws.send(JSON.stringify(data));
+  return ws.bufferedAmount <= HIGH_WATER_MARK; // Drop message for slow client
 }
 
-/** Send a pre-serialized string to avoid re-serializing per socket */
-function sendRaw(ws: WebSocket, serialized: string) {
-  if (ws.readyState !== WebSocket.OPEN) return;
-  if (ws.bufferedAmount > MAX_BUFFER) {
-    ws.terminate();
-    return;
-  }
-  if (ws.bufferedAmount > HIGH_WATER_MARK) return;
-  ws.send(serialized);
+function send(ws: WebSocket, data: GatewayPayload) {
+  const transport = transports.get(ws);
+  if (!transport || !canSend(ws)) return;
+  transport.send(transport.encode(data));
+}
+
+/** Send a dispatch whose data was serialized once for the whole room */
+function sendRaw(ws: WebSocket, prepared: PreparedDispatch, seq: number) {
+  const transport = transports.get(ws);
+  if (!transport || !canSend(ws)) return;
+  transport.send(prepared.frame(transport.encoding, seq));
 }
 
 // ── Redis-backed session storage ──
@@ -279,30 +307,47 @@ async function storeSession(connId: string, session: GatewaySession) {
     guilds: JSON.stringify(session.guilds),
   });
   await redis.expire(key, SESSION_TTL);
+  // Lets notification delivery tell whether the user is connected anywhere
+  await redis.sadd(`${USER_SESSIONS_PREFIX}${session.userId}`, connId);
+  await redis.expire(`${USER_SESSIONS_PREFIX}${session.userId}`, SESSION_TTL);
+  userRepository.touchLastSeen(session.userId).catch((err) => console.error("Failed to record last seen:", err));
 }
 
 async function storeSessionIndex(sessionId: string, connId: string, intents: number) {
   const key = `session_idx:${sessionId}`;
-  await redis.hset(key, { socketId: connId, intents: intents.toString() });
+  // Stream position at disconnect: durable events after it are replayed on RESUME
+  await redis.hset(key, {
+    socketId: connId,
+    intents: intents.toString(),
+    ...(latestStreamId !== "0-0" && { lastStreamId: latestStreamId }),
+  });
   await redis.expire(key, RESUME_WINDOW);
 }
 
-async function getSessionIndex(sessionId: string): Promise<{ socketId: string; intents: number } | null> {
+async function getSessionIndex(
+  sessionId: string
+): Promise<{ socketId: string; intents: number; lastStreamId: string | null } | null> {
   const data = await redis.hgetall(`session_idx:${sessionId}`);
   if (!data || !data.socketId) return null;
-  return { socketId: data.socketId, intents: parseInt(data.intents ?? "0xFFFFFFFF", 10) };
+  return {
+    socketId: data.socketId,
+    intents: parseInt(data.intents ?? "0xFFFFFFFF", 10),
+    lastStreamId: data.lastStreamId || null,
+  };
 }
 
-async function removeSessionRedis(connId: string) {
+async function removeSessionRedis(connId: string, userId: string) {
   await redis.del(`session:${connId}`);
+  await redis.srem(`${USER_SESSIONS_PREFIX}${userId}`, connId);
+  userRepository.touchLastSeen(userId).catch((err) => console.error("Failed to record last seen:", err));
 }
 
 // ── Batched session TTL refresh (pipelines heartbeat Redis ops) ──
-const pendingTTLRefreshes: string[] = [];
+const pendingTTLRefreshes: Array<{ connId: string; userId: string }> = [];
 let ttlFlushTimer: ReturnType<typeof setTimeout> | null = null;
 
-function scheduleSessionTTLRefresh(connId: string) {
-  pendingTTLRefreshes.push(connId);
+function scheduleSessionTTLRefresh(connId: string, userId: string) {
+  pendingTTLRefreshes.push({ connId, userId });
   if (!ttlFlushTimer) {
     ttlFlushTimer = setTimeout(flushTTLRefreshes, 100);
   }
@@ -313,8 +358,9 @@ async function flushTTLRefreshes() {
   if (pendingTTLRefreshes.length === 0) return;
   const batch = pendingTTLRefreshes.splice(0);
   const pipeline = redis.pipeline();
-  for (const connId of batch) {
+  for (const { connId, userId } of batch) {
     pipeline.expire(`session:${connId}`, SESSION_TTL);
+    pipeline.expire(`${USER_SESSIONS_PREFIX}${userId}`, SESSION_TTL);
   }
   await pipeline.exec();
 }
@@ -361,6 +407,146 @@ async function fetchPresences(userIds: string[], guildId: string) {
   }));
 }
 
+// ── Guild fan-out ──
+
+interface GuildDispatch {
+  event: string;
+  data: unknown;
+  channelId: string | null;
+  /** Guild permission required to receive it (moderator-only events) */
+  permission: bigint | null;
+  full: PreparedDispatch;
+  /** MESSAGE_* without content, for sessions lacking the MESSAGE_CONTENT intent */
+  redacted: PreparedDispatch | null;
+}
+
+const guildFanOut = new Map<string, Promise<void>>();
+
+/** Drop cached channel visibility for sessions in a room, or for one of its members */
+function clearChannelVisibility(guildId: string, userId?: string) {
+  const sockets = userId ? userRooms.get(userId) : guildRooms.get(guildId);
+  for (const ws of sockets ?? []) {
+    sessions.get(ws)?.channelVisibility.delete(guildId);
+  }
+}
+
+// Pre-compute redacted data once for MESSAGE_* events; each variant is serialized once per encoding
+function prepareGuildDispatch(event: string, data: unknown): GuildDispatch {
+  const isMessageEvent = event.startsWith("MESSAGE_") && data && typeof data === "object";
+  return {
+    event,
+    data,
+    channelId: dispatchChannelId(event, data),
+    permission: dispatchPermission(event),
+    full: new PreparedDispatch(event, data),
+    redacted: isMessageEvent
+      ? new PreparedDispatch(event, {
+        ...(data as Record<string, unknown>), content: "", embeds: [], attachments: [], components: [],
+      })
+      : null,
+  };
+}
+
+/** The variant of a guild dispatch this session gets, or null if it shouldn't get it */
+async function dispatchForSession(
+  session: GatewaySession,
+  guildId: string,
+  dispatch: GuildDispatch
+): Promise<PreparedDispatch | null> {
+  const requiredIntent = EVENT_INTENTS[dispatch.event];
+  if (requiredIntent && (session.intents & requiredIntent) === 0) return null;
+  if (dispatch.channelId && !(await canViewChannel(session.channelVisibility, guildId, session.userId, dispatch.channelId))) {
+    return null;
+  }
+  if (dispatch.permission && !(await hasGuildPermission(guildId, session.userId, dispatch.permission))) {
+    return null;
+  }
+
+  // Redact MESSAGE_CONTENT for clients without the intent
+  if (dispatch.redacted && (session.intents & GatewayIntentBits.MESSAGE_CONTENT) === 0) {
+    const messageData = dispatch.data as Record<string, unknown>;
+    const mentions = (messageData.mentions as string[]) ?? [];
+    const authorId = messageData.authorId as string;
+    if (authorId !== session.userId && !mentions.includes(session.userId)) {
+      return dispatch.redacted;
+    }
+  }
+  return dispatch.full;
+}
+
+async function fanOutGuildEvent(guildId: string, parsed: { event: string; data: unknown; streamId?: string }) {
+  const sockets = guildRooms.get(guildId);
+  if (!sockets) return;
+
+  if (CHANNEL_STRUCTURE_EVENTS.has(parsed.event)) {
+    invalidateGuild(guildId);
+    clearChannelVisibility(guildId);
+  } else if (parsed.event === "GUILD_MEMBER_UPDATE" || parsed.event === "GUILD_MEMBER_REMOVE") {
+    const member = parsed.data as { userId?: string; user?: { id?: string } } | null;
+    const userId = member?.userId ?? member?.user?.id;
+    if (userId) {
+      invalidateMember(guildId, userId);
+      clearChannelVisibility(guildId, userId);
+    }
+  }
+
+  const dispatch = prepareGuildDispatch(parsed.event, parsed.data);
+  // Channel- and permission-scoped events only go to sessions allowed to see them
+  if (dispatch.channelId || dispatch.permission) {
+    preloadMembers(guildId, [...sockets].flatMap((ws) => sessions.get(ws)?.userId ?? []));
+  }
+
+  // Snapshot: the room can change while visibility checks wait
+  for (const ws of [...sockets]) {
+    const socketSession = sessions.get(ws);
+    if (!socketSession) continue;
+    const prepared = await dispatchForSession(socketSession, guildId, dispatch);
+    if (!prepared) continue;
+
+    const seq = socketSession.sequence++;
+    sendRaw(ws, prepared, seq);
+    if (parsed.streamId) socketSession.liveStreamIds?.add(parsed.streamId);
+    pushResumeEvent(socketSession.sessionId, { op: GatewayOp.DISPATCH, t: parsed.event as any, s: seq, d: prepared.data });
+  }
+}
+
+/** Visibility checks may wait on the database; queue per guild so events keep their order */
+function queueGuildFanOut(guildId: string, parsed: { event: string; data: unknown; streamId?: string }) {
+  const queued = (guildFanOut.get(guildId) ?? Promise.resolve())
+    .then(() => fanOutGuildEvent(guildId, parsed))
+    .catch((err) => console.error("Guild fan-out failed:", err));
+  guildFanOut.set(guildId, queued);
+  void queued.then(() => {
+    if (guildFanOut.get(guildId) === queued) guildFanOut.delete(guildId);
+  });
+}
+
+// ── Durable event stream ──
+
+// Stream entries this pod already fanned out (insertion-ordered, oldest evicted first)
+const deliveredStreamIds = new Set<string>();
+let latestStreamId = "0-0";
+let streamGapsFilled = 0;
+let streamGroup: string | null = null;
+
+/** Record a durable event as delivered; false if it already was */
+function markStreamDelivered(streamId: string): boolean {
+  if (deliveredStreamIds.has(streamId)) return false;
+  deliveredStreamIds.add(streamId);
+  if (deliveredStreamIds.size > STREAM_DELIVERED_MAX) {
+    deliveredStreamIds.delete(deliveredStreamIds.values().next().value!);
+  }
+  if (compareStreamIds(streamId, latestStreamId) > 0) latestStreamId = streamId;
+  return true;
+}
+
+/** Consumer lag of this pod's stream reader, for health checks */
+export async function getEventStreamStats() {
+  if (!streamGroup) return null;
+  const stats = await getConsumerGroupStats(streamGroup);
+  return { group: streamGroup, lag: stats?.lag ?? null, pending: stats?.pending ?? 0, gapsFilled: streamGapsFilled };
+}
+
 // ── Gateway factory ──
 
 export function createGateway(httpServer: HttpServer): WebSocketServer {
@@ -375,8 +561,15 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
 
   // Handle HTTP upgrade for /gateway path
   httpServer.on("upgrade", (request, socket, head) => {
-    const pathname = new URL(request.url!, `http://${request.headers.host}`).pathname;
-    if (pathname === "/gateway") {
+    const url = new URL(request.url!, `http://${request.headers.host}`);
+    if (url.pathname === "/gateway") {
+      const transportOptions = parseTransportOptions(url.searchParams);
+      if (!transportOptions) {
+        socket.write("HTTP/1.1 400 Bad Request\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
       if (sessions.size >= MAX_CONNECTIONS) {
         socket.write("HTTP/1.1 503 Service Unavailable\r\n\r\n");
         socket.destroy();
@@ -393,9 +586,15 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
       }
       connectionsPerIp.set(ip, currentCount + 1);
 
+      // zlib-stream already compresses every frame; don't negotiate permessage-deflate on top
+      if (transportOptions.compress) {
+        delete request.headers["sec-websocket-extensions"];
+      }
+
       wss.handleUpgrade(request, socket, head, (ws) => {
         // Attach IP for decrement on close
         (ws as any).__ip = ip;
+        transports.set(ws, new GatewayTransport(ws, transportOptions));
         wss.emit("connection", ws, request);
       });
     }
@@ -445,52 +644,57 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
   // Subscribe to all guild events (filtering happens in handler via room membership)
   // and all user events (DMs, session invalidation)
   gatewaySub.psubscribe("gateway:guild:*", "gateway:user:*");
+  // Permission changes, on the same connection so they arrive in order with guild events
+  gatewaySub.subscribe("perm:invalidate");
   console.log(`Gateway shard ${SHARD_ID}/${NUM_SHARDS} subscribed to pub/sub`);
 
+  gatewaySub.on("message", (_channel, message) => {
+    try {
+      const { userId, guildId } = JSON.parse(message) as { userId?: string; guildId?: string };
+      if (!guildId) return;
+      if (userId) {
+        invalidateMember(guildId, userId);
+        clearChannelVisibility(guildId, userId);
+      } else {
+        invalidateGuild(guildId);
+        clearChannelVisibility(guildId);
+      }
+    } catch {
+      // ignore
+    }
+  });
+
+  // Read the durable stream too, and deliver what pub/sub dropped. Every pod needs
+  // every event, so each reads through its own (ephemeral) consumer group.
+  const streamFeed = subscribeChangeFeed({
+    group: `gateway:${process.env.HOSTNAME || crypto.randomUUID()}:${process.pid}`,
+    consumer: "gateway",
+    ephemeral: true,
+    events: DURABLE_EVENTS,
+    handler: async (entry) => {
+      if (entry.type !== "guild" || deliveredStreamIds.has(entry.id) || !guildRooms.has(entry.target)) return;
+      const age = Date.now() - streamIdTime(entry.id);
+      if (age > STREAM_GAP_MAX_AGE_MS) return;
+
+      // Usually pub/sub is just behind; only step in once it had its chance
+      setTimeout(() => {
+        if (!markStreamDelivered(entry.id)) return;
+        streamGapsFilled++;
+        queueGuildFanOut(entry.target, { event: entry.event, data: entry.data, streamId: entry.id });
+      }, Math.max(0, STREAM_GAP_GRACE_MS - age));
+    },
+  });
+  streamGroup = streamFeed.group;
+
   gatewaySub.on("pmessage", async (_pattern, channel, message) => {
     try {
-      const parsed = JSON.parse(message) as { event: string; data: unknown };
-      const requiredIntent = EVENT_INTENTS[parsed.event];
+      const parsed = JSON.parse(message) as { event: string; data: unknown; streamId?: string };
 
       if (channel.startsWith("gateway:guild:")) {
         const guildId = channel.replace("gateway:guild:", "");
-        const sockets = guildRooms.get(guildId);
-        if (!sockets) return;
-
-        // Pre-compute redacted data once for MESSAGE_* events
-        const isMessageEvent = parsed.event.startsWith("MESSAGE_") && parsed.data && typeof parsed.data === "object";
-        let redactedData: unknown | null = null;
-        if (isMessageEvent) {
-          const messageData = parsed.data as Record<string, unknown>;
-          redactedData = { ...messageData, content: "", embeds: [], attachments: [], components: [] };
-        }
-
-        for (const ws of sockets) {
-          const socketSession = sessions.get(ws);
-          if (!socketSession) continue;
-          if (requiredIntent && (socketSession.intents & requiredIntent) === 0) continue;
-
-          let eventData = parsed.data;
-
-          // Redact MESSAGE_CONTENT for clients without the intent
-          if (isMessageEvent && (socketSession.intents & GatewayIntentBits.MESSAGE_CONTENT) === 0) {
-            const messageData = parsed.data as Record<string, unknown>;
-            const mentions = (messageData.mentions as string[]) ?? [];
-            const authorId = messageData.authorId as string;
-            if (authorId !== socketSession.userId && !mentions.includes(socketSession.userId)) {
-              eventData = redactedData;
-            }
-          }
-
-          const payload: GatewayPayload = {
-            op: GatewayOp.DISPATCH,
-            t: parsed.event as any,
-            s: socketSession.sequence++,
-            d: eventData,
-          };
-          send(ws, payload);
-          pushResumeEvent(socketSession.sessionId, payload);
-        }
+        if (parsed.streamId && !markStreamDelivered(parsed.streamId)) return;
+        if (!guildRooms.has(guildId)) return;
+        queueGuildFanOut(guildId, parsed);
       } else if (channel.startsWith("gateway:user:")) {
         const userId = channel.replace("gateway:user:", "");
 
@@ -505,7 +709,7 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
             if (invalidateData.exceptSocketId && socketSession?.sessionId === invalidateData.exceptSocketId) continue;
             if (socketSession) {
               if (socketSession.heartbeatTimer) clearTimeout(socketSession.heartbeatTimer);
-              await removeSessionRedis(socketSession.connId);
+              await removeSessionRedis(socketSession.connId, socketSession.userId);
               await clearResumeBuffer(socketSession.sessionId);
               sessions.delete(ws);
             }
@@ -518,17 +722,13 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
         const sockets = userRooms.get(userId);
         if (!sockets) return;
 
+        const dispatch = new PreparedDispatch(parsed.event, parsed.data);
         for (const ws of sockets) {
           const socketSession = sessions.get(ws);
           if (!socketSession) continue;
-          const payload: GatewayPayload = {
-            op: GatewayOp.DISPATCH,
-            t: parsed.event as any,
-            s: socketSession.sequence++,
-            d: parsed.data,
-          };
-          send(ws, payload);
-          pushResumeEvent(socketSession.sessionId, payload);
+          const seq = socketSession.sequence++;
+          sendRaw(ws, dispatch, seq);
+          pushResumeEvent(socketSession.sessionId, { op: GatewayOp.DISPATCH, t: parsed.event as any, s: seq, d: parsed.data });
         }
       }
     } catch {
@@ -555,7 +755,9 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
 
     ws.on("message", async (raw: Buffer | string) => {
       try {
-        const payload = JSON.parse(typeof raw === "string" ? raw : raw.toString()) as GatewayPayload;
+        const transport = transports.get(ws);
+        if (!transport) return;
+        const payload = transport.decode(raw);
 
         if (session && !checkOpcodeRateLimit(session, payload.op)) {
           send(ws, { op: GatewayOp.INVALID_SESSION, d: false });
@@ -639,6 +841,8 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
           const pipeline = redisPub.pipeline();
           for (const guildId of session.guilds) {
             removeFromRoom(guildRooms, guildId, ws);
+            // Last session for this guild on the pod: its permission context is no longer needed
+            if (!guildRooms.has(guildId)) invalidateGuild(guildId);
             if (ENABLE_PRESENCE) {
               pipeline.publish(
                 `gateway:guild:${guildId}`,
@@ -653,11 +857,16 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
         }
 
         removeFromRoom(userRooms, session.userId, ws);
+        await voiceService.disconnectConnection(session.userId, session.connId).catch((err) =>
+          console.error("Voice cleanup failed:", err)
+        );
         await storeSessionIndex(session.sessionId, session.connId, session.intents);
-        await removeSessionRedis(session.connId);
+        await removeSessionRedis(session.connId, session.userId);
       }
 
       sessions.delete(ws);
+      transports.get(ws)?.close();
+      transports.delete(ws);
     });
 
     ws.on("error", () => {
@@ -703,6 +912,7 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
         guilds: ownedGuilds.map((g) => g.id),
         intents: data.intents ?? 0xFFFFFFFF,
         rateLimits: {},
+        channelVisibility: new Map(),
       };
 
       sessions.set(ws, session);
@@ -797,17 +1007,22 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
           guilds: ownedGuilds.map((g) => g.id),
           intents: sessionData.intents,
           rateLimits: {},
+          channelVisibility: new Map(),
         };
 
         sessions.set(ws, session);
         await storeSession(connId, session);
         await storeSessionIndex(data.sessionId, connId, session.intents);
 
-        // Rejoin rooms (only owned guilds when sharding)
+        // Rejoin rooms (only owned guilds when sharding) before reading the stream position,
+        // so nothing published in between is missed; what arrives live meanwhile is tracked
+        // and skipped by the replay below
+        if (sessionData.lastStreamId) session.liveStreamIds = new Set();
         for (const guild of ownedGuilds) {
           addToRoom(guildRooms, guild.id, ws);
         }
         addToRoom(userRooms, user.id, ws);
+        const replayUntil = sessionData.lastStreamId ? await getLatestStreamId() : null;
 
         await setPresence(user.id, "online", null);
 
@@ -831,6 +1046,23 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
           session.sequence = (missedEvents[missedEvents.length - 1]!.s ?? data.seq) + 1;
         }
 
+        // The resume buffer only holds what was sent while connected; message events
+        // from the time in between come from the stream
+        if (sessionData.lastStreamId && replayUntil) {
+          const streamEvents = await readEventsAfter(sessionData.lastStreamId, new Set(session.guilds), replayUntil);
+          if (!streamEvents) {
+            send(ws, { op: GatewayOp.INVALID_SESSION, d: true });
+            await clearResumeBuffer(data.sessionId);
+            return;
+          }
+          for (const entry of streamEvents) {
+            if (session.liveStreamIds?.has(entry.id)) continue;
+            const prepared = await dispatchForSession(session, entry.target, prepareGuildDispatch(entry.event, entry.data));
+            if (prepared) sendRaw(ws, prepared, session.sequence++);
+          }
+        }
+
+        session.liveStreamIds = undefined;
         await clearResumeBuffer(data.sessionId);
 
         send(ws, {
@@ -879,71 +1111,36 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
     }
 
     async function handleVoiceStateUpdate(session: GatewaySession, data: VoiceStateUpdatePayload) {
-      const { guildId, channelId, selfMute, selfDeaf } = data;
-      if (!session.guilds.includes(guildId)) return;
-
-      const voiceState = {
-        userId: session.userId,
-        guildId,
-        channelId,
-        selfMute: selfMute ?? false,
-        selfDeaf: selfDeaf ?? false,
-        selfStream: false,
-        selfVideo: false,
-        suppress: false,
-      };
+      if (!session.guilds.includes(data.guildId)) return;
+
+      let voiceState;
+      try {
+        voiceState = await voiceService.updateOwnVoiceState(
+          { userId: session.userId, sessionId: session.sessionId, connId: session.connId },
+          data
+        );
+      } catch (err) {
+        // Full channel, missing CONNECT etc.: the join is simply not applied
+        if (err instanceof ApiError) return;
+        throw err;
+      }
 
-      if (config.stream.url && circuitAllowRequest("voice")) {
+      if (voiceState && config.stream.url && circuitAllowRequest("voice")) {
         try {
-          const headers: Record<string, string> = { "Content-Type": "application/json" };
-          if (config.stream.internalKey) headers["x-internal-key"] = config.stream.internalKey;
-
-          if (channelId) {
-            const res = await fetchWithTimeout(`${config.stream.url}/api/voice/${guildId}/${channelId}/join`, {
-              method: "POST",
-              headers,
-              body: JSON.stringify({
-                userId: session.userId,
-                username: "User",
-                channelType: 2,
-                selfMute: selfMute ?? false,
-                selfDeaf: selfDeaf ?? false,
-              }),
-            }, 5000);
-            circuitRecordSuccess("voice");
-            if (res.ok) {
-              const body = await res.json() as { livekitToken?: string; livekitUrl?: string };
-              if (body.livekitToken && body.livekitUrl) {
-                const vsuPayload = JSON.stringify({
-                  event: "VOICE_SERVER_UPDATE",
-                  data: { guildId, channelId, token: body.livekitToken, endpoint: body.livekitUrl },
-                });
-                await redisPub.publish(`gateway:user:${session.userId}`, vsuPayload);
-              }
-            }
-          } else {
-            await fetchWithTimeout(`${config.stream.url}/api/voice/${guildId}/leave`, {
-              method: "POST",
-              headers,
-              body: JSON.stringify({ userId: session.userId }),
-            }, 5000);
-            circuitRecordSuccess("voice");
-          }
+          await voiceService.connectMedia(voiceState);
+          circuitRecordSuccess("voice");
         } catch (err) {
           circuitRecordFailure("voice");
           console.error("Voice service forwarding failed (circuit:", getCircuit("voice").state, "):", err);
         }
       }
-
-      const vsPayload = JSON.stringify({ event: "VOICE_STATE_UPDATE", data: voiceState });
-      await redisPub.publish(`gateway:guild:${guildId}`, vsPayload);
     }
 
     async function handleHeartbeat(ws: WebSocket) {
       if (session) {
         session.lastHeartbeat = Date.now();
         resetHeartbeatTimer(ws);
-        scheduleSessionTTLRefresh(session.connId);
+        scheduleSessionTTLRefresh(session.connId, session.userId);
         if (ENABLE_PRESENCE) {
           redis.expire(`presence:${session.userId}`, PRESENCE_TTL);
         }
@@ -1048,6 +1245,7 @@ export function createGateway(httpServer: HttpServer): WebSocketServer {
     guildRooms.clear();
     userRooms.clear();
     await gatewaySub.quit();
+    await streamFeed.stop();
   };
 
   process.on("SIGTERM", shutdown);
@@ -1090,23 +1288,21 @@ export function dispatchToGuild(guildId: string, event: string, data: unknown) {
   const sockets = guildRooms.get(guildId);
   if (!sockets) return;
   // Serialize the data portion once; only sequence differs per socket
-  const dataStr = JSON.stringify(data);
+  const dispatch = new PreparedDispatch(event, data);
   for (const ws of sockets) {
     const socketSession = sessions.get(ws);
     if (!socketSession) continue;
-    const seq = socketSession.sequence++;
-    sendRaw(ws, `{"op":${GatewayOp.DISPATCH},"t":"${event}","s":${seq},"d":${dataStr}}`);
+    sendRaw(ws, dispatch, socketSession.sequence++);
   }
 }
 
 export function dispatchToUser(userId: string, event: string, data: unknown) {
   const sockets = userRooms.get(userId);
   if (!sockets) return;
-  const dataStr = JSON.stringify(data);
+  const dispatch = new PreparedDispatch(event, data);
   for (const ws of sockets) {
     const socketSession = sessions.get(ws);
     if (!socketSession) continue;
-    const seq = socketSession.sequence++;
-    sendRaw(ws, `{"op":${GatewayOp.DISPATCH},"t":"${event}","s":${seq},"d":${dataStr}}`);
+    sendRaw(ws, dispatch, socketSession.sequence++);
   }
 }
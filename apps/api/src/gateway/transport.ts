@@ -0,0 +1,103 @@
+/**
+ * Per-connection wire format for the gateway, negotiated from the connection URL:
+ * `?encoding=json|etf` and `?compress=zlib-stream`.
+ *
+ * With zlib-stream every server frame is deflated through one zlib context that
+ * lives as long as the connection and is flushed with Z_SYNC_FLUSH, so each frame
+ * ends in 00 00 ff ff and clients inflate them all through one shared inflater.
+ */
+import zlib from "zlib";
+import { WebSocket } from "ws";
+import type { GatewayPayload } from "@yxc/gateway-types";
+import { GatewayOp } from "@yxc/gateway-types";
+import * as etf from "./etf.js";
+
+export type GatewayEncoding = "json" | "etf";
+export type GatewayCompression = "zlib-stream" | null;
+
+export interface TransportOptions {
+  encoding: GatewayEncoding;
+  compress: GatewayCompression;
+}
+
+/**
+ * Read transport options from the upgrade URL. Returns null for values we don't
+ * support so the upgrade can be refused instead of silently falling back.
+ */
+export function parseTransportOptions(params: URLSearchParams): TransportOptions | null {
+  const encoding = params.get("encoding") ?? "json";
+  const compress = params.get("compress");
+  if (encoding !== "json" && encoding !== "etf") return null;
+  if (compress !== null && compress !== "zlib-stream") return null;
+  return { encoding, compress };
+}
+
+/**
+ * A dispatch's data, serialized at most once per encoding no matter how many
+ * sockets in a room receive it. Only the sequence number is per socket.
+ */
+export class PreparedDispatch {
+  private json?: string;
+  private etf?: Buffer;
+
+  constructor(readonly event: string, readonly data: unknown) {}
+
+  frame(encoding: GatewayEncoding, seq: number): string | Buffer {
+    if (encoding === "etf") {
+      this.etf ??= etf.encodeTerm(this.data);
+      return etf.encodeDispatch(GatewayOp.DISPATCH, this.event, seq, this.etf);
+    }
+    this.json ??= JSON.stringify(this.data) ?? "null";
+    return `{"op":${GatewayOp.DISPATCH},"t":${JSON.stringify(this.event)},"s":${seq},"d":${this.json}}`;
+  }
+}
+
+export class GatewayTransport {
+  readonly encoding: GatewayEncoding;
+  private deflate: zlib.Deflate | null = null;
+  private pending: Buffer[] = [];
+
+  constructor(private readonly ws: WebSocket, options: TransportOptions) {
+    this.encoding = options.encoding;
+    if (options.compress === "zlib-stream") {
+      this.deflate = zlib.createDeflate({ level: zlib.constants.Z_BEST_SPEED });
+      this.deflate.on("data", (chunk: Buffer) => this.pending.push(chunk));
+      this.deflate.on("error", () => this.ws.terminate());
+    }
+  }
+
+  encode(payload: GatewayPayload): string | Buffer {
+    return this.encoding === "etf" ? etf.encode(payload) : JSON.stringify(payload);
+  }
+
+  decode(raw: Buffer | string): GatewayPayload {
+    if (this.encoding === "etf") {
+      if (typeof raw === "string") throw new etf.EtfError("ETF frames must be binary");
+      return etf.decode(raw) as GatewayPayload;
+    }
+    return JSON.parse(typeof raw === "string" ? raw : raw.toString()) as GatewayPayload;
+  }
+
+  /** Send an already-encoded frame, compressing it into the connection's zlib stream if enabled. */
+  send(frame: string | Buffer) {
+    if (!this.deflate) {
+      this.ws.send(frame);
+      return;
+    }
+    // Flush callbacks run in write order, so frames go out in the order they were sent
+    this.deflate.write(frame);
+    this.deflate.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+      const compressed = Buffer.concat(this.pending);
+      this.pending = [];
+      if (compressed.length > 0 && this.ws.readyState === WebSocket.OPEN) {
+        this.ws.send(compressed);
+      }
+    });
+  }
+
+  close() {
+    this.deflate?.destroy();
+    this.deflate = null;
+    this.pending = [];
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Channel-aware fan-out for guild events. Each pod keeps the permission inputs
+ * (owner, roles, channel overwrites and member roles) for the guilds it serves and
+ * runs `computePermissions` locally, so checking VIEW_CHANNEL for every socket in a
+ * room doesn't hit the database per event. Sessions cache the answer per channel;
+ * callers drop both caches when permissions change.
+ */
+import { computePermissions, PermissionFlags } from "@yxc/permissions";
+import type { PermissionOverwrite, RolePermission } from "@yxc/permissions";
+import { ChannelType } from "@yxc/types";
+import { guildRepository } from "../repositories/guild.repository.js";
+import { roleRepository } from "../repositories/role.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { permissionRepository } from "../repositories/permission.repository.js";
+import { memberRepository } from "../repositories/member.repository.js";
+import { threadRepository } from "../repositories/thread.repository.js";
+
+/** Per-session cache: guildId -> channelId -> can view */
+export type ChannelVisibilityCache = Map<string, Map<string, boolean>>;
+
+interface GuildPermissionContext {
+  ownerId: string;
+  everyoneRole: RolePermission;
+  roles: Map<string, RolePermission>;
+  channels: Map<string, { type: number; parentId: string | null; overwrites: PermissionOverwrite[] }>;
+  loadedAt: number;
+}
+
+/** Guild events about a single channel; only members who can see that channel get them */
+const CHANNEL_SCOPED_EVENTS = new Set([
+  "MESSAGE_CREATE",
+  "MESSAGE_UPDATE",
+  "MESSAGE_DELETE",
+  "MESSAGE_DELETE_BULK",
+  "MESSAGE_REACTION_ADD",
+  "MESSAGE_REACTION_REMOVE",
+  "MESSAGE_REACTION_REMOVE_ALL",
+  "MESSAGE_REACTION_REMOVE_EMOJI",
+  "MESSAGE_POLL_VOTE_ADD",
+  "MESSAGE_POLL_VOTE_REMOVE",
+  "TYPING_START",
+  "CHANNEL_PINS_UPDATE",
+  "WEBHOOKS_UPDATE",
+  "THREAD_CREATE",
+  "THREAD_UPDATE",
+  "THREAD_DELETE",
+]);
+
+/** Guild events only members with a guild-level permission get */
+const PERMISSION_SCOPED_EVENTS = new Map<string, bigint>([
+  ["MODERATION_QUEUE_ADD", PermissionFlags.MODERATE_MEMBERS],
+  ["MODERATION_QUEUE_UPDATE", PermissionFlags.MODERATE_MEMBERS],
+  ["AUTO_MODERATION_RULE_CREATE", PermissionFlags.MANAGE_GUILD],
+  ["AUTO_MODERATION_RULE_UPDATE", PermissionFlags.MANAGE_GUILD],
+  ["AUTO_MODERATION_RULE_DELETE", PermissionFlags.MANAGE_GUILD],
+  ["AUTO_MODERATION_ACTION_EXECUTION", PermissionFlags.MANAGE_GUILD],
+]);
+
+/** Events after which a guild's cached channel list or overwrites may be stale */
+export const CHANNEL_STRUCTURE_EVENTS = new Set([
+  "CHANNEL_CREATE",
+  "CHANNEL_UPDATE",
+  "CHANNEL_DELETE",
+  "THREAD_CREATE",
+  "THREAD_DELETE",
+]);
+
+const THREAD_TYPES = new Set<number>([
+  ChannelType.ANNOUNCEMENT_THREAD,
+  ChannelType.PUBLIC_THREAD,
+  ChannelType.PRIVATE_THREAD,
+]);
+
+// A channel we don't know about triggers a reload, at most this often per guild
+const UNKNOWN_CHANNEL_RELOAD_MS = 5000;
+
+const guildContexts = new Map<string, Promise<GuildPermissionContext | null>>();
+/** guildId -> userId -> role IDs, loaded in batches as members show up in fan-out */
+const memberRoles = new Map<string, Map<string, Promise<string[]>>>();
+/** guildId -> userId -> private threads they joined, loaded the first time one of them matters */
+const memberThreads = new Map<string, Map<string, Promise<Set<string>>>>();
+
+/**
+ * The channel a guild event is scoped to, or null if every member of the guild
+ * should get it. Thread events are checked against the parent channel, except for
+ * private threads, which are checked against the thread itself. THREAD_DELETE only
+ * carries IDs and the thread is gone by then, so it goes to the parent's viewers.
+ */
+export function dispatchChannelId(event: string, data: unknown): string | null {
+  if (!CHANNEL_SCOPED_EVENTS.has(event) || !data || typeof data !== "object") return null;
+  const d = data as Record<string, unknown>;
+  if (event.startsWith("THREAD_")) {
+    if (d.type === ChannelType.PRIVATE_THREAD && typeof d.id === "string") return d.id;
+    if (typeof d.parentId === "string" && d.parentId) return d.parentId;
+    return typeof d.id === "string" ? d.id : null;
+  }
+  return typeof d.channelId === "string" ? d.channelId : null;
+}
+
+/** The guild permission a member needs to get this event, or null */
+export function dispatchPermission(event: string): bigint | null {
+  return PERMISSION_SCOPED_EVENTS.get(event) ?? null;
+}
+
+async function loadGuildContext(guildId: string): Promise<GuildPermissionContext | null> {
+  const [guild, roles, channels, overwrites] = await Promise.all([
+    guildRepository.findOwnerById(guildId),
+    roleRepository.findByGuildId(guildId),
+    channelRepository.findByGuildId(guildId),
+    permissionRepository.findOverwritesByGuildId(guildId),
+  ]);
+  const everyone = roles.find((r) => r.name === "@everyone");
+  if (!guild || !everyone) return null;
+
+  const rolePermissions = new Map<string, RolePermission>(
+    roles.map((r) => [r.id, { id: r.id, permissions: BigInt(r.permissions), position: r.position }])
+  );
+
+  const channelMap: GuildPermissionContext["channels"] = new Map(
+    channels.map((c) => [c.id, { type: c.type, parentId: c.parentId, overwrites: [] }])
+  );
+  for (const o of overwrites) {
+    channelMap.get(o.channelId)?.overwrites.push({
+      id: o.targetId,
+      type: o.targetType as 0 | 1,
+      allow: BigInt(o.allow),
+      deny: BigInt(o.deny),
+    });
+  }
+
+  return {
+    ownerId: guild.ownerId,
+    everyoneRole: rolePermissions.get(everyone.id)!,
+    roles: rolePermissions,
+    channels: channelMap,
+    loadedAt: Date.now(),
+  };
+}
+
+function getGuildContext(guildId: string): Promise<GuildPermissionContext | null> {
+  let context = guildContexts.get(guildId);
+  if (!context) {
+    context = loadGuildContext(guildId);
+    guildContexts.set(guildId, context);
+    // Don't cache failures; the next event retries
+    context.catch(() => {
+      if (guildContexts.get(guildId) === context) guildContexts.delete(guildId);
+    });
+  }
+  return context;
+}
+
+function loadMemberRoles(guildId: string, userIds: string[]) {
+  let guildMembers = memberRoles.get(guildId);
+  if (!guildMembers) {
+    guildMembers = new Map();
+    memberRoles.set(guildId, guildMembers);
+  }
+  const members = guildMembers;
+  const missing = [...new Set(userIds)].filter((id) => !members.has(id));
+  if (missing.length === 0) return members;
+
+  const batch = memberRepository.getMemberRolesByGuildAndUserIds(guildId, missing).then((rows) => {
+    const byUser = new Map<string, string[]>();
+    for (const row of rows) {
+      const list = byUser.get(row.userId) ?? [];
+      list.push(row.roleId);
+      byUser.set(row.userId, list);
+    }
+    return byUser;
+  });
+  for (const userId of missing) {
+    const roles = batch.then((byUser) => byUser.get(userId) ?? []);
+    members.set(userId, roles);
+    roles.catch(() => {
+      if (members.get(userId) === roles) members.delete(userId);
+    });
+  }
+  return members;
+}
+
+function loadMemberThreads(guildId: string, userId: string) {
+  let guildMembers = memberThreads.get(guildId);
+  if (!guildMembers) {
+    guildMembers = new Map();
+    memberThreads.set(guildId, guildMembers);
+  }
+  const members = guildMembers;
+  let threads = members.get(userId);
+  if (!threads) {
+    const loading = threadRepository.findJoinedPrivateThreadIds(userId, guildId).then((ids) => new Set(ids));
+    members.set(userId, loading);
+    loading.catch(() => {
+      if (members.get(userId) === loading) members.delete(userId);
+    });
+    threads = loading;
+  }
+  return threads;
+}
+
+async function computeVisible(
+  context: GuildPermissionContext,
+  guildId: string,
+  userId: string,
+  roleIds: string[],
+  channelId: string
+) {
+  let channel = context.channels.get(channelId);
+  const privateThread = channel?.type === ChannelType.PRIVATE_THREAD;
+  if (channel && THREAD_TYPES.has(channel.type) && channel.parentId) {
+    channel = context.channels.get(channel.parentId);
+  }
+  // Unknown channel (deleted, or a guild we couldn't load): fail closed
+  if (!channel) return false;
+
+  const permissions = computePermissions({
+    userId,
+    guildOwnerId: context.ownerId,
+    everyoneRole: context.everyoneRole,
+    memberRoles: roleIds.flatMap((id) => context.roles.get(id) ?? []),
+    channelOverwrites: channel.overwrites,
+  });
+  if (!permissions.has(PermissionFlags.VIEW_CHANNEL)) return false;
+  if (!privateThread || permissions.has(PermissionFlags.MANAGE_THREADS)) return true;
+  return (await loadMemberThreads(guildId, userId)).has(channelId);
+}
+
+/**
+ * Load member roles for everyone about to receive a guild event in one query,
+ * instead of one per socket on the first event after an invalidation.
+ */
+export function preloadMembers(guildId: string, userIds: string[]) {
+  loadMemberRoles(guildId, userIds);
+}
+
+export async function canViewChannel(
+  cache: ChannelVisibilityCache,
+  guildId: string,
+  userId: string,
+  channelId: string
+): Promise<boolean> {
+  let guildCache = cache.get(guildId);
+  const cached = guildCache?.get(channelId);
+  if (cached !== undefined) return cached;
+
+  // Hold on to this map: if the cache is invalidated while we load, the stale
+  // answer lands in the detached map instead of the session's new one
+  if (!guildCache) {
+    guildCache = new Map();
+    cache.set(guildId, guildCache);
+  }
+
+  let context = await getGuildContext(guildId);
+  if (context && !context.channels.has(channelId) && Date.now() - context.loadedAt > UNKNOWN_CHANNEL_RELOAD_MS) {
+    // Possibly a channel created after we loaded; reload before failing closed
+    guildContexts.delete(guildId);
+    context = await getGuildContext(guildId);
+  }
+  if (!context) return false;
+
+  const roleIds = await loadMemberRoles(guildId, [userId]).get(userId)!;
+  const visible = await computeVisible(context, guildId, userId, roleIds, channelId);
+  guildCache.set(channelId, visible);
+  return visible;
+}
+
+/** Guild-level permission check (no channel overwrites) against the same cached inputs */
+export async function hasGuildPermission(guildId: string, userId: string, permission: bigint): Promise<boolean> {
+  const context = await getGuildContext(guildId);
+  if (!context) return false;
+
+  const roleIds = await loadMemberRoles(guildId, [userId]).get(userId)!;
+  const permissions = computePermissions({
+    userId,
+    guildOwnerId: context.ownerId,
+    everyoneRole: context.everyoneRole,
+    memberRoles: roleIds.flatMap((id) => context.roles.get(id) ?? []),
+  });
+  return permissions.has(permission);
+}
+
+/** Forget everything cached for a guild (roles, overwrites, channels or ownership changed) */
+export function invalidateGuild(guildId: string) {
+  guildContexts.delete(guildId);
+  memberRoles.delete(guildId);
+  memberThreads.delete(guildId);
+}
+
+/** Forget one member's roles and private thread memberships in a guild */
+export function invalidateMember(guildId: string, userId: string) {
+  memberRoles.get(guildId)?.delete(userId);
+  memberThreads.get(guildId)?.delete(userId);
+}
@@ -24,14 +24,16 @@ import { automodRoutes } from "./rest/routes/automod.js";
 import { verificationRoutes } from "./rest/routes/verification.js";
 import { passkeyRoutes } from "./rest/routes/passkeys.js";
 import { recoveryRoutes } from "./rest/routes/recovery.js";
-import { eventRoutes } from "./rest/routes/events.js";
+import { eventRoutes, publicEventRoutes } from "./rest/routes/events.js";
 import { publicRoutes } from "./rest/routes/public.js";
 import { applicationRoutes } from "./rest/routes/applications.js";
 import { stickerRoutes } from "./rest/routes/stickers.js";
 import { interactionRoutes } from "./rest/routes/interactions.js";
 import { forumTagRoutes } from "./rest/routes/forumTags.js";
 import { sessionRoutes } from "./rest/routes/sessions.js";
-import { createGateway } from "./gateway/index.js";
+import { uploadRoutes } from "./rest/routes/uploads.js";
+import { voiceRoutes } from "./rest/routes/voice.js";
+import { createGateway, getEventStreamStats } from "./gateway/index.js";
 import { startBackgroundJobs } from "./jobs/index.js";
 import { ApiError } from "./services/auth.service.js";
 import { ZodError } from "zod";
@@ -78,7 +80,8 @@ await app.register(cookie);
 // Multipart (file uploads)
 await app.register(multipart, {
   limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB
+    // Routes that honour per-guild limits pass their own `limits.fileSize` per request
+    fileSize: config.uploads.defaultMaxFileSize,
     files: 10,
   },
 });
@@ -176,12 +179,15 @@ await app.register(verificationRoutes, { prefix: "/api" });
 await app.register(passkeyRoutes, { prefix: "/api" });
 await app.register(recoveryRoutes, { prefix: "/api" });
 await app.register(eventRoutes, { prefix: "/api" });
+await app.register(publicEventRoutes, { prefix: "/api" });
 await app.register(publicRoutes, { prefix: "/api" });
 await app.register(applicationRoutes, { prefix: "/api" });
 await app.register(stickerRoutes, { prefix: "/api" });
 await app.register(interactionRoutes, { prefix: "/api" });
 await app.register(forumTagRoutes, { prefix: "/api" });
 await app.register(sessionRoutes, { prefix: "/api" });
+await app.register(uploadRoutes, { prefix: "/api" });
+await app.register(voiceRoutes, { prefix: "/api" });
 await app.register(cdnRoutes); // CDN routes at root (no /api prefix)
 
 // Health check with dependency verification + draining awareness
@@ -209,6 +215,8 @@ app.get("/health", async (_request, reply) => {
   }
   const lag = getEventLoopLag();
   checks.eventLoopLag = `${lag}ms`;
+  const eventStream = await getEventStreamStats().catch(() => null);
+  if (eventStream) checks.eventStreamLag = String(eventStream.lag ?? "unknown");
   if (lag > 500) checks.eventLoop = "degraded";
 
   const allOk = checks.database === "ok" && checks.redis === "ok" && (!checks.eventLoop || checks.eventLoop === "ok");
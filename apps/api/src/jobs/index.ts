@@ -1,7 +1,20 @@
-import { redis, redisPub } from "../config/redis.js";
+import { redis } from "../config/redis.js";
+import { dispatchGuild, dispatchUser } from "../utils/dispatch.js";
+import { cleanupEphemeralGroups } from "../utils/event-stream.js";
 import * as scheduledMessageService from "../services/scheduled-message.service.js";
 import * as messageService from "../services/message.service.js";
 import * as channelService from "../services/channel.service.js";
+import * as searchService from "../services/search.service.js";
+import * as unfurlService from "../services/unfurl.service.js";
+import * as uploadService from "../services/upload.service.js";
+import * as voiceService from "../services/voice.service.js";
+import * as notificationDeliveryService from "../services/notification-delivery.service.js";
+import * as eventService from "../services/event.service.js";
+import * as inviteService from "../services/invite.service.js";
+import * as memberService from "../services/member.service.js";
+import * as threadService from "../services/thread.service.js";
+import * as pollService from "../services/poll.service.js";
+import * as discoveryService from "../services/discovery.service.js";
 import { messageRepository } from "../repositories/message.repository.js";
 import { channelRepository } from "../repositories/channel.repository.js";
 import { userRepository } from "../repositories/user.repository.js";
@@ -11,6 +24,7 @@ const LEADER_KEY = "zent:jobs:leader";
 const LEADER_TTL = 30; // seconds
 const LEADER_RENEW_INTERVAL = 10_000; // 10s
 const MAX_RETRY_ATTEMPTS = 3;
+const SEARCH_BACKFILL_KEY = "zent:jobs:search-backfill";
 
 let isLeader = false;
 
@@ -48,9 +62,7 @@ async function processScheduledMessages() {
 
         const channel = await channelService.getChannel(scheduled.channelId);
         if (channel?.guildId) {
-          const guildId = channel.guildId;
-          const payload = JSON.stringify({ event: "MESSAGE_CREATE", data: message });
-          await redisPub.publish(`gateway:guild:${guildId}`, payload);
+          await dispatchGuild(channel.guildId, "MESSAGE_CREATE", message);
         }
       } catch (err) {
         console.error(`Failed to send scheduled message ${scheduled.id}:`, err);
@@ -83,19 +95,12 @@ async function cleanupExpiredMessages() {
     const channels = await channelRepository.findByIds(uniqueChannelIds);
     const channelMap = new Map(channels.map((c: any) => [c.id, c.guildId]));
 
-    // Pipeline all gateway dispatches
-    const pipeline = redisPub.pipeline();
     for (const msg of expired) {
       const guildId = channelMap.get(msg.channelId);
       if (guildId) {
-        const payload = JSON.stringify({
-          event: "MESSAGE_DELETE",
-          data: { id: msg.id, channelId: msg.channelId, guildId },
-        });
-        pipeline.publish(`gateway:guild:${guildId}`, payload);
+        await dispatchGuild(guildId, "MESSAGE_DELETE", { id: msg.id, channelId: msg.channelId, guildId });
       }
     }
-    await pipeline.exec();
   } catch (err) {
     console.error("Error cleaning up expired messages:", err);
   }
@@ -116,6 +121,221 @@ async function cleanupExpiredGuests() {
   }
 }
 
+// Index messages that predate the search index, one batch every 10 seconds until caught up
+async function backfillSearchIndex() {
+  if (!isLeader) return;
+  try {
+    const cursor = await redis.get(SEARCH_BACKFILL_KEY);
+    if (cursor === "done") return;
+
+    const lastId = await searchService.backfillIndex(cursor ?? "0");
+    if (lastId) {
+      await redis.set(SEARCH_BACKFILL_KEY, lastId);
+    } else {
+      await redis.set(SEARCH_BACKFILL_KEY, "done");
+      console.log(`[${POD_NAME}] Search index backfill complete`);
+    }
+  } catch (err) {
+    console.error("Error backfilling search index:", err);
+  }
+}
+
+// Abort resumable uploads that expired before being attached to a message
+async function cleanupExpiredUploads() {
+  if (!isLeader) return;
+  try {
+    const removed = await uploadService.cleanupExpiredSessions();
+    if (removed > 0) {
+      console.log(`[${POD_NAME}] Cleaned up ${removed} expired upload session(s)`);
+    }
+  } catch (err) {
+    console.error("Error cleaning up expired uploads:", err);
+  }
+}
+
+// Drop voice states left behind by gateway connections that died without closing
+async function cleanupStaleVoiceStates() {
+  if (!isLeader) return;
+  try {
+    const removed = await voiceService.cleanupStaleVoiceStates();
+    if (removed > 0) {
+      console.log(`[${POD_NAME}] Cleaned up ${removed} stale voice state(s)`);
+    }
+  } catch (err) {
+    console.error("Error cleaning up stale voice states:", err);
+  }
+}
+
+// Remove event stream consumer groups left behind by pods that died without stopping their feed
+async function cleanupEventStreamGroups() {
+  if (!isLeader) return;
+  try {
+    const removed = await cleanupEphemeralGroups();
+    if (removed > 0) {
+      console.log(`[${POD_NAME}] Cleaned up ${removed} orphaned event stream consumer group(s)`);
+    }
+  } catch (err) {
+    console.error("Error cleaning up event stream consumer groups:", err);
+  }
+}
+
+// Send batched push notifications and email digests for offline users every 10 seconds
+async function flushNotificationDeliveries() {
+  if (!isLeader) return;
+  try {
+    await notificationDeliveryService.flushDueDeliveries();
+  } catch (err) {
+    console.error("Error flushing notification deliveries:", err);
+  }
+}
+
+// Start and end scheduled events at their times, roll recurring ones forward and send reminders
+async function processScheduledEvents() {
+  if (!isLeader) return;
+  try {
+    const { started, ended, reminded } = await eventService.processEventLifecycle();
+    if (started + ended + reminded > 0) {
+      console.log(`[${POD_NAME}] Scheduled events: ${started} started, ${ended} ended, ${reminded} reminded`);
+    }
+  } catch (err) {
+    console.error("Error processing scheduled events:", err);
+  }
+}
+
+// Delete expired and used-up invites every minute
+async function cleanupExpiredInvites() {
+  if (!isLeader) return;
+  try {
+    const deleted = await inviteService.deleteExpiredInvites();
+    for (const invite of deleted) {
+      await dispatchGuild(invite.guildId, "INVITE_DELETE", {
+        channelId: invite.channelId,
+        guildId: invite.guildId,
+        code: invite.code,
+      });
+    }
+    if (deleted.length > 0) {
+      console.log(`[${POD_NAME}] Deleted ${deleted.length} expired invite(s)`);
+    }
+  } catch (err) {
+    console.error("Error cleaning up expired invites:", err);
+  }
+}
+
+// Kick temporary members who disconnected without being given a role
+async function pruneTemporaryMembers() {
+  if (!isLeader) return;
+  try {
+    const removed = await memberService.pruneTemporaryMembers();
+    for (const { guildId, userId } of removed) {
+      await dispatchGuild(guildId, "GUILD_MEMBER_REMOVE", { guildId, user: { id: userId } });
+    }
+    if (removed.length > 0) {
+      console.log(`[${POD_NAME}] Removed ${removed.length} temporary member(s)`);
+    }
+  } catch (err) {
+    console.error("Error pruning temporary members:", err);
+  }
+}
+
+// Remove the next batch of members for each running guild prune every 5 seconds
+async function processMemberPrunes() {
+  if (!isLeader) return;
+  try {
+    const removed = await memberService.runPruneBatches();
+    for (const { guildId, userId } of removed) {
+      await dispatchGuild(guildId, "GUILD_MEMBER_REMOVE", { guildId, user: { id: userId } });
+    }
+  } catch (err) {
+    console.error("Error processing member prunes:", err);
+  }
+}
+
+// Lift member timeouts that have run out so clients see the member can talk again
+async function liftExpiredTimeouts() {
+  if (!isLeader) return;
+  try {
+    const lifted = await memberService.liftExpiredTimeouts();
+    for (const { guildId, userId } of lifted) {
+      await dispatchGuild(guildId, "GUILD_MEMBER_UPDATE", await memberService.getMemberUpdate(guildId, userId));
+    }
+  } catch (err) {
+    console.error("Error lifting expired timeouts:", err);
+  }
+}
+
+// Archive threads that have gone quiet for their auto-archive duration
+async function archiveIdleThreads() {
+  if (!isLeader) return;
+  try {
+    const archived = await threadService.archiveIdleThreads();
+    for (const thread of archived) {
+      if (thread.guildId) await dispatchGuild(thread.guildId, "THREAD_UPDATE", thread);
+    }
+  } catch (err) {
+    console.error("Error archiving idle threads:", err);
+  }
+}
+
+// Close polls whose duration ran out, post the final tally and dispatch POLL_END
+async function endExpiredPolls() {
+  if (!isLeader) return;
+  try {
+    const ended = await pollService.endExpiredPolls();
+    for (const poll of ended) {
+      try {
+        const resultMessage = await messageService.createPollResultMessage(poll);
+        const channel = await channelService.getChannel(poll.channelId);
+        if (!channel) continue;
+
+        // DM polls go to each participant
+        const guildId = channel.guildId;
+        const participants = guildId ? [] : await channelRepository.findDMParticipantsByChannelIds([poll.channelId]);
+        const dispatch = async (event: string, data: unknown) => {
+          if (guildId) await dispatchGuild(guildId, event, data);
+          else await Promise.all(participants.map((p) => dispatchUser(p.userId, event, data)));
+        };
+
+        if (resultMessage) await dispatch("MESSAGE_CREATE", resultMessage);
+        await dispatch("POLL_END", {
+          pollId: poll.id,
+          channelId: poll.channelId,
+          messageId: poll.messageId,
+          poll,
+        });
+      } catch (err) {
+        console.error(`Failed to post results for poll ${poll.id}:`, err);
+      }
+    }
+  } catch (err) {
+    console.error("Error ending expired polls:", err);
+  }
+}
+
+// Unfurl queued message links. RPOP hands each message to a single pod, so this runs everywhere
+let unfurlRunning = false;
+async function processUnfurlQueue() {
+  if (unfurlRunning) return;
+  unfurlRunning = true;
+  try {
+    await unfurlService.processQueue();
+  } catch (err) {
+    console.error("Error processing unfurl queue:", err);
+  } finally {
+    unfurlRunning = false;
+  }
+}
+
+// Recount members and members online for the discovery directory
+async function refreshDiscoveryCounts() {
+  if (!isLeader) return;
+  try {
+    await discoveryService.refreshDiscoveryCounts();
+  } catch (err) {
+    console.error("Error refreshing discovery counts:", err);
+  }
+}
+
 export function startBackgroundJobs() {
   console.log(`[${POD_NAME}] Starting background jobs with leader election...`);
 
@@ -134,6 +354,20 @@ export function startBackgroundJobs() {
   setInterval(processScheduledMessages, 10_000);
   setInterval(cleanupExpiredMessages, 30_000);
   setInterval(cleanupExpiredGuests, 3_600_000); // every hour
+  setInterval(backfillSearchIndex, 10_000);
+  setInterval(processUnfurlQueue, 2_000);
+  setInterval(cleanupExpiredUploads, 600_000); // every 10 minutes
+  setInterval(cleanupStaleVoiceStates, 60_000); // every minute
+  setInterval(cleanupEventStreamGroups, 300_000); // every 5 minutes
+  setInterval(flushNotificationDeliveries, 10_000);
+  setInterval(processScheduledEvents, 30_000);
+  setInterval(cleanupExpiredInvites, 60_000); // every minute
+  setInterval(pruneTemporaryMembers, 60_000); // every minute
+  setInterval(processMemberPrunes, 5_000);
+  setInterval(liftExpiredTimeouts, 30_000);
+  setInterval(archiveIdleThreads, 60_000); // every minute
+  setInterval(endExpiredPolls, 10_000);
+  setInterval(refreshDiscoveryCounts, 300_000); // every 5 minutes
 
   setTimeout(() => {
     processScheduledMessages();
@@ -23,6 +23,8 @@ const DEFAULTS: Record<string, RateLimitConfig> = {
   typing: { max: 10, window: 10, keyPrefix: "rl:typing" },
   reaction: { max: 10, window: 5, keyPrefix: "rl:react" },
   webhookExec: { max: 5, window: 5, keyPrefix: "rl:webhook" },
+  uploadCreate: { max: 10, window: 60, keyPrefix: "rl:upload" },
+  report: { max: 5, window: 600, keyPrefix: "rl:report" },
 };
 
 // Lua script for atomic sliding window rate limiting
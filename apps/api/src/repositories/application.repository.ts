@@ -40,6 +40,23 @@ export const applicationRepository = {
   async delete(id: string) {
     await db.delete(schema.applications).where(eq(schema.applications.id, id));
   },
+  async findSigningKey(applicationId: string) {
+    const [row] = await db
+      .select({ privateKey: schema.applicationSigningKeys.privateKey })
+      .from(schema.applicationSigningKeys)
+      .where(eq(schema.applicationSigningKeys.applicationId, applicationId))
+      .limit(1);
+    return row?.privateKey ?? null;
+  },
+  async setSigningKey(applicationId: string, verifyKey: string, privateKey: string) {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(schema.applicationSigningKeys)
+        .values({ applicationId, privateKey })
+        .onDuplicateKeyUpdate({ set: { privateKey, createdAt: new Date() } });
+      await tx.update(schema.applications).set({ verifyKey }).where(eq(schema.applications.id, applicationId));
+    });
+  },
   async findCommands(applicationId: string, guildId?: string) {
     if (guildId) {
       return db
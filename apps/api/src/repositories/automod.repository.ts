@@ -1,34 +1,36 @@
-import { eq } from "drizzle-orm";
+import { eq, and, sql } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
 export const automodRepository = {
   async findByGuildId(guildId: string) {
-    const [config] = await db
+    return db.select().from(schema.automodRules).where(eq(schema.automodRules.guildId, guildId));
+  },
+  async findById(guildId: string, ruleId: string) {
+    const [rule] = await db
       .select()
-      .from(schema.automodConfig)
-      .where(eq(schema.automodConfig.guildId, guildId))
+      .from(schema.automodRules)
+      .where(and(eq(schema.automodRules.id, ruleId), eq(schema.automodRules.guildId, guildId)))
       .limit(1);
-    return config ?? null;
+    return rule ?? null;
+  },
+  async countByTriggerType(guildId: string, triggerType: number) {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(schema.automodRules)
+      .where(and(eq(schema.automodRules.guildId, guildId), eq(schema.automodRules.triggerType, triggerType)));
+    return Number(result?.count ?? 0);
+  },
+  async create(data: any) {
+    await db.insert(schema.automodRules).values(data);
+    const [created] = await db.select().from(schema.automodRules).where(eq(schema.automodRules.id, data.id)).limit(1);
+    return created!;
   },
-  async update(
-    guildId: string,
-    data: Partial<{
-      enabled: boolean;
-      keywordFilters: { enabled: boolean; blockedWords: string[]; action: "delete" | "warn" | "timeout" };
-      mentionSpam: { enabled: boolean; maxMentions: number; action: "delete" | "warn" | "timeout" };
-      linkFilter: { enabled: boolean; blockAllLinks: boolean; whitelist: string[]; action: "delete" | "warn" | "timeout" };
-      antiRaid: { enabled: boolean; joinRateLimit: number; joinRateWindow: number; action: "lockdown" | "kick" | "notify" };
-    }>,
-  ) {
-    await db
-      .insert(schema.automodConfig)
-      .values({ guildId, ...data, updatedAt: new Date() })
-      .onDuplicateKeyUpdate({
-        set: { ...data, updatedAt: new Date() },
-      });
-    return (await db.select().from(schema.automodConfig).where(eq(schema.automodConfig.guildId, guildId)).limit(1))[0]!;
+  async update(ruleId: string, data: Record<string, any>) {
+    await db.update(schema.automodRules).set(data).where(eq(schema.automodRules.id, ruleId));
+    const [updated] = await db.select().from(schema.automodRules).where(eq(schema.automodRules.id, ruleId)).limit(1);
+    return updated!;
   },
-  async delete(guildId: string) {
-    await db.delete(schema.automodConfig).where(eq(schema.automodConfig.guildId, guildId));
+  async delete(ruleId: string) {
+    await db.delete(schema.automodRules).where(eq(schema.automodRules.id, ruleId));
   },
 };
@@ -1,4 +1,4 @@
-import { eq, and, gte, asc, inArray } from "drizzle-orm";
+import { eq, and, gte, lte, ne, asc, inArray, isNotNull, isNull } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
 export const eventRepository = {
@@ -25,6 +25,39 @@ export const eventRepository = {
       )
       .orderBy(asc(schema.guildEvents.scheduledStartTime));
   },
+  async findByStatusStartingBefore(status: number, before: Date, limit = 100) {
+    return db
+      .select()
+      .from(schema.guildEvents)
+      .where(and(eq(schema.guildEvents.status, status), lte(schema.guildEvents.scheduledStartTime, before)))
+      .orderBy(asc(schema.guildEvents.scheduledStartTime))
+      .limit(limit);
+  },
+  async findByStatusEndingBefore(status: number, before: Date, limit = 100) {
+    return db
+      .select()
+      .from(schema.guildEvents)
+      .where(and(
+        eq(schema.guildEvents.status, status),
+        isNotNull(schema.guildEvents.scheduledEndTime),
+        lte(schema.guildEvents.scheduledEndTime, before),
+      ))
+      .orderBy(asc(schema.guildEvents.scheduledEndTime))
+      .limit(limit);
+  },
+  async findRecurringWithoutEndStartedBefore(status: number, before: Date, limit = 100) {
+    return db
+      .select()
+      .from(schema.guildEvents)
+      .where(and(
+        eq(schema.guildEvents.status, status),
+        isNull(schema.guildEvents.scheduledEndTime),
+        isNotNull(schema.guildEvents.recurrenceRule),
+        lte(schema.guildEvents.scheduledStartTime, before),
+      ))
+      .orderBy(asc(schema.guildEvents.scheduledStartTime))
+      .limit(limit);
+  },
   async findUser(eventId: string, userId: string) {
     const [row] = await db
       .select()
@@ -59,6 +92,7 @@ export const eventRepository = {
       count?: number;
       endDate?: string;
     } | null;
+    recurrenceAnchor?: Date | null;
   }) {
     await db.insert(schema.guildEvents).values(data);
     return (await db.select().from(schema.guildEvents).where(eq(schema.guildEvents.id, data.id)).limit(1))[0]!;
@@ -81,6 +115,7 @@ export const eventRepository = {
       count?: number;
       endDate?: string;
     } | null;
+    recurrenceAnchor: Date | null;
   }>) {
     await db.update(schema.guildEvents).set(data).where(eq(schema.guildEvents.id, id));
     return (await db.select().from(schema.guildEvents).where(eq(schema.guildEvents.id, id)).limit(1))[0]!;
@@ -112,6 +147,14 @@ export const eventRepository = {
       .from(schema.guildEventUsers)
       .where(eq(schema.guildEventUsers.eventId, eventId));
   },
+  /** Users who haven't said they're not going */
+  async findInterestedUserIds(eventId: string) {
+    const rows = await db
+      .select({ userId: schema.guildEventUsers.userId })
+      .from(schema.guildEventUsers)
+      .where(and(eq(schema.guildEventUsers.eventId, eventId), ne(schema.guildEventUsers.status, "not_going")));
+    return rows.map((r) => r.userId);
+  },
   async findUsersByEventIds(eventIds: string[]) {
     if (eventIds.length === 0) return [];
     return db
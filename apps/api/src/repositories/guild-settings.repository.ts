@@ -1,6 +1,27 @@
-import { eq } from "drizzle-orm";
+import { eq, and, or, gt, like, asc, desc, inArray, isNotNull, sql, count, countDistinct, type SQL } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
+function escapeLike(str: string): string {
+  return str.replace(/[%_\\]/g, "\\$&");
+}
+
+export interface DiscoveryFilters {
+  query?: string;
+  category?: string;
+  tag?: string;
+}
+
+function discoveryConditions(filters: DiscoveryFilters) {
+  const conditions: SQL[] = [eq(schema.guildPreviews.discoverable, true)];
+  if (filters.query) {
+    const pattern = `%${escapeLike(filters.query)}%`;
+    conditions.push(or(like(schema.guilds.name, pattern), like(schema.guilds.description, pattern))!);
+  }
+  if (filters.category) conditions.push(eq(schema.guildPreviews.category, filters.category));
+  if (filters.tag) conditions.push(sql`JSON_CONTAINS(${schema.guildPreviews.tags}, JSON_QUOTE(${filters.tag}))`);
+  return and(...conditions);
+}
+
 export const guildSettingsRepository = {
   // ── Widgets ──
   async findWidget(guildId: string) {
@@ -102,6 +123,63 @@ export const guildSettingsRepository = {
     }
     return this.findOnboarding(guildId);
   },
+  async findOnboardingByGuildIds(guildIds: string[]) {
+    if (guildIds.length === 0) return [];
+    return db
+      .select()
+      .from(schema.guildOnboarding)
+      .where(inArray(schema.guildOnboarding.guildId, guildIds));
+  },
+  /** Swap a member's answers for new ones and record the channels they opted into */
+  async replaceResponses(
+    guildId: string,
+    userId: string,
+    responses: { promptId: string; optionId: string }[],
+    channelIds: string[]
+  ) {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(schema.onboardingResponses)
+        .where(and(eq(schema.onboardingResponses.guildId, guildId), eq(schema.onboardingResponses.userId, userId)));
+      if (responses.length > 0) {
+        await tx.insert(schema.onboardingResponses).values(responses.map((r) => ({ guildId, userId, ...r })));
+      }
+      await tx
+        .update(schema.members)
+        .set({ onboardingChannelIds: channelIds, onboardingCompletedAt: new Date() })
+        .where(and(eq(schema.members.guildId, guildId), eq(schema.members.userId, userId)));
+    });
+  },
+  // Analytics only count answers from people who are still members
+  async countOnboardedMembers(guildId: string) {
+    const [result] = await db
+      .select({ count: count() })
+      .from(schema.members)
+      .where(and(eq(schema.members.guildId, guildId), isNotNull(schema.members.onboardingCompletedAt)));
+    return result?.count ?? 0;
+  },
+  async countRespondentsByPrompt(guildId: string) {
+    return db
+      .select({ promptId: schema.onboardingResponses.promptId, count: countDistinct(schema.onboardingResponses.userId) })
+      .from(schema.onboardingResponses)
+      .innerJoin(schema.members, and(
+        eq(schema.members.guildId, schema.onboardingResponses.guildId),
+        eq(schema.members.userId, schema.onboardingResponses.userId),
+      ))
+      .where(eq(schema.onboardingResponses.guildId, guildId))
+      .groupBy(schema.onboardingResponses.promptId);
+  },
+  async countResponsesByOption(guildId: string) {
+    return db
+      .select({ optionId: schema.onboardingResponses.optionId, count: count() })
+      .from(schema.onboardingResponses)
+      .innerJoin(schema.members, and(
+        eq(schema.members.guildId, schema.onboardingResponses.guildId),
+        eq(schema.members.userId, schema.onboardingResponses.userId),
+      ))
+      .where(eq(schema.onboardingResponses.guildId, guildId))
+      .groupBy(schema.onboardingResponses.optionId);
+  },
 
   // ── Preview ──
   async findPreview(guildId: string) {
@@ -112,4 +190,68 @@ export const guildSettingsRepository = {
       .limit(1);
     return preview ?? null;
   },
+  async upsertPreview(
+    guildId: string,
+    data: Partial<{ discoverable: boolean; category: string | null; tags: string[]; approximateMemberCount: number; approximatePresenceCount: number }>
+  ) {
+    await db
+      .insert(schema.guildPreviews)
+      .values({ guildId, ...data })
+      .onDuplicateKeyUpdate({ set: { ...data, updatedAt: new Date() } });
+    return (await this.findPreview(guildId))!;
+  },
+  async searchDiscoverable(
+    filters: DiscoveryFilters,
+    options: { sort: "members" | "activity"; limit: number; offset: number }
+  ) {
+    const orderBy = options.sort === "activity"
+      ? [desc(schema.guildPreviews.approximatePresenceCount), desc(schema.guildPreviews.approximateMemberCount)]
+      : [desc(schema.guildPreviews.approximateMemberCount), desc(schema.guildPreviews.approximatePresenceCount)];
+    return db
+      .select({
+        id: schema.guilds.id,
+        name: schema.guilds.name,
+        description: schema.guilds.description,
+        icon: schema.guilds.icon,
+        banner: schema.guilds.banner,
+        features: schema.guilds.features,
+        category: schema.guildPreviews.category,
+        tags: schema.guildPreviews.tags,
+        approximateMemberCount: schema.guildPreviews.approximateMemberCount,
+        approximatePresenceCount: schema.guildPreviews.approximatePresenceCount,
+        featuredAt: schema.guildPreviews.featuredAt,
+      })
+      .from(schema.guildPreviews)
+      .innerJoin(schema.guilds, eq(schema.guilds.id, schema.guildPreviews.guildId))
+      .where(discoveryConditions(filters))
+      .orderBy(...orderBy, asc(schema.guildPreviews.guildId))
+      .limit(options.limit)
+      .offset(options.offset);
+  },
+  async countDiscoverable(filters: DiscoveryFilters) {
+    const [result] = await db
+      .select({ count: count() })
+      .from(schema.guildPreviews)
+      .innerJoin(schema.guilds, eq(schema.guilds.id, schema.guildPreviews.guildId))
+      .where(discoveryConditions(filters));
+    return result?.count ?? 0;
+  },
+  async findDiscoverableGuildIds(afterGuildId: string | null, limit: number) {
+    const rows = await db
+      .select({ guildId: schema.guildPreviews.guildId })
+      .from(schema.guildPreviews)
+      .where(and(
+        eq(schema.guildPreviews.discoverable, true),
+        afterGuildId ? gt(schema.guildPreviews.guildId, afterGuildId) : undefined,
+      ))
+      .orderBy(asc(schema.guildPreviews.guildId))
+      .limit(limit);
+    return rows.map((r) => r.guildId);
+  },
+  async updatePreviewCounts(guildId: string, approximateMemberCount: number, approximatePresenceCount: number) {
+    await db
+      .update(schema.guildPreviews)
+      .set({ approximateMemberCount, approximatePresenceCount, updatedAt: new Date() })
+      .where(eq(schema.guildPreviews.guildId, guildId));
+  },
 };
@@ -10,6 +10,10 @@ export const guildRepository = {
     const [guild] = await db.select({ ownerId: schema.guilds.ownerId }).from(schema.guilds).where(eq(schema.guilds.id, id)).limit(1);
     return guild ?? null;
   },
+  async findByVanityCode(code: string) {
+    const [guild] = await db.select().from(schema.guilds).where(eq(schema.guilds.vanityUrlCode, code)).limit(1);
+    return guild ?? null;
+  },
   async findByIds(ids: string[]) {
     if (ids.length === 0) return [];
     return db.select().from(schema.guilds).where(inArray(schema.guilds.id, ids));
@@ -1,4 +1,4 @@
-import { eq, sql } from "drizzle-orm";
+import { eq, and, or, lte, gt, isNotNull, inArray, desc, count, sql } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
 export const inviteRepository = {
@@ -33,5 +33,84 @@ export const inviteRepository = {
   async incrementUsesInTx(tx: any, code: string, currentUses: number) {
     await tx.update(schema.invites).set({ uses: currentUses + 1 }).where(eq(schema.invites.code, code));
   },
+  /** Invites past their expiry or out of uses */
+  async findExpired(now: Date, limit = 500) {
+    return db
+      .select()
+      .from(schema.invites)
+      .where(or(
+        and(isNotNull(schema.invites.expiresAt), lte(schema.invites.expiresAt, now)),
+        and(gt(schema.invites.maxUses, 0), sql`${schema.invites.uses} >= ${schema.invites.maxUses}`),
+      ))
+      .limit(limit);
+  },
+  async deleteByCodes(codes: string[]) {
+    if (codes.length === 0) return;
+    await db.delete(schema.invites).where(inArray(schema.invites.code, codes));
+  },
+  // Uses
+  async createUseInTx(tx: any, data: {
+    id: string;
+    guildId: string;
+    code: string;
+    channelId: string | null;
+    inviterId: string | null;
+    userId: string;
+    vanity?: boolean;
+  }) {
+    await tx.insert(schema.inviteUses).values(data);
+  },
+  async countUses(guildId: string, code: string) {
+    const [result] = await db
+      .select({ count: count() })
+      .from(schema.inviteUses)
+      .where(and(eq(schema.inviteUses.guildId, guildId), eq(schema.inviteUses.code, code)));
+    return result?.count ?? 0;
+  },
+  /** Joins through the code, newest first, with whether each user is still a member */
+  async findUsesByCode(guildId: string, code: string, limit: number, before?: string) {
+    return db
+      .select({
+        userId: schema.inviteUses.userId,
+        createdAt: schema.inviteUses.createdAt,
+        stillMember: sql<number>`${schema.members.userId} IS NOT NULL`,
+      })
+      .from(schema.inviteUses)
+      .leftJoin(schema.members, and(
+        eq(schema.members.guildId, schema.inviteUses.guildId),
+        eq(schema.members.userId, schema.inviteUses.userId),
+      ))
+      .where(and(
+        eq(schema.inviteUses.guildId, guildId),
+        eq(schema.inviteUses.code, code),
+        before ? sql`${schema.inviteUses.id} < ${before}` : undefined,
+      ))
+      .orderBy(desc(schema.inviteUses.id))
+      .limit(limit);
+  },
+  /** Joins and members still in the guild, per code */
+  async summarizeUses(guildId: string, since?: Date) {
+    return db
+      .select({
+        code: schema.inviteUses.code,
+        channelId: sql<string | null>`MAX(${schema.inviteUses.channelId})`,
+        inviterId: sql<string | null>`MAX(${schema.inviteUses.inviterId})`,
+        vanity: sql<number>`MAX(${schema.inviteUses.vanity})`,
+        joins: count(),
+        retained: count(schema.members.userId),
+        lastUsedAt: sql<Date>`MAX(${schema.inviteUses.createdAt})`,
+      })
+      .from(schema.inviteUses)
+      .leftJoin(schema.members, and(
+        eq(schema.members.guildId, schema.inviteUses.guildId),
+        eq(schema.members.userId, schema.inviteUses.userId),
+      ))
+      .where(and(
+        eq(schema.inviteUses.guildId, guildId),
+        since ? sql`${schema.inviteUses.createdAt} >= ${since}` : undefined,
+      ))
+      .groupBy(schema.inviteUses.code)
+      .orderBy(desc(count()));
+  },
   transaction: db.transaction.bind(db),
 };
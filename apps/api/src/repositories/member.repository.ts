@@ -1,4 +1,4 @@
-import { eq, and, inArray, or, like } from "drizzle-orm";
+import { eq, ne, and, inArray, or, like, lte, gt, isNotNull, lt, notExists, notInArray, count, asc } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
 export const memberRepository = {
@@ -27,7 +27,7 @@ export const memberRepository = {
   async create(data: { userId: string; guildId: string; nickname?: string }) {
     await db.insert(schema.members).values(data);
   },
-  async createInTx(tx: any, data: { userId: string; guildId: string }) {
+  async createInTx(tx: any, data: { userId: string; guildId: string; temporary?: boolean }) {
     await tx.insert(schema.members).values(data);
   },
   async delete(userId: string, guildId: string) {
@@ -36,6 +36,82 @@ export const memberRepository = {
   async update(userId: string, guildId: string, data: Record<string, any>) {
     await db.update(schema.members).set(data).where(and(eq(schema.members.userId, userId), eq(schema.members.guildId, guildId)));
   },
+  async findExpiredTimeouts(now: Date, limit = 500) {
+    return db.select({ userId: schema.members.userId, guildId: schema.members.guildId, mute: schema.members.mute })
+      .from(schema.members)
+      .where(lte(schema.members.communicationDisabledUntil, now))
+      .limit(limit);
+  },
+  /** Next page of temporary members in join order, after the `after` member */
+  async findTemporary(
+    joinedBefore: Date,
+    after: { joinedAt: Date; guildId: string; userId: string } | null,
+    limit = 500
+  ) {
+    const m = schema.members;
+    return db.select({ userId: m.userId, guildId: m.guildId, joinedAt: m.joinedAt }).from(m)
+      .where(and(
+        eq(m.temporary, true),
+        lte(m.joinedAt, joinedBefore),
+        after
+          ? or(
+              gt(m.joinedAt, after.joinedAt),
+              and(eq(m.joinedAt, after.joinedAt), gt(m.guildId, after.guildId)),
+              and(eq(m.joinedAt, after.joinedAt), eq(m.guildId, after.guildId), gt(m.userId, after.userId)),
+            )
+          : undefined,
+      ))
+      .orderBy(asc(m.joinedAt), asc(m.guildId), asc(m.userId))
+      .limit(limit);
+  },
+  /**
+   * Members who joined before `inactiveSince`, haven't been seen on the gateway or posted
+   * in the guild since, and have no roles other than `includeRoles`. Users with no
+   * `lastSeenAt` yet are never candidates: they predate the column, so we don't know.
+   */
+  pruneConditions(guildId: string, inactiveSince: Date, includeRoles: string[]) {
+    const m = schema.members;
+    return and(
+      eq(m.guildId, guildId),
+      lte(m.joinedAt, inactiveSince),
+      isNotNull(schema.users.lastSeenAt),
+      lt(schema.users.lastSeenAt, inactiveSince),
+      notExists(
+        db.select({ roleId: schema.memberRoles.roleId }).from(schema.memberRoles).where(and(
+          eq(schema.memberRoles.guildId, m.guildId),
+          eq(schema.memberRoles.userId, m.userId),
+          includeRoles.length > 0 ? notInArray(schema.memberRoles.roleId, includeRoles) : undefined,
+        ))
+      ),
+      notExists(
+        db.select({ id: schema.messages.id }).from(schema.messages)
+          .innerJoin(schema.channels, eq(schema.channels.id, schema.messages.channelId))
+          .where(and(
+            eq(schema.messages.authorId, m.userId),
+            eq(schema.channels.guildId, m.guildId),
+            gt(schema.messages.createdAt, inactiveSince),
+          ))
+      ),
+    );
+  },
+  async countPruneCandidates(guildId: string, inactiveSince: Date, includeRoles: string[]) {
+    const [result] = await db.select({ count: count() }).from(schema.members)
+      .innerJoin(schema.users, eq(schema.users.id, schema.members.userId))
+      .where(this.pruneConditions(guildId, inactiveSince, includeRoles));
+    return result?.count ?? 0;
+  },
+  /** Next batch of prune candidates in user ID order, after `afterUserId` */
+  async findPruneCandidates(guildId: string, inactiveSince: Date, includeRoles: string[], afterUserId: string, limit: number) {
+    const rows = await db.select({ userId: schema.members.userId }).from(schema.members)
+      .innerJoin(schema.users, eq(schema.users.id, schema.members.userId))
+      .where(and(
+        this.pruneConditions(guildId, inactiveSince, includeRoles),
+        gt(schema.members.userId, afterUserId),
+      ))
+      .orderBy(asc(schema.members.userId))
+      .limit(limit);
+    return rows.map((r) => r.userId);
+  },
   // Bans
   async findBan(userId: string, guildId: string) {
     const [ban] = await db.select().from(schema.bans)
@@ -72,6 +148,11 @@ export const memberRepository = {
       joinedAt: schema.members.joinedAt,
     }).from(schema.members).where(eq(schema.members.userId, userId));
   },
+  async findBansByUserIds(guildId: string, userIds: string[]) {
+    if (userIds.length === 0) return [];
+    return db.select({ userId: schema.bans.userId }).from(schema.bans)
+      .where(and(eq(schema.bans.guildId, guildId), inArray(schema.bans.userId, userIds)));
+  },
   async findBansByGuildId(guildId: string) {
     return db.select().from(schema.bans).where(eq(schema.bans.guildId, guildId));
   },
@@ -114,11 +195,37 @@ export const memberRepository = {
       ))
       .limit(limit);
   },
+  async findUserIdsInGuild(guildId: string, userIds: string[]) {
+    if (userIds.length === 0) return [];
+    const rows = await db.select({ userId: schema.members.userId }).from(schema.members)
+      .where(and(eq(schema.members.guildId, guildId), inArray(schema.members.userId, userIds)));
+    return rows.map((r) => r.userId);
+  },
+  async findUserIdsByRoleIds(guildId: string, roleIds: string[], limit: number = 10000) {
+    if (roleIds.length === 0) return [];
+    const rows = await db.selectDistinct({ userId: schema.memberRoles.userId }).from(schema.memberRoles)
+      .where(and(eq(schema.memberRoles.guildId, guildId), inArray(schema.memberRoles.roleId, roleIds)))
+      .limit(limit);
+    return rows.map((r) => r.userId);
+  },
   async getMemberRolesByGuildAndUserIds(guildId: string, userIds: string[]) {
     if (userIds.length === 0) return [];
     return db.select({ userId: schema.memberRoles.userId, roleId: schema.memberRoles.roleId })
       .from(schema.memberRoles)
       .where(and(eq(schema.memberRoles.guildId, guildId), inArray(schema.memberRoles.userId, userIds)));
   },
+  async countByGuildIds(guildIds: string[]) {
+    if (guildIds.length === 0) return [];
+    return db.select({ guildId: schema.members.guildId, count: count() }).from(schema.members)
+      .where(inArray(schema.members.guildId, guildIds))
+      .groupBy(schema.members.guildId);
+  },
+  async countOnlineByGuildIds(guildIds: string[]) {
+    if (guildIds.length === 0) return [];
+    return db.select({ guildId: schema.members.guildId, count: count() }).from(schema.members)
+      .innerJoin(schema.users, eq(schema.members.userId, schema.users.id))
+      .where(and(inArray(schema.members.guildId, guildIds), ne(schema.users.status, "offline")))
+      .groupBy(schema.members.guildId);
+  },
   transaction: db.transaction.bind(db),
 };
@@ -1,4 +1,4 @@
-import { eq, and, lt, lte, desc, inArray, isNotNull } from "drizzle-orm";
+import { eq, ne, and, or, lt, lte, gt, gte, asc, desc, inArray, isNull, isNotNull } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 import { redis } from "../config/redis.js";
 
@@ -98,7 +98,9 @@ export const messageRepository = {
 
   async create(data: {
     id: string; channelId: string; authorId: string; content: string;
-    type?: number; tts?: boolean; mentionEveryone?: boolean;
+    type?: number; flags?: number; tts?: boolean; mentionEveryone?: boolean;
+    mentions?: string[]; mentionRoles?: string[];
+    allowedMentions?: typeof schema.messages.$inferInsert.allowedMentions;
     referencedMessageId?: string | null; webhookId?: string | null;
     nonce?: string | null; expiresAt?: Date | null; createdAt?: Date;
     authorSnapshot?: AuthorSnapshot | null;
@@ -125,6 +127,20 @@ export const messageRepository = {
     if (msg) redis.del(`${MSG_CACHE_PREFIX}${msg.channelId}`).catch(() => {});
   },
 
+  /** Messages the users sent in any of the guild's channels since `since` */
+  async findIdsByAuthorsInGuild(guildId: string, authorIds: string[], since: Date, limit: number) {
+    if (authorIds.length === 0) return [];
+    return db.select({ id: schema.messages.id, channelId: schema.messages.channelId })
+      .from(schema.messages)
+      .innerJoin(schema.channels, eq(schema.channels.id, schema.messages.channelId))
+      .where(and(
+        eq(schema.channels.guildId, guildId),
+        inArray(schema.messages.authorId, authorIds),
+        gte(schema.messages.createdAt, since),
+      ))
+      .limit(limit);
+  },
+
   async deleteByIds(ids: string[]) {
     if (ids.length === 0) return;
     // Get channelIds for cache invalidation
@@ -169,6 +185,28 @@ export const messageRepository = {
   },
 
   // Attachments
+  /** Messages right after `afterId` in a channel, oldest first */
+  async findAfter(channelId: string, afterId: string, limit: number) {
+    return db.select().from(schema.messages)
+      .where(and(eq(schema.messages.channelId, channelId), gt(schema.messages.id, afterId)))
+      .orderBy(asc(schema.messages.id))
+      .limit(limit);
+  },
+
+  /** A page of messages, newest first, leaving out expired ones and anything created before `since` */
+  async findUnexpired(channelId: string, options: { before?: string; limit: number; since: Date | null }) {
+    const now = new Date();
+    return db.select().from(schema.messages)
+      .where(and(
+        eq(schema.messages.channelId, channelId),
+        options.before ? lt(schema.messages.id, options.before) : undefined,
+        options.since ? gte(schema.messages.createdAt, options.since) : undefined,
+        or(isNull(schema.messages.expiresAt), gt(schema.messages.expiresAt, now)),
+      ))
+      .orderBy(desc(schema.messages.id))
+      .limit(options.limit);
+  },
+
   async createAttachments(attachments: any[]) {
     if (attachments.length === 0) return;
     await db.insert(schema.messageAttachments).values(attachments);
@@ -179,6 +217,24 @@ export const messageRepository = {
     return db.select().from(schema.messageAttachments).where(inArray(schema.messageAttachments.messageId, messageIds));
   },
 
+  // Embeds
+  async findEmbedsByMessageIds(messageIds: string[]) {
+    if (messageIds.length === 0) return [];
+    return db.select().from(schema.messageEmbeds).where(inArray(schema.messageEmbeds.messageId, messageIds));
+  },
+
+  /** Replace a message's unfurled (non-rich) embeds, leaving author-supplied rich embeds alone */
+  async replaceLinkEmbeds(messageId: string, embeds: any[]) {
+    await db.transaction(async (tx) => {
+      await tx.delete(schema.messageEmbeds).where(
+        and(eq(schema.messageEmbeds.messageId, messageId), ne(schema.messageEmbeds.type, "rich"))
+      );
+      if (embeds.length > 0) {
+        await tx.insert(schema.messageEmbeds).values(embeds);
+      }
+    });
+  },
+
   async findByAuthorId(authorId: string, options?: { before?: string; limit?: number }) {
     const limit = options?.limit ?? 100;
     return db.select({
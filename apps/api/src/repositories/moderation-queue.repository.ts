@@ -1,35 +1,113 @@
-import { eq, and, desc, sql, gte } from "drizzle-orm";
+import { eq, and, desc, sql, gte, lt, inArray, isNull, or } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
+const OPEN_STATUSES = ["pending", "escalated"] as const;
+
 export const moderationQueueRepository = {
   async findById(id: string) {
     const [item] = await db.select().from(schema.moderationQueue).where(eq(schema.moderationQueue.id, id)).limit(1);
     return item ?? null;
   },
-  async findByGuildId(guildId: string, status?: string) {
+  async findByGuildId(guildId: string, filters: { status?: string; assigneeId?: string | null } = {}) {
+    const conditions = [eq(schema.moderationQueue.guildId, guildId)];
+    if (filters.status) conditions.push(eq(schema.moderationQueue.status, filters.status as any));
+    if (filters.assigneeId === null) conditions.push(isNull(schema.moderationQueue.assigneeId));
+    else if (filters.assigneeId) conditions.push(eq(schema.moderationQueue.assigneeId, filters.assigneeId));
     return db.select().from(schema.moderationQueue)
-      .where(
-        status
-          ? and(eq(schema.moderationQueue.guildId, guildId), eq(schema.moderationQueue.status, status as any))
-          : eq(schema.moderationQueue.guildId, guildId)
-      )
+      .where(and(...conditions))
       .orderBy(desc(schema.moderationQueue.createdAt))
       .limit(100);
   },
-  async create(data: { id: string; guildId: string; type: string; targetId: string; reason: string; reportedBy: string }) {
-    await db.insert(schema.moderationQueue).values(data);
+  async findOpenByKey(openKey: string) {
+    const [item] = await db.select().from(schema.moderationQueue)
+      .where(eq(schema.moderationQueue.openKey, openKey)).limit(1);
+    return item ?? null;
+  },
+  /** Insert the item with its first reporter. Throws ER_DUP_ENTRY if an open item has the same key. */
+  async create(data: {
+    id: string;
+    guildId: string;
+    type: string;
+    targetId: string;
+    reason: string;
+    reportedBy: string;
+    openKey: string;
+    snapshot: Record<string, unknown> | null;
+  }) {
+    await db.transaction(async (tx) => {
+      await tx.insert(schema.moderationQueue).values(data);
+      await tx.insert(schema.moderationQueueReporters).values({ itemId: data.id, userId: data.reportedBy, reason: data.reason });
+    });
     const [created] = await db.select().from(schema.moderationQueue).where(eq(schema.moderationQueue.id, data.id)).limit(1);
     return created!;
   },
-  async resolve(id: string, data: { status: string; moderatorId: string; moderatorNote: string | null }) {
-    await db.update(schema.moderationQueue).set({
+  /** Record another reporter on an item. Returns false if they had already reported it. */
+  async addReporter(itemId: string, userId: string, reason: string) {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.insert(schema.moderationQueueReporters).values({ itemId, userId, reason });
+        await tx.update(schema.moderationQueue)
+          .set({ reporterCount: sql`${schema.moderationQueue.reporterCount} + 1` })
+          .where(eq(schema.moderationQueue.id, itemId));
+      });
+      return true;
+    } catch (err: any) {
+      if (err.code === "ER_DUP_ENTRY" || err.errno === 1062) return false;
+      throw err;
+    }
+  },
+  async findReporterIds(itemId: string) {
+    const rows = await db.select({ userId: schema.moderationQueueReporters.userId })
+      .from(schema.moderationQueueReporters)
+      .where(eq(schema.moderationQueueReporters.itemId, itemId));
+    return rows.map((r) => r.userId);
+  },
+  /**
+   * Move an open item from `from` to `to` (null = unassigned). Returns false if it was
+   * resolved or reassigned since the caller read it.
+   */
+  async reassign(id: string, from: string | null, to: string | null) {
+    const [result] = await db.update(schema.moderationQueue).set({
+      assigneeId: to,
+      claimedAt: to ? new Date() : null,
+    }).where(and(
+      eq(schema.moderationQueue.id, id),
+      inArray(schema.moderationQueue.status, [...OPEN_STATUSES]),
+      from ? eq(schema.moderationQueue.assigneeId, from) : isNull(schema.moderationQueue.assigneeId),
+    ));
+    return result.affectedRows > 0;
+  },
+  /** Hand a pending item up, unassigned so a senior moderator can pick it up */
+  async escalate(id: string, moderatorId: string, moderatorNote: string | null) {
+    const [result] = await db.update(schema.moderationQueue).set({
+      status: "escalated",
+      moderatorId,
+      moderatorNote,
+      assigneeId: null,
+      claimedAt: null,
+      escalatedAt: new Date(),
+    }).where(and(
+      eq(schema.moderationQueue.id, id),
+      eq(schema.moderationQueue.status, "pending"),
+      or(isNull(schema.moderationQueue.assigneeId), eq(schema.moderationQueue.assigneeId, moderatorId)),
+    ));
+    return result.affectedRows > 0;
+  },
+  /** Close an open item claimed by `moderatorId`. Returns false if it no longer is. */
+  async resolve(id: string, data: { status: string; resolution: string; moderatorId: string; moderatorNote: string | null }) {
+    const [result] = await db.update(schema.moderationQueue).set({
       status: data.status as any,
+      resolution: data.resolution,
       moderatorId: data.moderatorId,
       moderatorNote: data.moderatorNote,
+      openKey: null,
       resolvedAt: new Date(),
-    }).where(eq(schema.moderationQueue.id, id));
-    const [updated] = await db.select().from(schema.moderationQueue).where(eq(schema.moderationQueue.id, id)).limit(1);
-    return updated!;
+    }).where(and(
+      eq(schema.moderationQueue.id, id),
+      inArray(schema.moderationQueue.status, [...OPEN_STATUSES]),
+      eq(schema.moderationQueue.assigneeId, data.moderatorId),
+    ));
+    return result.affectedRows > 0;
   },
   async countByModeratorInGuild(guildId: string) {
     return db.select({
@@ -67,4 +145,14 @@ export const moderationQueueRepository = {
       ));
     return result?.count ?? 0;
   },
+  async countOverdueInGuild(guildId: string, createdBefore: Date) {
+    const [result] = await db.select({ count: sql<number>`count(*)` })
+      .from(schema.moderationQueue)
+      .where(and(
+        eq(schema.moderationQueue.guildId, guildId),
+        inArray(schema.moderationQueue.status, [...OPEN_STATUSES]),
+        lt(schema.moderationQueue.createdAt, createdBefore),
+      ));
+    return result?.count ?? 0;
+  },
 };
@@ -1,4 +1,4 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
 export const notificationSettingsRepository = {
@@ -8,6 +8,15 @@ export const notificationSettingsRepository = {
     if (channelId) conditions.push(eq(schema.notificationSettings.channelId, channelId));
     return db.select().from(schema.notificationSettings).where(and(...conditions));
   },
+  /** Global, guild-wide and channel rows for each user (guild/channel "global" marks the wider scopes) */
+  async findForUsers(userIds: string[], guildId: string | null, channelId: string) {
+    if (userIds.length === 0) return [];
+    return db.select().from(schema.notificationSettings).where(and(
+      inArray(schema.notificationSettings.userId, userIds),
+      inArray(schema.notificationSettings.guildId, guildId ? [guildId, "global"] : ["global"]),
+      inArray(schema.notificationSettings.channelId, [channelId, "global"]),
+    ));
+  },
   async upsert(
     userId: string,
     guildId: string,
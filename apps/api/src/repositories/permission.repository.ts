@@ -8,6 +8,19 @@ export const permissionRepository = {
       .from(schema.permissionOverwrites)
       .where(eq(schema.permissionOverwrites.channelId, channelId));
   },
+  async findOverwritesByGuildId(guildId: string) {
+    return db
+      .select({
+        channelId: schema.permissionOverwrites.channelId,
+        targetId: schema.permissionOverwrites.targetId,
+        targetType: schema.permissionOverwrites.targetType,
+        allow: schema.permissionOverwrites.allow,
+        deny: schema.permissionOverwrites.deny,
+      })
+      .from(schema.permissionOverwrites)
+      .innerJoin(schema.channels, eq(schema.permissionOverwrites.channelId, schema.channels.id))
+      .where(eq(schema.channels.guildId, guildId));
+  },
   async setOverwrite(data: {
     channelId: string;
     targetId: string;
@@ -60,4 +73,12 @@ export const permissionRepository = {
         ),
       );
   },
+  async findMemberTimeout(userId: string, guildId: string) {
+    const [member] = await db
+      .select({ communicationDisabledUntil: schema.members.communicationDisabledUntil })
+      .from(schema.members)
+      .where(and(eq(schema.members.userId, userId), eq(schema.members.guildId, guildId)))
+      .limit(1);
+    return member?.communicationDisabledUntil ?? null;
+  },
 };
@@ -1,4 +1,4 @@
-import { eq, and, inArray } from "drizzle-orm";
+import { eq, and, inArray, gte, lte, asc, sql } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 import { generateSnowflake } from "@yxc/snowflake";
 
@@ -98,11 +98,31 @@ export const pollRepository = {
       .delete(schema.pollVotes)
       .where(and(eq(schema.pollVotes.pollId, pollId), eq(schema.pollVotes.userId, userId)));
   },
+  /**
+   * Close the poll, keeping an earlier expiry time. Returns false if it had already
+   * ended, so the expiry job and a manual end can't both post results.
+   */
   async setExpired(pollId: string) {
-    await db
+    const [result] = await db
       .update(schema.polls)
-      .set({ expiresAt: new Date() })
-      .where(eq(schema.polls.id, pollId));
+      .set({ ended: true, expiresAt: sql`LEAST(COALESCE(${schema.polls.expiresAt}, NOW()), NOW())` })
+      .where(and(eq(schema.polls.id, pollId), eq(schema.polls.ended, false)));
+    return result.affectedRows > 0;
+  },
+  /** Open polls whose expiry fell in [since, now], oldest first */
+  async findExpired(since: Date, now: Date, limit: number) {
+    return db
+      .select({ id: schema.polls.id })
+      .from(schema.polls)
+      .where(
+        and(
+          eq(schema.polls.ended, false),
+          gte(schema.polls.expiresAt, since),
+          lte(schema.polls.expiresAt, now),
+        ),
+      )
+      .orderBy(asc(schema.polls.expiresAt))
+      .limit(limit);
   },
   async createWithOptions(
     data: {
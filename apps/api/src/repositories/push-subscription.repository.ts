@@ -0,0 +1,40 @@
+import { eq, and, inArray } from "drizzle-orm";
+import { db, schema } from "../db/index.js";
+
+export const pushSubscriptionRepository = {
+  async findByUserId(userId: string) {
+    return db.select().from(schema.pushSubscriptions).where(eq(schema.pushSubscriptions.userId, userId));
+  },
+  /** A browser endpoint belongs to one device; re-subscribing moves it to the current user */
+  async upsert(data: {
+    id: string;
+    userId: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    userAgent: string | null;
+  }) {
+    await db.insert(schema.pushSubscriptions).values(data).onDuplicateKeyUpdate({
+      set: { userId: data.userId, p256dh: data.p256dh, auth: data.auth, userAgent: data.userAgent },
+    });
+    const [subscription] = await db.select().from(schema.pushSubscriptions)
+      .where(eq(schema.pushSubscriptions.endpoint, data.endpoint)).limit(1);
+    return subscription!;
+  },
+  async deleteByEndpoint(userId: string, endpoint: string) {
+    await db.delete(schema.pushSubscriptions).where(and(
+      eq(schema.pushSubscriptions.userId, userId),
+      eq(schema.pushSubscriptions.endpoint, endpoint),
+    ));
+  },
+  async deleteByIds(ids: string[]) {
+    if (ids.length === 0) return;
+    await db.delete(schema.pushSubscriptions).where(inArray(schema.pushSubscriptions.id, ids));
+  },
+  async markUsed(ids: string[]) {
+    if (ids.length === 0) return;
+    await db.update(schema.pushSubscriptions)
+      .set({ lastUsedAt: new Date() })
+      .where(inArray(schema.pushSubscriptions.id, ids));
+  },
+};
@@ -13,6 +13,15 @@ export const readstateRepository = {
         set: { lastMessageId, mentionCount: 0 },
       });
   },
+  async incrementMentionCounts(userIds: string[], channelId: string) {
+    if (userIds.length === 0) return;
+    await db
+      .insert(schema.readStates)
+      .values(userIds.map((userId) => ({ userId, channelId, mentionCount: 1 })))
+      .onDuplicateKeyUpdate({
+        set: { mentionCount: sql`${schema.readStates.mentionCount} + 1` },
+      });
+  },
   async incrementMentionCount(userId: string, channelId: string) {
     await db
       .insert(schema.readStates)
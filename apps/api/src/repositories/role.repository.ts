@@ -1,4 +1,4 @@
-import { eq, and, inArray, sql } from "drizzle-orm";
+import { eq, and, gte, inArray, sql } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
 export const roleRepository = {
@@ -26,6 +26,12 @@ export const roleRepository = {
     const [created] = await db.select().from(schema.roles).where(eq(schema.roles.id, data.id)).limit(1);
     return created!;
   },
+  /** Make room at `fromPosition` by moving that role and everything above it up one */
+  async shiftPositions(guildId: string, fromPosition: number) {
+    await db.update(schema.roles)
+      .set({ position: sql`${schema.roles.position} + 1` })
+      .where(and(eq(schema.roles.guildId, guildId), gte(schema.roles.position, fromPosition)));
+  },
   async createInTx(tx: any, data: any) {
     await tx.insert(schema.roles).values(data);
   },
@@ -1,94 +1,229 @@
-import { eq, and, like, lt, desc, sql } from "drizzle-orm";
+import { eq, and, or, like, lt, gt, desc, asc, inArray, exists, sql, type SQL } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
 
 function escapeLike(str: string): string {
   return str.replace(/[%_\\]/g, "\\$&");
 }
 
+export type SearchHasFilter = "attachment" | "link" | "embed" | "poll";
+
+export interface MessageSearchFilters {
+  /** Index tokens that must all be present */
+  tokens: string[];
+  /** Exact substrings that must appear in the content */
+  phrases: string[];
+  /** Channels the caller may read; results never come from anywhere else */
+  channelIds: string[];
+  authorIds: string[];
+  mentionIds: string[];
+  has: SearchHasFilter[];
+  before?: Date;
+  after?: Date;
+  beforeId?: string;
+  pinned?: boolean;
+}
+
+export interface MessageSearchOptions {
+  sort: "relevance" | "timestamp";
+  order: "asc" | "desc";
+  limit: number;
+  offset: number;
+}
+
+const resultColumns = {
+  id: schema.messages.id,
+  channelId: schema.messages.channelId,
+  authorId: schema.messages.authorId,
+  content: schema.messages.content,
+  type: schema.messages.type,
+  flags: schema.messages.flags,
+  tts: schema.messages.tts,
+  mentionEveryone: schema.messages.mentionEveryone,
+  pinned: schema.messages.pinned,
+  editedTimestamp: schema.messages.editedTimestamp,
+  referencedMessageId: schema.messages.referencedMessageId,
+  webhookId: schema.messages.webhookId,
+  nonce: schema.messages.nonce,
+  createdAt: schema.messages.createdAt,
+} as const;
+
+/**
+ * Build the non-token conditions shared by the result and count queries.
+ */
+function buildConditions(filters: MessageSearchFilters): SQL[] {
+  const conditions: SQL[] = [inArray(schema.messages.channelId, filters.channelIds)];
+
+  for (const phrase of filters.phrases) {
+    conditions.push(like(schema.messages.content, `%${escapeLike(phrase)}%`));
+  }
+  if (filters.authorIds.length > 0) {
+    conditions.push(inArray(schema.messages.authorId, filters.authorIds));
+  }
+  for (const id of filters.mentionIds) {
+    conditions.push(or(
+      like(schema.messages.content, `%<@${escapeLike(id)}>%`),
+      like(schema.messages.content, `%<@!${escapeLike(id)}>%`),
+    )!);
+  }
+  for (const kind of filters.has) {
+    switch (kind) {
+      case "attachment":
+        conditions.push(exists(
+          db.select({ one: sql`1` }).from(schema.messageAttachments)
+            .where(eq(schema.messageAttachments.messageId, schema.messages.id))
+        ));
+        break;
+      case "embed":
+        conditions.push(exists(
+          db.select({ one: sql`1` }).from(schema.messageEmbeds)
+            .where(eq(schema.messageEmbeds.messageId, schema.messages.id))
+        ));
+        break;
+      case "poll":
+        conditions.push(exists(
+          db.select({ one: sql`1` }).from(schema.polls)
+            .where(eq(schema.polls.messageId, schema.messages.id))
+        ));
+        break;
+      case "link":
+        conditions.push(or(
+          like(schema.messages.content, "%http://%"),
+          like(schema.messages.content, "%https://%"),
+        )!);
+        break;
+    }
+  }
+  if (filters.before) {
+    conditions.push(lt(schema.messages.createdAt, filters.before));
+  }
+  if (filters.after) {
+    conditions.push(gt(schema.messages.createdAt, filters.after));
+  }
+  if (filters.beforeId) {
+    conditions.push(lt(schema.messages.id, filters.beforeId));
+  }
+  if (filters.pinned !== undefined) {
+    conditions.push(eq(schema.messages.pinned, filters.pinned));
+  }
+
+  return conditions;
+}
+
+/**
+ * Messages containing every token, with a relevance score (summed term frequency).
+ */
+function tokenMatches(guildId: string, filters: MessageSearchFilters) {
+  const t = schema.messageSearchTokens;
+  return db
+    .select({
+      messageId: t.messageId,
+      score: sql<number>`sum(${t.frequency})`.as("score"),
+    })
+    .from(t)
+    .where(and(
+      eq(t.guildId, guildId),
+      inArray(t.token, filters.tokens),
+      inArray(t.channelId, filters.channelIds),
+    ))
+    .groupBy(t.messageId)
+    .having(sql`count(*) = ${filters.tokens.length}`)
+    .as("matches");
+}
+
 export const searchRepository = {
   async searchGuildMessages(
     guildId: string,
-    query: string,
-    options?: {
-      channelId?: string;
-      authorId?: string;
-      before?: string;
-      limit?: number;
-    },
+    filters: MessageSearchFilters,
+    options: MessageSearchOptions,
   ) {
-    const limit = options?.limit ?? 25;
-    const escapedQuery = `%${escapeLike(query)}%`;
+    const conditions = buildConditions(filters);
+    const direction = options.order === "asc" ? asc : desc;
 
-    const conditions = [
-      eq(schema.channels.guildId, guildId),
-      eq(schema.messages.channelId, schema.channels.id),
-      like(schema.messages.content, escapedQuery),
-    ];
-
-    if (options?.channelId) {
-      conditions.push(eq(schema.messages.channelId, options.channelId));
-    }
-    if (options?.authorId) {
-      conditions.push(eq(schema.messages.authorId, options.authorId));
-    }
-    if (options?.before) {
-      conditions.push(lt(schema.messages.id, options.before));
+    if (filters.tokens.length === 0) {
+      // Operator-only query: no relevance signal, always newest/oldest first
+      const rows = await db
+        .select(resultColumns)
+        .from(schema.messages)
+        .where(and(...conditions))
+        .orderBy(direction(schema.messages.id))
+        .limit(options.limit)
+        .offset(options.offset);
+      return rows.map((r) => ({ ...r, score: 0 }));
     }
 
-    const results = await db
-      .select({
-        id: schema.messages.id,
-        channelId: schema.messages.channelId,
-        authorId: schema.messages.authorId,
-        content: schema.messages.content,
-        type: schema.messages.type,
-        flags: schema.messages.flags,
-        tts: schema.messages.tts,
-        mentionEveryone: schema.messages.mentionEveryone,
-        pinned: schema.messages.pinned,
-        editedTimestamp: schema.messages.editedTimestamp,
-        referencedMessageId: schema.messages.referencedMessageId,
-        webhookId: schema.messages.webhookId,
-        nonce: schema.messages.nonce,
-        createdAt: schema.messages.createdAt,
-      })
+    const matches = tokenMatches(guildId, filters);
+    const orderBy = options.sort === "relevance"
+      ? [direction(matches.score), desc(schema.messages.id)]
+      : [direction(schema.messages.id)];
+
+    return db
+      .select({ ...resultColumns, score: matches.score })
       .from(schema.messages)
-      .innerJoin(schema.channels, eq(schema.messages.channelId, schema.channels.id))
+      .innerJoin(matches, eq(matches.messageId, schema.messages.id))
       .where(and(...conditions))
-      .orderBy(desc(schema.messages.id))
-      .limit(limit);
+      .orderBy(...orderBy)
+      .limit(options.limit)
+      .offset(options.offset);
+  },
 
-    return results;
+  async countGuildMessages(guildId: string, filters: MessageSearchFilters) {
+    const conditions = buildConditions(filters);
+
+    let countResult: { count: number } | undefined;
+    if (filters.tokens.length === 0) {
+      [countResult] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.messages)
+        .where(and(...conditions));
+    } else {
+      const matches = tokenMatches(guildId, filters);
+      [countResult] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.messages)
+        .innerJoin(matches, eq(matches.messageId, schema.messages.id))
+        .where(and(...conditions));
+    }
+
+    return Number(countResult?.count ?? 0);
   },
 
-  async countGuildMessages(
+  /**
+   * Replace a message's index entries. Deleted messages drop out via the FK cascade.
+   */
+  async replaceMessageTokens(
+    messageId: string,
     guildId: string,
-    query: string,
-    options?: {
-      channelId?: string;
-      authorId?: string;
-    },
+    channelId: string,
+    tokens: Map<string, number>,
   ) {
-    const escapedQuery = `%${escapeLike(query)}%`;
-
-    const countConditions = [
-      eq(schema.channels.guildId, guildId),
-      like(schema.messages.content, escapedQuery),
-    ];
-
-    if (options?.channelId) {
-      countConditions.push(eq(schema.messages.channelId, options.channelId));
-    }
-    if (options?.authorId) {
-      countConditions.push(eq(schema.messages.authorId, options.authorId));
-    }
+    await db.transaction(async (tx) => {
+      await tx.delete(schema.messageSearchTokens).where(eq(schema.messageSearchTokens.messageId, messageId));
+      if (tokens.size === 0) return;
+      await tx.insert(schema.messageSearchTokens).values(
+        [...tokens].map(([token, frequency]) => ({ token, messageId, guildId, channelId, frequency }))
+      );
+    });
+  },
 
-    const [countResult] = await db
-      .select({ count: sql<number>`count(*)` })
+  /**
+   * Guild messages not yet in the index, oldest first after the cursor. Used by the backfill job.
+   */
+  async findUnindexedMessages(afterId: string, limit = 500) {
+    return db
+      .select({
+        id: schema.messages.id,
+        channelId: schema.messages.channelId,
+        guildId: schema.channels.guildId,
+        content: schema.messages.content,
+      })
       .from(schema.messages)
       .innerJoin(schema.channels, eq(schema.messages.channelId, schema.channels.id))
-      .where(and(...countConditions));
-
-    return countResult?.count ?? 0;
+      .where(and(
+        gt(schema.messages.id, afterId),
+        sql`${schema.channels.guildId} IS NOT NULL`,
+        sql`NOT EXISTS (SELECT 1 FROM ${schema.messageSearchTokens} WHERE ${schema.messageSearchTokens.messageId} = ${schema.messages.id})`,
+      ))
+      .orderBy(asc(schema.messages.id))
+      .limit(limit);
   },
 };
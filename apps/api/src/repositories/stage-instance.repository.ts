@@ -0,0 +1,35 @@
+import { eq } from "drizzle-orm";
+import { db, schema } from "../db/index.js";
+
+export const stageInstanceRepository = {
+  async findById(id: string) {
+    const [instance] = await db
+      .select()
+      .from(schema.stageInstances)
+      .where(eq(schema.stageInstances.id, id))
+      .limit(1);
+    return instance ?? null;
+  },
+  async findByChannelId(channelId: string) {
+    const [instance] = await db
+      .select()
+      .from(schema.stageInstances)
+      .where(eq(schema.stageInstances.channelId, channelId))
+      .limit(1);
+    return instance ?? null;
+  },
+  async findByGuildId(guildId: string) {
+    return db.select().from(schema.stageInstances).where(eq(schema.stageInstances.guildId, guildId));
+  },
+  async create(data: typeof schema.stageInstances.$inferInsert) {
+    await db.insert(schema.stageInstances).values(data);
+    return (await this.findById(data.id))!;
+  },
+  async update(id: string, data: Partial<{ topic: string; privacyLevel: number; discoverableDisabled: boolean }>) {
+    await db.update(schema.stageInstances).set(data).where(eq(schema.stageInstances.id, id));
+    return (await this.findById(id))!;
+  },
+  async delete(id: string) {
+    await db.delete(schema.stageInstances).where(eq(schema.stageInstances.id, id));
+  },
+};
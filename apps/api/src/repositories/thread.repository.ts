@@ -1,4 +1,5 @@
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, lte, asc, sql } from "drizzle-orm";
+import { ChannelType } from "@yxc/types";
 import { db, schema } from "../db/index.js";
 
 export const threadRepository = {
@@ -50,6 +51,21 @@ export const threadRepository = {
       .from(schema.threadMembers)
       .where(eq(schema.threadMembers.channelId, channelId));
   },
+  /** Private threads in a guild the user has joined */
+  async findJoinedPrivateThreadIds(userId: string, guildId: string) {
+    const rows = await db
+      .select({ channelId: schema.threadMembers.channelId })
+      .from(schema.threadMembers)
+      .innerJoin(schema.channels, eq(schema.channels.id, schema.threadMembers.channelId))
+      .where(
+        and(
+          eq(schema.threadMembers.userId, userId),
+          eq(schema.channels.guildId, guildId),
+          eq(schema.channels.type, ChannelType.PRIVATE_THREAD),
+        ),
+      );
+    return rows.map((r) => r.channelId);
+  },
   async findMetadata(channelId: string) {
     const [metadata] = await db
       .select()
@@ -70,6 +86,35 @@ export const threadRepository = {
       .set(data)
       .where(eq(schema.threadMetadata.channelId, channelId));
   },
+  /** Push the auto-archive time back to now plus the thread's duration */
+  async touchActivity(channelId: string) {
+    await db
+      .update(schema.threadMetadata)
+      .set({ autoArchiveAt: sql`DATE_ADD(NOW(), INTERVAL ${schema.threadMetadata.autoArchiveDuration} MINUTE)` })
+      .where(and(eq(schema.threadMetadata.channelId, channelId), eq(schema.threadMetadata.archived, false)));
+  },
+  async findIdle(now: Date, limit: number) {
+    return db
+      .select({ channelId: schema.threadMetadata.channelId })
+      .from(schema.threadMetadata)
+      .where(and(eq(schema.threadMetadata.archived, false), lte(schema.threadMetadata.autoArchiveAt, now)))
+      .orderBy(asc(schema.threadMetadata.autoArchiveAt))
+      .limit(limit);
+  },
+  /** Returns false if the thread was archived or saw activity since it was found idle */
+  async archiveIdle(channelId: string, now: Date) {
+    const [result] = await db
+      .update(schema.threadMetadata)
+      .set({ archived: true, archiveTimestamp: now })
+      .where(
+        and(
+          eq(schema.threadMetadata.channelId, channelId),
+          eq(schema.threadMetadata.archived, false),
+          lte(schema.threadMetadata.autoArchiveAt, now),
+        ),
+      );
+    return result.affectedRows > 0;
+  },
   async deleteThread(channelId: string) {
     await db.delete(schema.threadMembers).where(eq(schema.threadMembers.channelId, channelId));
     await db.delete(schema.threadMetadata).where(eq(schema.threadMetadata.channelId, channelId));
@@ -85,7 +130,7 @@ export const threadRepository = {
       ownerId: string;
       position: number;
     },
-    metadataData: { channelId: string; autoArchiveDuration: number },
+    metadataData: { channelId: string; autoArchiveDuration: number; autoArchiveAt: Date },
     creatorId: string,
   ) {
     await db.transaction(async (tx) => {
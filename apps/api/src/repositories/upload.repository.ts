@@ -0,0 +1,62 @@
+import { eq, and, lt, ne, asc } from "drizzle-orm";
+import { db, schema } from "../db/index.js";
+
+export const uploadRepository = {
+  async findById(id: string) {
+    const [session] = await db
+      .select()
+      .from(schema.uploadSessions)
+      .where(eq(schema.uploadSessions.id, id))
+      .limit(1);
+    return session ?? null;
+  },
+  async create(data: typeof schema.uploadSessions.$inferInsert) {
+    await db.insert(schema.uploadSessions).values(data);
+    return (await this.findById(data.id))!;
+  },
+  async update(id: string, data: Record<string, any>) {
+    await db.update(schema.uploadSessions).set(data).where(eq(schema.uploadSessions.id, id));
+    return (await this.findById(id))!;
+  },
+  /**
+   * Atomically move a session from one status to another. Returns false if it was
+   * not in `from`, so concurrent callers can't both claim the same upload.
+   */
+  async transitionStatus(
+    id: string,
+    from: "pending" | "completed" | "attached",
+    to: "pending" | "completed" | "attached",
+    data: Record<string, any> = {}
+  ) {
+    const [result] = await db
+      .update(schema.uploadSessions)
+      .set({ ...data, status: to })
+      .where(and(eq(schema.uploadSessions.id, id), eq(schema.uploadSessions.status, from)));
+    return result.affectedRows > 0;
+  },
+  async delete(id: string) {
+    await db.delete(schema.uploadSessions).where(eq(schema.uploadSessions.id, id));
+  },
+  async findParts(sessionId: string) {
+    return db
+      .select()
+      .from(schema.uploadSessionParts)
+      .where(eq(schema.uploadSessionParts.sessionId, sessionId))
+      .orderBy(asc(schema.uploadSessionParts.partNumber));
+  },
+  async upsertPart(sessionId: string, partNumber: number, etag: string, size: number) {
+    await db
+      .insert(schema.uploadSessionParts)
+      .values({ sessionId, partNumber, etag, size })
+      .onDuplicateKeyUpdate({ set: { etag, size } });
+  },
+  /** Unattached sessions past their expiry, oldest first */
+  async findExpired(before: Date, limit: number) {
+    return db
+      .select()
+      .from(schema.uploadSessions)
+      .where(and(lt(schema.uploadSessions.expiresAt, before), ne(schema.uploadSessions.status, "attached")))
+      .orderBy(asc(schema.uploadSessions.expiresAt))
+      .limit(limit);
+  },
+};
@@ -52,6 +52,9 @@ export const userRepository = {
     }).from(schema.users).where(eq(schema.users.id, id)).limit(1);
     return user ?? null;
   },
+  async touchLastSeen(userId: string) {
+    await db.update(schema.users).set({ lastSeenAt: new Date() }).where(eq(schema.users.id, userId));
+  },
   async updatePresence(userId: string, status: string, customStatus: any) {
     await db.update(schema.users).set({
       status: status as any,
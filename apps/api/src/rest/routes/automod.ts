@@ -1,66 +1,110 @@
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
+import { PermissionFlags } from "@yxc/permissions";
+import { AuditLogActionType } from "@yxc/types";
 import { authMiddleware } from "../../middleware/auth.js";
-import { ApiError } from "../../services/auth.service.js";
-import * as guildService from "../../services/guild.service.js";
 import * as automodService from "../../services/automod.service.js";
-import type { AutoModConfig } from "../../services/automod.service.js";
+import * as permissionService from "../../services/permission.service.js";
+import * as auditlogService from "../../services/auditlog.service.js";
+import { dispatchGuild } from "../../utils/dispatch.js";
+
+const triggerMetadataSchema = z.object({
+  keywordFilter: z.array(z.string().min(1).max(60)).max(1000).optional(),
+  regexPatterns: z.array(z.string().min(1).max(260)).max(10).optional(),
+  presets: z.array(z.nativeEnum(automodService.AutoModKeywordPresetType)).max(3).optional(),
+  allowList: z.array(z.string().min(1).max(60)).max(100).optional(),
+  mentionTotalLimit: z.number().int().min(1).max(50).optional(),
+  mentionRaidProtectionEnabled: z.boolean().optional(),
+});
+
+const actionSchema = z.object({
+  type: z.nativeEnum(automodService.AutoModActionType),
+  metadata: z
+    .object({
+      channelId: z.string().optional(),
+      durationSeconds: z.number().int().optional(),
+      customMessage: z.string().max(150).optional(),
+    })
+    .optional(),
+});
+
+const ruleFields = {
+  name: z.string().min(1).max(100),
+  eventType: z.nativeEnum(automodService.AutoModEventType),
+  triggerMetadata: triggerMetadataSchema,
+  actions: z.array(actionSchema).min(1).max(5),
+  enabled: z.boolean(),
+  exemptRoles: z.array(z.string()).max(20),
+  exemptChannels: z.array(z.string()).max(50),
+};
 
 export async function automodRoutes(app: FastifyInstance) {
   app.addHook("preHandler", authMiddleware);
 
-  // GET /api/guilds/:guildId/automod
-  app.get("/guilds/:guildId/automod", async (request, reply) => {
+  // GET /api/guilds/:guildId/auto-moderation/rules
+  app.get("/guilds/:guildId/auto-moderation/rules", async (request, reply) => {
     const { guildId } = request.params as { guildId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+
+    const rules = await automodService.getRules(guildId);
+    return reply.send(rules);
+  });
 
-    if (!(await guildService.isMember(request.userId, guildId))) {
-      throw new ApiError(403, "Not a member of this guild");
-    }
+  // GET /api/guilds/:guildId/auto-moderation/rules/:ruleId
+  app.get("/guilds/:guildId/auto-moderation/rules/:ruleId", async (request, reply) => {
+    const { guildId, ruleId } = request.params as { guildId: string; ruleId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
 
-    const config = await automodService.getConfig(guildId);
-    return reply.send(config);
+    const rule = await automodService.getRule(guildId, ruleId);
+    return reply.send(rule);
   });
 
-  // PUT /api/guilds/:guildId/automod
-  app.put("/guilds/:guildId/automod", async (request, reply) => {
+  // POST /api/guilds/:guildId/auto-moderation/rules
+  app.post("/guilds/:guildId/auto-moderation/rules", async (request, reply) => {
     const { guildId } = request.params as { guildId: string };
-
-    // Check ownership (MANAGE_GUILD simplified to owner check, matching guild.service pattern)
-    const guild = await guildService.getGuild(guildId);
-    if (!guild) throw new ApiError(404, "Guild not found");
-    if (guild.ownerId !== request.userId) {
-      throw new ApiError(403, "Missing permissions (MANAGE_GUILD required)");
-    }
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
 
     const body = z
       .object({
-        enabled: z.boolean(),
-        keywordFilters: z.object({
-          enabled: z.boolean(),
-          blockedWords: z.array(z.string().max(100)).max(1000),
-          action: z.enum(["delete", "warn", "timeout"]),
-        }),
-        mentionSpam: z.object({
-          enabled: z.boolean(),
-          maxMentions: z.number().int().min(1).max(100),
-          action: z.enum(["delete", "warn", "timeout"]),
-        }),
-        linkFilter: z.object({
-          enabled: z.boolean(),
-          blockAllLinks: z.boolean(),
-          whitelist: z.array(z.string().max(200)).max(100),
-          action: z.enum(["delete", "warn", "timeout"]),
-        }),
-        antiRaid: z.object({
-          enabled: z.boolean(),
-          joinRateLimit: z.number().int().min(1).max(1000),
-          joinRateWindow: z.number().int().min(1).max(3600),
-          action: z.enum(["lockdown", "kick", "notify"]),
-        }),
+        ...ruleFields,
+        triggerType: z.nativeEnum(automodService.AutoModTriggerType),
+        triggerMetadata: triggerMetadataSchema.default({}),
+        enabled: ruleFields.enabled.default(false),
+        exemptRoles: ruleFields.exemptRoles.default([]),
+        exemptChannels: ruleFields.exemptChannels.default([]),
       })
-      .parse(request.body) as AutoModConfig;
+      .parse(request.body);
+
+    const rule = await automodService.createRule(guildId, request.userId, body);
+
+    await dispatchGuild(guildId, "AUTO_MODERATION_RULE_CREATE", rule);
+    await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.AUTO_MODERATION_RULE_CREATE, rule.id);
+    return reply.status(201).send(rule);
+  });
+
+  // PATCH /api/guilds/:guildId/auto-moderation/rules/:ruleId
+  app.patch("/guilds/:guildId/auto-moderation/rules/:ruleId", async (request, reply) => {
+    const { guildId, ruleId } = request.params as { guildId: string; ruleId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+
+    const body = z.object(ruleFields).partial().parse(request.body);
+
+    const rule = await automodService.updateRule(guildId, ruleId, body);
+
+    await dispatchGuild(guildId, "AUTO_MODERATION_RULE_UPDATE", rule);
+    await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.AUTO_MODERATION_RULE_UPDATE, rule.id);
+    return reply.send(rule);
+  });
+
+  // DELETE /api/guilds/:guildId/auto-moderation/rules/:ruleId
+  app.delete("/guilds/:guildId/auto-moderation/rules/:ruleId", async (request, reply) => {
+    const { guildId, ruleId } = request.params as { guildId: string; ruleId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+
+    const rule = await automodService.deleteRule(guildId, ruleId);
 
-    await automodService.setConfig(guildId, body);
-    return reply.send(body);
+    await dispatchGuild(guildId, "AUTO_MODERATION_RULE_DELETE", { id: rule.id, guildId });
+    await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.AUTO_MODERATION_RULE_DELETE, rule.id);
+    return reply.status(204).send();
   });
 }
@@ -1,8 +1,11 @@
 import type { FastifyInstance } from "fastify";
 import { env } from "../../config/env.js";
 import { authMiddleware } from "../../middleware/auth.js";
+import * as mediaService from "../../services/media.service.js";
 import { Client as MinioClient } from "minio";
 import crypto from "crypto";
+import path from "path";
+import { parseRange, isNotModified, isRangeFresh, contentDisposition, type ByteRange } from "../../utils/http.js";
 
 const minio = new MinioClient({
   endPoint: env.MINIO_ENDPOINT,
@@ -42,16 +45,158 @@ async function ensureBucketOnce() {
   }
 }
 
+async function readObject(objectKey: string): Promise<Buffer> {
+  const stream = await minio.getObject(BUCKET, objectKey);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+interface StoredObject {
+  key: string;
+  size: number;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+  originalFilename?: string;
+  /** Set when the object was just rendered and is already in memory */
+  data?: Buffer;
+}
+
+// Original filenames are stored URI-encoded because S3 metadata must be ASCII
+function decodeFilename(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+async function statStoredObject(objectKey: string, fallbackContentType: string): Promise<StoredObject> {
+  const stat = await minio.statObject(BUCKET, objectKey);
+  return {
+    key: objectKey,
+    size: stat.size,
+    contentType: stat.metaData?.["content-type"] ?? fallbackContentType,
+    etag: `"${stat.etag}"`,
+    lastModified: stat.lastModified,
+    originalFilename: decodeFilename(stat.metaData?.["original-filename"]),
+  };
+}
+
+// Concurrent requests for the same uncached variant share one render
+const pendingVariants = new Map<string, Promise<StoredObject>>();
+
+/**
+ * Fetch a resized/re-encoded variant, rendering and storing it in the bucket on first use.
+ * Videos are thumbnailed from the poster frame captured at upload time.
+ */
+async function getVariant(source: StoredObject, options: mediaService.ImageVariantOptions): Promise<StoredObject> {
+  const sourceKey = mediaService.isVideo(source.contentType) ? mediaService.posterKey(source.key) : source.key;
+  const renderType = mediaService.isVideo(source.contentType) ? "image/png" : source.contentType;
+  const key = mediaService.variantKey(sourceKey, options, renderType);
+
+  try {
+    return await statStoredObject(key, "application/octet-stream");
+  } catch {
+    // Not rendered yet
+  }
+
+  let pending = pendingVariants.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const variant = await mediaService.renderVariant(await readObject(sourceKey), renderType, options);
+      const { etag } = await minio.putObject(BUCKET, key, variant.data, variant.data.length, {
+        "Content-Type": variant.contentType,
+      });
+      return {
+        key,
+        size: variant.data.length,
+        contentType: variant.contentType,
+        etag: `"${etag}"`,
+        lastModified: new Date(),
+        data: variant.data,
+      };
+    })().finally(() => pendingVariants.delete(key));
+    pendingVariants.set(key, pending);
+  }
+  return pending;
+}
+
+async function openBody(object: StoredObject, range: ByteRange | null) {
+  if (object.data) {
+    return range ? object.data.subarray(range.start, range.end + 1) : object.data;
+  }
+  return range
+    ? minio.getPartialObject(BUCKET, object.key, range.start, range.end - range.start + 1)
+    : minio.getObject(BUCKET, object.key);
+}
+
+/**
+ * Stream an object, or a derivative of it when the request asks for `?size=`, `?format=`
+ * or `?quality=` and the object is an image or video. Supports single byte ranges
+ * (206/416), If-None-Match/If-Modified-Since (304) and If-Range.
+ */
+async function sendObject(
+  request: any,
+  reply: any,
+  objectKey: string,
+  fallbackContentType: string,
+  options: { filename?: string } = {}
+) {
+  const variantOptions = mediaService.parseVariantOptions(request.query ?? {});
+
+  const original = await statStoredObject(objectKey, fallbackContentType);
+  let object = original;
+  let filename = original.originalFilename ?? options.filename;
+  if (variantOptions && (mediaService.isResizableImage(original.contentType) || mediaService.isVideo(original.contentType))) {
+    object = await getVariant(original, variantOptions);
+    const ext = object.key.slice(object.key.lastIndexOf("."));
+    if (filename) filename = `${path.parse(filename).name}${ext}`;
+  }
+
+  reply.header("Content-Type", object.contentType);
+  reply.header("Cache-Control", "public, max-age=31536000, immutable");
+  reply.header("ETag", object.etag);
+  reply.header("Last-Modified", object.lastModified.toUTCString());
+  reply.header("Accept-Ranges", "bytes");
+  if (filename) {
+    reply.header("Content-Disposition", contentDisposition(filename));
+  }
+
+  if (isNotModified(request.headers, object.etag, object.lastModified)) {
+    return reply.status(304).send();
+  }
+
+  let range = parseRange(request.headers.range, object.size);
+  if (range && !isRangeFresh(request.headers, object.etag, object.lastModified)) {
+    range = null;
+  }
+  if (range === "unsatisfiable") {
+    reply.header("Content-Range", `bytes */${object.size}`);
+    return reply.status(416).send({ error: "Range not satisfiable" });
+  }
+
+  if (range) {
+    reply.status(206);
+    reply.header("Content-Range", `bytes ${range.start}-${range.end}/${object.size}`);
+    reply.header("Content-Length", range.end - range.start + 1);
+  } else {
+    reply.header("Content-Length", object.size);
+  }
+  return reply.send(await openBody(object, range));
+}
+
 function serveObject(objectKey: string, fallbackContentType = "application/octet-stream") {
-  return async (_request: any, reply: any) => {
+  return async (request: any, reply: any) => {
     await ensureBucketOnce();
+    // Validate variant options up front so bad parameters are a 400, not a 404
+    mediaService.parseVariantOptions(request.query ?? {});
     try {
-      const stat = await minio.statObject(BUCKET, objectKey);
-      const stream = await minio.getObject(BUCKET, objectKey);
-      reply.header("Content-Type", stat.metaData?.["content-type"] ?? fallbackContentType);
-      reply.header("Content-Length", stat.size);
-      reply.header("Cache-Control", "public, max-age=31536000, immutable");
-      return reply.send(stream);
+      return await sendObject(request, reply, objectKey, fallbackContentType);
     } catch {
       return reply.status(404).send({ error: "File not found" });
     }
@@ -105,6 +250,7 @@ export async function cdnRoutes(app: FastifyInstance) {
 
     await minio.putObject(BUCKET, objectName, buffer, buffer.length, {
       "Content-Type": file.mimetype,
+      "x-amz-meta-original-filename": encodeURIComponent(file.filename),
     });
 
     return reply.send({
@@ -135,6 +281,7 @@ export async function cdnRoutes(app: FastifyInstance) {
     };
 
     await ensureBucketOnce();
+    mediaService.parseVariantOptions(request.query as Record<string, unknown>);
     const prefix = `attachments/${channelId}/${attachmentId}/`;
 
     try {
@@ -148,16 +295,7 @@ export async function cdnRoutes(app: FastifyInstance) {
         return reply.status(404).send({ error: "Attachment not found" });
       }
 
-      const objectKey = objects[0]!;
-      const stat = await minio.statObject(BUCKET, objectKey);
-      const fileStream = await minio.getObject(BUCKET, objectKey);
-
-      reply.header("Content-Type", stat.metaData?.["content-type"] ?? "application/octet-stream");
-      reply.header("Content-Length", stat.size);
-      reply.header("Cache-Control", "public, max-age=31536000, immutable");
-      reply.header("Content-Disposition", `inline; filename="${encodeURIComponent(filename)}"`);
-
-      return reply.send(fileStream);
+      return await sendObject(request, reply, objects[0]!, "application/octet-stream", { filename });
     } catch {
       return reply.status(404).send({ error: "Attachment not found" });
     }
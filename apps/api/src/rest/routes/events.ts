@@ -15,6 +15,18 @@ async function requireMembership(userId: string, guildId: string) {
   return member;
 }
 
+const recurrenceRuleSchema = z.object({
+  frequency: z.enum(["daily", "weekly", "monthly"]),
+  interval: z.number().int().min(1).max(52).optional(),
+  byWeekday: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  count: z.number().int().min(1).max(520).optional(),
+  endDate: z.string().datetime().optional(),
+}).refine((rule) => rule.count === undefined || rule.endDate === undefined, {
+  message: "count and endDate are mutually exclusive",
+}).refine((rule) => rule.frequency === "weekly" || rule.byWeekday === undefined, {
+  message: "byWeekday only applies to weekly rules",
+});
+
 const createEventSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(1000).optional(),
@@ -27,6 +39,7 @@ const createEventSchema = z.object({
     location: z.string().max(200).optional(),
   }).optional(),
   image: z.string().optional(),
+  recurrenceRule: recurrenceRuleSchema.optional(),
 });
 
 const updateEventSchema = z.object({
@@ -42,6 +55,7 @@ const updateEventSchema = z.object({
     location: z.string().max(200).optional(),
   }).nullable().optional(),
   image: z.string().nullable().optional(),
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
 });
 
 function serializeEvent(event: eventService.GuildEvent) {
@@ -59,6 +73,7 @@ function serializeEvent(event: eventService.GuildEvent) {
     entityType: event.entityType,
     entityMetadata: event.entityMetadata,
     image: event.image,
+    recurrenceRule: event.recurrenceRule,
     createdAt: event.createdAt.toISOString(),
   };
 }
@@ -102,6 +117,15 @@ export async function eventRoutes(app: FastifyInstance) {
     return reply.send(serialized);
   });
 
+  // iCalendar feed URL for the caller; the feed itself is served by publicEventRoutes
+  app.get("/guilds/:guildId/scheduled-events/calendar-token", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    await requireMembership(request.userId, guildId);
+
+    const token = await eventService.createCalendarToken(request.userId, guildId);
+    return reply.send({ token, url: `/api/guilds/${guildId}/scheduled-events.ics?token=${encodeURIComponent(token)}` });
+  });
+
   // Get single event
   app.get("/guilds/:guildId/scheduled-events/:eventId", async (request, reply) => {
     const { guildId, eventId } = request.params as {
@@ -333,3 +357,21 @@ export async function eventRoutes(app: FastifyInstance) {
     }
   );
 }
+
+/** iCalendar feed — no session, calendar apps authenticate with the token in the URL */
+export async function publicEventRoutes(app: FastifyInstance) {
+  app.get("/guilds/:guildId/scheduled-events.ics", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    const { token } = z.object({ token: z.string() }).parse(request.query);
+
+    const userId = await eventService.verifyCalendarToken(guildId, token);
+    await requireMembership(userId, guildId);
+
+    const calendar = await eventService.getGuildCalendar(guildId);
+
+    return reply
+      .header("Content-Type", "text/calendar; charset=utf-8")
+      .header("Content-Disposition", `attachment; filename="${guildId}-events.ics"`)
+      .send(calendar);
+  });
+}
@@ -3,9 +3,14 @@ import { z } from "zod";
 import { authMiddleware } from "../../middleware/auth.js";
 import * as scheduledMessageService from "../../services/scheduled-message.service.js";
 import * as notificationService from "../../services/notification.service.js";
+import * as pushService from "../../services/push.service.js";
 import * as backupService from "../../services/backup.service.js";
 import * as banAppealService from "../../services/ban-appeal.service.js";
+import * as channelService from "../../services/channel.service.js";
+import * as auditlogService from "../../services/auditlog.service.js";
 import { ApiError } from "../../services/auth.service.js";
+import { AuditLogActionType } from "@yxc/types";
+import { dispatchGuild } from "../../utils/dispatch.js";
 
 export async function featureRoutes(app: FastifyInstance) {
   app.addHook("preHandler", authMiddleware);
@@ -73,6 +78,43 @@ export async function featureRoutes(app: FastifyInstance) {
     return reply.status(204).send();
   });
 
+  // ── Web Push Subscriptions ──
+
+  app.get("/users/@me/push-subscriptions/vapid-key", async (_request, reply) => {
+    return reply.send({ publicKey: pushService.getVapidPublicKey() });
+  });
+
+  app.get("/users/@me/push-subscriptions", async (request, reply) => {
+    const subscriptions = await pushService.getSubscriptions(request.userId);
+    return reply.send(subscriptions);
+  });
+
+  // Body is the browser's PushSubscription.toJSON()
+  app.post("/users/@me/push-subscriptions", async (request, reply) => {
+    const body = z
+      .object({
+        endpoint: z.string().url().max(768),
+        keys: z.object({
+          p256dh: z.string().min(1).max(255),
+          auth: z.string().min(1).max(255),
+        }),
+      })
+      .parse(request.body);
+
+    const subscription = await pushService.subscribe(
+      request.userId,
+      body,
+      request.headers["user-agent"] ?? null
+    );
+    return reply.status(201).send(subscription);
+  });
+
+  app.delete("/users/@me/push-subscriptions", async (request, reply) => {
+    const body = z.object({ endpoint: z.string().max(768) }).parse(request.body);
+    await pushService.unsubscribe(request.userId, body.endpoint);
+    return reply.status(204).send();
+  });
+
   // ── Server Backups ──
 
   app.post("/guilds/:guildId/backups", async (request, reply) => {
@@ -99,6 +141,33 @@ export async function featureRoutes(app: FastifyInstance) {
     return reply.status(204).send();
   });
 
+  app.post("/guilds/:guildId/backups/:backupId/restore", async (request, reply) => {
+    const { guildId, backupId } = request.params as { guildId: string; backupId: string };
+    const body = z
+      .object({
+        dryRun: z.boolean().default(false),
+      })
+      .parse(request.body ?? {});
+
+    const result = await backupService.restoreBackup(guildId, backupId, request.userId, { dryRun: body.dryRun });
+    if (result.dryRun) return reply.send({ dryRun: true, plan: result.plan });
+
+    for (const role of result.createdRoles) {
+      await dispatchGuild(guildId, "GUILD_ROLE_CREATE", { guildId, role });
+      await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.ROLE_CREATE, role.id, "Restored from backup");
+    }
+    for (const channel of result.createdChannels) {
+      await dispatchGuild(guildId, "CHANNEL_CREATE", channel);
+      await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.CHANNEL_CREATE, channel.id, "Restored from backup");
+    }
+    for (const channelId of result.updatedChannelIds) {
+      await dispatchGuild(guildId, "CHANNEL_UPDATE", await channelService.getChannel(channelId));
+      await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.CHANNEL_OVERWRITE_CREATE, channelId, "Restored from backup");
+    }
+
+    return reply.send({ dryRun: false, plan: result.plan });
+  });
+
   // ── Ban Appeals ──
 
   app.post("/guilds/:guildId/ban-appeals", async (request, reply) => {
@@ -227,6 +296,8 @@ export async function featureRoutes(app: FastifyInstance) {
         suppressRoles: z.boolean().optional(),
         muted: z.boolean().optional(),
         muteUntil: z.string().nullable().optional(),
+        pushEnabled: z.boolean().optional(),
+        emailEnabled: z.boolean().optional(),
       })
       .parse(request.body);
 
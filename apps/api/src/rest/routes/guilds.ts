@@ -13,6 +13,9 @@ import * as auditlogService from "../../services/auditlog.service.js";
 import * as permissionService from "../../services/permission.service.js";
 import * as guildTemplateService from "../../services/guild-template.service.js";
 import * as channelFollowService from "../../services/channel-follow.service.js";
+import * as voiceService from "../../services/voice.service.js";
+import * as discoveryService from "../../services/discovery.service.js";
+import * as onboardingService from "../../services/onboarding.service.js";
 import { ApiError, getUserById } from "../../services/auth.service.js";
 import { ChannelType, AuditLogActionType } from "@yxc/types";
 import { PermissionFlags } from "@yxc/permissions";
@@ -23,9 +26,33 @@ import { messageRepository } from "../../repositories/message.repository.js";
 import { userRepository } from "../../repositories/user.repository.js";
 import { guildSettingsRepository } from "../../repositories/guild-settings.repository.js";
 
-import { dispatchGuild } from "../../utils/dispatch.js";
+import { dispatchGuild, dispatchUser } from "../../utils/dispatch.js";
 import { config } from "../../config/config.js";
 
+const onboardingPromptSchema = z.object({
+  id: z.string().min(1).max(64),
+  type: z.number().int().min(0).max(1).default(0),
+  title: z.string().min(1).max(100),
+  singleSelect: z.boolean().default(false),
+  required: z.boolean().default(false),
+  inOnboarding: z.boolean().default(true),
+  options: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(64),
+        channelIds: z.array(z.string()).max(50).default([]),
+        roleIds: z.array(z.string()).max(50).default([]),
+        title: z.string().min(1).max(50),
+        description: z.string().max(100).optional(),
+        emojiId: z.string().optional(),
+        emojiName: z.string().optional(),
+        emojiAnimated: z.boolean().optional(),
+      })
+    )
+    .min(1)
+    .max(50),
+});
+
 export async function guildRoutes(app: FastifyInstance) {
   app.addHook("preHandler", authMiddleware);
 
@@ -72,12 +99,27 @@ export async function guildRoutes(app: FastifyInstance) {
         explicitContentFilter: z.number().int().min(0).max(2).optional(),
         systemChannelId: z.string().optional(),
         rulesChannelId: z.string().optional(),
+        // Per-file upload limit in bytes; null restores the platform default
+        maxUploadSize: z.number().int().min(1024 * 1024).max(config.uploads.maxFileSize).nullable().optional(),
+        // Discovery listing, owner only
+        discoverable: z.boolean().optional(),
+        discoveryCategory: z.enum(discoveryService.DISCOVERY_CATEGORIES).nullable().optional(),
+        discoveryTags: z.array(z.string().min(1).max(24)).max(5).optional(),
       })
       .parse(request.body);
 
     await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
 
-    const guild = await guildService.updateGuild(guildId, request.userId, body);
+    const { discoverable, discoveryCategory, discoveryTags, ...data } = body;
+    if (discoverable !== undefined || discoveryCategory !== undefined || discoveryTags !== undefined) {
+      await discoveryService.updateDiscoverySettings(guildId, request.userId, {
+        discoverable,
+        category: discoveryCategory,
+        tags: discoveryTags,
+      });
+    }
+
+    const guild = await guildService.updateGuild(guildId, request.userId, data);
     await dispatchGuild(guildId, "GUILD_UPDATE", guild);
     await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.GUILD_UPDATE, guildId);
     return reply.send(guild);
@@ -95,69 +137,6 @@ export async function guildRoutes(app: FastifyInstance) {
     return reply.send(guilds);
   });
 
-  // Voice join (REST proxy to zent-stream)
-  app.post("/voice/:guildId/:channelId/join", async (request, reply) => {
-    const { guildId, channelId } = request.params as { guildId: string; channelId: string };
-    if (!(await guildService.isMember(request.userId, guildId))) {
-      throw new ApiError(403, "Not a member");
-    }
-
-    if (!config.stream.url) {
-      throw new ApiError(503, "Voice service unavailable");
-    }
-
-    const body = request.body as any;
-    const headers: Record<string, string> = { "Content-Type": "application/json" };
-    if (config.stream.internalKey) headers["x-internal-key"] = config.stream.internalKey;
-
-    const res = await fetch(`${config.stream.url}/api/voice/${guildId}/${channelId}/join`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        userId: request.userId,
-        username: body?.username ?? "User",
-        channelType: body?.channelType ?? 2,
-        selfMute: body?.selfMute ?? false,
-        selfDeaf: body?.selfDeaf ?? false,
-      }),
-    });
-
-    if (!res.ok) {
-      const err = await res.json().catch(() => ({ message: "Voice service error" }));
-      throw new ApiError(res.status, (err as any).message);
-    }
-
-    const result = await res.json() as any;
-
-    await dispatchGuild(guildId, "VOICE_STATE_UPDATE", result.voiceState);
-
-    return reply.send(result);
-  });
-
-  // Voice leave (REST proxy to zent-stream)
-  app.post("/voice/:guildId/leave", async (request, reply) => {
-    const { guildId } = request.params as { guildId: string };
-
-    if (!config.stream.url) {
-      throw new ApiError(503, "Voice service unavailable");
-    }
-
-    const headers: Record<string, string> = { "Content-Type": "application/json" };
-    if (config.stream.internalKey) headers["x-internal-key"] = config.stream.internalKey;
-
-    await fetch(`${config.stream.url}/api/voice/${guildId}/leave`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ userId: request.userId }),
-    });
-
-    await dispatchGuild(guildId, "VOICE_STATE_UPDATE", {
-      userId: request.userId, guildId, channelId: null,
-    });
-
-    return reply.status(204).send();
-  });
-
   // Leave guild
   app.delete("/users/@me/guilds/:guildId", async (request, reply) => {
     const { guildId } = request.params as { guildId: string };
@@ -231,6 +210,7 @@ export async function guildRoutes(app: FastifyInstance) {
         rateLimitPerUser: z.number().int().min(0).max(21600).optional(),
         bitrate: z.number().int().optional(),
         userLimit: z.number().int().min(0).max(99).optional(),
+        isPublic: z.boolean().optional(),
       })
       .parse(request.body);
 
@@ -238,6 +218,9 @@ export async function guildRoutes(app: FastifyInstance) {
     if (existingChannel?.guildId) {
       await permissionService.requireGuildPermission(request.userId, existingChannel.guildId, PermissionFlags.MANAGE_CHANNELS);
     }
+    if (body.isPublic !== undefined && existingChannel) {
+      await discoveryService.requireCanPublishChannel(existingChannel, request.userId);
+    }
 
     const channel = await channelService.updateChannel(channelId, body);
     if (channel.guildId) {
@@ -256,6 +239,7 @@ export async function guildRoutes(app: FastifyInstance) {
     await channelService.deleteChannel(channelId);
     if (channel?.guildId) {
       await dispatchGuild(channel.guildId, "CHANNEL_DELETE", { id: channelId, guildId: channel.guildId });
+      await voiceService.disconnectChannel(channel.guildId, channelId);
       await auditlogService.createAuditLogEntry(channel.guildId, request.userId, AuditLogActionType.CHANNEL_DELETE, channelId);
     }
     return reply.status(204).send();
@@ -285,11 +269,51 @@ export async function guildRoutes(app: FastifyInstance) {
     return reply.status(204).send();
   });
 
+  // ── Prune ──
+
+  const pruneOptionsSchema = z
+    .object({
+      days: z.coerce.number().int().min(1).max(365).default(7),
+      include_roles: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .transform((roles) => (typeof roles === "string" ? roles.split(",").filter(Boolean) : roles ?? [])),
+    })
+    .transform(({ days, include_roles }) => ({ days, includeRoles: include_roles }));
+
+  app.get("/guilds/:guildId/prune", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.KICK_MEMBERS);
+    const options = pruneOptionsSchema.parse(request.query);
+    return reply.send(await memberService.estimatePrune(guildId, options));
+  });
+
+  app.post("/guilds/:guildId/prune", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.KICK_MEMBERS);
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const options = pruneOptionsSchema.parse(body);
+    const { reason } = z.object({ reason: z.string().max(512).optional() }).parse(body);
+    const result = await memberService.startPrune(guildId, request.userId, options, reason);
+    return reply.status(202).send(result);
+  });
+
   // ── Bans ──
 
+  // Up to 7 days of the banned users' messages can be deleted along with the ban
+  const deleteMessageSecondsSchema = z.number().int().min(0).max(604800).optional();
+
+  async function dispatchPurgedMessages(guildId: string, deleted: Map<string, string[]>) {
+    for (const [channelId, ids] of deleted) {
+      await dispatchGuild(guildId, "MESSAGE_DELETE_BULK", { ids, channelId, guildId });
+    }
+  }
+
   app.put("/guilds/:guildId/bans/:userId", async (request, reply) => {
     const { guildId, userId } = request.params as { guildId: string; userId: string };
-    const body = z.object({ reason: z.string().optional() }).parse(request.body ?? {});
+    const body = z
+      .object({ reason: z.string().optional(), delete_message_seconds: deleteMessageSecondsSchema })
+      .parse(request.body ?? {});
     await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.BAN_MEMBERS);
     const user = await getUserById(userId);
     await memberService.banMember(guildId, userId, request.userId, body.reason);
@@ -298,9 +322,41 @@ export async function guildRoutes(app: FastifyInstance) {
       user: user ? { id: user.id, username: user.username, avatar: user.avatar } : { id: userId },
     });
     await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.MEMBER_BAN_ADD, userId, body.reason);
+    const deleted = await memberService.purgeMessages(guildId, [userId], body.delete_message_seconds ?? 0);
+    await dispatchPurgedMessages(guildId, deleted);
     return reply.status(204).send();
   });
 
+  app.post("/guilds/:guildId/bulk-ban", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    const body = z
+      .object({
+        user_ids: z.array(z.string()).min(1).max(200),
+        delete_message_seconds: deleteMessageSecondsSchema,
+        reason: z.string().max(512).optional(),
+      })
+      .parse(request.body);
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.BAN_MEMBERS);
+
+    const result = await memberService.bulkBan(guildId, request.userId, body.user_ids, body.reason);
+
+    const users = await userRepository.findPublicByIds(result.bannedUsers);
+    const userMap = new Map(users.map((u) => [u.id, u]));
+    for (const userId of result.bannedUsers) {
+      const user = userMap.get(userId);
+      await dispatchGuild(guildId, "GUILD_BAN_ADD", {
+        guildId,
+        user: user ? { id: user.id, username: user.username, avatar: user.avatar } : { id: userId },
+      });
+      await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.MEMBER_BAN_ADD, userId, body.reason);
+    }
+
+    const deleted = await memberService.purgeMessages(guildId, result.bannedUsers, body.delete_message_seconds ?? 0);
+    await dispatchPurgedMessages(guildId, deleted);
+
+    return reply.send({ banned_users: result.bannedUsers, failed_users: result.failedUsers });
+  });
+
   app.delete("/guilds/:guildId/bans/:userId", async (request, reply) => {
     const { guildId, userId } = request.params as { guildId: string; userId: string };
     await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.BAN_MEMBERS);
@@ -496,6 +552,53 @@ export async function guildRoutes(app: FastifyInstance) {
     return reply.send(invites);
   });
 
+  // Joins and retention per invite code, including deleted invites and the vanity code
+  app.get("/guilds/:guildId/invites/stats", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    const query = z
+      .object({ since: z.string().datetime().transform((s) => new Date(s)).optional() })
+      .parse(request.query);
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+    const stats = await inviteService.getInviteStats(guildId, query.since);
+    return reply.send(stats);
+  });
+
+  app.get("/guilds/:guildId/invites/:code/uses", async (request, reply) => {
+    const { guildId, code } = request.params as { guildId: string; code: string };
+    const query = z
+      .object({
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+        before: z.string().optional(),
+      })
+      .parse(request.query);
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+    const uses = await inviteService.getInviteUses(guildId, code, query);
+    return reply.send(uses);
+  });
+
+  app.get("/guilds/:guildId/vanity-url", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+    const vanity = await inviteService.getVanityUrl(guildId);
+    return reply.send(vanity);
+  });
+
+  app.patch("/guilds/:guildId/vanity-url", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    const body = z.object({ code: z.string().max(32).nullable() }).parse(request.body);
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+    const { guild, previousCode } = await inviteService.setVanityUrl(guildId, body.code);
+    await dispatchGuild(guildId, "GUILD_UPDATE", {
+      ...guild,
+      createdAt: guild.createdAt.toISOString(),
+      updatedAt: guild.updatedAt.toISOString(),
+    });
+    await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.GUILD_UPDATE, guildId, undefined, {
+      vanityUrlCode: { old: previousCode, new: guild.vanityUrlCode },
+    });
+    return reply.send(await inviteService.getVanityUrl(guildId));
+  });
+
   app.delete("/invites/:code", async (request, reply) => {
     const { code } = request.params as { code: string };
     const invite = await inviteService.getInvite(code);
@@ -804,7 +907,8 @@ export async function guildRoutes(app: FastifyInstance) {
       overwriteId,
       body.type,
       body.allow,
-      body.deny
+      body.deny,
+      channel.guildId
     );
 
     await dispatchGuild(channel.guildId, "CHANNEL_UPDATE", await channelService.getChannel(channelId));
@@ -824,7 +928,7 @@ export async function guildRoutes(app: FastifyInstance) {
     if (!channel || !channel.guildId) throw new ApiError(404, "Channel not found");
 
     await permissionService.requireGuildPermission(request.userId, channel.guildId, PermissionFlags.MANAGE_ROLES);
-    await permissionService.deletePermissionOverwrite(channelId, overwriteId);
+    await permissionService.deletePermissionOverwrite(channelId, overwriteId, channel.guildId);
 
     await dispatchGuild(channel.guildId, "CHANNEL_UPDATE", await channelService.getChannel(channelId));
     await auditlogService.createAuditLogEntry(
@@ -922,6 +1026,7 @@ export async function guildRoutes(app: FastifyInstance) {
         nick: z.string().max(32).nullable().optional(),
         mute: z.boolean().optional(),
         deaf: z.boolean().optional(),
+        channel_id: z.string().nullable().optional(),
         communication_disabled_until: z.string().datetime().nullable().optional(),
         roles: z.array(z.string()).optional(),
       })
@@ -936,25 +1041,52 @@ export async function guildRoutes(app: FastifyInstance) {
       }
     }
 
-    if (body.mute !== undefined || body.deaf !== undefined) {
+    if (body.mute !== undefined) {
       await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MUTE_MEMBERS);
     }
 
+    if (body.deaf !== undefined) {
+      await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.DEAFEN_MEMBERS);
+    }
+
+    if (body.channel_id !== undefined) {
+      await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MOVE_MEMBERS);
+      // Moving someone in needs access to the target channel yourself
+      if (body.channel_id) {
+        await permissionService.requireChannelPermission(request.userId, guildId, body.channel_id, PermissionFlags.CONNECT);
+      }
+    }
+
+    const timeoutUntil = body.communication_disabled_until ? new Date(body.communication_disabled_until) : null;
     if (body.communication_disabled_until !== undefined) {
       await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MODERATE_MEMBERS);
-      // Validate timeout duration (max 28 days)
-      if (body.communication_disabled_until) {
-        const timeout = new Date(body.communication_disabled_until);
-        const maxTimeout = new Date(Date.now() + 28 * 24 * 60 * 60 * 1000);
-        if (timeout > maxTimeout) {
-          throw new ApiError(400, "Timeout duration cannot exceed 28 days");
-        }
-      }
+      await memberService.validateTimeout(guildId, userId, timeoutUntil, request.userId);
     }
 
     if (body.roles !== undefined) {
       await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_ROLES);
-      // Update member roles (with hierarchy validation)
+      for (const roleId of body.roles) {
+        await roleService.validateRoleHierarchy(request.userId, guildId, roleId);
+      }
+    }
+
+    // Everything is checked above, nothing below should be rejected half way through.
+    // Move first: it's the part that fails when the member isn't in voice
+    if (body.channel_id !== undefined) {
+      await voiceService.moveMember(guildId, userId, body.channel_id);
+      await auditlogService.createAuditLogEntry(
+        guildId,
+        request.userId,
+        body.channel_id ? AuditLogActionType.MEMBER_MOVE : AuditLogActionType.MEMBER_DISCONNECT,
+        userId
+      );
+    }
+
+    if (body.communication_disabled_until !== undefined) {
+      await memberService.timeoutMember(guildId, userId, timeoutUntil, request.userId);
+    }
+
+    if (body.roles !== undefined) {
       for (const roleId of body.roles) {
         await roleService.addRoleToMember(guildId, userId, roleId, request.userId);
       }
@@ -965,28 +1097,16 @@ export async function guildRoutes(app: FastifyInstance) {
     if (body.nick !== undefined) updateData.nickname = body.nick;
     if (body.mute !== undefined) updateData.mute = body.mute;
     if (body.deaf !== undefined) updateData.deaf = body.deaf;
-    if (body.communication_disabled_until !== undefined) {
-      updateData.communicationDisabledUntil = body.communication_disabled_until
-        ? new Date(body.communication_disabled_until)
-        : null;
-    }
 
     if (Object.keys(updateData).length > 0) {
       await memberRepository.update(userId, guildId, updateData);
     }
 
-    const roles = await roleService.getMemberRoles(guildId, userId);
-    const member = await memberRepository.findByUserAndGuild(userId, guildId);
+    if (body.mute !== undefined || body.deaf !== undefined) {
+      await voiceService.applyServerVoiceState(guildId, userId, { mute: body.mute, deaf: body.deaf });
+    }
 
-    const memberUpdate = {
-      guildId,
-      userId,
-      nick: member?.nickname ?? null,
-      roles,
-      mute: member?.mute ?? false,
-      deaf: member?.deaf ?? false,
-      communication_disabled_until: member?.communicationDisabledUntil?.toISOString() ?? null,
-    };
+    const memberUpdate = await memberService.getMemberUpdate(guildId, userId);
 
     await dispatchGuild(guildId, "GUILD_MEMBER_UPDATE", memberUpdate);
     await auditlogService.createAuditLogEntry(guildId, request.userId, AuditLogActionType.MEMBER_UPDATE, userId);
@@ -1182,7 +1302,7 @@ export async function guildRoutes(app: FastifyInstance) {
 
     const members = await memberService.getGuildMembers(guildId);
     const channels = await channelService.getGuildChannels(guildId);
-    const voiceStates: any[] = [];
+    const voiceStates = await voiceService.getGuildVoiceStates(guildId);
 
     // Get online members count
     const presenceCount = members.filter((m) => m.user?.status !== "offline").length;
@@ -1294,7 +1414,14 @@ export async function guildRoutes(app: FastifyInstance) {
     const { guildId } = request.params as { guildId: string };
     const body = z
       .object({
-        prompts: z.array(z.any()).optional(),
+        prompts: z
+          .array(onboardingPromptSchema)
+          .max(15)
+          .refine((prompts) => {
+            const ids = prompts.flatMap((p) => [p.id, ...p.options.map((o) => o.id)]);
+            return new Set(ids).size === ids.length;
+          }, "Prompt and option IDs must be unique")
+          .optional(),
         default_channel_ids: z.array(z.string()).optional(),
         enabled: z.boolean().optional(),
         mode: z.number().int().min(0).max(1).optional(),
@@ -1302,6 +1429,7 @@ export async function guildRoutes(app: FastifyInstance) {
       .parse(request.body);
 
     await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+    if (body.prompts) await onboardingService.validatePromptRoles(guildId, request.userId, body.prompts);
 
     const updated = await guildSettingsRepository.upsertOnboarding(guildId, {
       prompts: body.prompts,
@@ -1319,6 +1447,52 @@ export async function guildRoutes(app: FastifyInstance) {
     });
   });
 
+  // Submit the caller's onboarding answers; roles and the opted-in channel list follow them
+  app.put("/guilds/:guildId/onboarding/responses", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    const body = z
+      .object({
+        responses: z
+          .array(z.object({ prompt_id: z.string(), option_ids: z.array(z.string()).max(50) }))
+          .max(15),
+      })
+      .parse(request.body);
+
+    const result = await onboardingService.submitOnboardingResponses(
+      guildId,
+      request.userId,
+      body.responses.map((r) => ({ promptId: r.prompt_id, optionIds: r.option_ids }))
+    );
+
+    if (result.rolesChanged) {
+      await dispatchGuild(guildId, "GUILD_MEMBER_UPDATE", await memberService.getMemberUpdate(guildId, request.userId));
+    }
+    // Refresh the member's own channel list
+    await dispatchUser(request.userId, "GUILD_CREATE", await guildService.getGuild(guildId, request.userId));
+
+    return reply.send({ guild_id: guildId, opted_in_channel_ids: result.channelIds });
+  });
+
+  // Per-prompt completion and option picks among current members
+  app.get("/guilds/:guildId/onboarding/stats", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MANAGE_GUILD);
+
+    const stats = await onboardingService.getOnboardingStats(guildId);
+    return reply.send({
+      guild_id: guildId,
+      onboarded_members: stats.onboardedMembers,
+      prompts: stats.prompts.map((p) => ({
+        id: p.id,
+        title: p.title,
+        required: p.required,
+        completed: p.completed,
+        completion_rate: p.completionRate,
+        options: p.options,
+      })),
+    });
+  });
+
   // ══════════════════════════════════════════════════════════════════════════════
   // GUILD PREVIEW
   // ══════════════════════════════════════════════════════════════════════════════
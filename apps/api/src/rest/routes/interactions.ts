@@ -3,7 +3,9 @@ import { z } from "zod";
 import { authMiddleware } from "../../middleware/auth.js";
 import * as interactionService from "../../services/interaction.service.js";
 import * as applicationService from "../../services/application.service.js";
+import * as interactionDeliveryService from "../../services/interaction-delivery.service.js";
 import { ApiError } from "../../services/auth.service.js";
+import { allowedMentionsSchema } from "./messages.js";
 import crypto from "crypto";
 
 // Ed25519 signature verification for Discord-style webhook
@@ -128,22 +130,11 @@ export async function interactionRoutes(app: FastifyInstance) {
           })
         );
       }
-
-      // In a full implementation, this would:
-      // 1. Send the interaction to the bot's webhook endpoint
-      // 2. Wait for a response
-      // 3. Return the response to the user
-
-      // For now, return a placeholder response
-      return reply.send(
-        interactionService.createDeferredResponse()
-      );
     }
 
-    // Default response for other interaction types
-    return reply.send(
-      interactionService.createDeferredResponse()
-    );
+    // Forward to the bot (HTTP endpoint or gateway) and relay its response
+    const response = await interactionDeliveryService.deliverInteraction(application, interaction);
+    return reply.send(response);
   });
 
   // ── Interaction Response Callback (No Auth - uses token) ──
@@ -160,7 +151,7 @@ export async function interactionRoutes(app: FastifyInstance) {
           tts: z.boolean().optional(),
           content: z.string().optional(),
           embeds: z.array(z.any()).max(10).optional(),
-          allowed_mentions: z.any().optional(),
+          allowed_mentions: allowedMentionsSchema.optional(),
           flags: z.number().int().optional(),
           components: z.array(z.any()).max(5).optional(),
           attachments: z.array(z.any()).optional(),
@@ -268,6 +259,7 @@ export async function interactionRoutes(app: FastifyInstance) {
           components: z.array(z.any()).optional(),
           flags: z.number().int().optional(),
           tts: z.boolean().optional(),
+          allowed_mentions: allowedMentionsSchema.optional(),
         })
         .parse(request.body);
 
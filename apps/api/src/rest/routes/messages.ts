@@ -7,11 +7,14 @@ import * as reactionService from "../../services/reaction.service.js";
 import * as channelService from "../../services/channel.service.js";
 import * as readStateService from "../../services/readstate.service.js";
 import * as fileService from "../../services/file.service.js";
+import * as uploadService from "../../services/upload.service.js";
 import * as messageComponentService from "../../services/message-component.service.js";
-import * as notificationService from "../../services/notification.service.js";
+import * as automodService from "../../services/automod.service.js";
+import * as mentionService from "../../services/mention.service.js";
 import { ApiError } from "../../services/auth.service.js";
 import * as permissionService from "../../services/permission.service.js";
 import { PermissionFlags } from "@yxc/permissions";
+import { ChannelType, MessageFlags } from "@yxc/types";
 import { redisPub } from "../../config/redis.js";
 import { generateSnowflake } from "@yxc/snowflake";
 import { channelRepository } from "../../repositories/channel.repository.js";
@@ -52,6 +55,27 @@ const componentSchema: z.ZodType<messageComponentService.ComponentData> = z.lazy
   })
 );
 
+/** `allowed_mentions` on message create, webhook execution and interaction responses */
+export const allowedMentionsSchema = z
+  .object({
+    parse: z.array(z.enum(["users", "roles", "everyone"])).optional(),
+    users: z.array(z.string()).max(100).optional(),
+    roles: z.array(z.string()).max(100).optional(),
+    replied_user: z.boolean().optional(),
+  })
+  .refine((value) => !(value.parse?.includes("users") && value.users), {
+    message: 'parse can\'t contain "users" when users is set',
+  })
+  .refine((value) => !(value.parse?.includes("roles") && value.roles), {
+    message: 'parse can\'t contain "roles" when roles is set',
+  })
+  .transform((value): mentionService.AllowedMentions => ({
+    parse: value.parse,
+    users: value.users,
+    roles: value.roles,
+    repliedUser: value.replied_user,
+  }));
+
 /**
  * Authorize a user's access to a channel.
  * - Guild channels: verifies guild membership.
@@ -78,6 +102,40 @@ async function authorizeChannel(userId: string, channelId: string) {
   return channel;
 }
 
+const THREAD_TYPES = new Set<number>([
+  ChannelType.ANNOUNCEMENT_THREAD,
+  ChannelType.PUBLIC_THREAD,
+  ChannelType.PRIVATE_THREAD,
+]);
+
+/**
+ * Guild channels need SEND_MESSAGES (SEND_MESSAGES_IN_THREADS in threads); both are
+ * stripped while the member is timed out.
+ */
+async function requireSendPermission(userId: string, channel: { id: string; guildId: string | null; type: number }) {
+  if (!channel.guildId) return;
+  const permission = THREAD_TYPES.has(channel.type)
+    ? PermissionFlags.SEND_MESSAGES_IN_THREADS
+    : PermissionFlags.SEND_MESSAGES;
+  await permissionService.requireChannelPermission(userId, channel.guildId, channel.id, permission);
+}
+
+/**
+ * Run AutoMod over guild message content before it is persisted.
+ * Throws 400 with the rule's custom message when a BLOCK_MESSAGE action fires.
+ */
+async function enforceAutoMod(
+  channel: { id: string; guildId: string | null; parentId: string | null },
+  userId: string,
+  content: string
+) {
+  if (!channel.guildId || !content) return;
+  const result = await automodService.checkMessage(channel.guildId, channel, userId, content);
+  if (result.blocked) {
+    throw new ApiError(400, result.message ?? "Message was blocked by automatic moderation");
+  }
+}
+
 async function dispatchMessage(channelId: string, event: string, data: unknown) {
   const channel = await channelService.getChannel(channelId);
   if (!channel) return;
@@ -121,7 +179,8 @@ export async function messageRoutes(app: FastifyInstance) {
     { preHandler: [createRateLimiter("messageCreate")] },
     async (request, reply) => {
       const { channelId } = request.params as { channelId: string };
-      await authorizeChannel(request.userId, channelId);
+      const channel = await authorizeChannel(request.userId, channelId);
+      await requireSendPermission(request.userId, channel);
       const body = z
         .object({
           content: z.string().max(4000).optional().default(""),
@@ -132,29 +191,50 @@ export async function messageRoutes(app: FastifyInstance) {
             .optional(),
           components: z.array(componentSchema).max(5).optional(),
           embeds: z.array(z.any()).max(10).optional(),
+          flags: z.number().int().optional(),
+          // Completed resumable uploads (see /uploads)
+          attachments: z.array(z.object({ uploadId: z.string() })).max(10).optional(),
+          allowed_mentions: allowedMentionsSchema.optional(),
         })
         .parse(request.body);
 
-      // Require content, components, or embeds
-      if (!body.content && !body.components?.length && !body.embeds?.length) {
-        throw new ApiError(400, "Message must have content, components, or embeds");
+      // Require content, components, embeds, or attachments
+      if (!body.content && !body.components?.length && !body.embeds?.length && !body.attachments?.length) {
+        throw new ApiError(400, "Message must have content, components, embeds, or attachments");
       }
 
-      const message = await messageService.createMessage(
-        channelId,
-        request.userId,
-        body.content,
-        {
-          tts: body.tts,
-          nonce: body.nonce,
-          referencedMessageId: body.messageReference?.messageId,
-        }
-      );
+      await enforceAutoMod(channel, request.userId, body.content);
+
+      const uploads = body.attachments?.length
+        ? await uploadService.claimUploads(request.userId, channelId, body.attachments.map((a) => a.uploadId))
+        : [];
+
+      let message;
+      try {
+        message = await messageService.createMessage(
+          channelId,
+          request.userId,
+          body.content,
+          {
+            tts: body.tts,
+            nonce: body.nonce,
+            referencedMessageId: body.messageReference?.messageId,
+            // SUPPRESS_EMBEDS is the only flag clients may set
+            flags: (body.flags ?? 0) & MessageFlags.SUPPRESS_EMBEDS,
+            allowedMentions: body.allowed_mentions,
+          }
+        );
+      } catch (err) {
+        await uploadService.releaseUploads(uploads);
+        throw err;
+      }
 
       if (!message) {
         throw new ApiError(500, "Failed to create message");
       }
 
+      await uploadService.attachClaimedUploads(message.id, uploads);
+
       // Add components if provided
       if (body.components && body.components.length > 0) {
         await messageComponentService.createMessageComponents(message.id, body.components);
@@ -168,23 +248,6 @@ export async function messageRoutes(app: FastifyInstance) {
 
       await dispatchMessage(channelId, "MESSAGE_CREATE", fullMessage ?? message);
 
-      // Send notifications for mentioned users
-      const mentionRegex = /<@(\d+)>/g;
-      let match: RegExpExecArray | null;
-      while ((match = mentionRegex.exec(body.content)) !== null) {
-        const mentionedUserId = match[1]!;
-        if (mentionedUserId !== request.userId) {
-          const channel = await channelService.getChannel(channelId);
-          notificationService.createNotification(mentionedUserId, "mention", "You were mentioned", {
-            body: body.content.slice(0, 200),
-            sourceGuildId: channel?.guildId ?? undefined,
-            sourceChannelId: channelId,
-            sourceMessageId: message.id,
-            sourceUserId: request.userId,
-          }).catch(() => {}); // fire and forget
-        }
-      }
-
       return reply.status(201).send(fullMessage ?? message);
     }
   );
@@ -195,9 +258,17 @@ export async function messageRoutes(app: FastifyInstance) {
     { preHandler: [createRateLimiter("messageCreate")] },
     async (request, reply) => {
       const { channelId } = request.params as { channelId: string };
-      await authorizeChannel(request.userId, channelId);
+      const channel = await authorizeChannel(request.userId, channelId);
+      await requireSendPermission(request.userId, channel);
+      if (channel.guildId) {
+        await permissionService.requireChannelPermission(
+          request.userId, channel.guildId, channelId, PermissionFlags.ATTACH_FILES
+        );
+      }
 
-      const parts = request.parts();
+      // Busboy stops reading past the guild's limit, so no more than that is ever buffered
+      const maxUploadSize = await uploadService.getMaxUploadSize(channel.guildId);
+      const parts = request.parts({ limits: { fileSize: maxUploadSize } });
       let content = "";
       let tts = false;
       let nonce: string | undefined;
@@ -209,6 +280,9 @@ export async function messageRoutes(app: FastifyInstance) {
         url: string;
         proxyUrl: string;
         contentType: string;
+        width: number | null;
+        height: number | null;
+        blurhash: string | null;
       }> = [];
 
       for await (const part of parts) {
@@ -232,16 +306,14 @@ export async function messageRoutes(app: FastifyInstance) {
               break;
           }
         } else if (part.type === "file") {
-          const chunks: Buffer[] = [];
-          for await (const chunk of part.file) {
-            chunks.push(chunk);
-          }
-          const buffer = Buffer.concat(chunks);
+          // Throws a 413 once the file passes the limit
+          const buffer = await part.toBuffer();
           const uploaded = await fileService.uploadFile(
             buffer,
             part.filename,
             part.mimetype,
-            channelId
+            channelId,
+            maxUploadSize
           );
           attachments.push(uploaded);
         }
@@ -251,6 +323,8 @@ export async function messageRoutes(app: FastifyInstance) {
         throw new ApiError(400, "Message must have content or attachments");
       }
 
+      await enforceAutoMod(channel, request.userId, content);
+
       const message = await messageService.createMessage(
         channelId,
         request.userId,
@@ -269,6 +343,9 @@ export async function messageRoutes(app: FastifyInstance) {
             url: att.url,
             proxyUrl: att.proxyUrl,
             contentType: att.contentType,
+            width: att.width,
+            height: att.height,
+            blurhash: att.blurhash,
           }))
         );
         const full = await messageService.getMessageWithAuthor(message.id);
@@ -287,17 +364,27 @@ export async function messageRoutes(app: FastifyInstance) {
       channelId: string;
       messageId: string;
     };
-    await authorizeChannel(request.userId, channelId);
+    const channel = await authorizeChannel(request.userId, channelId);
     const body = z
       .object({
         content: z.string().max(4000).optional(),
         components: z.array(componentSchema).max(5).optional(),
         embeds: z.array(z.any()).max(10).optional(),
+        flags: z.number().int().optional(),
       })
       .parse(request.body);
 
+    if (body.flags !== undefined) {
+      await messageService.setEmbedsSuppressed(
+        messageId,
+        request.userId,
+        (body.flags & MessageFlags.SUPPRESS_EMBEDS) !== 0
+      );
+    }
+
     let message;
     if (body.content !== undefined) {
+      await enforceAutoMod(channel, request.userId, body.content);
       message = await messageService.updateMessage(messageId, request.userId, body.content);
     } else {
       message = await messageService.getMessageWithAuthor(messageId);
@@ -314,6 +401,8 @@ export async function messageRoutes(app: FastifyInstance) {
       id: messageId,
       channelId,
       content: body.content,
+      flags: message?.flags,
+      embeds: message?.embeds,
       components: components.length > 0 ? components : undefined,
       editedTimestamp: new Date().toISOString(),
     });
@@ -415,6 +504,14 @@ export async function messageRoutes(app: FastifyInstance) {
       };
 
       const channel = await authorizeChannel(request.userId, channelId);
+      if (channel.guildId) {
+        await permissionService.requireChannelPermission(
+          request.userId,
+          channel.guildId,
+          channelId,
+          PermissionFlags.ADD_REACTIONS
+        );
+      }
 
       // emoji can be "name" for unicode or "name:id" for custom
       const [emojiName, emojiId] = emoji.includes(":") ? emoji.split(":") : [emoji, undefined];
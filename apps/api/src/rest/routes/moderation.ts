@@ -1,9 +1,11 @@
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { authMiddleware } from "../../middleware/auth.js";
+import { createRateLimiter } from "../../middleware/rateLimit.js";
 import * as moderationQueueService from "../../services/moderation-queue.service.js";
 import * as permissionService from "../../services/permission.service.js";
 import * as guildService from "../../services/guild.service.js";
+import * as channelService from "../../services/channel.service.js";
 import { ApiError } from "../../services/auth.service.js";
 import { PermissionFlags } from "@yxc/permissions";
 
@@ -11,7 +13,7 @@ export async function moderationRoutes(app: FastifyInstance) {
   app.addHook("preHandler", authMiddleware);
 
   // Create a moderation queue item (report) - any guild member can report
-  app.post("/guilds/:guildId/moderation/queue", async (request, reply) => {
+  app.post("/guilds/:guildId/moderation/queue", { preHandler: [createRateLimiter("report")] }, async (request, reply) => {
     const { guildId } = request.params as { guildId: string };
     if (!(await guildService.isMember(request.userId, guildId))) {
       throw new ApiError(403, "Not a member of this guild");
@@ -34,35 +36,111 @@ export async function moderationRoutes(app: FastifyInstance) {
     return reply.status(201).send(item);
   });
 
+  // Report a message; repeat reports of the same message join one queue item
+  app.post(
+    "/channels/:channelId/messages/:messageId/report",
+    { preHandler: [createRateLimiter("report")] },
+    async (request, reply) => {
+      const { channelId, messageId } = request.params as { channelId: string; messageId: string };
+      const body = z.object({ reason: z.string().min(1).max(2000) }).parse(request.body);
+
+      const channel = await channelService.getChannel(channelId);
+      if (!channel) throw new ApiError(404, "Channel not found");
+      if (channel.guildId && !(await guildService.isMember(request.userId, channel.guildId))) {
+        throw new ApiError(403, "Not a member of this guild");
+      }
+
+      await moderationQueueService.reportMessage(channelId, messageId, request.userId, body.reason);
+      return reply.status(204).send();
+    }
+  );
+
+  // Report a member
+  app.post(
+    "/guilds/:guildId/members/:userId/report",
+    { preHandler: [createRateLimiter("report")] },
+    async (request, reply) => {
+      const { guildId, userId } = request.params as { guildId: string; userId: string };
+      const body = z.object({ reason: z.string().min(1).max(2000) }).parse(request.body);
+      if (!(await guildService.isMember(request.userId, guildId))) {
+        throw new ApiError(403, "Not a member of this guild");
+      }
+
+      await moderationQueueService.reportMember(guildId, userId, request.userId, body.reason);
+      return reply.status(204).send();
+    }
+  );
+
   // Get queue items
   app.get("/guilds/:guildId/moderation/queue", async (request, reply) => {
     const { guildId } = request.params as { guildId: string };
     await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MODERATE_MEMBERS);
     const query = z
-      .object({ status: z.string().optional() })
+      .object({
+        status: z.string().optional(),
+        // A user ID, "@me", or "none" for unassigned items
+        assignee: z.string().optional(),
+      })
       .parse(request.query);
 
-    const items = await moderationQueueService.getQueueItems(guildId, query.status);
+    const assigneeId = query.assignee === "none" ? null
+      : query.assignee === "@me" ? request.userId
+      : query.assignee;
+    const items = await moderationQueueService.getQueueItems(guildId, { status: query.status, assigneeId });
     return reply.send(items);
   });
 
-  // Resolve a queue item
+  // Claim a queue item
+  app.post("/guilds/:guildId/moderation/queue/:itemId/claim", async (request, reply) => {
+    const { guildId, itemId } = request.params as { guildId: string; itemId: string };
+    const item = await moderationQueueService.claimQueueItem(guildId, itemId, request.userId);
+    return reply.send(item);
+  });
+
+  // Reassign a queue item, or release it with a null assignee
+  app.put("/guilds/:guildId/moderation/queue/:itemId/assignee", async (request, reply) => {
+    const { guildId, itemId } = request.params as { guildId: string; itemId: string };
+    const body = z
+      .object({ assigneeId: z.string().min(1).nullable() })
+      .parse(request.body);
+
+    const item = await moderationQueueService.assignQueueItem(guildId, itemId, request.userId, body.assigneeId);
+    return reply.send(item);
+  });
+
+  // Escalate a queue item to moderators who can manage the guild
+  app.post("/guilds/:guildId/moderation/queue/:itemId/escalate", async (request, reply) => {
+    const { guildId, itemId } = request.params as { guildId: string; itemId: string };
+    await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MODERATE_MEMBERS);
+    const body = z
+      .object({ note: z.string().max(2000).optional() })
+      .parse(request.body ?? {});
+
+    const item = await moderationQueueService.escalateQueueItem(guildId, itemId, request.userId, body.note);
+    return reply.send(item);
+  });
+
+  // Resolve a queue item, carrying out the action on the reported member or message
   app.post("/guilds/:guildId/moderation/queue/:itemId/resolve", async (request, reply) => {
     const { guildId, itemId } = request.params as { guildId: string; itemId: string };
     await permissionService.requireGuildPermission(request.userId, guildId, PermissionFlags.MODERATE_MEMBERS);
     const body = z
       .object({
-        action: z.enum(["approved", "rejected", "escalated"]),
+        action: z.enum(["ban", "kick", "delete", "timeout", "dismiss"]),
         note: z.string().max(2000).optional(),
+        // Required for "timeout"; 28 days at most
+        timeoutSeconds: z.number().int().min(60).max(28 * 24 * 60 * 60).optional(),
+      })
+      .refine((b) => b.action !== "timeout" || b.timeoutSeconds !== undefined, {
+        message: "timeoutSeconds is required for timeouts",
+        path: ["timeoutSeconds"],
       })
       .parse(request.body);
 
-    const item = await moderationQueueService.resolveQueueItem(
-      itemId,
-      request.userId,
-      body.action,
-      body.note
-    );
+    const item = await moderationQueueService.resolveQueueItem(guildId, itemId, request.userId, body.action, {
+      note: body.note,
+      timeoutSeconds: body.timeoutSeconds,
+    });
     return reply.send(item);
   });
 
@@ -167,6 +167,10 @@ export async function pollRoutes(app: FastifyInstance) {
     const poll = await pollService.endPoll(pollId, request.userId);
     if (!poll) throw new ApiError(404, "Poll not found");
 
+    const resultMessage = await messageService.createPollResultMessage(poll);
+    if (resultMessage) {
+      await dispatchMessage(channelId, "MESSAGE_CREATE", resultMessage);
+    }
     await dispatchMessage(channelId, "POLL_END", {
       pollId,
       channelId,
@@ -1,96 +1,47 @@
 import type { FastifyInstance } from "fastify";
-import { ApiError } from "../../services/auth.service.js";
-import { channelRepository } from "../../repositories/channel.repository.js";
-import { guildRepository } from "../../repositories/guild.repository.js";
-import { messageRepository } from "../../repositories/message.repository.js";
-
-// In-memory set of public channel IDs. Resets on server restart — not persisted to DB.
-const publicChannelIds = new Set<string>();
-
-// In-memory set of discoverable guild IDs. Resets on server restart — not persisted to DB.
-const discoverableGuildIds = new Set<string>();
-
-/** Register a channel as publicly viewable */
-export function markChannelPublic(channelId: string) {
-  publicChannelIds.add(channelId);
-}
-
-/** Register a guild as discoverable */
-export function markGuildDiscoverable(guildId: string) {
-  discoverableGuildIds.add(guildId);
-}
+import { z } from "zod";
+import * as discoveryService from "../../services/discovery.service.js";
 
 export async function publicRoutes(app: FastifyInstance) {
   // Public channel view - no auth required
   app.get("/public/channels/:channelId", async (request, reply) => {
     const { channelId } = request.params as { channelId: string };
-
-    if (!publicChannelIds.has(channelId)) {
-      throw new ApiError(404, "Channel not found or not public");
-    }
-
-    const channel = await channelRepository.findById(channelId);
-    if (!channel) {
-      throw new ApiError(404, "Channel not found");
-    }
-
-    const recentMessages = await messageRepository.findByChannelId(channelId, { limit: 50 });
-
-    let guild = null;
-    if (channel.guildId) {
-      const g = await guildRepository.findById(channel.guildId);
-      guild = g
-        ? {
-            id: g.id,
-            name: g.name,
-            icon: g.icon,
-            description: g.description,
-          }
-        : null;
-    }
-
-    return reply.send({
-      channel: {
-        id: channel.id,
-        name: channel.name,
-        topic: channel.topic,
-        type: channel.type,
-        guildId: channel.guildId,
-      },
-      guild,
-      messages: recentMessages.reverse().map((m: any) => ({
-        id: m.id,
-        content: m.content,
-        authorId: m.authorId,
-        createdAt: m.createdAt.toISOString(),
-        editedTimestamp: m.editedTimestamp?.toISOString() ?? null,
-      })),
-    });
+    const query = z
+      .object({
+        before: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(100).default(50),
+      })
+      .parse(request.query);
+
+    const page = await discoveryService.getPublicChannel(channelId, query);
+    return reply.send(page);
   });
 
   // Public guild info - no auth required
   app.get("/public/guilds/:guildId", async (request, reply) => {
     const { guildId } = request.params as { guildId: string };
+    const guild = await discoveryService.getPublicGuild(guildId);
+    return reply.send(guild);
+  });
 
-    if (!discoverableGuildIds.has(guildId)) {
-      throw new ApiError(404, "Guild not found or not discoverable");
-    }
-
-    const guild = await guildRepository.findById(guildId);
-    if (!guild) {
-      throw new ApiError(404, "Guild not found");
-    }
-
-    const memberCount = await guildRepository.getMemberCount(guildId);
-
-    return reply.send({
-      id: guild.id,
-      name: guild.name,
-      description: guild.description,
-      icon: guild.icon,
-      banner: guild.banner,
-      memberCount,
-      features: guild.features,
-    });
+  // Guild discovery directory - no auth required
+  app.get("/discovery/guilds", async (request, reply) => {
+    const query = z
+      .object({
+        q: z.string().trim().max(100).optional(),
+        category: z.enum(discoveryService.DISCOVERY_CATEGORIES).optional(),
+        tag: z.string().max(24).optional(),
+        sort: z.enum(["members", "activity"]).default("members"),
+        limit: z.coerce.number().int().min(1).max(50).default(24),
+        offset: z.coerce.number().int().min(0).max(1000).default(0),
+      })
+      .parse(request.query);
+
+    const { sort, limit, offset, ...filters } = query;
+    const result = await discoveryService.searchDiscoverableGuilds(
+      { query: filters.q, category: filters.category, tag: filters.tag },
+      { sort, limit, offset }
+    );
+    return reply.send(result);
   });
 }
@@ -2,14 +2,14 @@ import type { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { authMiddleware } from "../../middleware/auth.js";
 import { createRateLimiter } from "../../middleware/rateLimit.js";
-import { isMember } from "../../services/guild.service.js";
-import { searchRepository } from "../../repositories/search.repository.js";
+import * as searchService from "../../services/search.service.js";
 
 export default async function searchRoutes(app: FastifyInstance) {
   app.addHook("preHandler", authMiddleware);
   app.addHook("preHandler", createRateLimiter("global"));
 
   // GET /api/guilds/:guildId/search
+  // q supports from:, in:, mentions:, has:, before:, after:, pinned: and "quoted phrases"
   app.get("/guilds/:guildId/search", async (request, reply) => {
     const { guildId } = request.params as { guildId: string };
 
@@ -19,37 +19,14 @@ export default async function searchRoutes(app: FastifyInstance) {
         channelId: z.string().optional(),
         authorId: z.string().optional(),
         before: z.string().optional(),
+        sort: z.enum(["relevance", "timestamp"]).default("timestamp"),
+        order: z.enum(["asc", "desc"]).default("desc"),
         limit: z.coerce.number().int().min(1).max(50).default(25),
+        offset: z.coerce.number().int().min(0).max(5000).default(0),
       })
       .parse(request.query);
 
-    // Verify membership
-    if (!(await isMember(request.userId, guildId))) {
-      return reply.status(403).send({ message: "Not a member of this guild" });
-    }
-
-    const searchOptions = {
-      channelId: query.channelId,
-      authorId: query.authorId,
-      before: query.before,
-      limit: query.limit,
-    };
-
-    const [results, totalCount] = await Promise.all([
-      searchRepository.searchGuildMessages(guildId, query.q, searchOptions),
-      searchRepository.countGuildMessages(guildId, query.q, {
-        channelId: query.channelId,
-        authorId: query.authorId,
-      }),
-    ]);
-
-    return reply.send({
-      results: results.map((r) => ({
-        ...r,
-        editedTimestamp: r.editedTimestamp?.toISOString() ?? null,
-        createdAt: r.createdAt.toISOString(),
-      })),
-      totalCount,
-    });
+    const result = await searchService.searchGuildMessages(request.userId, guildId, query);
+    return reply.send(result);
   });
 }
@@ -0,0 +1,68 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { authMiddleware } from "../../middleware/auth.js";
+import { createRateLimiter } from "../../middleware/rateLimit.js";
+import * as uploadService from "../../services/upload.service.js";
+
+/** Resumable chunked uploads: create a session, PUT parts, complete, then attach by ID. */
+export async function uploadRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", authMiddleware);
+
+  // Raw chunk bodies, scoped to this plugin
+  app.addContentTypeParser(
+    "application/octet-stream",
+    { parseAs: "buffer", bodyLimit: uploadService.CHUNK_SIZE },
+    (_request, body, done) => done(null, body)
+  );
+
+  // POST /api/uploads
+  app.post("/uploads", { preHandler: [createRateLimiter("uploadCreate")] }, async (request, reply) => {
+    const body = z
+      .object({
+        channelId: z.string(),
+        filename: z.string().min(1).max(255),
+        size: z.number().int().positive(),
+        contentType: z.string().max(255),
+        sha256: z.string().regex(/^[a-fA-F0-9]{64}$/),
+      })
+      .parse(request.body);
+
+    const session = await uploadService.createSession(request.userId, body);
+    return reply.status(201).send(session);
+  });
+
+  // GET /api/uploads/:uploadId — includes which parts have been received
+  app.get("/uploads/:uploadId", async (request, reply) => {
+    const { uploadId } = request.params as { uploadId: string };
+    const session = await uploadService.getSession(request.userId, uploadId);
+    return reply.send(session);
+  });
+
+  // PUT /api/uploads/:uploadId/parts/:partNumber
+  app.put(
+    "/uploads/:uploadId/parts/:partNumber",
+    { bodyLimit: uploadService.CHUNK_SIZE },
+    async (request, reply) => {
+      const { uploadId, partNumber } = request.params as { uploadId: string; partNumber: string };
+      if (!Buffer.isBuffer(request.body)) {
+        return reply.status(415).send({ error: "Parts must be sent as application/octet-stream" });
+      }
+      const part = await uploadService.uploadPart(request.userId, uploadId, Number(partNumber), request.body);
+      return reply.send(part);
+    }
+  );
+
+  // POST /api/uploads/:uploadId/complete
+  app.post("/uploads/:uploadId/complete", async (request, reply) => {
+    const { uploadId } = request.params as { uploadId: string };
+    const session = await uploadService.completeSession(request.userId, uploadId);
+    return reply.send(session);
+  });
+
+  // DELETE /api/uploads/:uploadId
+  app.delete("/uploads/:uploadId", async (request, reply) => {
+    const { uploadId } = request.params as { uploadId: string };
+    await uploadService.cancelSession(request.userId, uploadId);
+    return reply.status(204).send();
+  });
+}
@@ -4,6 +4,7 @@ import { authMiddleware } from "../../middleware/auth.js";
 import { createRateLimiter } from "../../middleware/rateLimit.js";
 import crypto from "crypto";
 import { ApiError } from "../../services/auth.service.js";
+import * as mailService from "../../services/mail.service.js";
 import { redis } from "../../config/redis.js";
 import { userRepository } from "../../repositories/user.repository.js";
 
@@ -28,11 +29,16 @@ export async function verificationRoutes(app: FastifyInstance) {
       // Store in Redis with TTL
       await redis.setex(`verification:${request.userId}`, VERIFICATION_CODE_TTL, code);
 
-      // TODO: In production with SMTP configured, send the code via email instead
-      // of returning it in the response. For self-hosted instances without SMTP,
-      // the code is returned directly so the frontend can display it to the user.
-      console.log(`Verification code for ${user.email}: ${code}`);
+      if (mailService.isMailConfigured()) {
+        await mailService.sendVerificationCode(user.email, code, VERIFICATION_CODE_TTL);
+        return reply.send({
+          success: true,
+          message: "Verification code sent",
+          expiresIn: VERIFICATION_CODE_TTL,
+        });
+      }
 
+      // Self-hosted instances without SMTP: the frontend displays the code instead
       return reply.send({
         success: true,
         message: "Verification code generated",
@@ -0,0 +1,172 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { authMiddleware } from "../../middleware/auth.js";
+import * as guildService from "../../services/guild.service.js";
+import * as channelService from "../../services/channel.service.js";
+import * as voiceService from "../../services/voice.service.js";
+import * as stageService from "../../services/stage.service.js";
+import * as permissionService from "../../services/permission.service.js";
+import * as auditlogService from "../../services/auditlog.service.js";
+import { ApiError } from "../../services/auth.service.js";
+import { AuditLogActionType } from "@yxc/types";
+import { PermissionFlags } from "@yxc/permissions";
+import { dispatchGuild } from "../../utils/dispatch.js";
+
+/** Voice states, REST voice join/leave and stage instances. */
+export async function voiceRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", authMiddleware);
+
+  async function requireStageChannel(userId: string, channelId: string) {
+    const channel = await channelService.getChannel(channelId);
+    if (!channel || !channel.guildId) throw new ApiError(404, "Channel not found");
+    await permissionService.requireChannelPermission(userId, channel.guildId, channelId, PermissionFlags.STAGE_MODERATOR);
+    return channel as typeof channel & { guildId: string };
+  }
+
+  // ── Voice states ──
+
+  app.get("/guilds/:guildId/voice-states", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    if (!(await guildService.isMember(request.userId, guildId))) {
+      throw new ApiError(403, "Not a member of this guild");
+    }
+    return reply.send(await voiceService.getGuildVoiceStates(guildId));
+  });
+
+  // Stage: raise/lower your hand, or step on/off stage yourself
+  app.patch("/guilds/:guildId/voice-states/@me", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    const body = z
+      .object({
+        channelId: z.string(),
+        suppress: z.boolean().optional(),
+        requestToSpeakTimestamp: z.string().datetime().nullable().optional(),
+      })
+      .parse(request.body);
+
+    if (body.requestToSpeakTimestamp) {
+      await permissionService.requireChannelPermission(
+        request.userId, guildId, body.channelId, PermissionFlags.REQUEST_TO_SPEAK
+      );
+    }
+    if (body.suppress === false) {
+      await permissionService.requireChannelPermission(
+        request.userId, guildId, body.channelId, PermissionFlags.MUTE_MEMBERS
+      );
+    }
+
+    const state = await voiceService.updateStageVoiceState(guildId, request.userId, body);
+    return reply.send(state);
+  });
+
+  // Stage: invite someone to speak or move them back to the audience
+  app.patch("/guilds/:guildId/voice-states/:userId", async (request, reply) => {
+    const { guildId, userId } = request.params as { guildId: string; userId: string };
+    const body = z
+      .object({
+        channelId: z.string(),
+        suppress: z.boolean().optional(),
+      })
+      .parse(request.body);
+
+    await permissionService.requireChannelPermission(
+      request.userId, guildId, body.channelId, PermissionFlags.MUTE_MEMBERS
+    );
+
+    const state = await voiceService.updateStageVoiceState(guildId, userId, body);
+    return reply.send(state);
+  });
+
+  // Join over REST, for clients without a gateway connection. The state goes away on
+  // leave, when any of the user's gateway connections closes, or when the client stops
+  // joining again to renew it (see REST_STATE_TTL in voice.service).
+  app.post("/voice/:guildId/:channelId/join", async (request, reply) => {
+    const { guildId, channelId } = request.params as { guildId: string; channelId: string };
+    const body = z
+      .object({
+        sessionId: z.string().max(64).optional(),
+        selfMute: z.boolean().optional(),
+        selfDeaf: z.boolean().optional(),
+      })
+      .parse(request.body ?? {});
+
+    const joined = await voiceService.joinWithMedia(
+      { userId: request.userId, sessionId: body.sessionId ?? "rest", connId: null },
+      { guildId, channelId, selfMute: body.selfMute, selfDeaf: body.selfDeaf }
+    );
+    return reply.send(joined);
+  });
+
+  app.post("/voice/:guildId/leave", async (request, reply) => {
+    const { guildId } = request.params as { guildId: string };
+    await voiceService.disconnect(guildId, request.userId);
+    return reply.status(204).send();
+  });
+
+  // ── Stage instances ──
+
+  app.post("/stage-instances", async (request, reply) => {
+    const body = z
+      .object({
+        channelId: z.string(),
+        topic: z.string().min(1).max(120),
+        privacyLevel: z.literal(stageService.StageInstancePrivacyLevel.GUILD_ONLY).optional(),
+        guildScheduledEventId: z.string().optional(),
+      })
+      .parse(request.body);
+
+    const channel = await requireStageChannel(request.userId, body.channelId);
+    const instance = await stageService.createStageInstance(body);
+
+    await dispatchGuild(channel.guildId, "STAGE_INSTANCE_CREATE", instance);
+    await auditlogService.createAuditLogEntry(
+      channel.guildId, request.userId, AuditLogActionType.STAGE_INSTANCE_CREATE, instance.id
+    );
+    return reply.status(201).send(instance);
+  });
+
+  app.get("/stage-instances/:channelId", async (request, reply) => {
+    const { channelId } = request.params as { channelId: string };
+    const instance = await stageService.getStageInstance(channelId);
+    if (!(await guildService.isMember(request.userId, instance.guildId))) {
+      throw new ApiError(404, "Stage instance not found");
+    }
+    return reply.send(instance);
+  });
+
+  app.patch("/stage-instances/:channelId", async (request, reply) => {
+    const { channelId } = request.params as { channelId: string };
+    const body = z
+      .object({
+        topic: z.string().min(1).max(120).optional(),
+        privacyLevel: z.literal(stageService.StageInstancePrivacyLevel.GUILD_ONLY).optional(),
+      })
+      .parse(request.body);
+
+    const channel = await requireStageChannel(request.userId, channelId);
+    const instance = await stageService.updateStageInstance(channelId, body);
+
+    await dispatchGuild(channel.guildId, "STAGE_INSTANCE_UPDATE", instance);
+    await auditlogService.createAuditLogEntry(
+      channel.guildId, request.userId, AuditLogActionType.STAGE_INSTANCE_UPDATE, instance.id
+    );
+    return reply.send(instance);
+  });
+
+  app.delete("/stage-instances/:channelId", async (request, reply) => {
+    const { channelId } = request.params as { channelId: string };
+
+    const channel = await requireStageChannel(request.userId, channelId);
+    const instance = await stageService.deleteStageInstance(channelId);
+
+    await dispatchGuild(channel.guildId, "STAGE_INSTANCE_DELETE", {
+      id: instance.id,
+      guildId: instance.guildId,
+      channelId: instance.channelId,
+    });
+    await auditlogService.createAuditLogEntry(
+      channel.guildId, request.userId, AuditLogActionType.STAGE_INSTANCE_DELETE, instance.id
+    );
+    return reply.status(204).send();
+  });
+}
@@ -2,6 +2,7 @@ import type { FastifyInstance } from "fastify";
 import { z } from "zod";
 import * as webhookService from "../../services/webhook.service.js";
 import * as channelService from "../../services/channel.service.js";
+import { allowedMentionsSchema } from "./messages.js";
 import { redisPub } from "../../config/redis.js";
 import { createRateLimiter } from "../../middleware/rateLimit.js";
 
@@ -20,6 +21,7 @@ export async function publicWebhookRoutes(app: FastifyInstance) {
         username: z.string().max(80).optional(),
         avatar_url: z.string().optional(),
         tts: z.boolean().optional(),
+        allowed_mentions: allowedMentionsSchema.optional(),
       })
       .parse(request.body);
 
@@ -27,6 +29,7 @@ export async function publicWebhookRoutes(app: FastifyInstance) {
       username: body.username,
       avatarUrl: body.avatar_url,
       tts: body.tts,
+      allowedMentions: body.allowed_mentions,
     });
 
     const channel = await channelService.getChannel(message.channelId);
@@ -1,7 +1,7 @@
 import { generateSnowflake } from "@yxc/snowflake";
 import { ApiError } from "./auth.service.js";
+import { generateSigningKeyPair, validateInteractionsEndpoint } from "./interaction-delivery.service.js";
 import { applicationRepository } from "../repositories/application.repository.js";
-import crypto from "crypto";
 
 export interface Application {
   id: string;
@@ -39,7 +39,7 @@ export async function createApplication(
   name: string
 ): Promise<Application> {
   const id = generateSnowflake();
-  const verifyKey = crypto.randomBytes(32).toString("hex");
+  const { verifyKey, privateKey } = generateSigningKeyPair();
 
   const app = await applicationRepository.create({
     id,
@@ -54,6 +54,8 @@ export async function createApplication(
     throw new ApiError(500, "Failed to create application");
   }
 
+  await applicationRepository.setSigningKey(id, verifyKey, privateKey);
+
   return app;
 }
 
@@ -82,6 +84,11 @@ export async function updateApplication(
     throw new ApiError(404, "Application not found or you don't own it");
   }
 
+  // Endpoints must answer a signed PING before they are accepted
+  if (data.interactionsEndpointUrl && data.interactionsEndpointUrl !== existing.interactionsEndpointUrl) {
+    await validateInteractionsEndpoint(appId, data.interactionsEndpointUrl);
+  }
+
   return applicationRepository.update(appId, data);
 }
 
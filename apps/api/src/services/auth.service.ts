@@ -23,9 +23,14 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return bcrypt.compare(password, hash);
 }
 
-export async function generateToken(userId: string): Promise<string> {
+/** Bumped by revokeAllUserTokens; anything signed with an older version is dead. */
+export async function getTokenVersion(userId: string): Promise<number> {
   const versionStr = await redis.get(`user:token_version:${userId}`);
-  const tokenVersion = versionStr ? parseInt(versionStr, 10) : 0;
+  return versionStr ? parseInt(versionStr, 10) : 0;
+}
+
+export async function generateToken(userId: string): Promise<string> {
+  const tokenVersion = await getTokenVersion(userId);
   return jwt.sign({ userId, tokenVersion } satisfies TokenPayload, env.AUTH_SECRET, {
     expiresIn: TOKEN_EXPIRY,
   });
@@ -41,8 +46,7 @@ export async function verifyToken(token: string): Promise<TokenPayload> {
   }
 
   // Check token version against Redis (covers revokeAllUserTokens)
-  const currentVersionStr = await redis.get(`user:token_version:${payload.userId}`);
-  const currentVersion = currentVersionStr ? parseInt(currentVersionStr, 10) : 0;
+  const currentVersion = await getTokenVersion(payload.userId);
   const tokenVersion = payload.tokenVersion ?? 0;
   if (tokenVersion < currentVersion) {
     throw new ApiError(401, "Token has been revoked");
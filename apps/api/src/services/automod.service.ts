@@ -1,229 +1,475 @@
-import { redisPub } from "../config/redis.js";
+import crypto from "crypto";
+import { generateSnowflake } from "@yxc/snowflake";
+import { PermissionFlags } from "@yxc/permissions";
+import { AuditLogActionType, MessageType } from "@yxc/types";
+import type {
+  AutoModRule,
+  AutoModTriggerMetadata,
+  AutoModAction,
+  AutoModActionExecutionPayload,
+} from "@yxc/gateway-types";
+import { redis } from "../config/redis.js";
+import { ApiError } from "./auth.service.js";
+import * as permissionService from "./permission.service.js";
+import * as messageService from "./message.service.js";
+import * as memberService from "./member.service.js";
+import * as auditlogService from "./auditlog.service.js";
 import { automodRepository } from "../repositories/automod.repository.js";
+import { memberRepository } from "../repositories/member.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { dispatchGuild } from "../utils/dispatch.js";
 
-export interface AutoModConfig {
+export enum AutoModEventType {
+  MESSAGE_SEND = 1,
+}
+
+export enum AutoModTriggerType {
+  KEYWORD = 1,
+  SPAM = 3,
+  KEYWORD_PRESET = 4,
+  MENTION_SPAM = 5,
+}
+
+export enum AutoModKeywordPresetType {
+  PROFANITY = 1,
+  SEXUAL_CONTENT = 2,
+  SLURS = 3,
+}
+
+export enum AutoModActionType {
+  BLOCK_MESSAGE = 1,
+  SEND_ALERT_MESSAGE = 2,
+  TIMEOUT = 3,
+}
+
+export interface AutoModRuleInput {
+  name: string;
+  eventType: number;
+  triggerType: number;
+  triggerMetadata: AutoModTriggerMetadata;
+  actions: AutoModAction[];
   enabled: boolean;
-  keywordFilters: {
-    enabled: boolean;
-    blockedWords: string[];
-    action: "delete" | "warn" | "timeout";
-  };
-  mentionSpam: {
-    enabled: boolean;
-    maxMentions: number;
-    action: "delete" | "warn" | "timeout";
-  };
-  linkFilter: {
-    enabled: boolean;
-    blockAllLinks: boolean;
-    whitelist: string[];
-    action: "delete" | "warn" | "timeout";
-  };
-  antiRaid: {
-    enabled: boolean;
-    joinRateLimit: number;
-    joinRateWindow: number;
-    action: "lockdown" | "kick" | "notify";
-  };
+  exemptRoles: string[];
+  exemptChannels: string[];
 }
 
-const DEFAULT_CONFIG: AutoModConfig = {
-  enabled: false,
-  keywordFilters: {
-    enabled: false,
-    blockedWords: [],
-    action: "delete",
-  },
-  mentionSpam: {
-    enabled: false,
-    maxMentions: 10,
-    action: "delete",
-  },
-  linkFilter: {
-    enabled: false,
-    blockAllLinks: false,
-    whitelist: [],
-    action: "delete",
-  },
-  antiRaid: {
-    enabled: false,
-    joinRateLimit: 10,
-    joinRateWindow: 60,
-    action: "notify",
-  },
+// Per-guild rule limits by trigger type
+const MAX_RULES: Record<number, number> = {
+  [AutoModTriggerType.KEYWORD]: 6,
+  [AutoModTriggerType.SPAM]: 1,
+  [AutoModTriggerType.KEYWORD_PRESET]: 1,
+  [AutoModTriggerType.MENTION_SPAM]: 1,
+};
+
+const MAX_TIMEOUT_SECONDS = 28 * 24 * 60 * 60;
+const DEFAULT_BLOCK_MESSAGE = "Message was blocked by automatic moderation";
+
+// Wildcard-capable keyword lists for the built-in presets
+const KEYWORD_PRESETS: Record<number, string[]> = {
+  [AutoModKeywordPresetType.PROFANITY]: [
+    "fuck*", "*fucker", "shit*", "bullshit", "bitch*", "asshole*", "bastard*", "dickhead*", "motherfuck*", "cunt*", "wanker*",
+  ],
+  [AutoModKeywordPresetType.SEXUAL_CONTENT]: [
+    "porn*", "nude*", "nudes", "hentai", "blowjob*", "handjob*", "dildo*", "camgirl*", "onlyfans", "xxx",
+  ],
+  [AutoModKeywordPresetType.SLURS]: [
+    "nigger*", "nigga*", "faggot*", "fag", "fags", "retard*", "tranny*", "kike*", "chink*", "spic", "spics", "wetback*",
+  ],
 };
 
+// Spam heuristics
+const DUPLICATE_WINDOW_SECONDS = 30;
+const DUPLICATE_THRESHOLD = 3;
+const REPEATED_CHAR_RUN = /(.)\1{29,}/su;
+const MENTION_WINDOW_SECONDS = 60;
+
 // In-memory cache with TTL
-const configCache = new Map<string, { config: AutoModConfig; cachedAt: number }>();
+const rulesCache = new Map<string, { rules: AutoModRule[]; cachedAt: number }>();
 const CACHE_TTL = 60000; // 1 minute
 
-export async function getConfig(guildId: string): Promise<AutoModConfig> {
-  // Check cache first
-  const cached = configCache.get(guildId);
+function toRule(row: any): AutoModRule {
+  return {
+    id: row.id,
+    guildId: row.guildId,
+    name: row.name,
+    creatorId: row.creatorId,
+    eventType: row.eventType,
+    triggerType: row.triggerType,
+    triggerMetadata: row.triggerMetadata,
+    actions: row.actions,
+    enabled: row.enabled,
+    exemptRoles: row.exemptRoles,
+    exemptChannels: row.exemptChannels,
+  };
+}
+
+// ── Rule CRUD ──
+
+export async function getRules(guildId: string): Promise<AutoModRule[]> {
+  const cached = rulesCache.get(guildId);
   if (cached && Date.now() - cached.cachedAt < CACHE_TTL) {
-    return cached.config;
+    return cached.rules;
   }
 
-  const row = await automodRepository.findByGuildId(guildId);
+  const rows = await automodRepository.findByGuildId(guildId);
+  const rules = rows.map(toRule);
+  rulesCache.set(guildId, { rules, cachedAt: Date.now() });
+  return rules;
+}
+
+export async function getRule(guildId: string, ruleId: string): Promise<AutoModRule> {
+  const row = await automodRepository.findById(guildId, ruleId);
+  if (!row) throw new ApiError(404, "Unknown auto moderation rule");
+  return toRule(row);
+}
+
+/**
+ * Heuristic guard against catastrophic backtracking: reject a quantified group
+ * that itself contains a quantifier, e.g. `(a+)+` or `(\w*x)*`.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  return /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/.test(pattern);
+}
 
-  if (!row) {
-    return { ...DEFAULT_CONFIG };
+function validateRule(rule: AutoModRuleInput) {
+  const meta = rule.triggerMetadata;
+
+  switch (rule.triggerType) {
+    case AutoModTriggerType.KEYWORD:
+      if (!meta.keywordFilter?.length && !meta.regexPatterns?.length) {
+        throw new ApiError(400, "Keyword rules require keywordFilter or regexPatterns");
+      }
+      for (const pattern of meta.regexPatterns ?? []) {
+        try {
+          new RegExp(pattern, "iu");
+        } catch {
+          throw new ApiError(400, `Invalid regex pattern: ${pattern}`);
+        }
+        if (hasNestedQuantifier(pattern)) {
+          throw new ApiError(400, `Regex pattern is too complex: ${pattern}`);
+        }
+      }
+      break;
+    case AutoModTriggerType.KEYWORD_PRESET:
+      if (!meta.presets?.length) {
+        throw new ApiError(400, "Keyword preset rules require at least one preset");
+      }
+      break;
+    case AutoModTriggerType.MENTION_SPAM:
+      if (!meta.mentionTotalLimit) {
+        throw new ApiError(400, "Mention spam rules require mentionTotalLimit");
+      }
+      break;
+    case AutoModTriggerType.SPAM:
+      break;
+    default:
+      throw new ApiError(400, "Unknown trigger type");
   }
 
-  const config: AutoModConfig = {
-    enabled: row.enabled,
-    keywordFilters: row.keywordFilters as AutoModConfig["keywordFilters"],
-    mentionSpam: row.mentionSpam as AutoModConfig["mentionSpam"],
-    linkFilter: row.linkFilter as AutoModConfig["linkFilter"],
-    antiRaid: row.antiRaid as AutoModConfig["antiRaid"],
-  };
+  for (const action of rule.actions) {
+    if (action.type === AutoModActionType.SEND_ALERT_MESSAGE && !action.metadata?.channelId) {
+      throw new ApiError(400, "Alert actions require a channelId");
+    }
+    if (action.type === AutoModActionType.TIMEOUT) {
+      if (rule.triggerType !== AutoModTriggerType.KEYWORD && rule.triggerType !== AutoModTriggerType.MENTION_SPAM) {
+        throw new ApiError(400, "Timeout actions are only allowed for keyword and mention spam rules");
+      }
+      const duration = action.metadata?.durationSeconds ?? 0;
+      if (duration <= 0 || duration > MAX_TIMEOUT_SECONDS) {
+        throw new ApiError(400, `Timeout duration must be between 1 and ${MAX_TIMEOUT_SECONDS} seconds`);
+      }
+    }
+  }
+}
 
-  configCache.set(guildId, { config, cachedAt: Date.now() });
-  return config;
+async function validateAlertChannels(guildId: string, actions: AutoModAction[]) {
+  for (const action of actions) {
+    if (action.type !== AutoModActionType.SEND_ALERT_MESSAGE) continue;
+    const channel = await channelRepository.findById(action.metadata!.channelId!);
+    if (!channel || channel.guildId !== guildId) {
+      throw new ApiError(400, "Alert channel must belong to this guild");
+    }
+  }
 }
 
-export async function setConfig(guildId: string, config: AutoModConfig): Promise<void> {
-  await automodRepository.update(guildId, {
-    enabled: config.enabled,
-    keywordFilters: config.keywordFilters,
-    mentionSpam: config.mentionSpam,
-    linkFilter: config.linkFilter,
-    antiRaid: config.antiRaid,
+export async function createRule(guildId: string, creatorId: string, input: AutoModRuleInput): Promise<AutoModRule> {
+  validateRule(input);
+  await validateAlertChannels(guildId, input.actions);
+
+  const existing = await automodRepository.countByTriggerType(guildId, input.triggerType);
+  if (existing >= (MAX_RULES[input.triggerType] ?? 0)) {
+    throw new ApiError(400, "Maximum number of rules for this trigger type reached");
+  }
+
+  const row = await automodRepository.create({
+    id: generateSnowflake(),
+    guildId,
+    creatorId,
+    ...input,
   });
 
-  // Update cache
-  configCache.set(guildId, { config, cachedAt: Date.now() });
+  rulesCache.delete(guildId);
+  return toRule(row);
+}
+
+export async function updateRule(
+  guildId: string,
+  ruleId: string,
+  data: Partial<Omit<AutoModRuleInput, "triggerType">>
+): Promise<AutoModRule> {
+  const current = await getRule(guildId, ruleId);
+  validateRule({ ...current, ...data });
+  if (data.actions) await validateAlertChannels(guildId, data.actions);
 
-  // Dispatch event
-  const payload = JSON.stringify({ event: "AUTO_MODERATION_RULE_UPDATE", data: { guildId, config } });
-  await redisPub.publish(`gateway:guild:${guildId}`, payload);
+  const row = await automodRepository.update(ruleId, data);
+  rulesCache.delete(guildId);
+  return toRule(row);
 }
 
-export async function deleteConfig(guildId: string): Promise<void> {
-  await automodRepository.delete(guildId);
-  configCache.delete(guildId);
+export async function deleteRule(guildId: string, ruleId: string): Promise<AutoModRule> {
+  const rule = await getRule(guildId, ruleId);
+  await automodRepository.delete(ruleId);
+  rulesCache.delete(guildId);
+  return rule;
 }
 
-const URL_REGEX = /https?:\/\/[^\s<]+/gi;
+// ── Matching ──
 
-export async function checkMessage(
-  guildId: string,
-  content: string,
-  _authorId: string,
-  mentionCount: number
-): Promise<{ allowed: boolean; reason?: string; action?: string }> {
-  const config = await getConfig(guildId);
-  if (!config.enabled) return { allowed: true };
-
-  // Keyword filter
-  if (config.keywordFilters.enabled && config.keywordFilters.blockedWords.length > 0) {
-    const lower = content.toLowerCase();
-    for (const word of config.keywordFilters.blockedWords) {
-      if (lower.includes(word.toLowerCase())) {
-        return {
-          allowed: false,
-          reason: `Message contains blocked word: ${word}`,
-          action: config.keywordFilters.action,
-        };
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile a keyword using Discord's wildcard rules: `cat` matches the whole word,
+ * `cat*` a prefix, `*cat` a suffix and `*cat*` anywhere.
+ */
+function compileKeyword(keyword: string): RegExp {
+  const leading = keyword.startsWith("*");
+  const trailing = keyword.length > 1 && keyword.endsWith("*");
+  const core = escapeRegex(keyword.slice(leading ? 1 : 0, trailing ? -1 : undefined));
+  const word = "[\\p{L}\\p{N}]";
+  // Wildcard sides extend the match to the rest of the word; plain sides require a word boundary
+  const start = leading ? `${word}*` : `(?<!${word})`;
+  const end = trailing ? `${word}*` : `(?!${word})`;
+  return new RegExp(`${start}${core}${end}`, "iu");
+}
+
+function isAllowed(matched: string, allowList: string[] | undefined): boolean {
+  return (allowList ?? []).some((allowed) => {
+    const re = compileKeyword(allowed);
+    const m = matched.match(re);
+    return m !== null && m[0].length === matched.length;
+  });
+}
+
+interface TriggerMatch {
+  matchedKeyword?: string;
+  matchedContent?: string;
+}
+
+function matchKeywordList(content: string, keywords: string[], allowList?: string[]): TriggerMatch | null {
+  for (const keyword of keywords) {
+    const re = new RegExp(compileKeyword(keyword).source, "giu");
+    for (const m of content.matchAll(re)) {
+      if (!isAllowed(m[0], allowList)) {
+        return { matchedKeyword: keyword, matchedContent: m[0] };
       }
     }
   }
+  return null;
+}
 
-  // Mention spam
-  if (config.mentionSpam.enabled && mentionCount > config.mentionSpam.maxMentions) {
-    return {
-      allowed: false,
-      reason: `Too many mentions (${mentionCount} > ${config.mentionSpam.maxMentions})`,
-      action: config.mentionSpam.action,
-    };
-  }
-
-  // Link filter
-  if (config.linkFilter.enabled) {
-    const urls = content.match(URL_REGEX);
-    if (urls && urls.length > 0) {
-      if (config.linkFilter.blockAllLinks) {
-        const allWhitelisted = urls.every((url) =>
-          config.linkFilter.whitelist.some((domain) => url.includes(domain))
-        );
-        if (!allWhitelisted) {
-          return {
-            allowed: false,
-            reason: "Message contains non-whitelisted links",
-            action: config.linkFilter.action,
-          };
-        }
-      } else if (config.linkFilter.whitelist.length > 0) {
-        const hasBlocked = urls.some(
-          (url) => !config.linkFilter.whitelist.some((domain) => url.includes(domain))
-        );
-        if (hasBlocked) {
-          return {
-            allowed: false,
-            reason: "Message contains non-whitelisted links",
-            action: config.linkFilter.action,
-          };
-        }
-      }
+function matchKeywordRule(content: string, meta: AutoModTriggerMetadata): TriggerMatch | null {
+  const keywordMatch = matchKeywordList(content, meta.keywordFilter ?? [], meta.allowList);
+  if (keywordMatch) return keywordMatch;
+
+  for (const pattern of meta.regexPatterns ?? []) {
+    const m = content.match(new RegExp(pattern, "iu"));
+    if (m && !isAllowed(m[0], meta.allowList)) {
+      return { matchedKeyword: pattern, matchedContent: m[0] };
     }
   }
+  return null;
+}
+
+function matchPresetRule(content: string, meta: AutoModTriggerMetadata): TriggerMatch | null {
+  for (const preset of meta.presets ?? []) {
+    const match = matchKeywordList(content, KEYWORD_PRESETS[preset] ?? [], meta.allowList);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Count distinct user and role mentions in a message.
+ */
+export function countMentions(content: string): number {
+  const ids = new Set<string>();
+  for (const m of content.matchAll(/<@(!|&)?(\d+)>/g)) {
+    ids.add(`${m[1] === "&" ? "role" : "user"}:${m[2]}`);
+  }
+  return ids.size;
+}
+
+async function matchMentionSpamRule(
+  guildId: string,
+  authorId: string,
+  content: string,
+  meta: AutoModTriggerMetadata
+): Promise<TriggerMatch | null> {
+  const limit = meta.mentionTotalLimit ?? 0;
+  const count = countMentions(content);
+  if (count > limit) {
+    return { matchedContent: `${count} mentions` };
+  }
 
-  return { allowed: true };
+  // Raid protection: mentions spread across several messages in a short window
+  if (meta.mentionRaidProtectionEnabled && count > 0) {
+    const key = `automod:mentions:${guildId}:${authorId}`;
+    const total = await redis.incrby(key, count);
+    if (total === count) await redis.expire(key, MENTION_WINDOW_SECONDS);
+    if (total > limit) {
+      return { matchedContent: `${total} mentions in ${MENTION_WINDOW_SECONDS}s` };
+    }
+  }
+  return null;
 }
 
-// Use Redis for distributed join rate limiting
-const JOIN_RATE_KEY_PREFIX = "automod:joinrate:";
+async function matchSpamRule(guildId: string, authorId: string, content: string): Promise<TriggerMatch | null> {
+  if (REPEATED_CHAR_RUN.test(content)) {
+    return { matchedContent: "repeated characters" };
+  }
 
-export async function checkJoinRate(
-  guildId: string
-): Promise<{ allowed: boolean; reason?: string }> {
-  const config = await getConfig(guildId);
-  if (!config.enabled || !config.antiRaid.enabled) return { allowed: true };
+  const combining = content.match(/\p{M}/gu)?.length ?? 0;
+  if (combining > 20 && combining > content.length / 2) {
+    return { matchedContent: "excessive combining characters" };
+  }
 
-  const key = `${JOIN_RATE_KEY_PREFIX}${guildId}`;
-  const now = Date.now();
-  const windowMs = config.antiRaid.joinRateWindow * 1000;
+  if (content.trim().length > 0) {
+    const hash = crypto.createHash("sha1").update(content.trim().toLowerCase()).digest("hex");
+    const key = `automod:dup:${guildId}:${authorId}:${hash}`;
+    const count = await redis.incr(key);
+    if (count === 1) await redis.expire(key, DUPLICATE_WINDOW_SECONDS);
+    if (count >= DUPLICATE_THRESHOLD) {
+      return { matchedContent: "duplicate messages" };
+    }
+  }
 
-  // Use Redis sorted set for distributed rate limiting
-  const multi = redisPub.multi();
+  return null;
+}
 
-  // Remove old entries outside window
-  multi.zremrangebyscore(key, 0, now - windowMs);
+async function matchRule(rule: AutoModRule, guildId: string, authorId: string, content: string) {
+  switch (rule.triggerType) {
+    case AutoModTriggerType.KEYWORD:
+      return matchKeywordRule(content, rule.triggerMetadata);
+    case AutoModTriggerType.KEYWORD_PRESET:
+      return matchPresetRule(content, rule.triggerMetadata);
+    case AutoModTriggerType.MENTION_SPAM:
+      return matchMentionSpamRule(guildId, authorId, content, rule.triggerMetadata);
+    case AutoModTriggerType.SPAM:
+      return matchSpamRule(guildId, authorId, content);
+    default:
+      return null;
+  }
+}
 
-  // Add current join
-  multi.zadd(key, now, `${now}-${Math.random()}`);
+// ── Actions ──
 
-  // Count recent joins
-  multi.zcard(key);
+async function executeAction(
+  rule: AutoModRule,
+  action: AutoModAction,
+  match: TriggerMatch,
+  context: { guildId: string; channelId: string; authorId: string; content: string }
+) {
+  const { guildId, channelId, authorId, content } = context;
+  let alertSystemMessageId: string | undefined;
 
-  // Set expiry on key
-  multi.expire(key, config.antiRaid.joinRateWindow + 10);
+  switch (action.type) {
+    case AutoModActionType.BLOCK_MESSAGE:
+      await auditlogService.createAuditLogEntry(
+        guildId,
+        authorId,
+        AuditLogActionType.AUTO_MODERATION_BLOCK_MESSAGE,
+        authorId,
+        rule.name
+      );
+      break;
 
-  const results = await multi.exec();
-  const recentCount = (results?.[2]?.[1] as number) ?? 0;
+    case AutoModActionType.SEND_ALERT_MESSAGE: {
+      const alert = await messageService.createMessage(action.metadata!.channelId!, authorId, content, {
+        type: MessageType.AUTO_MODERATION_ACTION,
+      });
+      alertSystemMessageId = alert.id;
+      await dispatchGuild(guildId, "MESSAGE_CREATE", alert);
+      break;
+    }
 
-  if (recentCount > config.antiRaid.joinRateLimit) {
-    return {
-      allowed: false,
-      reason: `Join rate exceeded (${recentCount} joins in ${config.antiRaid.joinRateWindow}s)`,
-    };
+    case AutoModActionType.TIMEOUT: {
+      const until = new Date(Date.now() + action.metadata!.durationSeconds! * 1000);
+      await memberService.timeoutMember(guildId, authorId, until);
+      await dispatchGuild(guildId, "GUILD_MEMBER_UPDATE", await memberService.getMemberUpdate(guildId, authorId));
+      break;
+    }
   }
 
-  return { allowed: true };
+  const payload: AutoModActionExecutionPayload = {
+    guildId,
+    action,
+    ruleId: rule.id,
+    ruleTriggerType: rule.triggerType,
+    userId: authorId,
+    channelId,
+    alertSystemMessageId,
+    content,
+    matchedKeyword: match.matchedKeyword,
+    matchedContent: match.matchedContent,
+  };
+  await dispatchGuild(guildId, "AUTO_MODERATION_ACTION_EXECUTION", payload);
 }
 
-// Record automod action for audit/logging
-export async function recordAction(
+/**
+ * Run a guild's message rules against a message about to be sent.
+ * Matching rules have all of their actions executed; the caller must reject
+ * the message when `blocked` is true. Members with MANAGE_GUILD are exempt.
+ */
+export async function checkMessage(
   guildId: string,
-  userId: string,
-  action: string,
-  reason: string,
-  messageId?: string,
-  channelId?: string
-): Promise<void> {
-  const payload = JSON.stringify({
-    event: "AUTO_MODERATION_ACTION_EXECUTION",
-    data: { guildId, userId, action, reason, messageId, channelId, executedAt: new Date().toISOString() },
-  });
-  await redisPub.publish(`gateway:guild:${guildId}`, payload);
+  channel: { id: string; parentId?: string | null },
+  authorId: string,
+  content: string
+): Promise<{ blocked: boolean; message?: string }> {
+  const rules = (await getRules(guildId)).filter(
+    (r) => r.enabled && r.eventType === AutoModEventType.MESSAGE_SEND
+  );
+  if (rules.length === 0) return { blocked: false };
+
+  const perms = await permissionService.getGuildPermissions(authorId, guildId);
+  if (perms.has(PermissionFlags.MANAGE_GUILD)) return { blocked: false };
+
+  const roleIds = new Set((await memberRepository.getMemberRoleIds(authorId, guildId)).map((r) => r.roleId));
+  let blocked = false;
+  let message: string | undefined;
+
+  for (const rule of rules) {
+    if (rule.exemptChannels.includes(channel.id)) continue;
+    if (channel.parentId && rule.exemptChannels.includes(channel.parentId)) continue;
+    if (rule.exemptRoles.some((id) => roleIds.has(id))) continue;
+
+    const match = await matchRule(rule, guildId, authorId, content);
+    if (!match) continue;
+
+    for (const action of rule.actions) {
+      try {
+        await executeAction(rule, action, match, { guildId, channelId: channel.id, authorId, content });
+      } catch (err) {
+        console.error(`AutoMod action ${action.type} for rule ${rule.id} failed:`, err);
+      }
+      if (action.type === AutoModActionType.BLOCK_MESSAGE) {
+        blocked = true;
+        message ??= action.metadata?.customMessage ?? DEFAULT_BLOCK_MESSAGE;
+      }
+    }
+  }
+
+  return blocked ? { blocked, message } : { blocked };
 }
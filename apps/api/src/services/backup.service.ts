@@ -6,6 +6,56 @@ import { channelRepository } from "../repositories/channel.repository.js";
 import { roleRepository } from "../repositories/role.repository.js";
 import { emojiRepository } from "../repositories/emoji.repository.js";
 import { permissionRepository } from "../repositories/permission.repository.js";
+import * as channelService from "./channel.service.js";
+import * as roleService from "./role.service.js";
+import { invalidateGuildPermissions } from "./permission.service.js";
+
+// Snapshot shape written by createBackup. Backups taken before snapshots carried
+// source IDs lack `id`/`channelId`, so restore falls back to name matching for them.
+interface BackupChannel {
+  id?: string;
+  name: string | null;
+  type: number;
+  topic: string | null;
+  position: number;
+  parentId: string | null;
+  nsfw: boolean;
+  rateLimitPerUser: number;
+  bitrate: number | null;
+  userLimit: number | null;
+  messageRetentionSeconds: number | null;
+}
+
+interface BackupRole {
+  id?: string;
+  name: string;
+  color: number;
+  hoist: boolean;
+  position: number;
+  permissions: string;
+  mentionable: boolean;
+}
+
+interface BackupOverwrite {
+  channelId?: string;
+  targetId: string;
+  targetType: number;
+  allow: string;
+  deny: string;
+}
+
+interface BackupData {
+  channels: BackupChannel[];
+  roles: BackupRole[];
+  permissionOverwrites: BackupOverwrite[];
+}
+
+export interface RestorePlan {
+  roles: Array<{ sourceId: string | null; name: string; action: "create" | "keep"; targetId: string | null }>;
+  channels: Array<{ sourceId: string | null; name: string | null; type: number; action: "create" | "keep"; targetId: string | null }>;
+  permissionOverwrites: Array<{ channelSourceId: string; targetSourceId: string; targetType: number; action: "create" }>;
+  skippedOverwrites: number;
+}
 
 export async function createBackup(guildId: string, userId: string) {
   // Verify owner
@@ -40,6 +90,7 @@ export async function createBackup(guildId: string, userId: string) {
       preferredLocale: guild.preferredLocale,
     },
     channels: channels.map((c) => ({
+      id: c.id,
       name: c.name,
       type: c.type,
       topic: c.topic,
@@ -52,6 +103,7 @@ export async function createBackup(guildId: string, userId: string) {
       messageRetentionSeconds: c.messageRetentionSeconds,
     })),
     roles: roles.map((r) => ({
+      id: r.id,
       name: r.name,
       color: r.color,
       hoist: r.hoist,
@@ -64,6 +116,7 @@ export async function createBackup(guildId: string, userId: string) {
       animated: e.animated,
     })),
     permissionOverwrites: overwrites.map((o) => ({
+      channelId: o.channelId,
       targetId: o.targetId,
       targetType: o.targetType,
       allow: o.allow,
@@ -118,3 +171,195 @@ export async function deleteBackup(id: string, userId: string) {
 
   await backupRepository.delete(id);
 }
+
+const CATEGORY_CHANNEL_TYPE = 4;
+
+/**
+ * Diff a backup snapshot against the live guild. Roles and channels are matched
+ * by source ID first, then by name (and type for channels); anything unmatched
+ * is planned for re-creation. Overwrites are planned only where the live channel
+ * does not already carry one for the same target.
+ */
+async function planRestore(guildId: string, data: BackupData): Promise<RestorePlan> {
+  const [liveChannels, liveRoles] = await Promise.all([
+    channelRepository.findByGuildId(guildId),
+    roleRepository.findByGuildId(guildId),
+  ]);
+
+  const roles: RestorePlan["roles"] = [];
+  for (const role of [...data.roles].sort((a, b) => a.position - b.position)) {
+    // @everyone always exists (its ID is the guild ID)
+    if (role.name === "@everyone" || role.id === guildId) continue;
+    const match =
+      (role.id ? liveRoles.find((r) => r.id === role.id) : undefined) ??
+      liveRoles.find((r) => r.name === role.name);
+    roles.push({
+      sourceId: role.id ?? null,
+      name: role.name,
+      action: match ? "keep" : "create",
+      targetId: match?.id ?? null,
+    });
+  }
+
+  // Categories first so children can be re-parented onto recreated categories
+  const orderedChannels = [...data.channels].sort(
+    (a, b) => Number(b.type === CATEGORY_CHANNEL_TYPE) - Number(a.type === CATEGORY_CHANNEL_TYPE) || a.position - b.position
+  );
+  const channels: RestorePlan["channels"] = [];
+  for (const channel of orderedChannels) {
+    const match =
+      (channel.id ? liveChannels.find((c) => c.id === channel.id) : undefined) ??
+      liveChannels.find((c) => c.name === channel.name && c.type === channel.type);
+    channels.push({
+      sourceId: channel.id ?? null,
+      name: channel.name,
+      type: channel.type,
+      action: match ? "keep" : "create",
+      targetId: match?.id ?? null,
+    });
+  }
+
+  const permissionOverwrites: RestorePlan["permissionOverwrites"] = [];
+  let skippedOverwrites = 0;
+  const liveOverwriteCache = new Map<string, Set<string>>();
+  for (const overwrite of data.permissionOverwrites) {
+    const channelPlan = overwrite.channelId
+      ? channels.find((c) => c.sourceId === overwrite.channelId)
+      : undefined;
+    // Member overwrites and @everyone keep their IDs; other role targets must map to a planned role
+    const rolePlan = overwrite.targetType === 0 && overwrite.targetId !== guildId
+      ? roles.find((r) => r.sourceId === overwrite.targetId)
+      : undefined;
+    if (!channelPlan || (overwrite.targetType === 0 && overwrite.targetId !== guildId && !rolePlan)) {
+      skippedOverwrites++;
+      continue;
+    }
+
+    if (channelPlan.action === "keep") {
+      const targetId = rolePlan ? rolePlan.targetId : overwrite.targetId;
+      let existing = liveOverwriteCache.get(channelPlan.targetId!);
+      if (!existing) {
+        const rows = await permissionRepository.findOverwritesByChannelId(channelPlan.targetId!);
+        existing = new Set(rows.map((o) => o.targetId));
+        liveOverwriteCache.set(channelPlan.targetId!, existing);
+      }
+      if (targetId && existing.has(targetId)) continue;
+    }
+
+    permissionOverwrites.push({
+      channelSourceId: overwrite.channelId!,
+      targetSourceId: overwrite.targetId,
+      targetType: overwrite.targetType,
+      action: "create",
+    });
+  }
+
+  return { roles, channels, permissionOverwrites, skippedOverwrites };
+}
+
+/**
+ * Restore missing roles, channels and permission overwrites from a backup.
+ * With dryRun the planned changes are returned without touching the guild.
+ * Created roles and channels are returned so the caller can dispatch them.
+ */
+export async function restoreBackup(
+  guildId: string,
+  backupId: string,
+  userId: string,
+  options: { dryRun?: boolean } = {}
+) {
+  const guild = await guildRepository.findOwnerById(guildId);
+  if (!guild) throw new ApiError(404, "Guild not found");
+  if (guild.ownerId !== userId) throw new ApiError(403, "Only the owner can restore backups");
+
+  const backup = await backupRepository.findById(backupId);
+  if (!backup || backup.guildId !== guildId) throw new ApiError(404, "Backup not found");
+
+  const data = backup.data as BackupData;
+  const plan = await planRestore(guildId, data);
+
+  if (options.dryRun) {
+    return { dryRun: true, plan, createdRoles: [], createdChannels: [], updatedChannelIds: [] };
+  }
+
+  // Source ID -> live ID, filled in as entities are matched or recreated
+  const roleIdMap = new Map<string, string>([[guildId, guildId]]);
+  const channelIdMap = new Map<string, string>();
+
+  const createdRoles = [];
+  for (const entry of plan.roles) {
+    if (entry.action === "keep") {
+      if (entry.sourceId) roleIdMap.set(entry.sourceId, entry.targetId!);
+      continue;
+    }
+    const source = data.roles.find((r) => (entry.sourceId ? r.id === entry.sourceId : r.name === entry.name))!;
+    const role = await roleService.createRole(guildId, {
+      name: source.name,
+      color: source.color,
+      hoist: source.hoist,
+      permissions: source.permissions,
+      mentionable: source.mentionable,
+      // Roles are restored lowest first, so each lands back at its backed-up place in the hierarchy
+      position: source.position,
+    });
+    entry.targetId = role.id;
+    if (entry.sourceId) roleIdMap.set(entry.sourceId, role.id);
+    createdRoles.push(role);
+  }
+
+  const createdChannels = [];
+  for (const entry of plan.channels) {
+    if (entry.action === "keep") {
+      if (entry.sourceId) channelIdMap.set(entry.sourceId, entry.targetId!);
+      continue;
+    }
+    const source = data.channels.find((c) =>
+      entry.sourceId ? c.id === entry.sourceId : c.name === entry.name && c.type === entry.type
+    )!;
+    const parentId = source.parentId ? channelIdMap.get(source.parentId) : undefined;
+    const channel = await channelService.createChannel(guildId, {
+      name: source.name ?? "restored",
+      type: source.type,
+      topic: source.topic ?? undefined,
+      parentId,
+      nsfw: source.nsfw,
+      rateLimitPerUser: source.rateLimitPerUser,
+      bitrate: source.bitrate ?? undefined,
+      userLimit: source.userLimit ?? undefined,
+      position: source.position,
+    });
+    entry.targetId = channel.id;
+    if (entry.sourceId) channelIdMap.set(entry.sourceId, channel.id);
+    createdChannels.push(channel);
+  }
+
+  const createdChannelIds = new Set(createdChannels.map((c) => c.id));
+  const updatedChannelIds = new Set<string>();
+  for (const entry of plan.permissionOverwrites) {
+    const source = data.permissionOverwrites.find(
+      (o) => o.channelId === entry.channelSourceId && o.targetId === entry.targetSourceId
+    )!;
+    const channelId = channelIdMap.get(entry.channelSourceId)!;
+    const targetId = source.targetType === 0 ? roleIdMap.get(source.targetId)! : source.targetId;
+    await permissionRepository.setOverwrite({
+      channelId,
+      targetId,
+      targetType: source.targetType,
+      allow: source.allow,
+      deny: source.deny,
+    });
+    if (!createdChannelIds.has(channelId)) updatedChannelIds.add(channelId);
+  }
+
+  if (plan.permissionOverwrites.length > 0) {
+    await invalidateGuildPermissions(guildId);
+  }
+
+  return {
+    dryRun: false,
+    plan,
+    createdRoles,
+    createdChannels,
+    updatedChannelIds: [...updatedChannelIds],
+  };
+}
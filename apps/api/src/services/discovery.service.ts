@@ -0,0 +1,189 @@
+import { ChannelType } from "@yxc/types";
+import { ApiError } from "./auth.service.js";
+import { guildRepository } from "../repositories/guild.repository.js";
+import { guildSettingsRepository, type DiscoveryFilters } from "../repositories/guild-settings.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { memberRepository } from "../repositories/member.repository.js";
+import { messageRepository } from "../repositories/message.repository.js";
+
+export const DISCOVERY_CATEGORIES = [
+  "gaming",
+  "music",
+  "education",
+  "science",
+  "technology",
+  "entertainment",
+  "art",
+  "community",
+  "other",
+] as const;
+
+const PUBLIC_CHANNEL_TYPES: ReadonlySet<number> = new Set([ChannelType.GUILD_TEXT, ChannelType.GUILD_ANNOUNCEMENT]);
+const REFRESH_BATCH_SIZE = 100;
+
+type PreviewRow = NonNullable<Awaited<ReturnType<typeof guildSettingsRepository.findPreview>>>;
+
+function serializeSettings(preview: PreviewRow) {
+  return {
+    discoverable: preview.discoverable,
+    category: preview.category,
+    tags: preview.tags,
+    approximateMemberCount: preview.approximateMemberCount,
+    approximatePresenceCount: preview.approximatePresenceCount,
+  };
+}
+
+async function requireOwner(guildId: string, userId: string, message: string) {
+  const guild = await guildRepository.findOwnerById(guildId);
+  if (!guild) throw new ApiError(404, "Guild not found");
+  if (guild.ownerId !== userId) throw new ApiError(403, message);
+}
+
+async function countGuilds(guildIds: string[]) {
+  const [members, online] = await Promise.all([
+    memberRepository.countByGuildIds(guildIds),
+    memberRepository.countOnlineByGuildIds(guildIds),
+  ]);
+  const memberCounts = new Map(members.map((r) => [r.guildId, r.count]));
+  const onlineCounts = new Map(online.map((r) => [r.guildId, r.count]));
+  return guildIds.map((guildId) => ({
+    guildId,
+    members: memberCounts.get(guildId) ?? 0,
+    online: onlineCounts.get(guildId) ?? 0,
+  }));
+}
+
+/** Owner-only: list the guild in discovery, and set the category and tags it's found by */
+export async function updateDiscoverySettings(
+  guildId: string,
+  userId: string,
+  data: { discoverable?: boolean; category?: string | null; tags?: string[] }
+) {
+  await requireOwner(guildId, userId, "Only the owner can change discovery settings");
+
+  const update: Parameters<typeof guildSettingsRepository.upsertPreview>[1] = {};
+  if (data.discoverable !== undefined) update.discoverable = data.discoverable;
+  if (data.category !== undefined) update.category = data.category;
+  if (data.tags !== undefined) {
+    update.tags = [...new Set(data.tags.map((t) => t.trim().toLowerCase()).filter(Boolean))];
+  }
+  if (data.discoverable) {
+    // Don't list the guild with zero members until the next refresh
+    const [counts] = await countGuilds([guildId]);
+    update.approximateMemberCount = counts!.members;
+    update.approximatePresenceCount = counts!.online;
+  }
+
+  return serializeSettings(await guildSettingsRepository.upsertPreview(guildId, update));
+}
+
+/** Owner-only: only text and announcement channels can be opened to readers without an account */
+export async function requireCanPublishChannel(
+  channel: { guildId: string | null; type: number },
+  userId: string
+) {
+  if (!channel.guildId) throw new ApiError(400, "Only guild channels can be public");
+  if (!PUBLIC_CHANNEL_TYPES.has(channel.type)) {
+    throw new ApiError(400, "Only text and announcement channels can be public");
+  }
+  await requireOwner(channel.guildId, userId, "Only the owner can make channels public");
+}
+
+/** A page of a public channel, newest first; messages its retention policy has dropped are never shown */
+export async function getPublicChannel(channelId: string, options: { before?: string; limit: number }) {
+  const channel = await channelRepository.findById(channelId);
+  if (!channel?.isPublic || !channel.guildId) {
+    throw new ApiError(404, "Channel not found or not public");
+  }
+
+  const since = channel.messageRetentionSeconds
+    ? new Date(Date.now() - channel.messageRetentionSeconds * 1000)
+    : null;
+  const [guild, messages] = await Promise.all([
+    guildRepository.findById(channel.guildId),
+    messageRepository.findUnexpired(channelId, { before: options.before, limit: options.limit + 1, since }),
+  ]);
+  const hasMore = messages.length > options.limit;
+
+  return {
+    channel: {
+      id: channel.id,
+      name: channel.name,
+      topic: channel.topic,
+      type: channel.type,
+      guildId: channel.guildId,
+    },
+    guild: guild
+      ? { id: guild.id, name: guild.name, icon: guild.icon, description: guild.description }
+      : null,
+    messages: messages.slice(0, options.limit).map((m) => ({
+      id: m.id,
+      content: m.content,
+      authorId: m.authorId,
+      author: m.authorSnapshot ?? { id: m.authorId },
+      createdAt: m.createdAt.toISOString(),
+      editedTimestamp: m.editedTimestamp?.toISOString() ?? null,
+    })),
+    hasMore,
+  };
+}
+
+export async function getPublicGuild(guildId: string) {
+  const [guild, preview] = await Promise.all([
+    guildRepository.findById(guildId),
+    guildSettingsRepository.findPreview(guildId),
+  ]);
+  if (!guild || !preview?.discoverable) {
+    throw new ApiError(404, "Guild not found or not discoverable");
+  }
+
+  return {
+    id: guild.id,
+    name: guild.name,
+    description: guild.description,
+    icon: guild.icon,
+    banner: guild.banner,
+    features: guild.features,
+    category: preview.category,
+    tags: preview.tags,
+    memberCount: preview.approximateMemberCount,
+    approximatePresenceCount: preview.approximatePresenceCount,
+  };
+}
+
+/** Search discoverable guilds; "activity" ranks by members online */
+export async function searchDiscoverableGuilds(
+  filters: DiscoveryFilters,
+  options: { sort: "members" | "activity"; limit: number; offset: number }
+) {
+  const normalized = { ...filters, tag: filters.tag?.trim().toLowerCase() };
+  const [guilds, total] = await Promise.all([
+    guildSettingsRepository.searchDiscoverable(normalized, options),
+    guildSettingsRepository.countDiscoverable(normalized),
+  ]);
+
+  return {
+    guilds: guilds.map((g) => ({ ...g, featuredAt: g.featuredAt?.toISOString() ?? null })),
+    total,
+  };
+}
+
+/** Recount members and members online for every discoverable guild; returns how many were refreshed */
+export async function refreshDiscoveryCounts() {
+  let cursor: string | null = null;
+  let refreshed = 0;
+
+  for (;;) {
+    const guildIds = await guildSettingsRepository.findDiscoverableGuildIds(cursor, REFRESH_BATCH_SIZE);
+    if (guildIds.length === 0) break;
+
+    for (const { guildId, members, online } of await countGuilds(guildIds)) {
+      await guildSettingsRepository.updatePreviewCounts(guildId, members, online);
+    }
+    refreshed += guildIds.length;
+    if (guildIds.length < REFRESH_BATCH_SIZE) break;
+    cursor = guildIds[guildIds.length - 1]!;
+  }
+
+  return refreshed;
+}
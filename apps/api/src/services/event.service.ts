@@ -1,8 +1,20 @@
+import crypto from "crypto";
 import { generateSnowflake } from "@yxc/snowflake";
-import { ApiError } from "./auth.service.js";
-import { redisPub } from "../config/redis.js";
+import { ApiError, getTokenVersion } from "./auth.service.js";
+import * as notificationService from "./notification.service.js";
+import { env } from "../config/env.js";
+import { redis, redisPub } from "../config/redis.js";
 import { eventRepository } from "../repositories/event.repository.js";
 import { guildRepository } from "../repositories/guild.repository.js";
+import { nextOccurrence, toRRule } from "../utils/recurrence.js";
+import type { RecurrenceRule } from "../utils/recurrence.js";
+import { buildCalendar } from "../utils/ical.js";
+
+const REMINDER_LEAD_MS = 15 * 60 * 1000;
+const REMINDER_KEY_PREFIX = "zent:events:reminded:";
+const REMINDER_KEY_TTL = 24 * 60 * 60; // seconds
+// How long an occurrence of a series without an end time runs before the series moves on
+const OPEN_ENDED_OCCURRENCE_MS = 2 * 60 * 60 * 1000;
 
 export interface GuildEvent {
   id: string;
@@ -20,13 +32,8 @@ export interface GuildEvent {
     location?: string;
   } | null;
   image: string | null;
-  recurrenceRule: {
-    frequency: "daily" | "weekly" | "monthly";
-    interval?: number;
-    byWeekday?: number[];
-    count?: number;
-    endDate?: string;
-  } | null;
+  recurrenceRule: RecurrenceRule | null;
+  recurrenceAnchor: Date | null;
   createdAt: Date;
 }
 
@@ -52,6 +59,15 @@ async function dispatchGuild(guildId: string, event: string, data: unknown) {
   await redisPub.publish(`gateway:guild:${guildId}`, payload);
 }
 
+/** A weekly rule's first occurrence has to be on one of its weekdays */
+function validateRecurrence(rule: RecurrenceRule, start: Date) {
+  if (rule.frequency !== "weekly" || !rule.byWeekday?.length) return;
+  const weekday = (start.getUTCDay() + 6) % 7;
+  if (!rule.byWeekday.includes(weekday)) {
+    throw new ApiError(400, "scheduledStartTime must fall on one of the recurrence rule's weekdays");
+  }
+}
+
 export async function getGuildEvents(
   guildId: string,
   options?: { after?: Date }
@@ -79,9 +95,11 @@ export async function createEvent(
     entityType: number;
     entityMetadata?: { location?: string };
     image?: string;
+    recurrenceRule?: RecurrenceRule;
   }
 ): Promise<GuildEvent> {
   const id = generateSnowflake();
+  if (data.recurrenceRule) validateRecurrence(data.recurrenceRule, data.scheduledStartTime);
 
   const event = await eventRepository.create({
     id,
@@ -97,6 +115,8 @@ export async function createEvent(
     entityType: data.entityType,
     entityMetadata: data.entityMetadata ?? null,
     image: data.image ?? null,
+    recurrenceRule: data.recurrenceRule ?? null,
+    recurrenceAnchor: data.recurrenceRule ? data.scheduledStartTime : null,
   });
 
   if (!event) {
@@ -122,6 +142,7 @@ export async function updateEvent(
     entityType: number;
     entityMetadata: { location?: string } | null;
     image: string | null;
+    recurrenceRule: RecurrenceRule | null;
   }>
 ): Promise<GuildEvent> {
   const existing = await getEvent(eventId);
@@ -134,7 +155,22 @@ export async function updateEvent(
     throw new ApiError(403, "Only the event creator can update this event");
   }
 
-  const event = await eventRepository.update(eventId, data);
+  const { status, ...changes } = data;
+  // Moving the start or changing the rule starts the series over from the new start
+  const rule = changes.recurrenceRule !== undefined ? changes.recurrenceRule : existing.recurrenceRule;
+  if (changes.recurrenceRule !== undefined || changes.scheduledStartTime) {
+    const start = changes.scheduledStartTime ?? existing.scheduledStartTime;
+    if (rule) validateRecurrence(rule, start);
+    Object.assign(changes, { recurrenceAnchor: rule ? start : null });
+  }
+
+  // Ending an occurrence of a recurring event schedules the next one
+  if (status === GuildScheduledEventStatus.COMPLETED && rule) {
+    const updated = Object.keys(changes).length > 0 ? await eventRepository.update(eventId, changes) : existing;
+    return completeOccurrence(updated, new Date());
+  }
+
+  const event = await eventRepository.update(eventId, status === undefined ? changes : { ...changes, status });
 
   if (!event) {
     throw new ApiError(500, "Failed to update event");
@@ -168,6 +204,153 @@ export async function deleteEvent(
   await dispatchGuild(guildId, "GUILD_SCHEDULED_EVENT_DELETE", { id: eventId, guildId });
 }
 
+// ── Lifecycle ──
+
+/**
+ * Finish the current occurrence. A recurring event moves on to its next occurrence that
+ * hasn't ended yet (occurrences missed during downtime are skipped); anything else, or a
+ * series that has run out, becomes COMPLETED.
+ */
+async function completeOccurrence(event: GuildEvent, now: Date): Promise<GuildEvent> {
+  const start = event.scheduledStartTime.getTime();
+  const duration = event.scheduledEndTime ? event.scheduledEndTime.getTime() - start : 0;
+  const next = event.recurrenceRule
+    ? nextOccurrence(
+        event.recurrenceRule,
+        event.recurrenceAnchor ?? event.scheduledStartTime,
+        new Date(Math.max(start, now.getTime() - duration))
+      )
+    : null;
+
+  if (!next) {
+    const completed = await eventRepository.update(event.id, { status: GuildScheduledEventStatus.COMPLETED });
+    await dispatchGuild(event.guildId, "GUILD_SCHEDULED_EVENT_UPDATE", completed);
+    return completed;
+  }
+
+  await dispatchGuild(event.guildId, "GUILD_SCHEDULED_EVENT_UPDATE", {
+    ...event,
+    status: GuildScheduledEventStatus.COMPLETED,
+  });
+  const rescheduled = await eventRepository.update(event.id, {
+    status: GuildScheduledEventStatus.SCHEDULED,
+    scheduledStartTime: next,
+    scheduledEndTime: event.scheduledEndTime ? new Date(next.getTime() + duration) : null,
+  });
+  await dispatchGuild(event.guildId, "GUILD_SCHEDULED_EVENT_UPDATE", rescheduled);
+  return rescheduled;
+}
+
+/** Remind interested users once per occurrence. Returns whether a reminder went out. */
+async function sendReminder(event: GuildEvent): Promise<boolean> {
+  const key = `${REMINDER_KEY_PREFIX}${event.id}:${event.scheduledStartTime.getTime()}`;
+  if ((await redis.set(key, "1", "EX", REMINDER_KEY_TTL, "NX")) !== "OK") return false;
+
+  const userIds = await eventRepository.findInterestedUserIds(event.id);
+  for (const userId of userIds) {
+    await notificationService.createNotification(userId, "event_reminder", `${event.name} is starting soon`, {
+      body: event.entityMetadata?.location ?? event.description?.slice(0, 200) ?? undefined,
+      sourceGuildId: event.guildId,
+    });
+  }
+  return true;
+}
+
+/**
+ * Move events along SCHEDULED → ACTIVE → COMPLETED at their scheduled times and send
+ * reminders shortly before they start. Called by the background jobs.
+ */
+export async function processEventLifecycle(now = new Date()) {
+  let started = 0;
+  let ended = 0;
+  let reminded = 0;
+
+  for (const event of await eventRepository.findByStatusStartingBefore(GuildScheduledEventStatus.SCHEDULED, now)) {
+    const active = await eventRepository.update(event.id, { status: GuildScheduledEventStatus.ACTIVE });
+    await dispatchGuild(event.guildId, "GUILD_SCHEDULED_EVENT_UPDATE", active);
+    started++;
+  }
+
+  for (const event of await eventRepository.findByStatusEndingBefore(GuildScheduledEventStatus.ACTIVE, now)) {
+    await completeOccurrence(event, now);
+    ended++;
+  }
+
+  const openEndedBefore = new Date(now.getTime() - OPEN_ENDED_OCCURRENCE_MS);
+  for (const event of await eventRepository.findRecurringWithoutEndStartedBefore(GuildScheduledEventStatus.ACTIVE, openEndedBefore)) {
+    await completeOccurrence(event, now);
+    ended++;
+  }
+
+  const soon = new Date(now.getTime() + REMINDER_LEAD_MS);
+  for (const event of await eventRepository.findByStatusStartingBefore(GuildScheduledEventStatus.SCHEDULED, soon)) {
+    if (await sendReminder(event)) reminded++;
+  }
+
+  return { started, ended, reminded };
+}
+
+// ── iCalendar Export ──
+
+function signCalendarToken(userId: string, guildId: string, tokenVersion: number) {
+  return crypto
+    .createHmac("sha256", env.AUTH_SECRET)
+    .update(`calendar:${userId}:${guildId}:${tokenVersion}`)
+    .digest("base64url");
+}
+
+/**
+ * Token for a member's calendar feed URL. Calendar apps can't send an Authorization
+ * header, so the feed is authenticated by this instead; revoking the user's sessions
+ * revokes it too.
+ */
+export async function createCalendarToken(userId: string, guildId: string): Promise<string> {
+  const tokenVersion = await getTokenVersion(userId);
+  return `${userId}.${signCalendarToken(userId, guildId, tokenVersion)}`;
+}
+
+/** Returns the user a calendar token was issued to */
+export async function verifyCalendarToken(guildId: string, token: string): Promise<string> {
+  const [userId, signature] = token.split(".");
+  if (!userId || !signature) throw new ApiError(401, "Invalid calendar token");
+
+  const expected = Buffer.from(signCalendarToken(userId, guildId, await getTokenVersion(userId)), "utf8");
+  const provided = Buffer.from(signature, "utf8");
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    throw new ApiError(401, "Invalid calendar token");
+  }
+  return userId;
+}
+
+/** The guild's events as an .ics calendar; recurring events carry their RRULE */
+export async function getGuildCalendar(guildId: string): Promise<string> {
+  const [guild, events] = await Promise.all([
+    guildRepository.findById(guildId),
+    eventRepository.findByGuildId(guildId),
+  ]);
+
+  return buildCalendar(
+    guild ? `${guild.name} events` : "Events",
+    events.map((event) => {
+      const start = event.recurrenceRule && event.recurrenceAnchor ? event.recurrenceAnchor : event.scheduledStartTime;
+      const duration = event.scheduledEndTime
+        ? event.scheduledEndTime.getTime() - event.scheduledStartTime.getTime()
+        : null;
+      return {
+        uid: `${event.id}@zent`,
+        start,
+        end: duration === null ? null : new Date(start.getTime() + duration),
+        summary: event.name,
+        description: event.description,
+        location: event.entityMetadata?.location,
+        rrule: event.recurrenceRule ? toRRule(event.recurrenceRule) : null,
+        status: event.status === GuildScheduledEventStatus.CANCELED ? "CANCELLED" as const : "CONFIRMED" as const,
+        created: event.createdAt,
+      };
+    })
+  );
+}
+
 // ── Event User Management ──
 
 export async function getEventUsers(eventId: string): Promise<string[]> {
@@ -3,6 +3,7 @@ import { config } from "../config/config.js";
 import { env } from "../config/env.js";
 import { generateSnowflake } from "@yxc/snowflake";
 import { ApiError } from "./auth.service.js";
+import * as mediaService from "./media.service.js";
 import crypto from "crypto";
 import path from "path";
 
@@ -15,7 +16,6 @@ const minio = new MinioClient({
 });
 
 const BUCKET = config.s3.bucket;
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB — more generous than Discord's 10MB free
 const ALLOWED_TYPES = new Set([
   "image/jpeg",
   "image/png",
@@ -55,11 +55,49 @@ function verifyMagicBytes(buffer: Buffer, contentType: string): boolean {
 
 let bucketReady = false;
 
+async function ensureBucketOnce() {
+  if (!bucketReady) {
+    await ensureBucket();
+    bucketReady = true;
+  }
+}
+
+/**
+ * Check an upload's declared size and type before any bytes are stored.
+ * `maxSize` is the per-file limit for the destination (see upload.service `getMaxUploadSize`).
+ */
+export function assertUploadAllowed(size: number, contentType: string, maxSize: number) {
+  if (size > maxSize) {
+    throw new ApiError(413, `File too large. Maximum size is ${Math.floor(maxSize / 1024 / 1024)}MB`);
+  }
+  if (!ALLOWED_TYPES.has(contentType)) {
+    throw new ApiError(400, "File type not allowed");
+  }
+}
+
+export function attachmentObjectKey(channelId: string, id: string, sha256: string, filename: string) {
+  return `attachments/${channelId}/${id}/${sha256.slice(0, 16)}${path.extname(filename)}`;
+}
+
+export function attachmentUrl(channelId: string, id: string, filename: string) {
+  const baseUrl = `http://${env.API_HOST === "0.0.0.0" ? "localhost" : env.API_HOST}:${env.API_PORT}`;
+  return `${baseUrl}/attachments/${channelId}/${id}/${encodeURIComponent(filename)}`;
+}
+
+function objectHeaders(contentType: string, filename: string) {
+  return {
+    "Content-Type": contentType,
+    // S3 metadata must be ASCII; the CDN decodes this for Content-Disposition
+    "x-amz-meta-original-filename": encodeURIComponent(filename),
+  };
+}
+
 export async function uploadFile(
   buffer: Buffer,
   filename: string,
   contentType: string,
-  channelId: string
+  channelId: string,
+  maxSize: number
 ): Promise<{
   id: string;
   filename: string;
@@ -67,36 +105,27 @@ export async function uploadFile(
   url: string;
   proxyUrl: string;
   contentType: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
 }> {
-  if (!bucketReady) {
-    await ensureBucket();
-    bucketReady = true;
-  }
+  await ensureBucketOnce();
 
-  if (buffer.length > MAX_FILE_SIZE) {
-    throw new ApiError(413, `File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`);
-  }
-
-  if (!ALLOWED_TYPES.has(contentType)) {
-    throw new ApiError(400, "File type not allowed");
-  }
+  assertUploadAllowed(buffer.length, contentType, maxSize);
 
   if (contentType.startsWith("image/") && !verifyMagicBytes(buffer, contentType)) {
     throw new ApiError(400, "File content does not match declared type");
   }
 
   const id = generateSnowflake();
-  const ext = path.extname(filename) || "";
-  const hash = crypto.createHash("sha256").update(buffer).digest("hex").slice(0, 16);
-  const objectKey = `attachments/${channelId}/${id}/${hash}${ext}`;
+  const hash = crypto.createHash("sha256").update(buffer).digest("hex");
+  const objectKey = attachmentObjectKey(channelId, id, hash, filename);
 
-  await minio.putObject(BUCKET, objectKey, buffer, buffer.length, {
-    "Content-Type": contentType,
-    "x-amz-meta-original-filename": filename,
-  });
+  await minio.putObject(BUCKET, objectKey, buffer, buffer.length, objectHeaders(contentType, filename));
 
-  const baseUrl = `http://${env.API_HOST === "0.0.0.0" ? "localhost" : env.API_HOST}:${env.API_PORT}`;
-  const url = `${baseUrl}/attachments/${channelId}/${id}/${encodeURIComponent(filename)}`;
+  const media = await describeMedia(buffer, contentType, objectKey);
+
+  const url = attachmentUrl(channelId, id, filename);
   const proxyUrl = url;
 
   return {
@@ -106,42 +135,134 @@ export async function uploadFile(
     url,
     proxyUrl,
     contentType,
+    width: media?.width ?? null,
+    height: media?.height ?? null,
+    blurhash: media?.blurhash ?? null,
   };
 }
 
-export async function getFile(objectKey: string): Promise<Buffer> {
+// ── S3 multipart (resumable uploads) ──
+
+export async function createMultipartUpload(objectKey: string, contentType: string, filename: string) {
+  await ensureBucketOnce();
+  return minio.initiateNewMultipartUpload(BUCKET, objectKey, objectHeaders(contentType, filename));
+}
+
+export async function uploadPart(objectKey: string, uploadId: string, partNumber: number, data: Buffer) {
+  const { etag } = await minio.uploadPart(
+    { bucketName: BUCKET, objectName: objectKey, uploadID: uploadId, partNumber, headers: { "Content-Length": data.length } },
+    data
+  );
+  return etag;
+}
+
+export async function completeMultipartUpload(
+  objectKey: string,
+  uploadId: string,
+  parts: { partNumber: number; etag: string }[]
+) {
+  await minio.completeMultipartUpload(
+    BUCKET,
+    objectKey,
+    uploadId,
+    parts.map((p) => ({ part: p.partNumber, etag: p.etag }))
+  );
+}
+
+export async function abortMultipartUpload(objectKey: string, uploadId: string) {
+  await minio.abortMultipartUpload(BUCKET, objectKey, uploadId);
+}
+
+/**
+ * Check an assembled object against what the client declared: exact size, SHA-256
+ * of the content (hashed while streaming, never buffered) and magic bytes.
+ */
+export async function verifyStoredFile(
+  objectKey: string,
+  expected: { size: number; sha256: string; contentType: string }
+): Promise<boolean> {
+  const stat = await minio.statObject(BUCKET, objectKey);
+  if (stat.size !== expected.size) return false;
+
+  const hash = crypto.createHash("sha256");
+  let head = Buffer.alloc(0);
+  for await (const chunk of await minio.getObject(BUCKET, objectKey)) {
+    hash.update(chunk as Buffer);
+    if (head.length < 16) head = Buffer.concat([head, chunk as Buffer]).subarray(0, 16);
+  }
+  if (hash.digest("hex") !== expected.sha256.toLowerCase()) return false;
+
+  return !expected.contentType.startsWith("image/") || verifyMagicBytes(head, expected.contentType);
+}
+
+/** Media metadata for an object already in the bucket (see `describeMedia`). */
+export async function describeStoredFile(objectKey: string, contentType: string) {
+  if (!mediaService.isResizableImage(contentType) && !mediaService.isVideo(contentType)) return null;
+  const stream = await minio.getObject(BUCKET, objectKey);
+  return describeMedia(stream, contentType, objectKey);
+}
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Record dimensions and a blurhash for images, and store a first-frame poster for
+ * videos so the CDN can serve thumbnails without touching the video again.
+ * Undecodable media is still accepted, just without metadata.
+ */
+async function describeMedia(
+  input: Buffer | NodeJS.ReadableStream,
+  contentType: string,
+  objectKey: string
+): Promise<mediaService.MediaMetadata | null> {
   try {
-    const stream = await minio.getObject(BUCKET, objectKey);
-    const chunks: Buffer[] = [];
-    for await (const chunk of stream) {
-      chunks.push(chunk as Buffer);
+    if (mediaService.isResizableImage(contentType)) {
+      return await mediaService.analyzeImage(Buffer.isBuffer(input) ? input : await readStream(input));
+    }
+    if (mediaService.isVideo(contentType)) {
+      const poster = await mediaService.extractPoster(input);
+      if (!poster) return null;
+      await minio.putObject(BUCKET, mediaService.posterKey(objectKey), poster, poster.length, {
+        "Content-Type": "image/png",
+      });
+      return await mediaService.analyzeImage(poster);
     }
-    return Buffer.concat(chunks);
+  } catch (err) {
+    console.error(`Failed to read media metadata for ${objectKey}:`, err);
+  }
+  return null;
+}
+
+/**
+ * Open a stored file as a stream, optionally limited to a byte range, so callers
+ * never hold whole objects in memory.
+ */
+export async function getFile(
+  objectKey: string,
+  range?: { start: number; end: number }
+): Promise<NodeJS.ReadableStream> {
+  try {
+    return range
+      ? await minio.getPartialObject(BUCKET, objectKey, range.start, range.end - range.start + 1)
+      : await minio.getObject(BUCKET, objectKey);
   } catch {
     throw new ApiError(404, "File not found");
   }
 }
 
-export async function getFileByPrefix(prefix: string): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const objects: string[] = [];
-    const stream = minio.listObjects(BUCKET, prefix, false);
-    stream.on("data", (obj) => {
-      if (obj.name) objects.push(obj.name);
-    });
-    stream.on("error", () => reject(new ApiError(404, "File not found")));
-    stream.on("end", async () => {
-      if (objects.length === 0) {
-        return reject(new ApiError(404, "File not found"));
-      }
-      try {
-        const data = await getFile(objects[0]!);
-        resolve(data);
-      } catch (err) {
-        reject(err);
-      }
-    });
-  });
+export async function getFileByPrefix(
+  prefix: string,
+  range?: { start: number; end: number }
+): Promise<NodeJS.ReadableStream> {
+  for await (const obj of minio.listObjects(BUCKET, prefix, false)) {
+    if (obj.name) return getFile(obj.name, range);
+  }
+  throw new ApiError(404, "File not found");
 }
 
 export async function deleteFile(objectKey: string): Promise<void> {
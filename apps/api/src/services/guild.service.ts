@@ -3,27 +3,13 @@ import { DEFAULT_PERMISSIONS } from "@yxc/permissions";
 import { ApiError } from "./auth.service.js";
 import { ChannelType } from "@yxc/types";
 import { invalidateGuildPermissions } from "./permission.service.js";
-import { env } from "../config/env.js";
+import { getGuildVoiceStates, getVoiceStatesForGuilds } from "./voice.service.js";
+import { filterOnboardedChannels } from "./onboarding.service.js";
 import { guildRepository } from "../repositories/guild.repository.js";
 import { channelRepository } from "../repositories/channel.repository.js";
 import { memberRepository } from "../repositories/member.repository.js";
 import { roleRepository } from "../repositories/role.repository.js";
-
-async function fetchVoiceStates(guildId: string): Promise<any[]> {
-  if (!env.VOICE_SERVICE_URL) return [];
-  try {
-    const headers: Record<string, string> = {};
-    if (env.VOICE_INTERNAL_KEY) headers["x-internal-key"] = env.VOICE_INTERNAL_KEY;
-    const res = await fetch(`${env.VOICE_SERVICE_URL}/api/voice/${guildId}/states`, {
-      headers,
-      signal: AbortSignal.timeout(3000),
-    });
-    if (!res.ok) return [];
-    return (await res.json()) as any[];
-  } catch {
-    return [];
-  }
-}
+import { guildSettingsRepository } from "../repositories/guild-settings.repository.js";
 
 export async function createGuild(ownerId: string, name: string, icon?: string) {
   const guildId = generateSnowflake();
@@ -78,16 +64,23 @@ export async function createGuild(ownerId: string, name: string, icon?: string)
   return getGuild(guildId);
 }
 
-export async function getGuild(guildId: string) {
+/** With `forUserId`, channels are narrowed to the ones that member opted into during onboarding */
+export async function getGuild(guildId: string, forUserId?: string) {
   const guild = await guildRepository.findById(guildId);
   if (!guild) return null;
 
-  const [guildChannels, guildRoles, memberCount, voiceStates] = await Promise.all([
+  const [allChannels, guildRoles, memberCount, voiceStates, onboarding, member] = await Promise.all([
     channelRepository.findByGuildId(guildId),
     roleRepository.findByGuildId(guildId),
     guildRepository.getMemberCount(guildId),
-    fetchVoiceStates(guildId),
+    getGuildVoiceStates(guildId),
+    forUserId ? guildSettingsRepository.findOnboarding(guildId) : null,
+    forUserId ? memberRepository.findByUserAndGuild(forUserId, guildId) : null,
   ]);
+  const guildChannels = filterOnboardedChannels(
+    allChannels,
+    onboarding?.enabled ? member?.onboardingChannelIds ?? null : null
+  );
 
   return {
     ...guild,
@@ -119,6 +112,7 @@ export async function updateGuild(
     explicitContentFilter?: number;
     systemChannelId?: string;
     rulesChannelId?: string;
+    maxUploadSize?: number | null;
   }
 ) {
   const guild = await guildRepository.findOwnerById(guildId);
@@ -150,12 +144,14 @@ export async function getUserGuilds(userId: string) {
   const guildIds = userMembers.map((m) => m.guildId);
 
   // Batch fetch all data for these guilds
-  const [guilds, allChannels, allRoles, allMembers] = await Promise.all([
+  const [guilds, allChannels, allRoles, allMembers, onboardings] = await Promise.all([
     guildRepository.findByIds(guildIds),
     channelRepository.findByGuildIds(guildIds),
     roleRepository.findByGuildIds(guildIds),
     memberRepository.findByGuildIds(guildIds),
+    guildSettingsRepository.findOnboardingByGuildIds(guildIds),
   ]);
+  const onboardingEnabled = new Set(onboardings.filter((o) => o.enabled).map((o) => o.guildId));
 
   // Index by guildId
   const channelsByGuild = new Map<string, typeof allChannels>();
@@ -179,22 +175,16 @@ export async function getUserGuilds(userId: string) {
     membersByGuild.set(m.guildId, arr);
   }
 
-  // Fetch voice states with concurrency limit (max 5 at a time)
-  const voiceByGuild = new Map<string, any[]>();
-  const BATCH_SIZE = 5;
-  for (let i = 0; i < guilds.length; i += BATCH_SIZE) {
-    const batch = guilds.slice(i, i + BATCH_SIZE);
-    const results = await Promise.allSettled(batch.map((g) => fetchVoiceStates(g.id)));
-    batch.forEach((guild, j) => {
-      const result = results[j]!;
-      voiceByGuild.set(guild.id, result.status === "fulfilled" ? result.value : []);
-    });
-  }
+  const voiceByGuild = await getVoiceStatesForGuilds(guilds.map((g) => g.id));
 
   return guilds.map((guild) => {
-    const guildChannels = channelsByGuild.get(guild.id) ?? [];
     const guildRoles = rolesByGuild.get(guild.id) ?? [];
     const guildMembers = membersByGuild.get(guild.id) ?? [];
+    const self = guildMembers.find((m) => m.userId === userId);
+    const guildChannels = filterOnboardedChannels(
+      channelsByGuild.get(guild.id) ?? [],
+      onboardingEnabled.has(guild.id) ? self?.onboardingChannelIds ?? null : null
+    );
 
     return {
       ...guild,
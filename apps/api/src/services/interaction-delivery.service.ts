@@ -0,0 +1,219 @@
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import { ApiError } from "./auth.service.js";
+import * as interactionService from "./interaction.service.js";
+import type { Interaction } from "./interaction.service.js";
+import type { Application } from "./application.service.js";
+import { applicationRepository } from "../repositories/application.repository.js";
+import { userRepository } from "../repositories/user.repository.js";
+import { dispatchUser } from "../utils/dispatch.js";
+import { isBlockedIpLiteral, safeLookup } from "../utils/ssrf.js";
+
+// Bots must answer within Discord's 3 second window; anything slower is a failed interaction
+const DELIVERY_TIMEOUT_MS = 3000;
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+// Endpoint URLs come from app owners; resolve them through safeLookup so they can't reach internal hosts
+const httpAgent = new http.Agent({ keepAlive: true, lookup: safeLookup });
+const httpsAgent = new https.Agent({ keepAlive: true, lookup: safeLookup });
+
+/** An endpoint's JSON answer, before the caller checks its shape */
+interface EndpointResponse {
+  type?: unknown;
+  data?: unknown;
+}
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo; the raw 32-byte key follows it
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/**
+ * Generate an Ed25519 key pair for signing outbound interactions.
+ * `verifyKey` is the raw public key in hex (what bots verify against),
+ * `privateKey` is PKCS#8 DER in base64 for storage.
+ */
+export function generateSigningKeyPair(): { verifyKey: string; privateKey: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const spki = publicKey.export({ format: "der", type: "spki" });
+  return {
+    verifyKey: spki.subarray(ED25519_SPKI_PREFIX.length).toString("hex"),
+    privateKey: privateKey.export({ format: "der", type: "pkcs8" }).toString("base64"),
+  };
+}
+
+/**
+ * Sign `timestamp + body` the same way the inbound `/interactions` route verifies it.
+ */
+export function signPayload(privateKey: string, timestamp: string, body: string): string {
+  const key = crypto.createPrivateKey({
+    key: Buffer.from(privateKey, "base64"),
+    format: "der",
+    type: "pkcs8",
+  });
+  return crypto.sign(null, Buffer.from(timestamp + body), key).toString("hex");
+}
+
+/**
+ * Return the application's signing key, generating one if it predates signing keys.
+ * Legacy verify keys were random bytes with no private half, so they are rotated.
+ */
+async function ensureSigningKey(applicationId: string): Promise<string> {
+  const existing = await applicationRepository.findSigningKey(applicationId);
+  if (existing) return existing;
+
+  const pair = generateSigningKeyPair();
+  await applicationRepository.setSigningKey(applicationId, pair.verifyKey, pair.privateKey);
+  return pair.privateKey;
+}
+
+function post(url: URL, headers: Record<string, string>, body: string): Promise<{ status: number; body: string }> {
+  const secure = url.protocol === "https:";
+  return new Promise((resolve, reject) => {
+    const req = (secure ? https : http).request(url, {
+      method: "POST",
+      headers,
+      agent: secure ? httpsAgent : httpAgent,
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_RESPONSE_BYTES) return req.destroy(new Error("Response too large"));
+        chunks.push(chunk);
+      });
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString("utf8") }));
+      res.on("error", reject);
+    });
+    const timer = setTimeout(
+      () => req.destroy(Object.assign(new Error("Delivery timed out"), { name: "TimeoutError" })),
+      DELIVERY_TIMEOUT_MS
+    );
+    req.on("close", () => clearTimeout(timer));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+async function postSigned(rawUrl: string, privateKey: string, payload: unknown): Promise<EndpointResponse> {
+  const url = new URL(rawUrl);
+  if ((url.protocol !== "http:" && url.protocol !== "https:") || isBlockedIpLiteral(url.hostname)) {
+    throw new ApiError(502, "Application endpoint is not a public http(s) URL");
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  let res: { status: number; body: string };
+  try {
+    res = await post(url, {
+      "Content-Type": "application/json",
+      "User-Agent": "Zent-Interactions/1.0",
+      "X-Signature-Ed25519": signPayload(privateKey, timestamp, body),
+      "X-Signature-Timestamp": timestamp,
+    }, body);
+  } catch (err) {
+    if ((err as Error).name === "TimeoutError") {
+      throw new ApiError(504, "Application did not respond in time");
+    }
+    throw new ApiError(502, "Application endpoint unreachable");
+  }
+
+  // Redirects aren't followed; they count as failures like any other non-2xx
+  if (res.status < 200 || res.status >= 300) {
+    throw new ApiError(502, `Application endpoint returned ${res.status}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(res.body);
+  } catch {
+    throw new ApiError(502, "Application endpoint returned invalid JSON");
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new ApiError(502, "Application endpoint returned invalid JSON");
+  }
+  return parsed as EndpointResponse;
+}
+
+/**
+ * Validate an interactions endpoint by sending it a signed PING, as Discord does
+ * when the URL is saved. The endpoint must answer with a PONG.
+ */
+export async function validateInteractionsEndpoint(applicationId: string, url: string): Promise<void> {
+  const privateKey = await ensureSigningKey(applicationId);
+
+  let response: EndpointResponse;
+  try {
+    response = await postSigned(url, privateKey, {
+      id: crypto.randomUUID(),
+      application_id: applicationId,
+      type: interactionService.InteractionType.PING,
+      token: crypto.randomBytes(16).toString("hex"),
+      version: 1,
+    });
+  } catch (err) {
+    const reason = err instanceof ApiError ? err.message : "unknown error";
+    throw new ApiError(400, `Interactions endpoint URL could not be verified: ${reason}`);
+  }
+
+  if (response.type !== interactionService.InteractionResponseType.PONG) {
+    throw new ApiError(400, "Interactions endpoint URL could not be verified: expected PONG");
+  }
+}
+
+/**
+ * Build the INTERACTION_CREATE payload sent to bots (snake_case, Discord wire format).
+ */
+export async function buildInteractionPayload(interaction: Interaction) {
+  const user = await userRepository.findPublicById(interaction.userId);
+  const userPayload = user
+    ? { id: user.id, username: user.username, global_name: user.displayName, avatar: user.avatar }
+    : { id: interaction.userId };
+
+  return {
+    id: interaction.id,
+    application_id: interaction.applicationId,
+    type: interaction.type,
+    guild_id: interaction.guildId ?? undefined,
+    channel_id: interaction.channelId ?? undefined,
+    ...(interaction.guildId ? { member: { user: userPayload } } : { user: userPayload }),
+    data: interaction.data ?? undefined,
+    token: interaction.token,
+    version: interaction.version,
+  };
+}
+
+/**
+ * Deliver an interaction to its application.
+ *
+ * Applications with an interactions endpoint receive a signed POST and their
+ * response is applied through the normal callback path. Applications without
+ * one get INTERACTION_CREATE on their bot user's gateway session and respond
+ * later through the callback route.
+ */
+export async function deliverInteraction(application: Application, interaction: Interaction) {
+  const payload = await buildInteractionPayload(interaction);
+
+  if (!application.interactionsEndpointUrl) {
+    if (!application.botUserId) {
+      throw new ApiError(502, "Application has no interactions endpoint or bot user");
+    }
+    await dispatchUser(application.botUserId, "INTERACTION_CREATE", payload);
+    return interactionService.createDeferredResponse();
+  }
+
+  const privateKey = await ensureSigningKey(application.id);
+  const response = await postSigned(application.interactionsEndpointUrl, privateKey, payload);
+
+  if (typeof response.type !== "number") {
+    throw new ApiError(502, "Application returned an invalid interaction response");
+  }
+
+  const result = await interactionService.respondToInteraction(
+    interaction.id,
+    interaction.token,
+    response.type,
+    response.data as Parameters<typeof interactionService.respondToInteraction>[3]
+  );
+  return result ?? { type: response.type };
+}
@@ -1,5 +1,7 @@
 import { generateSnowflake } from "@yxc/snowflake";
 import { ApiError } from "./auth.service.js";
+import * as searchService from "./search.service.js";
+import * as mentionService from "./mention.service.js";
 import { interactionRepository } from "../repositories/interaction.repository.js";
 import { messageRepository } from "../repositories/message.repository.js";
 import { userRepository } from "../repositories/user.repository.js";
@@ -180,19 +182,25 @@ export function createModalResponse(data: {
 // ── Interaction Message Creation ──
 
 async function createInteractionMessage(
-  channelId: string,
+  channel: { id: string; guildId: string | null },
   applicationId: string,
   data: {
     content?: string;
     tts?: boolean;
     flags?: number;
+    allowedMentions?: mentionService.AllowedMentions;
   }
 ): Promise<Record<string, any>> {
   const id = generateSnowflake();
+  const channelId = channel.id;
   const content = data.content ?? "";
   const tts = data.tts ?? false;
-  const mentionEveryone = content.includes("@everyone") || content.includes("@here");
+  const flags = data.flags ?? 0;
   const createdAt = new Date();
+  const resolvedMentions = await mentionService.resolveMentions(applicationId, channel, content, {
+    allowedMentions: data.allowedMentions,
+  });
+  const { mentions, mentionRoles, mentionEveryone } = resolvedMentions;
 
   // Use the application (bot) as the author
   const author = await userRepository.findPublicById(applicationId);
@@ -212,11 +220,18 @@ async function createInteractionMessage(
       nonce: null,
       referencedMessageId: null,
       mentionEveryone,
+      mentions,
+      mentionRoles,
       createdAt,
       authorSnapshot,
     }),
     messageRepository.updateLastMessageId(channelId, id),
   ]);
+  await searchService.indexMessage({ id, channelId, content });
+
+  mentionService
+    .notifyMentions({ id, channelId, authorId: applicationId, content, flags }, channel.guildId, resolvedMentions.recipients)
+    .catch((err) => console.error(`Failed to deliver mentions for message ${id}:`, err));
 
   return {
     id,
@@ -230,9 +245,11 @@ async function createInteractionMessage(
     },
     content,
     type: 20,
-    flags: data.flags ?? 0,
+    flags,
     tts,
     mentionEveryone,
+    mentions,
+    mentionRoles,
     pinned: false,
     editedTimestamp: null,
     referencedMessageId: null,
@@ -256,6 +273,7 @@ export async function sendFollowup(
     components?: any[];
     flags?: number;
     tts?: boolean;
+    allowed_mentions?: mentionService.AllowedMentions;
   }
 ): Promise<any> {
   // Verify interaction exists and token is valid
@@ -269,7 +287,11 @@ export async function sendFollowup(
   }
 
   // Create a real message in the channel as the application (bot)
-  return await createInteractionMessage(interaction.channelId, interaction.applicationId, data);
+  return await createInteractionMessage(
+    { id: interaction.channelId, guildId: interaction.guildId },
+    interaction.applicationId,
+    { content: data.content, tts: data.tts, flags: data.flags, allowedMentions: data.allowed_mentions }
+  );
 }
 
 export async function editOriginalResponse(
@@ -303,6 +325,9 @@ export async function editOriginalResponse(
   if (!message) {
     throw new ApiError(404, "Message not found after update");
   }
+  if (data.content !== undefined) {
+    await searchService.indexMessage(message);
+  }
 
   const author = await userRepository.findPublicById(message.authorId);
   const resolvedAuthor = author ?? {
@@ -363,7 +388,7 @@ export async function respondToInteraction(
     tts?: boolean;
     content?: string;
     embeds?: any[];
-    allowed_mentions?: any;
+    allowed_mentions?: mentionService.AllowedMentions;
     flags?: number;
     components?: any[];
     attachments?: any[];
@@ -393,12 +418,13 @@ export async function respondToInteraction(
 
       // Create a real message in the channel
       const message = await createInteractionMessage(
-        interaction.channelId,
+        { id: interaction.channelId, guildId: interaction.guildId },
         interaction.applicationId,
         {
           content: data?.content,
           tts: data?.tts,
           flags: data?.flags,
+          allowedMentions: data?.allowed_mentions,
         }
       );
 
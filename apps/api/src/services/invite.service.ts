@@ -1,7 +1,11 @@
 import { ApiError } from "./auth.service.js";
 import crypto from "crypto";
+import { generateSnowflake } from "@yxc/snowflake";
 import { inviteRepository } from "../repositories/invite.repository.js";
 import { memberRepository } from "../repositories/member.repository.js";
+import { guildRepository } from "../repositories/guild.repository.js";
+
+const VANITY_CODE_PATTERN = /^[a-z0-9-]{3,32}$/;
 
 function generateInviteCode(): string {
   return crypto.randomBytes(4).toString("base64url");
@@ -35,10 +39,33 @@ export async function createInvite(
   });
 }
 
+/** Resolve a guild's vanity code as a permanent, unlimited invite */
+async function getVanityInvite(code: string) {
+  const guild = await guildRepository.findByVanityCode(code);
+  if (!guild) return null;
+  return {
+    code,
+    guildId: guild.id,
+    channelId: guild.systemChannelId,
+    inviterId: null,
+    maxUses: 0,
+    uses: await inviteRepository.countUses(guild.id, code),
+    maxAge: 0,
+    temporary: false,
+    expiresAt: null,
+    createdAt: guild.createdAt,
+    vanity: true,
+  };
+}
+
 export async function getInvite(code: string) {
   const invite = await inviteRepository.findByCode(code);
 
-  if (!invite) throw new ApiError(404, "Invite not found or expired");
+  if (!invite) {
+    const vanity = await getVanityInvite(code);
+    if (vanity) return vanity;
+    throw new ApiError(404, "Invite not found or expired");
+  }
 
   // Check expiry
   if (invite.expiresAt && invite.expiresAt < new Date()) {
@@ -52,7 +79,7 @@ export async function getInvite(code: string) {
     throw new ApiError(404, "Invite max uses reached");
   }
 
-  return invite;
+  return { ...invite, vanity: false };
 }
 
 export async function useInvite(code: string, userId: string) {
@@ -70,14 +97,27 @@ export async function useInvite(code: string, userId: string) {
 
   if (ban) throw new ApiError(403, "You are banned from this guild");
 
-  // Add member and increment uses
+  // Add member, record the use and increment uses
   await inviteRepository.transaction(async (tx) => {
     await memberRepository.createInTx(tx, {
       userId,
       guildId: invite.guildId,
+      temporary: invite.temporary,
     });
 
-    await inviteRepository.incrementUsesInTx(tx, code, invite.uses);
+    await inviteRepository.createUseInTx(tx, {
+      id: generateSnowflake(),
+      guildId: invite.guildId,
+      code,
+      channelId: invite.channelId,
+      inviterId: invite.inviterId,
+      userId,
+      vanity: invite.vanity,
+    });
+
+    if (!invite.vanity) {
+      await inviteRepository.incrementUsesInTx(tx, code, invite.uses);
+    }
   });
 
   return { guildId: invite.guildId, alreadyMember: false };
@@ -94,3 +134,69 @@ export async function deleteInvite(code: string) {
 
   await inviteRepository.delete(code);
 }
+
+/** Members who joined through the code, newest first */
+export async function getInviteUses(guildId: string, code: string, options: { limit?: number; before?: string } = {}) {
+  const rows = await inviteRepository.findUsesByCode(guildId, code, Math.min(options.limit ?? 50, 100), options.before);
+  return rows.map((row) => ({
+    userId: row.userId,
+    joinedAt: row.createdAt.toISOString(),
+    stillMember: !!Number(row.stillMember),
+  }));
+}
+
+/** Joins per invite code and how many of those members stayed */
+export async function getInviteStats(guildId: string, since?: Date) {
+  const rows = await inviteRepository.summarizeUses(guildId, since);
+  return rows.map((row) => ({
+    code: row.code,
+    channelId: row.channelId,
+    inviterId: row.inviterId,
+    vanity: !!Number(row.vanity),
+    joins: row.joins,
+    retained: row.retained,
+    lastUsedAt: new Date(row.lastUsedAt).toISOString(),
+  }));
+}
+
+/**
+ * Delete invites that have expired or run out of uses. `getInvite` already refuses them;
+ * this removes the rows and returns them so the caller can dispatch INVITE_DELETE.
+ */
+export async function deleteExpiredInvites(now = new Date()) {
+  const expired = await inviteRepository.findExpired(now);
+  await inviteRepository.deleteByCodes(expired.map((invite) => invite.code));
+  return expired;
+}
+
+// ── Vanity URL ──
+
+export async function getVanityUrl(guildId: string) {
+  const guild = await guildRepository.findById(guildId);
+  if (!guild) throw new ApiError(404, "Guild not found");
+  if (!guild.vanityUrlCode) return { code: null, uses: 0 };
+  return { code: guild.vanityUrlCode, uses: await inviteRepository.countUses(guildId, guild.vanityUrlCode) };
+}
+
+/** Claim or release (null) the guild's vanity code */
+export async function setVanityUrl(guildId: string, code: string | null) {
+  const guild = await guildRepository.findById(guildId);
+  if (!guild) throw new ApiError(404, "Guild not found");
+
+  if (code !== null) {
+    code = code.toLowerCase();
+    if (!VANITY_CODE_PATTERN.test(code)) {
+      throw new ApiError(400, "Vanity code must be 3-32 lowercase letters, digits or dashes");
+    }
+    if (code !== guild.vanityUrlCode) {
+      const [owner, invite] = await Promise.all([
+        guildRepository.findByVanityCode(code),
+        inviteRepository.findByCode(code),
+      ]);
+      if (owner || invite) throw new ApiError(409, "Vanity code is already taken");
+    }
+  }
+
+  const updated = await guildRepository.update(guildId, { vanityUrlCode: code });
+  return { guild: updated, previousCode: guild.vanityUrlCode };
+}
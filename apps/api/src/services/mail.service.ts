@@ -0,0 +1,53 @@
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import { env } from "../config/env.js";
+
+let transport: Transporter | null = null;
+
+export function isMailConfigured(): boolean {
+  return !!env.SMTP_HOST;
+}
+
+function getTransport(): Transporter {
+  if (!env.SMTP_HOST) throw new Error("SMTP is not configured");
+  transport ??= nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+    pool: true,
+  });
+  return transport;
+}
+
+export async function sendMail(to: string, subject: string, text: string) {
+  await getTransport().sendMail({ from: env.SMTP_FROM, to, subject, text });
+}
+
+export async function sendVerificationCode(to: string, code: string, expiresInSeconds: number) {
+  await sendMail(
+    to,
+    `Your verification code is ${code}`,
+    `Your verification code is ${code}\n\nIt expires in ${Math.round(expiresInSeconds / 60)} minutes. ` +
+      `If you didn't ask for it, you can ignore this email.`
+  );
+}
+
+/** One email summarizing everything that arrived while the user was away */
+export async function sendNotificationDigest(
+  to: string,
+  username: string,
+  notifications: Array<{ title: string; body: string | null; createdAt: string }>
+) {
+  const lines = notifications.map((n) => {
+    const time = new Date(n.createdAt).toUTCString();
+    return n.body ? `- ${n.title} (${time})\n  ${n.body}` : `- ${n.title} (${time})`;
+  });
+  const count = notifications.length;
+  await sendMail(
+    to,
+    count === 1 ? notifications[0]!.title : `You have ${count} new notifications`,
+    `Hi ${username},\n\nHere's what you missed:\n\n${lines.join("\n")}\n\n` +
+      `You can turn these emails off in your notification settings.`
+  );
+}
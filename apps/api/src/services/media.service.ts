@@ -0,0 +1,188 @@
+import sharp from "sharp";
+import { encode as encodeBlurhash } from "blurhash";
+import { execFile } from "child_process";
+import { promises as fs, createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { ApiError } from "./auth.service.js";
+
+export type ImageFormat = "webp" | "png" | "jpeg";
+
+export interface ImageVariantOptions {
+  size?: number;
+  format?: ImageFormat;
+  quality: number;
+}
+
+export interface MediaMetadata {
+  width: number;
+  height: number;
+  blurhash: string;
+}
+
+const MIN_SIZE = 16;
+const MAX_SIZE = 4096;
+const DEFAULT_QUALITY = 80;
+const MAX_INPUT_PIXELS = 8192 * 8192;
+const FFMPEG_TIMEOUT_MS = 15_000;
+
+const FORMAT_CONTENT_TYPES: Record<ImageFormat, string> = {
+  webp: "image/webp",
+  png: "image/png",
+  jpeg: "image/jpeg",
+};
+
+const RESIZABLE_TYPES = new Set(["image/jpeg", "image/png", "image/gif", "image/webp"]);
+const VIDEO_TYPES = new Set(["video/mp4", "video/webm"]);
+
+export function isResizableImage(contentType: string): boolean {
+  return RESIZABLE_TYPES.has(contentType);
+}
+
+export function isVideo(contentType: string): boolean {
+  return VIDEO_TYPES.has(contentType);
+}
+
+export function contentTypeForFormat(format: ImageFormat): string {
+  return FORMAT_CONTENT_TYPES[format];
+}
+
+/**
+ * Parse `?size=&format=&quality=` from a CDN request. Returns null when no
+ * variant was asked for, so the original bytes can be served untouched.
+ */
+export function parseVariantOptions(query: Record<string, unknown>): ImageVariantOptions | null {
+  const { size, format, quality } = query;
+  if (size === undefined && format === undefined && quality === undefined) return null;
+
+  const options: ImageVariantOptions = { quality: DEFAULT_QUALITY };
+
+  if (size !== undefined) {
+    const n = Number(size);
+    // Power-of-two sizes only, so the variant cache stays bounded
+    if (!Number.isInteger(n) || n < MIN_SIZE || n > MAX_SIZE || (n & (n - 1)) !== 0) {
+      throw new ApiError(400, `size must be a power of two between ${MIN_SIZE} and ${MAX_SIZE}`);
+    }
+    options.size = n;
+  }
+
+  if (format !== undefined) {
+    const f = format === "jpg" ? "jpeg" : format;
+    if (f !== "webp" && f !== "png" && f !== "jpeg") {
+      throw new ApiError(400, "format must be one of webp, png, jpeg");
+    }
+    options.format = f;
+  }
+
+  if (quality !== undefined) {
+    const q = Number(quality);
+    if (!Number.isInteger(q) || q < 1 || q > 100) {
+      throw new ApiError(400, "quality must be an integer between 1 and 100");
+    }
+    options.quality = q;
+  }
+
+  return options;
+}
+
+/**
+ * Object key a variant is cached under. Kept outside the source object's prefix so
+ * prefix listings (e.g. attachment lookup) never see derivatives.
+ */
+export function variantKey(objectKey: string, options: ImageVariantOptions, sourceType: string): string {
+  const format = options.format ?? defaultFormat(sourceType);
+  return `variants/${objectKey}/${options.size ?? "full"}-q${options.quality}.${format}`;
+}
+
+export function posterKey(objectKey: string): string {
+  return `variants/${objectKey}/poster.png`;
+}
+
+function defaultFormat(sourceType: string): ImageFormat {
+  if (sourceType === "image/png") return "png";
+  if (sourceType === "image/jpeg") return "jpeg";
+  return "webp";
+}
+
+/**
+ * Resize and re-encode an image. Animated GIF/WebP input keeps its frames when the
+ * output is WebP; PNG and JPEG output use the first frame.
+ */
+export async function renderVariant(
+  input: Buffer,
+  sourceType: string,
+  options: ImageVariantOptions
+): Promise<{ data: Buffer; contentType: string }> {
+  const format = options.format ?? defaultFormat(sourceType);
+  const animated = format === "webp" && (sourceType === "image/gif" || sourceType === "image/webp");
+
+  let image = sharp(input, { animated, limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  if (options.size) {
+    image = image.resize(options.size, options.size, { fit: "inside", withoutEnlargement: true });
+  }
+
+  switch (format) {
+    case "webp":
+      image = image.webp({ quality: options.quality });
+      break;
+    case "png":
+      image = image.png({ compressionLevel: 9 });
+      break;
+    case "jpeg":
+      image = image.flatten({ background: "#ffffff" }).jpeg({ quality: options.quality, mozjpeg: true });
+      break;
+  }
+
+  return { data: await image.toBuffer(), contentType: FORMAT_CONTENT_TYPES[format] };
+}
+
+/**
+ * Read display dimensions and a blurhash placeholder from an image.
+ */
+export async function analyzeImage(input: Buffer): Promise<MediaMetadata> {
+  const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  const meta = await image.metadata();
+  // EXIF orientations 5-8 swap width and height once rotated
+  const swap = (meta.orientation ?? 1) >= 5;
+  const width = (swap ? meta.height : meta.width) ?? 0;
+  const height = (swap ? meta.width : meta.height) ?? 0;
+
+  const { data, info } = await image
+    .clone()
+    .resize(32, 32, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+
+  return { width, height, blurhash };
+}
+
+/**
+ * Grab the first frame of an mp4/webm as PNG using the system ffmpeg. The upload is
+ * written to a temp file because mp4 often keeps its index at the end, which ffmpeg
+ * can't seek to over a pipe. Returns null when ffmpeg is unavailable or fails.
+ */
+export async function extractPoster(input: Buffer | NodeJS.ReadableStream): Promise<Buffer | null> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "poster-"));
+  const source = path.join(dir, crypto.randomUUID());
+  try {
+    if (Buffer.isBuffer(input)) {
+      await fs.writeFile(source, input);
+    } else {
+      await pipeline(input, createWriteStream(source));
+    }
+    return await new Promise<Buffer | null>((resolve) => {
+      execFile(
+        "ffmpeg",
+        ["-nostdin", "-loglevel", "error", "-i", source, "-frames:v", "1", "-f", "image2", "-c:v", "png", "pipe:1"],
+        { encoding: "buffer", timeout: FFMPEG_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 },
+        (err, stdout) => resolve(err || stdout.length === 0 ? null : stdout)
+      );
+    });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -1,7 +1,16 @@
+import { AuditLogActionType } from "@yxc/types";
+import { PermissionFlags } from "@yxc/permissions";
+import { redis } from "../config/redis.js";
 import { ApiError } from "./auth.service.js";
+import { disconnect as disconnectVoice, applyServerVoiceState } from "./voice.service.js";
+import * as permissionService from "./permission.service.js";
+import * as roleService from "./role.service.js";
+import { hasGatewaySession } from "./notification-delivery.service.js";
+import * as auditlogService from "./auditlog.service.js";
 import { memberRepository } from "../repositories/member.repository.js";
 import { guildRepository } from "../repositories/guild.repository.js";
 import { userRepository } from "../repositories/user.repository.js";
+import { messageRepository } from "../repositories/message.repository.js";
 
 export async function addMember(guildId: string, userId: string) {
   // Check if already a member
@@ -30,10 +39,46 @@ export async function removeMember(guildId: string, userId: string) {
 
   await memberRepository.deleteMemberRoles(userId, guildId);
   await memberRepository.delete(userId, guildId);
+  await disconnectVoice(guildId, userId);
 
   return removed;
 }
 
+// Leaves a reconnecting client time to RESUME before it counts as gone
+const TEMPORARY_MEMBER_GRACE_MS = 5 * 60 * 1000;
+const TEMPORARY_MEMBER_BATCH = 500;
+
+/**
+ * Kick members who joined through a temporary invite, have no gateway session left and
+ * were never given a role. Members who got a role become permanent. Returns the removed
+ * members so the caller can dispatch GUILD_MEMBER_REMOVE.
+ */
+export async function pruneTemporaryMembers(now = new Date()) {
+  const joinedBefore = new Date(now.getTime() - TEMPORARY_MEMBER_GRACE_MS);
+  const removed: Array<{ guildId: string; userId: string }> = [];
+
+  // Page through all of them: members still online stay temporary and would otherwise
+  // fill every batch, starving the ones behind them
+  let after: { joinedAt: Date; guildId: string; userId: string } | null = null;
+  for (;;) {
+    const page = await memberRepository.findTemporary(joinedBefore, after, TEMPORARY_MEMBER_BATCH);
+    for (const { guildId, userId } of page) {
+      const roles = await memberRepository.getMemberRoleIds(userId, guildId);
+      if (roles.length > 0) {
+        await memberRepository.update(userId, guildId, { temporary: false });
+        continue;
+      }
+      if (await hasGatewaySession(userId)) continue;
+
+      await removeMember(guildId, userId);
+      removed.push({ guildId, userId });
+    }
+    if (page.length < TEMPORARY_MEMBER_BATCH) break;
+    after = page[page.length - 1]!;
+  }
+  return removed;
+}
+
 export async function getGuildMembers(guildId: string, limit: number = 1000) {
   const memberList = await memberRepository.findByGuildIdWithLimit(guildId, limit);
   if (memberList.length === 0) return [];
@@ -73,6 +118,21 @@ export async function kickMember(guildId: string, targetId: string, kickerId: st
   return removeMember(guildId, targetId);
 }
 
+async function applyBan(guildId: string, targetId: string, bannedBy: string, reason?: string) {
+  // Remove from guild first
+  await memberRepository.deleteMemberRoles(targetId, guildId);
+  await memberRepository.delete(targetId, guildId);
+  await disconnectVoice(guildId, targetId);
+
+  // Create ban record
+  await memberRepository.createBan({
+    guildId,
+    userId: targetId,
+    bannedBy,
+    reason: reason ?? null,
+  });
+}
+
 export async function banMember(
   guildId: string,
   targetId: string,
@@ -82,18 +142,141 @@ export async function banMember(
   const guild = await guildRepository.findOwnerById(guildId);
   if (!guild) throw new ApiError(404, "Guild not found");
   if (targetId === guild.ownerId) throw new ApiError(400, "Cannot ban the guild owner");
+  await roleService.validateMemberHierarchy(bannedBy, guildId, targetId);
 
-  // Remove from guild first
-  await memberRepository.deleteMemberRoles(targetId, guildId);
-  await memberRepository.delete(targetId, guildId);
+  await applyBan(guildId, targetId, bannedBy, reason);
+}
 
-  // Create ban record
-  await memberRepository.createBan({
+/**
+ * Ban up to 200 users at once. Users who can't be banned (the owner, the caller, unknown
+ * or already banned users, members the caller doesn't outrank, failed writes) are
+ * reported instead of failing the request.
+ */
+export async function bulkBan(guildId: string, bannedBy: string, userIds: string[], reason?: string) {
+  const guild = await guildRepository.findOwnerById(guildId);
+  if (!guild) throw new ApiError(404, "Guild not found");
+
+  const ids = [...new Set(userIds)];
+  const [users, existingBans] = await Promise.all([
+    userRepository.findPublicByIds(ids),
+    memberRepository.findBansByUserIds(guildId, ids),
+  ]);
+  const known = new Set(users.map((u) => u.id));
+  const alreadyBanned = new Set(existingBans.map((b) => b.userId));
+
+  const bannedUsers: string[] = [];
+  const failedUsers: string[] = [];
+  for (const userId of ids) {
+    if (userId === guild.ownerId || userId === bannedBy || !known.has(userId) || alreadyBanned.has(userId)) {
+      failedUsers.push(userId);
+      continue;
+    }
+    try {
+      await roleService.validateMemberHierarchy(bannedBy, guildId, userId);
+    } catch {
+      failedUsers.push(userId);
+      continue;
+    }
+    try {
+      await applyBan(guildId, userId, bannedBy, reason);
+      bannedUsers.push(userId);
+    } catch (err) {
+      console.error(`Failed to ban ${userId} from ${guildId}:`, err);
+      failedUsers.push(userId);
+    }
+  }
+  return { bannedUsers, failedUsers };
+}
+
+const PURGE_BATCH_SIZE = 1000;
+
+/** Delete what the users posted in any guild channel in the last `seconds`. Returns the deleted IDs by channel. */
+export async function purgeMessages(guildId: string, userIds: string[], seconds: number) {
+  const deleted = new Map<string, string[]>();
+  if (seconds <= 0 || userIds.length === 0) return deleted;
+
+  const since = new Date(Date.now() - seconds * 1000);
+  for (;;) {
+    const batch = await messageRepository.findIdsByAuthorsInGuild(guildId, userIds, since, PURGE_BATCH_SIZE);
+    if (batch.length === 0) break;
+    await messageRepository.deleteByIds(batch.map((m) => m.id));
+    for (const { id, channelId } of batch) {
+      const ids = deleted.get(channelId) ?? [];
+      ids.push(id);
+      deleted.set(channelId, ids);
+    }
+    if (batch.length < PURGE_BATCH_SIZE) break;
+  }
+  return deleted;
+}
+
+// ── Timeouts ──
+
+const MAX_TIMEOUT_MS = 28 * 24 * 60 * 60 * 1000;
+
+/** The GUILD_MEMBER_UPDATE payload for a member */
+export async function getMemberUpdate(guildId: string, userId: string) {
+  const [member, roles] = await Promise.all([
+    memberRepository.findByUserAndGuild(userId, guildId),
+    roleService.getMemberRoles(guildId, userId),
+  ]);
+  return {
     guildId,
-    userId: targetId,
-    bannedBy,
-    reason: reason ?? null,
-  });
+    userId,
+    nick: member?.nickname ?? null,
+    roles,
+    mute: member?.mute ?? false,
+    deaf: member?.deaf ?? false,
+    communication_disabled_until: member?.communicationDisabledUntil?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Check a timeout change without writing it, so callers can validate everything in a
+ * request before any of it is applied. With an `actorId` the actor needs a higher role
+ * than the member, both to set and to lift a timeout; AutoMod passes none.
+ */
+export async function validateTimeout(guildId: string, targetId: string, until: Date | null, actorId?: string) {
+  const member = await memberRepository.findByUserAndGuild(targetId, guildId);
+  if (!member) throw new ApiError(404, "Member not found");
+
+  if (until && until.getTime() - Date.now() > MAX_TIMEOUT_MS) {
+    throw new ApiError(400, "Timeout duration cannot exceed 28 days");
+  }
+  if (actorId) {
+    await roleService.validateMemberHierarchy(actorId, guildId, targetId);
+  }
+  if (until) {
+    const perms = await permissionService.getGuildPermissions(targetId, guildId);
+    if (perms.has(PermissionFlags.ADMINISTRATOR)) {
+      throw new ApiError(403, "Cannot time out an administrator");
+    }
+  }
+  return member;
+}
+
+/**
+ * Time a member out until `until`, or lift their timeout with null. While it runs their
+ * computed permissions lose TIMEOUT_DENIED_PERMISSIONS and they're muted in voice.
+ */
+export async function timeoutMember(guildId: string, targetId: string, until: Date | null, actorId?: string) {
+  const member = await validateTimeout(guildId, targetId, until, actorId);
+
+  const active = !!until && until.getTime() > Date.now();
+  await memberRepository.update(targetId, guildId, { communicationDisabledUntil: active ? until : null });
+  await permissionService.invalidatePermissions(targetId, guildId);
+  await applyServerVoiceState(guildId, targetId, { mute: active || member.mute });
+}
+
+/** Clear timeouts that have run out. Returns the members so the caller can dispatch GUILD_MEMBER_UPDATE. */
+export async function liftExpiredTimeouts(now = new Date()) {
+  const expired = await memberRepository.findExpiredTimeouts(now);
+  for (const { userId, guildId, mute } of expired) {
+    await memberRepository.update(userId, guildId, { communicationDisabledUntil: null });
+    await permissionService.invalidatePermissions(userId, guildId);
+    await applyServerVoiceState(guildId, userId, { mute });
+  }
+  return expired.map(({ userId, guildId }) => ({ userId, guildId }));
 }
 
 export async function unbanMember(guildId: string, targetId: string) {
@@ -121,3 +304,116 @@ export async function getMember(guildId: string, userId: string) {
     roles: memberRoleList.map((r) => r.roleId),
   };
 }
+
+// ── Prune ──
+
+const PRUNE_PREFIX = "zent:prune:"; // hash per guild: the running prune's options and cursor
+const PRUNE_ACTIVE_KEY = "zent:prune:active"; // set of guild IDs with a prune running
+const PRUNE_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PruneOptions {
+  days: number;
+  /** Members holding only these roles still count as roleless */
+  includeRoles: string[];
+}
+
+function inactiveSince(days: number, now = new Date()) {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/** How many members a prune with these options would remove right now */
+export async function estimatePrune(guildId: string, options: PruneOptions) {
+  const count = await memberRepository.countPruneCandidates(guildId, inactiveSince(options.days), options.includeRoles);
+  return { pruned: count, inProgress: (await redis.exists(`${PRUNE_PREFIX}${guildId}`)) === 1 };
+}
+
+/**
+ * Queue a prune. The background job removes members in batches and keeps its cursor in
+ * Redis, so a prune interrupted by a restart or a leader change carries on where it was.
+ * The inactivity cutoff is fixed when the prune starts.
+ */
+export async function startPrune(guildId: string, actorId: string, options: PruneOptions, reason?: string) {
+  // Count before taking the lock so a failed query can't leave the guild locked
+  const since = inactiveSince(options.days);
+  const count = await memberRepository.countPruneCandidates(guildId, since, options.includeRoles);
+
+  const key = `${PRUNE_PREFIX}${guildId}`;
+  if (!(await redis.hsetnx(key, "actorId", actorId))) {
+    throw new ApiError(409, "A prune is already running for this guild");
+  }
+  try {
+    await redis.hset(key, {
+      days: options.days.toString(),
+      includeRoles: JSON.stringify(options.includeRoles),
+      inactiveSince: since.toISOString(),
+      cursor: "",
+      removed: "0",
+      reason: reason ?? "",
+    });
+    await redis.sadd(PRUNE_ACTIVE_KEY, guildId);
+  } catch (err) {
+    await redis.del(key);
+    throw err;
+  }
+  return { pruned: count };
+}
+
+async function finishPrune(guildId: string, state: Record<string, string>, removed: number) {
+  await auditlogService.createAuditLogEntry(
+    guildId,
+    state.actorId!,
+    AuditLogActionType.MEMBER_PRUNE,
+    undefined,
+    state.reason || undefined,
+    { deleteMemberDays: { new: Number(state.days) }, membersRemoved: { new: removed } }
+  );
+  await redis.del(`${PRUNE_PREFIX}${guildId}`);
+  await redis.srem(PRUNE_ACTIVE_KEY, guildId);
+}
+
+/**
+ * Remove one batch for every running prune. Members with a live gateway session are
+ * skipped even if their last-seen time is old. Returns the removed members so the
+ * caller can dispatch GUILD_MEMBER_REMOVE.
+ */
+export async function runPruneBatches() {
+  const removed: Array<{ guildId: string; userId: string }> = [];
+
+  for (const guildId of await redis.smembers(PRUNE_ACTIVE_KEY)) {
+    const key = `${PRUNE_PREFIX}${guildId}`;
+    const state = await redis.hgetall(key);
+    const guild = await guildRepository.findOwnerById(guildId);
+    if (!state.actorId || !state.inactiveSince || !guild) {
+      await redis.del(key);
+      await redis.srem(PRUNE_ACTIVE_KEY, guildId);
+      continue;
+    }
+
+    const userIds = await memberRepository.findPruneCandidates(
+      guildId,
+      new Date(state.inactiveSince),
+      JSON.parse(state.includeRoles ?? "[]") as string[],
+      state.cursor ?? "",
+      PRUNE_BATCH_SIZE
+    );
+
+    let batchRemoved = 0;
+    for (const userId of userIds) {
+      if (userId === guild.ownerId || (await hasGatewaySession(userId))) continue;
+      await memberRepository.deleteMemberRoles(userId, guildId);
+      await memberRepository.delete(userId, guildId);
+      await disconnectVoice(guildId, userId);
+      removed.push({ guildId, userId });
+      batchRemoved++;
+    }
+
+    const total = await redis.hincrby(key, "removed", batchRemoved);
+    if (userIds.length < PRUNE_BATCH_SIZE) {
+      await finishPrune(guildId, state, total);
+    } else {
+      await redis.hset(key, "cursor", userIds[userIds.length - 1]!);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,259 @@
+import { computePermissions, PermissionFlags } from "@yxc/permissions";
+import type { PermissionOverwrite, RolePermission } from "@yxc/permissions";
+import { MessageFlags } from "@yxc/types";
+import { redis } from "../config/redis.js";
+import * as permissionService from "./permission.service.js";
+import * as readstateService from "./readstate.service.js";
+import * as notificationService from "./notification.service.js";
+import * as notificationSettingsService from "./notification-settings.service.js";
+import { guildRepository } from "../repositories/guild.repository.js";
+import { roleRepository } from "../repositories/role.repository.js";
+import { memberRepository } from "../repositories/member.repository.js";
+import { permissionRepository } from "../repositories/permission.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { notificationSettingsRepository } from "../repositories/notification-settings.repository.js";
+
+// @everyone, @here and role mentions reach at most this many members
+const MASS_MENTION_LIMIT = 10_000;
+
+/** Why a user was mentioned; a direct mention wins over a role, a role over @everyone */
+export type MentionReason = "user" | "role" | "everyone";
+
+export interface ParsedMentions {
+  users: string[];
+  roles: string[];
+  everyone: boolean;
+  here: boolean;
+}
+
+export interface ResolvedMentions {
+  /** Mentioned users who are in the channel's guild (or DM) */
+  mentions: string[];
+  /** Mentioned roles the author may ping */
+  mentionRoles: string[];
+  mentionEveryone: boolean;
+  /** Users who get a mention, excluding the author and anyone who can't see the channel */
+  recipients: Map<string, MentionReason>;
+}
+
+/**
+ * Which of the mentions in a message may ping. Leaving it out pings everything the
+ * author is allowed to; once given, only what it lists does.
+ */
+export interface AllowedMentions {
+  /** Mention types that ping wherever they appear in the content */
+  parse?: Array<"users" | "roles" | "everyone">;
+  /** Users that may ping, on top of `parse` */
+  users?: string[];
+  /** Roles that may ping, on top of `parse` */
+  roles?: string[];
+  /** Whether a reply pings the author of the referenced message (defaults to false) */
+  repliedUser?: boolean;
+}
+
+export interface ResolveMentionsOptions {
+  allowedMentions?: AllowedMentions;
+  /** Author of the message being replied to */
+  repliedUserId?: string | null;
+  /** Webhooks have no member permissions; they may ping @everyone and any role */
+  bypassMentionPermissions?: boolean;
+}
+
+export function emptyMentions(): ResolvedMentions {
+  return { mentions: [], mentionRoles: [], mentionEveryone: false, recipients: new Map() };
+}
+
+/**
+ * Pull `<@id>`, `<@!id>`, `<@&id>`, `@everyone` and `@here` out of message content.
+ */
+export function parseMentions(content: string): ParsedMentions {
+  const users = new Set<string>();
+  const roles = new Set<string>();
+  for (const m of content.matchAll(/<@(!|&)?(\d+)>/g)) {
+    (m[1] === "&" ? roles : users).add(m[2]!);
+  }
+  return {
+    users: [...users],
+    roles: [...roles],
+    everyone: /@everyone\b/.test(content),
+    here: /@here\b/.test(content),
+  };
+}
+
+function applyAllowedMentions(
+  parsed: ParsedMentions,
+  allowed: AllowedMentions | undefined,
+  repliedUserId: string | null | undefined
+): ParsedMentions {
+  const result = allowed
+    ? {
+        users: allowed.parse?.includes("users") ? parsed.users : parsed.users.filter((id) => allowed.users?.includes(id)),
+        roles: allowed.parse?.includes("roles") ? parsed.roles : parsed.roles.filter((id) => allowed.roles?.includes(id)),
+        everyone: parsed.everyone && !!allowed.parse?.includes("everyone"),
+        here: parsed.here && !!allowed.parse?.includes("everyone"),
+      }
+    : { ...parsed };
+  const pingReplied = allowed ? allowed.repliedUser === true : true;
+  if (repliedUserId && pingReplied && !result.users.includes(repliedUserId)) {
+    result.users = [...result.users, repliedUserId];
+  }
+  return result;
+}
+
+async function filterOnline(userIds: string[]) {
+  if (userIds.length === 0) return [];
+  const pipeline = redis.pipeline();
+  for (const id of userIds) pipeline.hget(`presence:${id}`, "status");
+  const results = await pipeline.exec();
+  return userIds.filter((_, i) => {
+    const status = results?.[i]?.[1] as string | null | undefined;
+    return !!status && status !== "offline" && status !== "invisible";
+  });
+}
+
+async function resolveDMMentions(authorId: string, channelId: string, parsed: ParsedMentions) {
+  const resolved = emptyMentions();
+  const participants = new Set(
+    (await channelRepository.findDMParticipantsByChannelIds([channelId])).map((p) => p.userId)
+  );
+  resolved.mentions = parsed.users.filter((id) => participants.has(id));
+  for (const id of resolved.mentions) {
+    if (id !== authorId) resolved.recipients.set(id, "user");
+  }
+  return resolved;
+}
+
+/**
+ * Work out who a message mentions. Role mentions need the role to be `mentionable` or
+ * the author to have MENTION_EVERYONE; @everyone and @here always need MENTION_EVERYONE.
+ * `allowedMentions` narrows this further, and a reply mentions the replied-to author.
+ * Only members who can view the channel become recipients.
+ */
+export async function resolveMentions(
+  authorId: string,
+  channel: { id: string; guildId: string | null },
+  content: string,
+  options: ResolveMentionsOptions = {}
+): Promise<ResolvedMentions> {
+  const parsed = applyAllowedMentions(parseMentions(content), options.allowedMentions, options.repliedUserId);
+  if (parsed.users.length === 0 && parsed.roles.length === 0 && !parsed.everyone && !parsed.here) {
+    return emptyMentions();
+  }
+  if (!channel.guildId) return resolveDMMentions(authorId, channel.id, parsed);
+  const guildId = channel.guildId;
+
+  const [guild, roles, overwrites, authorPermissions] = await Promise.all([
+    guildRepository.findOwnerById(guildId),
+    roleRepository.findByGuildId(guildId),
+    permissionRepository.findOverwritesByChannelId(channel.id),
+    options.bypassMentionPermissions ? null : permissionService.getChannelPermissions(authorId, guildId, channel.id),
+  ]);
+  const everyoneRole = roles.find((r) => r.name === "@everyone");
+  if (!guild || !everyoneRole) return emptyMentions();
+
+  const canMentionEveryone = !authorPermissions || authorPermissions.has(PermissionFlags.MENTION_EVERYONE);
+  const resolved = emptyMentions();
+  resolved.mentionEveryone = (parsed.everyone || parsed.here) && canMentionEveryone;
+  resolved.mentionRoles = parsed.roles.filter((id) => {
+    const role = roles.find((r) => r.id === id);
+    return !!role && role.id !== everyoneRole.id && (role.mentionable || canMentionEveryone);
+  });
+
+  const [mentionedMembers, roleMembers, everyoneMembers] = await Promise.all([
+    memberRepository.findUserIdsInGuild(guildId, parsed.users),
+    memberRepository.findUserIdsByRoleIds(guildId, resolved.mentionRoles, MASS_MENTION_LIMIT),
+    resolved.mentionEveryone
+      ? memberRepository.findByGuildIdWithLimit(guildId, MASS_MENTION_LIMIT).then((rows) => rows.map((m) => m.userId))
+      : Promise.resolve([]),
+  ]);
+  resolved.mentions = parsed.users.filter((id) => mentionedMembers.includes(id));
+
+  const candidates = new Map<string, MentionReason>();
+  const reached = parsed.everyone ? everyoneMembers : await filterOnline(everyoneMembers);
+  for (const id of reached) candidates.set(id, "everyone");
+  for (const id of roleMembers) candidates.set(id, "role");
+  for (const id of resolved.mentions) candidates.set(id, "user");
+  candidates.delete(authorId);
+  if (candidates.size === 0) return resolved;
+
+  // Same inputs as permissionService, computed in bulk instead of once per member
+  const rolePermissions = new Map<string, RolePermission>(
+    roles.map((r) => [r.id, { id: r.id, permissions: BigInt(r.permissions), position: r.position }])
+  );
+  const channelOverwrites: PermissionOverwrite[] = overwrites.map((o) => ({
+    id: o.targetId,
+    type: o.targetType as 0 | 1,
+    allow: BigInt(o.allow),
+    deny: BigInt(o.deny),
+  }));
+  const memberRoles = new Map<string, string[]>();
+  for (const row of await memberRepository.getMemberRolesByGuildAndUserIds(guildId, [...candidates.keys()])) {
+    const list = memberRoles.get(row.userId) ?? [];
+    list.push(row.roleId);
+    memberRoles.set(row.userId, list);
+  }
+
+  for (const [userId, reason] of candidates) {
+    const permissions = computePermissions({
+      userId,
+      guildOwnerId: guild.ownerId,
+      everyoneRole: rolePermissions.get(everyoneRole.id)!,
+      memberRoles: (memberRoles.get(userId) ?? []).flatMap((id) => rolePermissions.get(id) ?? []),
+      channelOverwrites,
+    });
+    if (permissions.has(PermissionFlags.VIEW_CHANNEL)) resolved.recipients.set(userId, reason);
+  }
+  return resolved;
+}
+
+/**
+ * Bump unread mention counts and create notifications for a sent message.
+ *
+ * `suppressEveryone` and `suppressRoles` drop @everyone/@here and role mentions
+ * entirely. Muting (until `muteUntil`), level "none" and SUPPRESS_NOTIFICATIONS only
+ * skip the notification; the mention still counts as unread. Channel settings take
+ * precedence over guild settings, guild settings over global ones.
+ */
+export async function notifyMentions(
+  message: { id: string; channelId: string; authorId: string; content: string; flags: number },
+  guildId: string | null,
+  recipients: Map<string, MentionReason>
+) {
+  const userIds = [...recipients.keys()].filter((id) => id !== message.authorId);
+  if (userIds.length === 0) return;
+
+  const settings = new Map<string, Awaited<ReturnType<typeof notificationSettingsRepository.findForUsers>>>();
+  for (const row of await notificationSettingsRepository.findForUsers(userIds, guildId, message.channelId)) {
+    const list = settings.get(row.userId) ?? [];
+    list.push(row);
+    settings.set(row.userId, list);
+  }
+  const counted: string[] = [];
+  const notified: string[] = [];
+
+  for (const userId of userIds) {
+    const effective = notificationSettingsService.resolveEffectiveSettings(
+      settings.get(userId) ?? [], guildId, message.channelId
+    );
+
+    const reason = recipients.get(userId);
+    if (reason === "everyone" && effective.suppressEveryone) continue;
+    if (reason === "role" && effective.suppressRoles) continue;
+    counted.push(userId);
+
+    if (!effective.muted && effective.level !== "none" && (message.flags & MessageFlags.SUPPRESS_NOTIFICATIONS) === 0) {
+      notified.push(userId);
+    }
+  }
+
+  await readstateService.incrementMentionCounts(counted, message.channelId);
+  for (const userId of notified) {
+    await notificationService.createNotification(userId, "mention", "You were mentioned", {
+      body: message.content.slice(0, 200),
+      sourceGuildId: guildId ?? undefined,
+      sourceChannelId: message.channelId,
+      sourceMessageId: message.id,
+      sourceUserId: message.authorId,
+    });
+  }
+}
@@ -2,12 +2,46 @@ import { generateSnowflake } from "@yxc/snowflake";
 import { ApiError } from "./auth.service.js";
 import * as pollService from "./poll.service.js";
 import * as permissionService from "./permission.service.js";
+import * as searchService from "./search.service.js";
+import * as unfurlService from "./unfurl.service.js";
+import * as mentionService from "./mention.service.js";
 import { PermissionFlags } from "@yxc/permissions";
+import { ChannelType, MessageFlags, MessageType } from "@yxc/types";
 import { messageRepository } from "../repositories/message.repository.js";
 import { userRepository } from "../repositories/user.repository.js";
 import { channelRepository } from "../repositories/channel.repository.js";
 import { reactionRepository } from "../repositories/reaction.repository.js";
 import { pollRepository } from "../repositories/poll.repository.js";
+import { threadRepository } from "../repositories/thread.repository.js";
+
+// System messages (auto-moderation alerts and the like) quote content without pinging anyone
+const MENTIONING_TYPES = new Set<number>([MessageType.DEFAULT, MessageType.REPLY]);
+
+const THREAD_TYPES = new Set<number>([
+  ChannelType.ANNOUNCEMENT_THREAD,
+  ChannelType.PUBLIC_THREAD,
+  ChannelType.PRIVATE_THREAD,
+]);
+
+type EmbedRow = Awaited<ReturnType<typeof messageRepository.findEmbedsByMessageIds>>[number];
+
+function formatEmbed(row: EmbedRow) {
+  const embed: Record<string, unknown> = { type: row.type };
+  for (const key of ["title", "description", "url", "color", "footer", "image", "thumbnail", "video", "provider", "author", "fields"] as const) {
+    if (row[key] !== null) embed[key] = row[key];
+  }
+  return embed;
+}
+
+function groupEmbeds(rows: EmbedRow[]) {
+  const byMessage = new Map<string, Record<string, unknown>[]>();
+  for (const row of rows) {
+    const list = byMessage.get(row.messageId) ?? [];
+    list.push(formatEmbed(row));
+    byMessage.set(row.messageId, list);
+  }
+  return byMessage;
+}
 
 export async function createMessage(
   channelId: string,
@@ -18,22 +52,33 @@ export async function createMessage(
     tts?: boolean;
     nonce?: string;
     referencedMessageId?: string;
+    flags?: number;
+    allowedMentions?: mentionService.AllowedMentions;
   }
 ) {
   const id = generateSnowflake();
   const type = options?.type ?? 0;
+  const flags = options?.flags ?? 0;
   const tts = options?.tts ?? false;
   const nonce = options?.nonce ?? null;
   const referencedMessageId = options?.referencedMessageId ?? null;
-  const mentionEveryone = content.includes("@everyone") || content.includes("@here");
   const createdAt = new Date();
 
   // Fetch author + channel first, then write message with embedded snapshot
-  const [author, channel] = await Promise.all([
+  const [author, channel, repliedTo] = await Promise.all([
     userRepository.findPublicById(authorId),
     channelRepository.findById(channelId),
+    referencedMessageId ? messageRepository.findById(referencedMessageId) : null,
   ]);
 
+  const resolvedMentions = channel && MENTIONING_TYPES.has(type)
+    ? await mentionService.resolveMentions(authorId, channel, content, {
+        allowedMentions: options?.allowedMentions,
+        repliedUserId: repliedTo?.channelId === channelId ? repliedTo.authorId : null,
+      })
+    : mentionService.emptyMentions();
+  const { mentions, mentionRoles, mentionEveryone } = resolvedMentions;
+
   const authorSnapshot = author
     ? { id: author.id, username: author.username, displayName: author.displayName, avatar: author.avatar }
     : { id: authorId, username: "Deleted User", displayName: null, avatar: null };
@@ -45,16 +90,30 @@ export async function createMessage(
       authorId,
       content,
       type,
+      flags,
       tts,
       nonce,
       referencedMessageId,
       mentionEveryone,
+      mentions,
+      mentionRoles,
+      allowedMentions: options?.allowedMentions ?? null,
       createdAt,
       authorSnapshot,
     }),
     messageRepository.updateLastMessageId(channelId, id),
+    // Activity keeps the thread from auto-archiving
+    channel && THREAD_TYPES.has(channel.type) ? threadRepository.touchActivity(channelId) : null,
   ]);
 
+  await searchService.indexMessage({ id, channelId, content }, channel?.guildId ?? null);
+  await unfurlService.enqueueMessage({ id, content, flags });
+
+  // Mention counts and notifications can fan out to a whole guild; don't hold up the send
+  mentionService
+    .notifyMentions({ id, channelId, authorId, content, flags }, channel?.guildId ?? null, resolvedMentions.recipients)
+    .catch((err) => console.error(`Failed to deliver mentions for message ${id}:`, err));
+
   // Set message expiry based on channel retention policy
   if (channel?.messageRetentionSeconds) {
     const expiresAt = new Date(Date.now() + channel.messageRetentionSeconds * 1000);
@@ -81,9 +140,11 @@ export async function createMessage(
     author: resolvedAuthor,
     content,
     type,
-    flags: 0,
+    flags,
     tts,
     mentionEveryone,
+    mentions,
+    mentionRoles,
     pinned: false,
     editedTimestamp: null,
     referencedMessageId,
@@ -96,14 +157,29 @@ export async function createMessage(
   };
 }
 
+/** Post a poll's closing tally as a reply to the poll, on behalf of its author */
+export async function createPollResultMessage(poll: Parameters<typeof pollService.formatPollResults>[0] & {
+  channelId: string;
+  messageId: string;
+}) {
+  const pollMessage = await messageRepository.findById(poll.messageId);
+  if (!pollMessage) return null;
+
+  return createMessage(poll.channelId, pollMessage.authorId, pollService.formatPollResults(poll), {
+    type: MessageType.POLL_RESULT,
+    referencedMessageId: poll.messageId,
+  });
+}
+
 export async function getMessageWithAuthor(messageId: string, depth: number = 0, currentUserId?: string): Promise<Record<string, any> | null> {
   const message = await messageRepository.findById(messageId);
 
   if (!message) return null;
 
-  const [author, attachments, reactions, poll] = await Promise.all([
+  const [author, attachments, embeds, reactions, poll] = await Promise.all([
     userRepository.findPublicById(message.authorId),
     messageRepository.findAttachmentsByMessageIds([messageId]),
+    messageRepository.findEmbedsByMessageIds([messageId]),
     reactionRepository.getAggregated(messageId, currentUserId),
     pollService.getPollByMessageId(messageId, currentUserId),
   ]);
@@ -131,13 +207,15 @@ export async function getMessageWithAuthor(messageId: string, depth: number = 0,
     flags: message.flags,
     tts: message.tts,
     mentionEveryone: message.mentionEveryone,
+    mentions: message.mentions ?? [],
+    mentionRoles: message.mentionRoles ?? [],
     pinned: message.pinned,
     editedTimestamp: message.editedTimestamp?.toISOString() ?? null,
     referencedMessageId: message.referencedMessageId,
     referencedMessage,
     webhookId: message.webhookId,
     attachments,
-    embeds: [],
+    embeds: embeds.map(formatEmbed),
     reactions,
     poll: poll ?? undefined,
     createdAt: message.createdAt.toISOString(),
@@ -158,12 +236,14 @@ export async function getChannelMessages(
 
   const messageIds = messages.map((m: any) => m.id);
 
-  // Batch fetch attachments, reactions, polls (3 queries total, not N)
-  const [allAttachments, reactionsByMessage, allPolls] = await Promise.all([
+  // Batch fetch attachments, embeds, reactions, polls (4 queries total, not N)
+  const [allAttachments, allEmbeds, reactionsByMessage, allPolls] = await Promise.all([
     messageRepository.findAttachmentsByMessageIds(messageIds),
+    messageRepository.findEmbedsByMessageIds(messageIds),
     reactionRepository.getBatchAggregated(messageIds, currentUserId),
     pollRepository.findByMessageIds(messageIds),
   ]);
+  const embedsByMessage = groupEmbeds(allEmbeds);
 
   const attachmentsByMessage = new Map<string, typeof allAttachments>();
   for (const att of allAttachments) {
@@ -215,6 +295,8 @@ export async function getChannelMessages(
       flags: msg.flags,
       tts: msg.tts,
       mentionEveryone: msg.mentionEveryone,
+      mentions: msg.mentions ?? [],
+      mentionRoles: msg.mentionRoles ?? [],
       pinned: msg.pinned,
       editedTimestamp: msg.editedTimestamp?.toISOString() ?? null,
       referencedMessageId: msg.referencedMessageId,
@@ -223,7 +305,7 @@ export async function getChannelMessages(
         : null,
       webhookId: msg.webhookId,
       attachments: attachmentsByMessage.get(msg.id) ?? [],
-      embeds: [],
+      embeds: embedsByMessage.get(msg.id) ?? [],
       reactions: reactionsByMessage.get(msg.id) ?? [],
       poll: pollsByMessage.get(msg.id) ?? undefined,
       createdAt: msg.createdAt.toISOString(),
@@ -241,14 +323,77 @@ export async function updateMessage(
   if (!message) throw new ApiError(404, "Message not found");
   if (message.authorId !== userId) throw new ApiError(403, "Cannot edit another user's message");
 
+  // Edits resolve mentions under the allowed_mentions the message was sent with, and only
+  // notify whoever the edit newly mentions. A reply keeps mentioning the replied-to author
+  // only if the original send did.
+  const [channel, repliedTo] = await Promise.all([
+    channelRepository.findById(message.channelId),
+    message.referencedMessageId ? messageRepository.findById(message.referencedMessageId) : null,
+  ]);
+  const repliedUserId = repliedTo && (message.mentions ?? []).includes(repliedTo.authorId) ? repliedTo.authorId : null;
+  const mentionOptions = { allowedMentions: message.allowedMentions ?? undefined, repliedUserId };
+  const resolved = channel && MENTIONING_TYPES.has(message.type)
+    ? await mentionService.resolveMentions(userId, channel, content, mentionOptions)
+    : mentionService.emptyMentions();
+  const { mentions, mentionRoles, mentionEveryone } = resolved;
+
+  const newRecipients = new Map(resolved.recipients);
+  if (channel && newRecipients.size > 0) {
+    const before = await mentionService.resolveMentions(userId, channel, message.content, mentionOptions);
+    for (const id of before.recipients.keys()) newRecipients.delete(id);
+  }
+
   await messageRepository.update(messageId, {
     content,
+    mentions,
+    mentionRoles,
+    mentionEveryone,
     editedTimestamp: new Date(),
   });
+  await searchService.indexMessage({ id: messageId, channelId: message.channelId, content });
+
+  mentionService
+    .notifyMentions({ id: messageId, channelId: message.channelId, authorId: userId, content, flags: message.flags }, channel?.guildId ?? null, newRecipients)
+    .catch((err) => console.error(`Failed to deliver mentions for message ${messageId}:`, err));
+
+  // Re-unfurl the new links, or drop stale previews if the edit removed them all
+  if (unfurlService.extractUrls(content).length > 0) {
+    await unfurlService.enqueueMessage({ id: messageId, content, flags: message.flags });
+  } else if (unfurlService.extractUrls(message.content).length > 0) {
+    await messageRepository.replaceLinkEmbeds(messageId, []);
+  }
 
   return getMessageWithAuthor(messageId);
 }
 
+/**
+ * Toggle SUPPRESS_EMBEDS. Suppressing removes link previews; unsuppressing re-queues the unfurl.
+ * Authors may always toggle it; others need MANAGE_MESSAGES in the message's channel.
+ */
+export async function setEmbedsSuppressed(messageId: string, userId: string, suppressed: boolean) {
+  const message = await messageRepository.findById(messageId);
+
+  if (!message) throw new ApiError(404, "Message not found");
+
+  if (message.authorId !== userId) {
+    const channel = await channelRepository.findById(message.channelId);
+    if (!channel?.guildId) throw new ApiError(403, "Cannot edit another user's message");
+    await permissionService.requireChannelPermission(userId, channel.guildId, channel.id, PermissionFlags.MANAGE_MESSAGES);
+  }
+
+  const flags = suppressed
+    ? message.flags | MessageFlags.SUPPRESS_EMBEDS
+    : message.flags & ~MessageFlags.SUPPRESS_EMBEDS;
+  if (flags === message.flags) return;
+
+  await messageRepository.update(messageId, { flags });
+  if (suppressed) {
+    await messageRepository.replaceLinkEmbeds(messageId, []);
+  } else {
+    await unfurlService.enqueueMessage({ id: messageId, content: message.content, flags });
+  }
+}
+
 export async function deleteMessage(messageId: string, userId: string) {
   const message = await messageRepository.findById(messageId);
 
@@ -284,11 +429,13 @@ export async function getPinnedMessages(channelId: string, currentUserId?: strin
   if (messages.length === 0) return [];
 
   const messageIds = messages.map((m: any) => m.id);
-  const [allAttachments, reactionsByMessage, allPolls] = await Promise.all([
+  const [allAttachments, allEmbeds, reactionsByMessage, allPolls] = await Promise.all([
     messageRepository.findAttachmentsByMessageIds(messageIds),
+    messageRepository.findEmbedsByMessageIds(messageIds),
     reactionRepository.getBatchAggregated(messageIds, currentUserId),
     pollRepository.findByMessageIds(messageIds),
   ]);
+  const embedsByMessage = groupEmbeds(allEmbeds);
 
   const attachmentsByMessage = new Map<string, typeof allAttachments>();
   for (const att of allAttachments) {
@@ -335,7 +482,7 @@ export async function getPinnedMessages(channelId: string, currentUserId?: strin
       referencedMessage: msg.referencedMessageId ? referencedMessages.get(msg.referencedMessageId) ?? null : null,
       webhookId: msg.webhookId,
       attachments: attachmentsByMessage.get(msg.id) ?? [],
-      embeds: [],
+      embeds: embedsByMessage.get(msg.id) ?? [],
       reactions: reactionsByMessage.get(msg.id) ?? [],
       poll: pollsByMessage.get(msg.id) ?? undefined,
       createdAt: msg.createdAt.toISOString(),
@@ -1,64 +1,350 @@
 import { generateSnowflake } from "@yxc/snowflake";
+import { PermissionFlags } from "@yxc/permissions";
+import { AuditLogActionType } from "@yxc/types";
 import { ApiError } from "./auth.service.js";
+import * as memberService from "./member.service.js";
+import * as permissionService from "./permission.service.js";
+import * as roleService from "./role.service.js";
+import * as auditlogService from "./auditlog.service.js";
+import * as notificationService from "./notification.service.js";
 import { moderationQueueRepository } from "../repositories/moderation-queue.repository.js";
+import { messageRepository } from "../repositories/message.repository.js";
+import { memberRepository } from "../repositories/member.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { userRepository } from "../repositories/user.repository.js";
+import { dispatchGuild } from "../utils/dispatch.js";
 
+export type QueueResolution = "ban" | "kick" | "delete" | "timeout" | "dismiss";
+
+type QueueItemRow = NonNullable<Awaited<ReturnType<typeof moderationQueueRepository.findById>>>;
+
+// Open items older than this are flagged as overdue
+const SLA_MS = 24 * 60 * 60 * 1000;
+// Messages kept on each side of a reported message
+const CONTEXT_MESSAGES = 5;
+
+const RESOLUTION_PERMISSIONS: Record<QueueResolution, bigint> = {
+  ban: PermissionFlags.BAN_MEMBERS,
+  kick: PermissionFlags.KICK_MEMBERS,
+  delete: PermissionFlags.MANAGE_MESSAGES,
+  timeout: PermissionFlags.MODERATE_MEMBERS,
+  dismiss: PermissionFlags.MODERATE_MEMBERS,
+};
+
+function isOpen(item: QueueItemRow) {
+  return item.status === "pending" || item.status === "escalated";
+}
+
+function serializeItem(item: QueueItemRow, now = Date.now()) {
+  const ageMs = (item.resolvedAt?.getTime() ?? now) - item.createdAt.getTime();
+  return {
+    ...item,
+    createdAt: item.createdAt.toISOString(),
+    resolvedAt: item.resolvedAt?.toISOString() ?? null,
+    claimedAt: item.claimedAt?.toISOString() ?? null,
+    escalatedAt: item.escalatedAt?.toISOString() ?? null,
+    ageSeconds: Math.floor(ageMs / 1000),
+    overdue: isOpen(item) && ageMs > SLA_MS,
+  };
+}
+
+/** Escalated items are for moderators who can manage the guild */
+function workPermission(item: QueueItemRow) {
+  return item.status === "escalated" ? PermissionFlags.MANAGE_GUILD : PermissionFlags.MODERATE_MEMBERS;
+}
+
+async function getOpenItem(guildId: string, itemId: string) {
+  const item = await moderationQueueRepository.findById(itemId);
+  if (!item || item.guildId !== guildId) throw new ApiError(404, "Queue item not found");
+  if (!isOpen(item)) throw new ApiError(400, "Item already resolved");
+  return item;
+}
+
+/** Re-read an item after a write and tell the guild's moderators about it */
+async function broadcastItem(itemId: string) {
+  const item = (await moderationQueueRepository.findById(itemId))!;
+  const serialized = serializeItem(item);
+  await dispatchGuild(item.guildId, "MODERATION_QUEUE_UPDATE", serialized);
+  return serialized;
+}
+
+/**
+ * File a report. Reports of something that already has an open item are added to that
+ * item as another reporter instead of opening a second one.
+ */
 export async function createQueueItem(
   guildId: string,
   type: string,
   targetId: string,
   reason: string,
-  reportedBy: string
+  reportedBy: string,
+  snapshot: Record<string, unknown> | null = null
 ) {
-  const id = generateSnowflake();
-  const item = await moderationQueueRepository.create({ id, guildId, type, targetId, reason, reportedBy });
+  const openKey = `${guildId}:${type}:${targetId}`;
 
-  return {
-    ...item,
-    createdAt: item.createdAt.toISOString(),
-    resolvedAt: item.resolvedAt?.toISOString() ?? null,
-  };
+  const existing = await moderationQueueRepository.findOpenByKey(openKey);
+  if (!existing) {
+    try {
+      const item = serializeItem(await moderationQueueRepository.create({
+        id: generateSnowflake(), guildId, type, targetId, reason, reportedBy, openKey, snapshot,
+      }));
+      await dispatchGuild(guildId, "MODERATION_QUEUE_ADD", item);
+      return item;
+    } catch (err: any) {
+      // Someone else opened it first; join their item below
+      if (err.code !== "ER_DUP_ENTRY" && err.errno !== 1062) throw err;
+    }
+  }
+
+  const item = existing ?? (await moderationQueueRepository.findOpenByKey(openKey));
+  if (!item) throw new ApiError(409, "Report changed while filing, try again");
+  if (!(await moderationQueueRepository.addReporter(item.id, reportedBy, reason))) {
+    throw new ApiError(409, "You already reported this");
+  }
+  return broadcastItem(item.id);
 }
 
-export async function getQueueItems(guildId: string, status?: string) {
-  const items = await moderationQueueRepository.findByGuildId(guildId, status);
-  return items.map((i) => ({
-    ...i,
-    createdAt: i.createdAt.toISOString(),
-    resolvedAt: i.resolvedAt?.toISOString() ?? null,
-  }));
+/** Report a guild message; its content, attachments and neighbours are kept with the report */
+export async function reportMessage(channelId: string, messageId: string, reporterId: string, reason: string) {
+  const channel = await channelRepository.findById(channelId);
+  if (!channel?.guildId) throw new ApiError(400, "Only guild messages can be reported");
+  await permissionService.requireChannelPermission(reporterId, channel.guildId, channelId, PermissionFlags.VIEW_CHANNEL);
+
+  const message = await messageRepository.findById(messageId);
+  if (!message || message.channelId !== channelId) throw new ApiError(404, "Message not found");
+  if (message.authorId === reporterId) throw new ApiError(400, "You can't report your own message");
+
+  const [attachments, before, after] = await Promise.all([
+    messageRepository.findAttachmentsByMessageIds([messageId]),
+    messageRepository.findByChannelId(channelId, { before: messageId, limit: CONTEXT_MESSAGES }),
+    messageRepository.findAfter(channelId, messageId, CONTEXT_MESSAGES),
+  ]);
+  const snapshotMessage = (m: typeof message) => ({
+    id: m.id,
+    author: m.authorSnapshot ?? { id: m.authorId },
+    content: m.content,
+    createdAt: new Date(m.createdAt).toISOString(),
+  });
+
+  return createQueueItem(channel.guildId, "message", messageId, reason, reporterId, {
+    channelId,
+    message: {
+      ...snapshotMessage(message),
+      editedTimestamp: message.editedTimestamp?.toISOString() ?? null,
+      attachments: attachments.map((a) => ({
+        id: a.id, filename: a.filename, size: a.size, url: a.url, contentType: a.contentType,
+      })),
+    },
+    context: [...[...before].reverse(), ...after].map(snapshotMessage),
+  });
 }
 
+/** Report a guild member; their profile as it is now is kept with the report */
+export async function reportMember(guildId: string, targetId: string, reporterId: string, reason: string) {
+  if (targetId === reporterId) throw new ApiError(400, "You can't report yourself");
+  const [member, user, roles] = await Promise.all([
+    memberRepository.findByUserAndGuild(targetId, guildId),
+    userRepository.findPublicById(targetId),
+    memberRepository.getMemberRoleIds(targetId, guildId),
+  ]);
+  if (!member || !user) throw new ApiError(404, "Member not found");
+
+  return createQueueItem(guildId, "user", targetId, reason, reporterId, {
+    user: { id: user.id, username: user.username, displayName: user.displayName, avatar: user.avatar },
+    nick: member.nickname,
+    roles: roles.map((r) => r.roleId),
+    joinedAt: member.joinedAt.toISOString(),
+  });
+}
+
+/** Let everyone who reported an item know it was handled, without saying how */
+async function notifyReporters(item: QueueItemRow, actioned: boolean) {
+  const subject = item.type === "message" ? "message" : "member";
+  const body = actioned
+    ? `A moderator took action on the ${subject} you reported. Thanks for helping keep the server safe.`
+    : `A moderator reviewed the ${subject} you reported and didn't find a rule violation.`;
+  for (const userId of await moderationQueueRepository.findReporterIds(item.id)) {
+    await notificationService.createNotification(userId, "report_resolved", "Your report was reviewed", {
+      body,
+      sourceGuildId: item.guildId,
+    });
+  }
+}
+
+export async function getQueueItems(guildId: string, filters: { status?: string; assigneeId?: string | null } = {}) {
+  const items = await moderationQueueRepository.findByGuildId(guildId, filters);
+  const now = Date.now();
+  return items.map((i) => serializeItem(i, now));
+}
+
+/** Take an unassigned item so nobody else works it at the same time */
+export async function claimQueueItem(guildId: string, itemId: string, moderatorId: string) {
+  const item = await getOpenItem(guildId, itemId);
+  await permissionService.requireGuildPermission(moderatorId, guildId, workPermission(item));
+  if (item.assigneeId === moderatorId) return serializeItem(item);
+  if (item.assigneeId) throw new ApiError(409, "Item is claimed by another moderator");
+
+  if (!(await moderationQueueRepository.reassign(itemId, null, moderatorId))) {
+    throw new ApiError(409, "Item is claimed by another moderator");
+  }
+  return broadcastItem(itemId);
+}
+
+/**
+ * Hand an item to another moderator, or release it with null. Taking an item away
+ * from someone else needs MANAGE_GUILD.
+ */
+export async function assignQueueItem(guildId: string, itemId: string, actorId: string, assigneeId: string | null) {
+  const item = await getOpenItem(guildId, itemId);
+  await permissionService.requireGuildPermission(actorId, guildId, PermissionFlags.MODERATE_MEMBERS);
+  if (item.assigneeId && item.assigneeId !== actorId) {
+    await permissionService.requireGuildPermission(actorId, guildId, PermissionFlags.MANAGE_GUILD);
+  }
+  if (assigneeId) {
+    const perms = await permissionService.getGuildPermissions(assigneeId, guildId);
+    if (!perms.has(workPermission(item))) {
+      throw new ApiError(400, "Assignee can't work this item");
+    }
+  }
+
+  if (!(await moderationQueueRepository.reassign(itemId, item.assigneeId, assigneeId))) {
+    throw new ApiError(409, "Item changed while reassigning, try again");
+  }
+  return broadcastItem(itemId);
+}
+
+export async function escalateQueueItem(guildId: string, itemId: string, moderatorId: string, note?: string) {
+  const item = await getOpenItem(guildId, itemId);
+  if (item.status === "escalated") throw new ApiError(400, "Item already escalated");
+  if (item.assigneeId && item.assigneeId !== moderatorId) {
+    throw new ApiError(409, "Item is claimed by another moderator");
+  }
+
+  if (!(await moderationQueueRepository.escalate(itemId, moderatorId, note ?? null))) {
+    throw new ApiError(409, "Item changed while escalating, try again");
+  }
+  return broadcastItem(itemId);
+}
+
+/**
+ * The member a report is about: the author for message reports, the target otherwise.
+ * A reported message deleted since can still get its author banned, kicked or timed out
+ * through the author kept on the report's snapshot.
+ */
+async function resolveTarget(item: QueueItemRow, action: Exclude<QueueResolution, "dismiss">) {
+  if (item.type !== "message") return { userId: item.targetId, message: null };
+
+  const message = await messageRepository.findById(item.targetId);
+  if (!message) {
+    const snapshot = item.snapshot as { message?: { author?: { id?: string } } } | null;
+    const authorId = snapshot?.message?.author?.id;
+    if (action === "delete" || !authorId) throw new ApiError(404, "Reported message not found");
+    return { userId: authorId, message: null };
+  }
+  const channel = await channelRepository.findById(message.channelId);
+  if (channel?.guildId !== item.guildId) throw new ApiError(400, "Reported message is not in this guild");
+  return { userId: message.authorId, message };
+}
+
+/**
+ * Close an item and carry out the decision on the reported member or message, with an
+ * audit log entry. Unassigned items are claimed first; items claimed by someone else
+ * can't be resolved until they're reassigned.
+ */
 export async function resolveQueueItem(
+  guildId: string,
   itemId: string,
   moderatorId: string,
-  action: string,
-  note?: string
+  action: QueueResolution,
+  options: { note?: string; timeoutSeconds?: number } = {}
 ) {
-  const item = await moderationQueueRepository.findById(itemId);
-  if (!item) throw new ApiError(404, "Queue item not found");
-  if (item.status !== "pending") throw new ApiError(400, "Item already resolved");
+  const item = await getOpenItem(guildId, itemId);
+  await permissionService.requireGuildPermission(moderatorId, guildId, workPermission(item));
+  await permissionService.requireGuildPermission(moderatorId, guildId, RESOLUTION_PERMISSIONS[action]);
+  if (action === "delete" && item.type !== "message") {
+    throw new ApiError(400, "Only message reports can be resolved by deleting");
+  }
+  if (action === "timeout" && !options.timeoutSeconds) {
+    throw new ApiError(400, "Timeout duration is required");
+  }
+
+  if (item.assigneeId !== moderatorId) {
+    if (item.assigneeId || !(await moderationQueueRepository.reassign(itemId, null, moderatorId))) {
+      throw new ApiError(409, "Item is claimed by another moderator");
+    }
+  }
+
+  const reason = options.note ?? item.reason;
+  if (action !== "dismiss") {
+    const target = await resolveTarget(item, action);
+    await enforceResolution(guildId, moderatorId, action, target, reason, options.timeoutSeconds);
+  }
 
-  const updated = await moderationQueueRepository.resolve(itemId, {
-    status: action,
+  const resolved = await moderationQueueRepository.resolve(itemId, {
+    status: action === "dismiss" ? "rejected" : "approved",
+    resolution: action,
     moderatorId,
-    moderatorNote: note ?? null,
+    moderatorNote: options.note ?? null,
   });
+  if (!resolved) throw new ApiError(409, "Item was reassigned while resolving");
 
-  return {
-    ...updated,
-    createdAt: updated.createdAt.toISOString(),
-    resolvedAt: updated.resolvedAt?.toISOString() ?? null,
-  };
+  // Notifications can fan out to many reporters; don't hold up the moderator
+  notifyReporters(item, action !== "dismiss")
+    .catch((err) => console.error(`Failed to notify reporters of queue item ${itemId}:`, err));
+  return broadcastItem(itemId);
+}
+
+async function enforceResolution(
+  guildId: string,
+  moderatorId: string,
+  action: Exclude<QueueResolution, "dismiss">,
+  target: Awaited<ReturnType<typeof resolveTarget>>,
+  reason: string,
+  timeoutSeconds?: number
+) {
+  const { userId, message } = target;
+
+  if (action === "delete") {
+    await messageRepository.delete(message!.id);
+    await dispatchGuild(guildId, "MESSAGE_DELETE", { id: message!.id, channelId: message!.channelId, guildId });
+    await auditlogService.createAuditLogEntry(guildId, moderatorId, AuditLogActionType.MESSAGE_DELETE, userId, reason);
+    return;
+  }
+
+  if (action === "timeout") {
+    const until = new Date(Date.now() + timeoutSeconds! * 1000);
+    await memberService.timeoutMember(guildId, userId, until, moderatorId);
+    await dispatchGuild(guildId, "GUILD_MEMBER_UPDATE", await memberService.getMemberUpdate(guildId, userId));
+    await auditlogService.createAuditLogEntry(guildId, moderatorId, AuditLogActionType.MEMBER_UPDATE, userId, reason, {
+      communication_disabled_until: { new: until.toISOString() },
+    });
+    return;
+  }
+
+  await roleService.validateMemberHierarchy(moderatorId, guildId, userId);
+  const user = await userRepository.findPublicById(userId);
+  const userPayload = user ? { id: user.id, username: user.username, avatar: user.avatar } : { id: userId };
+
+  if (action === "ban") {
+    await memberService.banMember(guildId, userId, moderatorId, reason);
+    await dispatchGuild(guildId, "GUILD_BAN_ADD", { guildId, user: userPayload });
+    await auditlogService.createAuditLogEntry(guildId, moderatorId, AuditLogActionType.MEMBER_BAN_ADD, userId, reason);
+  } else {
+    await memberService.kickMember(guildId, userId, moderatorId);
+    await dispatchGuild(guildId, "GUILD_MEMBER_REMOVE", { guildId, user: userPayload });
+    await auditlogService.createAuditLogEntry(guildId, moderatorId, AuditLogActionType.MEMBER_KICK, userId, reason);
+  }
 }
 
 export async function getModeratorAnalytics(guildId: string) {
   const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
 
-  const [modActions, statusCounts, typeCounts, recentItemCount] = await Promise.all([
+  const [modActions, statusCounts, typeCounts, recentItemCount, overdueCount] = await Promise.all([
     moderationQueueRepository.countByModeratorInGuild(guildId),
     moderationQueueRepository.countByStatusInGuild(guildId),
     moderationQueueRepository.countByTypeInGuild(guildId),
     moderationQueueRepository.countRecentInGuild(guildId, sevenDaysAgo),
+    moderationQueueRepository.countOverdueInGuild(guildId, new Date(Date.now() - SLA_MS)),
   ]);
 
   return {
@@ -66,5 +352,6 @@ export async function getModeratorAnalytics(guildId: string) {
     statusBreakdown: statusCounts,
     typeBreakdown: typeCounts,
     recentItemCount,
+    overdueCount,
   };
 }
@@ -0,0 +1,161 @@
+/**
+ * Delivery of notifications to users who aren't connected. `queueNotification` picks the
+ * channels a notification may go out on and parks it in a per-user batch in Redis;
+ * `flushDueDeliveries` (a background job) sends each batch once its window has passed,
+ * so a burst of mentions becomes one push or one digest email. Users with a live gateway
+ * session are skipped: the app already shows them the notification.
+ */
+import { redis } from "../config/redis.js";
+import * as pushService from "./push.service.js";
+import * as mailService from "./mail.service.js";
+import * as notificationSettingsService from "./notification-settings.service.js";
+import type { EffectiveSettings } from "./notification-settings.service.js";
+import { notificationSettingsRepository } from "../repositories/notification-settings.repository.js";
+import { userRepository } from "../repositories/user.repository.js";
+
+/** Set of the user's gateway connection IDs, maintained by the gateway */
+export const USER_SESSIONS_PREFIX = "user_sessions:";
+
+const PENDING_PREFIX = "zent:notify:pending:"; // list per channel and user
+const DUE_PREFIX = "zent:notify:due:"; // sorted set per channel: userId by send time
+const PENDING_TTL = 24 * 60 * 60; // seconds
+const MAX_BATCH_SIZE = 50;
+
+export interface DeliveryNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  sourceGuildId: string | null;
+  sourceChannelId: string | null;
+  sourceMessageId: string | null;
+  sourceUserId: string | null;
+  createdAt: string;
+}
+
+export interface DeliveryChannel {
+  name: string;
+  /** How long notifications collect before the batch goes out */
+  batchWindowMs: number;
+  isEnabled(): boolean;
+  /** Whether the user's settings for the notification's channel allow this delivery channel */
+  allows(settings: EffectiveSettings): boolean;
+  deliver(userId: string, notifications: DeliveryNotification[]): Promise<void>;
+}
+
+const deliveryChannels = new Map<string, DeliveryChannel>();
+
+export function registerDeliveryChannel(channel: DeliveryChannel) {
+  deliveryChannels.set(channel.name, channel);
+}
+
+registerDeliveryChannel({
+  name: "push",
+  batchWindowMs: 30_000,
+  isEnabled: pushService.isPushConfigured,
+  allows: (settings) => settings.pushEnabled,
+  async deliver(userId, notifications) {
+    const latest = notifications[notifications.length - 1]!;
+    await pushService.sendPush(userId, {
+      title: notifications.length === 1 ? latest.title : `${notifications.length} new notifications`,
+      body: latest.body ?? undefined,
+      count: notifications.length,
+      data: {
+        notificationIds: notifications.map((n) => n.id),
+        type: latest.type,
+        guildId: latest.sourceGuildId,
+        channelId: latest.sourceChannelId,
+        messageId: latest.sourceMessageId,
+      },
+    });
+  },
+});
+
+registerDeliveryChannel({
+  name: "email",
+  batchWindowMs: 15 * 60_000,
+  isEnabled: mailService.isMailConfigured,
+  allows: (settings) => settings.emailEnabled,
+  async deliver(userId, notifications) {
+    const user = await userRepository.findById(userId);
+    // Only mail addresses the user proved they own
+    if (!user || !user.verified || user.isGuest) return;
+    await mailService.sendNotificationDigest(user.email, user.displayName ?? user.username, notifications);
+  },
+});
+
+export async function hasGatewaySession(userId: string): Promise<boolean> {
+  const connIds = await redis.smembers(`${USER_SESSIONS_PREFIX}${userId}`);
+  if (connIds.length === 0) return false;
+  // Entries outlive connections on a gateway crash; the session key is authoritative
+  const pipeline = redis.pipeline();
+  for (const connId of connIds) pipeline.exists(`session:${connId}`);
+  const results = await pipeline.exec();
+  return !!results?.some(([, exists]) => exists === 1);
+}
+
+/**
+ * Mutes and the notification level apply to notifications about a channel's messages;
+ * account notifications such as friend requests only check the delivery channel toggles.
+ */
+function settingsAllow(notification: DeliveryNotification, settings: EffectiveSettings) {
+  if (!notification.sourceChannelId) return true;
+  if (settings.muted || settings.level === "none") return false;
+  return settings.level === "all" || notification.type === "mention";
+}
+
+export async function queueNotification(userId: string, notification: DeliveryNotification) {
+  const enabled = [...deliveryChannels.values()].filter((c) => c.isEnabled());
+  if (enabled.length === 0) return;
+  if (await hasGatewaySession(userId)) return;
+
+  const rows = await notificationSettingsRepository.findForUsers(
+    [userId], notification.sourceGuildId, notification.sourceChannelId ?? "global"
+  );
+  const settings = notificationSettingsService.resolveEffectiveSettings(
+    rows, notification.sourceGuildId, notification.sourceChannelId
+  );
+  if (!settingsAllow(notification, settings)) return;
+
+  const now = Date.now();
+  const multi = redis.multi();
+  for (const channel of enabled) {
+    if (!channel.allows(settings)) continue;
+    const key = `${PENDING_PREFIX}${channel.name}:${userId}`;
+    multi.rpush(key, JSON.stringify(notification));
+    multi.ltrim(key, -MAX_BATCH_SIZE, -1);
+    multi.expire(key, PENDING_TTL);
+    // NX: the first notification of a batch sets when it goes out
+    multi.zadd(`${DUE_PREFIX}${channel.name}`, "NX", now + channel.batchWindowMs, userId);
+  }
+  await multi.exec();
+}
+
+/** Send every batch whose window has passed. Returns how many batches went out. */
+export async function flushDueDeliveries(now = Date.now(), limit = 100): Promise<number> {
+  let sent = 0;
+  for (const channel of deliveryChannels.values()) {
+    if (!channel.isEnabled()) continue;
+    const dueKey = `${DUE_PREFIX}${channel.name}`;
+    const userIds = await redis.zrangebyscore(dueKey, 0, now, "LIMIT", 0, limit);
+
+    for (const userId of userIds) {
+      // ZREM succeeds for exactly one caller, which then owns the batch
+      if ((await redis.zrem(dueKey, userId)) === 0) continue;
+      const key = `${PENDING_PREFIX}${channel.name}:${userId}`;
+      const results = await redis.multi().lrange(key, 0, -1).del(key).exec();
+      const raw = (results?.[0]?.[1] as string[] | undefined) ?? [];
+      if (raw.length === 0) continue;
+      // Came back online while the batch was collecting
+      if (await hasGatewaySession(userId)) continue;
+
+      try {
+        await channel.deliver(userId, raw.map((entry) => JSON.parse(entry) as DeliveryNotification));
+        sent++;
+      } catch (err) {
+        console.error(`Failed to deliver ${channel.name} notifications to ${userId}:`, err);
+      }
+    }
+  }
+  return sent;
+}
@@ -1,5 +1,41 @@
 import { notificationSettingsRepository } from "../repositories/notification-settings.repository.js";
 
+type SettingsRow = Awaited<ReturnType<typeof notificationSettingsRepository.findForUsers>>[number];
+
+export interface EffectiveSettings {
+  level: "all" | "mentions" | "none";
+  muted: boolean;
+  suppressEveryone: boolean;
+  suppressRoles: boolean;
+  pushEnabled: boolean;
+  emailEnabled: boolean;
+}
+
+/**
+ * Collapse one user's rows from `findForUsers` into the settings that apply to a channel.
+ * The channel row wins over the guild row, and the guild row over the global one. A mute
+ * at any of those levels counts until its `muteUntil`.
+ */
+export function resolveEffectiveSettings(
+  rows: SettingsRow[],
+  guildId: string | null,
+  channelId: string | null,
+  now = Date.now()
+): EffectiveSettings {
+  const channelRow = channelId ? rows.find((s) => s.channelId === channelId) : undefined;
+  const guildRow = (guildId ? rows.find((s) => s.guildId === guildId && s.channelId === "global") : undefined)
+    ?? rows.find((s) => s.guildId === "global" && s.channelId === "global");
+
+  return {
+    level: channelRow?.level ?? guildRow?.level ?? "all",
+    muted: [channelRow, guildRow].some((s) => s?.muted && (!s.muteUntil || s.muteUntil.getTime() > now)),
+    suppressEveryone: guildRow?.suppressEveryone ?? false,
+    suppressRoles: guildRow?.suppressRoles ?? false,
+    pushEnabled: channelRow?.pushEnabled ?? guildRow?.pushEnabled ?? true,
+    emailEnabled: channelRow?.emailEnabled ?? guildRow?.emailEnabled ?? true,
+  };
+}
+
 export async function getSettings(userId: string, guildId?: string, channelId?: string) {
   const settings = await notificationSettingsRepository.find(userId, guildId, channelId);
 
@@ -19,6 +55,8 @@ export async function upsertSettings(
     suppressRoles?: boolean;
     muted?: boolean;
     muteUntil?: string | null;
+    pushEnabled?: boolean;
+    emailEnabled?: boolean;
   }
 ) {
   const values: Record<string, any> = {
@@ -32,6 +70,8 @@ export async function upsertSettings(
     ...(data.suppressRoles !== undefined ? { suppressRoles: data.suppressRoles } : {}),
     ...(data.muted !== undefined ? { muted: data.muted } : {}),
     ...(data.muteUntil !== undefined ? { muteUntil: data.muteUntil ? new Date(data.muteUntil) : null } : {}),
+    ...(data.pushEnabled !== undefined ? { pushEnabled: data.pushEnabled } : {}),
+    ...(data.emailEnabled !== undefined ? { emailEnabled: data.emailEnabled } : {}),
   };
 
   const result = await notificationSettingsRepository.upsert(
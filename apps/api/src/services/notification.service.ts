@@ -1,4 +1,5 @@
 import { generateSnowflake } from "@yxc/snowflake";
+import * as notificationDeliveryService from "./notification-delivery.service.js";
 import { notificationRepository } from "../repositories/notification.repository.js";
 
 export async function createNotification(
@@ -27,11 +28,17 @@ export async function createNotification(
   });
 
   const notif = await notificationRepository.findById(id);
-
-  return {
+  const notification = {
     ...notif!,
     createdAt: notif!.createdAt.toISOString(),
   };
+
+  // Push and email for users who aren't connected; never fails the caller
+  notificationDeliveryService
+    .queueNotification(userId, notification)
+    .catch((err) => console.error(`Failed to queue delivery of notification ${id}:`, err));
+
+  return notification;
 }
 
 export async function getNotifications(
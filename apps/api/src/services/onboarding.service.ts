@@ -0,0 +1,176 @@
+import { PermissionFlags } from "@yxc/permissions";
+import type { OnboardingPrompt } from "../db/index.js";
+import { ApiError } from "./auth.service.js";
+import * as permissionService from "./permission.service.js";
+import * as roleService from "./role.service.js";
+import { guildSettingsRepository } from "../repositories/guild-settings.repository.js";
+import { memberRepository } from "../repositories/member.repository.js";
+import { roleRepository } from "../repositories/role.repository.js";
+
+/**
+ * Narrow a guild's channels to the ones a member opted into, the categories holding them
+ * and everything inside an opted-in category. `optedIn` is null for members who never
+ * answered, who keep the full list.
+ */
+export function filterOnboardedChannels<T extends { id: string; parentId: string | null }>(
+  channels: T[],
+  optedIn: string[] | null
+) {
+  if (!optedIn) return channels;
+  const ids = new Set(optedIn);
+  const isOptedIn = (c: T) => ids.has(c.id) || (c.parentId !== null && ids.has(c.parentId));
+  const parents = new Set(channels.filter(isOptedIn).map((c) => c.parentId));
+  return channels.filter((c) => isOptedIn(c) || parents.has(c.id));
+}
+
+/**
+ * Record a member's onboarding answers. Roles mapped to the chosen options are granted and
+ * roles onboarding granted for options they dropped are taken back; the opted-in channel list
+ * becomes the guild's default channels plus the chosen options' channels.
+ */
+export async function submitOnboardingResponses(
+  guildId: string,
+  userId: string,
+  responses: { promptId: string; optionIds: string[] }[]
+) {
+  const [onboarding, member] = await Promise.all([
+    guildSettingsRepository.findOnboarding(guildId),
+    memberRepository.findByUserAndGuild(userId, guildId),
+  ]);
+  if (!member) throw new ApiError(403, "Not a member of this guild");
+  if (!onboarding?.enabled) throw new ApiError(400, "Onboarding is not enabled");
+
+  const prompts = new Map(onboarding.prompts.map((p) => [p.id, p]));
+  const answered = new Map<string, string[]>();
+  for (const response of responses) {
+    const prompt = prompts.get(response.promptId);
+    if (!prompt) throw new ApiError(400, `Unknown prompt ${response.promptId}`);
+    if (answered.has(prompt.id)) throw new ApiError(400, `Prompt "${prompt.title}" answered twice`);
+    const optionIds = [...new Set(response.optionIds)];
+    if (prompt.singleSelect && optionIds.length > 1) {
+      throw new ApiError(400, `Prompt "${prompt.title}" takes a single option`);
+    }
+    const known = new Set(prompt.options.map((o) => o.id));
+    if (optionIds.some((id) => !known.has(id))) {
+      throw new ApiError(400, `Unknown option for prompt "${prompt.title}"`);
+    }
+    answered.set(prompt.id, optionIds);
+  }
+  for (const prompt of onboarding.prompts) {
+    if (prompt.required && prompt.inOnboarding && !answered.get(prompt.id)?.length) {
+      throw new ApiError(400, `Prompt "${prompt.title}" is required`);
+    }
+  }
+
+  const optionsById = new Map(
+    onboarding.prompts.flatMap((p) => p.options.map((o) => [o.id, o] as const))
+  );
+  const selected = [...answered.values()].flat().map((id) => optionsById.get(id)!);
+
+  const channelIds = [...new Set([
+    ...onboarding.defaultChannelIds,
+    ...selected.flatMap((o) => o.channelIds),
+  ])];
+  await guildSettingsRepository.replaceResponses(
+    guildId,
+    userId,
+    [...answered].flatMap(([promptId, optionIds]) => optionIds.map((optionId) => ({ promptId, optionId }))),
+    channelIds
+  );
+
+  const rolesChanged = await syncOnboardingRoles(guildId, userId, selected, member.onboardingRoleIds ?? []);
+  return { channelIds, rolesChanged };
+}
+
+type PromptOption = OnboardingPrompt["options"][number];
+
+/**
+ * Check the roles a new set of prompts maps to options. Anyone who answers gets them, so
+ * mapping roles takes MANAGE_ROLES and only roles below the caller's highest role. Roles the
+ * current prompts already map were checked when they were added and aren't checked again.
+ */
+export async function validatePromptRoles(
+  guildId: string,
+  actorId: string,
+  prompts: { options: { roleIds: string[] }[] }[]
+) {
+  const existing = await guildSettingsRepository.findOnboarding(guildId);
+  const mapped = new Set((existing?.prompts ?? []).flatMap((p) => p.options.flatMap((o) => o.roleIds)));
+  const roleIds = [...new Set(prompts.flatMap((p) => p.options.flatMap((o) => o.roleIds)))]
+    .filter((id) => !mapped.has(id));
+  if (roleIds.length === 0) return;
+
+  await permissionService.requireGuildPermission(actorId, guildId, PermissionFlags.MANAGE_ROLES);
+  if (roleIds.includes(guildId)) throw new ApiError(400, "Onboarding options can't grant @everyone");
+  const known = new Set((await roleRepository.findByGuildId(guildId)).map((r) => r.id));
+  const unknown = roleIds.find((id) => !known.has(id));
+  if (unknown) throw new ApiError(400, `Unknown role ${unknown}`);
+
+  for (const roleId of roleIds) {
+    await roleService.validateRoleHierarchy(actorId, guildId, roleId);
+  }
+}
+
+/**
+ * Grant roles behind the chosen options and take back ones onboarding granted earlier that no
+ * chosen option maps to anymore. Roles the member already held from elsewhere are left alone and
+ * never recorded as onboarding's. Returns whether any role changed.
+ */
+async function syncOnboardingRoles(guildId: string, userId: string, selected: PromptOption[], granted: string[]) {
+  const [guildRoles, memberRoles] = await Promise.all([
+    roleRepository.findByGuildId(guildId),
+    memberRepository.getMemberRoleIds(userId, guildId),
+  ]);
+  // Skip @everyone and roles deleted since the prompts were configured
+  const assignable = new Set(guildRoles.map((r) => r.id).filter((id) => id !== guildId));
+  const held = new Set(memberRoles.map((r) => r.roleId));
+  const grantedBefore = new Set(granted);
+
+  const wanted = new Set(selected.flatMap((o) => o.roleIds).filter((id) => assignable.has(id)));
+  const dropped = [...grantedBefore].filter((id) => !wanted.has(id) && held.has(id));
+
+  let changed = false;
+  const stillGranted: string[] = [];
+  for (const roleId of wanted) {
+    if (held.has(roleId)) {
+      if (grantedBefore.has(roleId)) stillGranted.push(roleId);
+      continue;
+    }
+    await roleService.addRoleToMember(guildId, userId, roleId);
+    stillGranted.push(roleId);
+    changed = true;
+  }
+  for (const roleId of dropped) {
+    await roleService.removeRoleFromMember(guildId, userId, roleId);
+    changed = true;
+  }
+  await memberRepository.update(userId, guildId, { onboardingRoleIds: stillGranted });
+  return changed;
+}
+
+/** How many current members answered each prompt and picked each option */
+export async function getOnboardingStats(guildId: string) {
+  const [onboarding, onboarded, byPrompt, byOption] = await Promise.all([
+    guildSettingsRepository.findOnboarding(guildId),
+    guildSettingsRepository.countOnboardedMembers(guildId),
+    guildSettingsRepository.countRespondentsByPrompt(guildId),
+    guildSettingsRepository.countResponsesByOption(guildId),
+  ]);
+  const promptCounts = new Map(byPrompt.map((r) => [r.promptId, r.count]));
+  const optionCounts = new Map(byOption.map((r) => [r.optionId, r.count]));
+
+  return {
+    onboardedMembers: onboarded,
+    prompts: (onboarding?.prompts ?? []).map((prompt) => {
+      const completed = promptCounts.get(prompt.id) ?? 0;
+      return {
+        id: prompt.id,
+        title: prompt.title,
+        required: prompt.required,
+        completed,
+        completionRate: onboarded > 0 ? completed / onboarded : 0,
+        options: prompt.options.map((o) => ({ id: o.id, title: o.title, count: optionCounts.get(o.id) ?? 0 })),
+      };
+    }),
+  };
+}
@@ -196,6 +196,11 @@ permInvalidateSub.on("message", (_channel, message) => {
 
 // ── Permission Computation ──
 
+// Cached permissions don't expire with the timeout; lifting it invalidates them
+function isTimedOut(until: Date | null) {
+  return !!until && until.getTime() > Date.now();
+}
+
 /**
  * Get effective permissions for a user in a guild (no channel context).
  */
@@ -212,7 +217,10 @@ export async function getGuildPermissions(
 
     if (!everyoneRole) throw new ApiError(500, "Missing @everyone role");
 
-    const fetchedRoles = await permissionRepository.findMemberRolesWithPermissions(userId, guildId);
+    const [fetchedRoles, timeoutUntil] = await Promise.all([
+      permissionRepository.findMemberRolesWithPermissions(userId, guildId),
+      permissionRepository.findMemberTimeout(userId, guildId),
+    ]);
     const memberRoles: RolePermission[] = fetchedRoles.map((r) => ({
       id: r.roleId,
       permissions: BigInt(r.permissions),
@@ -228,6 +236,7 @@ export async function getGuildPermissions(
         position: everyoneRole.position,
       },
       memberRoles,
+      communicationDisabled: isTimedOut(timeoutUntil),
     });
   });
 }
@@ -249,7 +258,10 @@ export async function getChannelPermissions(
 
     if (!everyoneRole) throw new ApiError(500, "Missing @everyone role");
 
-    const fetchedRoles = await permissionRepository.findMemberRolesWithPermissions(userId, guildId);
+    const [fetchedRoles, timeoutUntil] = await Promise.all([
+      permissionRepository.findMemberRolesWithPermissions(userId, guildId),
+      permissionRepository.findMemberTimeout(userId, guildId),
+    ]);
     const memberRoles: RolePermission[] = fetchedRoles.map((r) => ({
       id: r.roleId,
       permissions: BigInt(r.permissions),
@@ -275,6 +287,7 @@ export async function getChannelPermissions(
       },
       memberRoles,
       channelOverwrites,
+      communicationDisabled: isTimedOut(timeoutUntil),
     });
   });
 }
@@ -3,6 +3,12 @@ import { ApiError } from "./auth.service.js";
 import { pollRepository } from "../repositories/poll.repository.js";
 import { db } from "../db/index.js";
 
+const EXPIRY_BATCH_SIZE = 100;
+// Polls that ran out before this (e.g. before the expiry job existed) are left as they are
+const EXPIRY_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+type Poll = NonNullable<Awaited<ReturnType<typeof getPoll>>>;
+
 export async function createPoll(
   channelId: string,
   messageId: string,
@@ -131,7 +137,7 @@ export async function getBatchPolls(
 export async function votePoll(pollId: string, optionId: string, userId: string) {
   const poll = await pollRepository.findById(pollId);
   if (!poll) throw new ApiError(404, "Poll not found");
-  if (poll.expiresAt && poll.expiresAt < new Date()) {
+  if (poll.ended || (poll.expiresAt && poll.expiresAt < new Date())) {
     throw new ApiError(400, "Poll has ended");
   }
 
@@ -172,11 +178,49 @@ export async function removePollVote(pollId: string, optionId: string, userId: s
   return { pollId, optionId, userId, channelId: poll.channelId, messageId: poll.messageId };
 }
 
-export async function endPoll(pollId: string, userId: string) {
+export async function endPoll(pollId: string, userId?: string) {
   const poll = await pollRepository.findById(pollId);
   if (!poll) throw new ApiError(404, "Poll not found");
 
-  await pollRepository.setExpired(pollId);
+  if (poll.ended || !(await pollRepository.setExpired(pollId))) {
+    throw new ApiError(400, "Poll has already ended");
+  }
 
   return getPoll(pollId, userId);
 }
+
+/** End polls whose duration ran out. Returns them so the caller can post results and dispatch POLL_END. */
+export async function endExpiredPolls(now = new Date()) {
+  const expired = await pollRepository.findExpired(new Date(now.getTime() - EXPIRY_LOOKBACK_MS), now, EXPIRY_BATCH_SIZE);
+  const ended: Poll[] = [];
+  for (const { id } of expired) {
+    try {
+      const poll = await endPoll(id);
+      if (poll) ended.push(poll);
+    } catch (err) {
+      // ApiError: ended by hand since we looked. Anything else shouldn't hold up the rest of the batch
+      if (!(err instanceof ApiError)) console.error(`Failed to end poll ${id}:`, err);
+    }
+  }
+  return ended;
+}
+
+/** The closing tally posted when a poll ends */
+export function formatPollResults(poll: Pick<Poll, "question" | "totalVotes" | "options">): string {
+  const lines = [`📊 **${poll.question}** has ended`];
+  const top = Math.max(0, ...poll.options.map((o) => o.votes));
+
+  if (top === 0) {
+    lines.push("No votes were cast");
+    return lines.join("\n");
+  }
+
+  const winners = poll.options.filter((o) => o.votes === top).map((o) => `**${o.text}**`);
+  const share = Math.round((top / poll.totalVotes) * 100);
+  const unit = top === 1 ? "vote" : "votes";
+  lines.push(winners.length === 1
+    ? `🏆 ${winners[0]} won with ${top} ${unit} (${share}%)`
+    : `🏆 ${winners.join(", ")} tied with ${top} ${unit} each (${share}%)`);
+  lines.push(`${poll.totalVotes} ${poll.totalVotes === 1 ? "person" : "people"} voted`);
+  return lines.join("\n");
+}
@@ -0,0 +1,129 @@
+import https from "https";
+import webpush from "web-push";
+import { generateSnowflake } from "@yxc/snowflake";
+import { env } from "../config/env.js";
+import { ApiError } from "./auth.service.js";
+import { pushSubscriptionRepository } from "../repositories/push-subscription.repository.js";
+import { isBlockedIpLiteral, safeLookup } from "../utils/ssrf.js";
+
+const PUSH_TTL = 24 * 60 * 60; // Push services drop undelivered messages after a day
+const MAX_SUBSCRIPTIONS_PER_USER = 20;
+
+// Endpoints are client-supplied URLs, so they get the same private-address guard as link previews
+const pushAgent = new https.Agent({ keepAlive: true, lookup: safeLookup });
+let vapidConfigured = false;
+
+export interface PushPayload {
+  title: string;
+  body?: string;
+  /** Notifications this push stands for */
+  count: number;
+  data?: Record<string, unknown>;
+}
+
+export function isPushConfigured(): boolean {
+  return !!env.VAPID_PUBLIC_KEY && !!env.VAPID_PRIVATE_KEY;
+}
+
+export function getVapidPublicKey(): string {
+  if (!env.VAPID_PUBLIC_KEY) throw new ApiError(404, "Push notifications are not enabled");
+  return env.VAPID_PUBLIC_KEY;
+}
+
+function configureVapid() {
+  if (vapidConfigured) return;
+  webpush.setVapidDetails(env.VAPID_SUBJECT, env.VAPID_PUBLIC_KEY!, env.VAPID_PRIVATE_KEY!);
+  vapidConfigured = true;
+}
+
+function formatSubscription(row: Awaited<ReturnType<typeof pushSubscriptionRepository.upsert>>) {
+  return {
+    id: row.id,
+    endpoint: row.endpoint,
+    userAgent: row.userAgent,
+    createdAt: row.createdAt.toISOString(),
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+  };
+}
+
+export async function subscribe(
+  userId: string,
+  subscription: { endpoint: string; keys: { p256dh: string; auth: string } },
+  userAgent: string | null
+) {
+  if (!isPushConfigured()) throw new ApiError(404, "Push notifications are not enabled");
+  let endpoint: URL;
+  try {
+    endpoint = new URL(subscription.endpoint);
+  } catch {
+    throw new ApiError(400, "Push endpoint must be an https URL");
+  }
+  if (endpoint.protocol !== "https:") throw new ApiError(400, "Push endpoint must be an https URL");
+  if (isBlockedIpLiteral(endpoint.hostname)) throw new ApiError(400, "Push endpoint must be a public address");
+
+  const existing = await pushSubscriptionRepository.findByUserId(userId);
+  const isNew = !existing.some((s) => s.endpoint === subscription.endpoint);
+  if (isNew && existing.length >= MAX_SUBSCRIPTIONS_PER_USER) {
+    throw new ApiError(400, `Maximum of ${MAX_SUBSCRIPTIONS_PER_USER} push subscriptions reached`);
+  }
+
+  const row = await pushSubscriptionRepository.upsert({
+    id: generateSnowflake(),
+    userId,
+    endpoint: subscription.endpoint,
+    p256dh: subscription.keys.p256dh,
+    auth: subscription.keys.auth,
+    userAgent: userAgent?.slice(0, 255) ?? null,
+  });
+  return formatSubscription(row);
+}
+
+export async function getSubscriptions(userId: string) {
+  const rows = await pushSubscriptionRepository.findByUserId(userId);
+  return rows.map(formatSubscription);
+}
+
+export async function unsubscribe(userId: string, endpoint: string) {
+  await pushSubscriptionRepository.deleteByEndpoint(userId, endpoint);
+}
+
+/**
+ * Send a push to every device the user subscribed. Subscriptions the push service
+ * reports as gone (404/410) are removed. Returns how many devices accepted it.
+ */
+export async function sendPush(userId: string, payload: PushPayload): Promise<number> {
+  if (!isPushConfigured()) return 0;
+  configureVapid();
+
+  const subscriptions = await pushSubscriptionRepository.findByUserId(userId);
+  if (subscriptions.length === 0) return 0;
+
+  const body = JSON.stringify(payload);
+  const delivered: string[] = [];
+  const expired: string[] = [];
+  await Promise.all(subscriptions.map(async (sub) => {
+    try {
+      // IP literals skip the agent's lookup; rows saved before subscribe checked them are dropped here
+      if (isBlockedIpLiteral(new URL(sub.endpoint).hostname)) {
+        expired.push(sub.id);
+        return;
+      }
+      await webpush.sendNotification(
+        { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+        body,
+        { TTL: PUSH_TTL, agent: pushAgent, timeout: 10_000 }
+      );
+      delivered.push(sub.id);
+    } catch (err) {
+      if (err instanceof webpush.WebPushError && (err.statusCode === 404 || err.statusCode === 410)) {
+        expired.push(sub.id);
+      } else {
+        console.error(`Web push to subscription ${sub.id} failed:`, err);
+      }
+    }
+  }));
+
+  await pushSubscriptionRepository.deleteByIds(expired);
+  await pushSubscriptionRepository.markUsed(delivered);
+  return delivered.length;
+}
@@ -11,3 +11,7 @@ export async function getReadStates(userId: string) {
 export async function incrementMentionCount(userId: string, channelId: string) {
   await readstateRepository.incrementMentionCount(userId, channelId);
 }
+
+export async function incrementMentionCounts(userIds: string[], channelId: string) {
+  await readstateRepository.incrementMentionCounts(userIds, channelId);
+}
@@ -4,12 +4,26 @@ import type { CreateRoleRequest } from "@yxc/types";
 import { invalidateGuildPermissions, invalidatePermissions } from "./permission.service.js";
 import { roleRepository } from "../repositories/role.repository.js";
 import { guildRepository } from "../repositories/guild.repository.js";
+import { dispatchGuild } from "../utils/dispatch.js";
 
-export async function createRole(guildId: string, data: CreateRoleRequest) {
+/**
+ * New roles go on top unless `position` asks to slot them in lower, above @everyone.
+ * Roles shifted up to make room are dispatched as GUILD_ROLE_UPDATE here; the caller
+ * dispatches the new role.
+ */
+export async function createRole(guildId: string, data: CreateRoleRequest & { position?: number }) {
   // Get highest position to put new role above @everyone
   const existing = await roleRepository.findByGuildId(guildId);
   const maxPosition = existing.reduce((max, r) => Math.max(max, r.position), 0);
 
+  let position = maxPosition + 1;
+  let shiftedIds: string[] = [];
+  if (data.position !== undefined && data.position <= maxPosition) {
+    position = Math.max(data.position, 1);
+    await roleRepository.shiftPositions(guildId, position);
+    shiftedIds = existing.filter((r) => r.position >= position).map((r) => r.id);
+  }
+
   const id = generateSnowflake();
   const role = await roleRepository.create({
     id,
@@ -19,9 +33,18 @@ export async function createRole(guildId: string, data: CreateRoleRequest) {
     hoist: data.hoist ?? false,
     permissions: data.permissions ?? "0",
     mentionable: data.mentionable ?? false,
-    position: maxPosition + 1,
+    position,
   });
 
+  if (shiftedIds.length > 0) {
+    // Hierarchy checks compare positions, so cached permissions are stale too
+    await invalidateGuildPermissions(guildId);
+    const shifted = (await roleRepository.findByGuildId(guildId)).filter((r) => shiftedIds.includes(r.id));
+    for (const r of shifted) {
+      await dispatchGuild(guildId, "GUILD_ROLE_UPDATE", { guildId, role: { ...r, createdAt: r.createdAt.toISOString() } });
+    }
+  }
+
   return { ...role, createdAt: role.createdAt.toISOString() };
 }
 
@@ -98,6 +121,30 @@ export async function validateRoleHierarchy(
   }
 }
 
+/** Moderating a member needs a highest role above theirs; the owner can't be moderated */
+export async function validateMemberHierarchy(
+  actorUserId: string,
+  guildId: string,
+  targetUserId: string,
+) {
+  const guild = await guildRepository.findOwnerById(guildId);
+  if (guild && guild.ownerId === targetUserId) throw new ApiError(403, "Cannot moderate the guild owner");
+  if (guild && guild.ownerId === actorUserId) return;
+
+  const [allRoles, actorRoleIds, targetRoleIds] = await Promise.all([
+    roleRepository.findByGuildId(guildId),
+    roleRepository.getMemberRoleIds(actorUserId, guildId),
+    roleRepository.getMemberRoleIds(targetUserId, guildId),
+  ]);
+  const highest = (roleIds: string[]) => allRoles
+    .filter((r) => roleIds.includes(r.id))
+    .reduce((max, r) => Math.max(max, r.position), 0);
+
+  if (highest(actorRoleIds) <= highest(targetRoleIds)) {
+    throw new ApiError(403, "Cannot moderate a member with an equal or higher role");
+  }
+}
+
 export async function addRoleToMember(
   guildId: string,
   userId: string,
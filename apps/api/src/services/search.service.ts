@@ -0,0 +1,276 @@
+import { ChannelType } from "@yxc/types";
+import { PermissionFlags } from "@yxc/permissions";
+import { ApiError } from "./auth.service.js";
+import { isMember } from "./guild.service.js";
+import * as permissionService from "./permission.service.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { threadRepository } from "../repositories/thread.repository.js";
+import {
+  searchRepository,
+  type MessageSearchFilters,
+  type SearchHasFilter,
+} from "../repositories/search.repository.js";
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 64;
+const MAX_TOKENS_PER_MESSAGE = 256;
+const MAX_QUERY_TERMS = 16;
+
+const HAS_VALUES = new Set<SearchHasFilter>(["attachment", "link", "embed", "poll"]);
+const THREAD_TYPES = new Set<number>([
+  ChannelType.PUBLIC_THREAD,
+  ChannelType.PRIVATE_THREAD,
+  ChannelType.ANNOUNCEMENT_THREAD,
+]);
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  authorIds: string[];
+  channelIds: string[];
+  mentionIds: string[];
+  has: SearchHasFilter[];
+  before?: Date;
+  after?: Date;
+  pinned?: boolean;
+}
+
+/**
+ * Split text into normalized index tokens: lowercased runs of letters/digits.
+ * Shared by indexing and querying so both sides agree on what a word is.
+ */
+export function tokenize(text: string): string[] {
+  const words = text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return words.filter((w) => w.length >= MIN_TOKEN_LENGTH && w.length <= MAX_TOKEN_LENGTH);
+}
+
+// <@123>, <@!123>, <#123> or a bare ID
+function parseSnowflake(value: string): string {
+  return value.replace(/^<[@#]!?(\d+)>$/, "$1");
+}
+
+function parseDate(operator: string, value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ApiError(400, `Invalid date for ${operator}: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Parse a search string into free-text terms and operator filters.
+ *
+ * Supported operators: `from:`, `in:`, `mentions:`, `has:attachment|link|embed|poll`,
+ * `before:`, `after:` (any Date-parseable value) and `pinned:true|false`.
+ * Quoted text must match as an exact phrase. Unknown operators are searched as text.
+ */
+export function parseSearchQuery(q: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    authorIds: [],
+    channelIds: [],
+    mentionIds: [],
+    has: [],
+  };
+  const terms = new Set<string>();
+
+  const pattern = /(\w+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+  for (const match of q.matchAll(pattern)) {
+    const [raw, operator, rawValue, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) parsed.phrases.push(phrase);
+      for (const t of tokenize(phrase)) terms.add(t);
+      continue;
+    }
+    if (word !== undefined) {
+      for (const t of tokenize(word)) terms.add(t);
+      continue;
+    }
+
+    const value = rawValue!.replace(/^"|"$/g, "");
+    switch (operator!.toLowerCase()) {
+      case "from":
+        parsed.authorIds.push(parseSnowflake(value));
+        break;
+      case "in":
+        parsed.channelIds.push(parseSnowflake(value));
+        break;
+      case "mentions":
+        parsed.mentionIds.push(parseSnowflake(value));
+        break;
+      case "has": {
+        const kind = value.toLowerCase() as SearchHasFilter;
+        if (!HAS_VALUES.has(kind)) {
+          throw new ApiError(400, `Unknown has: filter: ${value}`);
+        }
+        if (!parsed.has.includes(kind)) parsed.has.push(kind);
+        break;
+      }
+      case "before":
+        parsed.before = parseDate("before:", value);
+        break;
+      case "after":
+        parsed.after = parseDate("after:", value);
+        break;
+      case "pinned":
+        parsed.pinned = value.toLowerCase() === "true";
+        break;
+      default:
+        for (const t of tokenize(raw)) terms.add(t);
+    }
+  }
+
+  parsed.terms = [...terms].slice(0, MAX_QUERY_TERMS);
+  return parsed;
+}
+
+/**
+ * Channel IDs in the guild whose history the user can read.
+ * Threads inherit visibility from their parent channel; private threads also need
+ * the user to have joined them, or MANAGE_THREADS in the parent.
+ */
+async function getReadableChannelIds(userId: string, guildId: string): Promise<string[]> {
+  const channels = await channelRepository.findByGuildId(guildId);
+  const readable = new Set<string>();
+  const managesThreads = new Set<string>();
+
+  const candidates = channels.filter((c) => c.type !== ChannelType.GUILD_CATEGORY && !THREAD_TYPES.has(c.type));
+  await Promise.all(candidates.map(async (channel) => {
+    const perms = await permissionService.getChannelPermissions(userId, guildId, channel.id);
+    if (perms.hasAll(PermissionFlags.VIEW_CHANNEL, PermissionFlags.READ_MESSAGE_HISTORY)) {
+      readable.add(channel.id);
+      if (perms.has(PermissionFlags.MANAGE_THREADS)) managesThreads.add(channel.id);
+    }
+  }));
+
+  const joined = channels.some((c) => c.type === ChannelType.PRIVATE_THREAD)
+    ? new Set(await threadRepository.findJoinedPrivateThreadIds(userId, guildId))
+    : new Set<string>();
+  for (const channel of channels) {
+    if (!THREAD_TYPES.has(channel.type) || !channel.parentId || !readable.has(channel.parentId)) continue;
+    if (channel.type === ChannelType.PRIVATE_THREAD && !joined.has(channel.id) && !managesThreads.has(channel.parentId)) {
+      continue;
+    }
+    readable.add(channel.id);
+  }
+
+  return [...readable];
+}
+
+/**
+ * Search a guild's messages, only returning results from channels the caller can read.
+ */
+export async function searchGuildMessages(
+  userId: string,
+  guildId: string,
+  options: {
+    q: string;
+    channelId?: string;
+    authorId?: string;
+    before?: string;
+    sort: "relevance" | "timestamp";
+    order: "asc" | "desc";
+    limit: number;
+    offset: number;
+  }
+) {
+  if (!(await isMember(userId, guildId))) {
+    throw new ApiError(403, "Not a member of this guild");
+  }
+
+  const parsed = parseSearchQuery(options.q);
+  if (options.channelId) parsed.channelIds.push(options.channelId);
+  if (options.authorId) parsed.authorIds.push(options.authorId);
+
+  const hasFilters = parsed.phrases.length > 0
+    || parsed.authorIds.length > 0
+    || parsed.channelIds.length > 0
+    || parsed.mentionIds.length > 0
+    || parsed.has.length > 0
+    || parsed.before !== undefined
+    || parsed.after !== undefined
+    || parsed.pinned !== undefined;
+  if (parsed.terms.length === 0 && !hasFilters) {
+    return { results: [], totalCount: 0 };
+  }
+
+  let channelIds = await getReadableChannelIds(userId, guildId);
+  if (parsed.channelIds.length > 0) {
+    // Unreadable channels named by in: simply match nothing
+    const requested = new Set(parsed.channelIds);
+    channelIds = channelIds.filter((id) => requested.has(id));
+  }
+  if (channelIds.length === 0) {
+    return { results: [], totalCount: 0 };
+  }
+
+  const filters: MessageSearchFilters = {
+    tokens: parsed.terms,
+    phrases: parsed.phrases,
+    channelIds,
+    authorIds: parsed.authorIds,
+    mentionIds: parsed.mentionIds,
+    has: parsed.has,
+    before: parsed.before,
+    after: parsed.after,
+    beforeId: options.before,
+    pinned: parsed.pinned,
+  };
+
+  const [results, totalCount] = await Promise.all([
+    searchRepository.searchGuildMessages(guildId, filters, {
+      sort: options.sort,
+      order: options.order,
+      limit: options.limit,
+      offset: options.offset,
+    }),
+    searchRepository.countGuildMessages(guildId, filters),
+  ]);
+
+  return {
+    results: results.map((r) => ({
+      ...r,
+      score: Number(r.score),
+      editedTimestamp: r.editedTimestamp?.toISOString() ?? null,
+      createdAt: r.createdAt.toISOString(),
+    })),
+    totalCount,
+  };
+}
+
+/**
+ * (Re)index a message's content. DM messages are not searchable and are skipped.
+ * Pass `guildId` when the caller already has the channel to avoid a lookup.
+ */
+export async function indexMessage(
+  message: { id: string; channelId: string; content: string },
+  guildId?: string | null
+) {
+  if (guildId === undefined) {
+    const channel = await channelRepository.findById(message.channelId);
+    guildId = channel?.guildId ?? null;
+  }
+  if (!guildId) return;
+
+  const counts = new Map<string, number>();
+  for (const token of tokenize(message.content)) {
+    if (!counts.has(token) && counts.size >= MAX_TOKENS_PER_MESSAGE) continue;
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  await searchRepository.replaceMessageTokens(message.id, guildId, message.channelId, counts);
+}
+
+/**
+ * Index guild messages written before the search index existed.
+ * Returns the last message ID processed so the caller can resume from it.
+ */
+export async function backfillIndex(afterId: string, batchSize = 500): Promise<string | null> {
+  const messages = await searchRepository.findUnindexedMessages(afterId, batchSize);
+  for (const message of messages) {
+    await indexMessage(message, message.guildId);
+  }
+  return messages.length > 0 ? messages[messages.length - 1]!.id : null;
+}
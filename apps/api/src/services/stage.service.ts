@@ -0,0 +1,93 @@
+import { generateSnowflake } from "@yxc/snowflake";
+import { ChannelType } from "@yxc/types";
+import { ApiError } from "./auth.service.js";
+import { stageInstanceRepository } from "../repositories/stage-instance.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { eventRepository } from "../repositories/event.repository.js";
+import { dispatchGuild } from "../utils/dispatch.js";
+
+export const StageInstancePrivacyLevel = {
+  PUBLIC: 1,
+  GUILD_ONLY: 2,
+} as const;
+
+type StageInstanceRow = NonNullable<Awaited<ReturnType<typeof stageInstanceRepository.findById>>>;
+
+export function formatStageInstance(instance: StageInstanceRow) {
+  return {
+    id: instance.id,
+    guildId: instance.guildId,
+    channelId: instance.channelId,
+    topic: instance.topic,
+    privacyLevel: instance.privacyLevel,
+    discoverableDisabled: instance.discoverableDisabled,
+    guildScheduledEventId: instance.guildScheduledEventId ?? undefined,
+  };
+}
+
+export async function getStageInstance(channelId: string) {
+  const instance = await stageInstanceRepository.findByChannelId(channelId);
+  if (!instance) throw new ApiError(404, "Stage instance not found");
+  return formatStageInstance(instance);
+}
+
+export async function getGuildStageInstances(guildId: string) {
+  const instances = await stageInstanceRepository.findByGuildId(guildId);
+  return instances.map(formatStageInstance);
+}
+
+/**
+ * Start a stage in a stage channel. Only one stage can be live per channel; it ends
+ * when deleted or when the last participant leaves.
+ */
+export async function createStageInstance(data: {
+  channelId: string;
+  topic: string;
+  privacyLevel?: number;
+  guildScheduledEventId?: string;
+}) {
+  const channel = await channelRepository.findById(data.channelId);
+  if (!channel?.guildId) throw new ApiError(404, "Channel not found");
+  if (channel.type !== ChannelType.GUILD_STAGE_VOICE) {
+    throw new ApiError(400, "Stage instances can only be created in stage channels");
+  }
+  if (await stageInstanceRepository.findByChannelId(channel.id)) {
+    throw new ApiError(400, "A stage instance already exists for this channel");
+  }
+
+  if (data.guildScheduledEventId) {
+    const event = await eventRepository.findById(data.guildScheduledEventId);
+    if (!event || event.guildId !== channel.guildId) throw new ApiError(400, "Unknown scheduled event");
+  }
+
+  const instance = await stageInstanceRepository.create({
+    id: generateSnowflake(),
+    guildId: channel.guildId,
+    channelId: channel.id,
+    topic: data.topic,
+    privacyLevel: data.privacyLevel ?? StageInstancePrivacyLevel.GUILD_ONLY,
+    guildScheduledEventId: data.guildScheduledEventId ?? null,
+  });
+  return formatStageInstance(instance);
+}
+
+export async function updateStageInstance(channelId: string, data: { topic?: string; privacyLevel?: number }) {
+  const instance = await stageInstanceRepository.findByChannelId(channelId);
+  if (!instance) throw new ApiError(404, "Stage instance not found");
+  return formatStageInstance(await stageInstanceRepository.update(instance.id, data));
+}
+
+export async function deleteStageInstance(channelId: string) {
+  const instance = await stageInstanceRepository.findByChannelId(channelId);
+  if (!instance) throw new ApiError(404, "Stage instance not found");
+  await stageInstanceRepository.delete(instance.id);
+  return formatStageInstance(instance);
+}
+
+/** End the stage in `channelId`, if one is live. Used when the channel empties out. */
+export async function endStage(guildId: string, channelId: string) {
+  const instance = await stageInstanceRepository.findByChannelId(channelId);
+  if (!instance) return;
+  await stageInstanceRepository.delete(instance.id);
+  await dispatchGuild(guildId, "STAGE_INSTANCE_DELETE", { id: instance.id, guildId, channelId });
+}
@@ -3,6 +3,10 @@ import { ApiError } from "./auth.service.js";
 import { ChannelType } from "@yxc/types";
 import { threadRepository } from "../repositories/thread.repository.js";
 import { channelRepository } from "../repositories/channel.repository.js";
+import { invalidatePermissions } from "./permission.service.js";
+
+const DEFAULT_AUTO_ARCHIVE_DURATION = 1440;
+const ARCHIVE_BATCH_SIZE = 500;
 
 export async function createThread(
   parentChannelId: string,
@@ -19,6 +23,7 @@ export async function createThread(
 
   const threadId = generateSnowflake();
   const type = options?.type ?? ChannelType.PUBLIC_THREAD;
+  const autoArchiveDuration = options?.autoArchiveDuration ?? DEFAULT_AUTO_ARCHIVE_DURATION;
 
   await threadRepository.createThreadTransaction(
     {
@@ -32,7 +37,8 @@ export async function createThread(
     },
     {
       channelId: threadId,
-      autoArchiveDuration: options?.autoArchiveDuration ?? 1440,
+      autoArchiveDuration,
+      autoArchiveAt: new Date(Date.now() + autoArchiveDuration * 60_000),
     },
     creatorId,
   );
@@ -87,6 +93,13 @@ export async function updateThread(
   if (data.autoArchiveDuration !== undefined) {
     metadataUpdate.autoArchiveDuration = data.autoArchiveDuration;
   }
+  // Unarchiving or changing the duration restarts the idle clock
+  if (data.archived === false || data.autoArchiveDuration !== undefined) {
+    const duration = data.autoArchiveDuration
+      ?? (await threadRepository.findMetadata(threadId))?.autoArchiveDuration
+      ?? DEFAULT_AUTO_ARCHIVE_DURATION;
+    metadataUpdate.autoArchiveAt = new Date(Date.now() + duration * 60_000);
+  }
   if (data.locked !== undefined) metadataUpdate.locked = data.locked;
   if (data.invitable !== undefined) metadataUpdate.invitable = data.invitable;
 
@@ -97,16 +110,41 @@ export async function updateThread(
   return getThread(threadId);
 }
 
+/**
+ * Archive threads that have gone autoArchiveDuration minutes without a message.
+ * Returns the archived threads so the caller can dispatch THREAD_UPDATE.
+ */
+export async function archiveIdleThreads(now = new Date()) {
+  const idle = await threadRepository.findIdle(now, ARCHIVE_BATCH_SIZE);
+  const archived = [];
+  for (const { channelId } of idle) {
+    if (!(await threadRepository.archiveIdle(channelId, now))) continue;
+    const thread = await getThread(channelId);
+    if (thread) archived.push(thread);
+  }
+  return archived;
+}
+
 export async function deleteThread(threadId: string) {
   await threadRepository.deleteThread(threadId);
 }
 
+/** Gateways cache private thread membership with the member's permissions; drop it when it changes */
+async function invalidatePrivateThreadAccess(threadId: string, userId: string) {
+  const thread = await threadRepository.findById(threadId);
+  if (thread?.guildId && thread.type === ChannelType.PRIVATE_THREAD) {
+    await invalidatePermissions(userId, thread.guildId);
+  }
+}
+
 export async function addThreadMember(threadId: string, userId: string) {
   await threadRepository.addMember(threadId, userId);
+  await invalidatePrivateThreadAccess(threadId, userId);
 }
 
 export async function removeThreadMember(threadId: string, userId: string) {
   await threadRepository.removeMember(threadId, userId);
+  await invalidatePrivateThreadAccess(threadId, userId);
 }
 
 export async function getThreadMembers(threadId: string) {
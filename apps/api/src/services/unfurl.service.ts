@@ -0,0 +1,349 @@
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import { generateSnowflake } from "@yxc/snowflake";
+import { MessageFlags } from "@yxc/types";
+import { redis } from "../config/redis.js";
+import { messageRepository } from "../repositories/message.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { dispatchGuild, dispatchUser } from "../utils/dispatch.js";
+import { isBlockedIpLiteral, safeLookup } from "../utils/ssrf.js";
+
+const QUEUE_KEY = "zent:unfurl:queue";
+const CACHE_PREFIX = "unfurl:";
+const CACHE_TTL = 3600; // 1 hour
+const NEGATIVE_CACHE_TTL = 600; // failed lookups are retried after 10 minutes
+
+const MAX_URLS_PER_MESSAGE = 5;
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+const MAX_HTML_BYTES = 1024 * 1024;
+const MAX_OEMBED_BYTES = 64 * 1024;
+const USER_AGENT = "Mozilla/5.0 (compatible; ZentBot/1.0; +https://zent.chat)";
+
+export interface UnfurledEmbed {
+  type: "link" | "article" | "image" | "video";
+  url: string;
+  title?: string;
+  description?: string;
+  color?: number;
+  image?: { url: string };
+  thumbnail?: { url: string };
+  video?: { url: string; width?: number; height?: number };
+  provider?: { name?: string; url?: string };
+  author?: { name: string; url?: string };
+}
+
+interface FetchResult {
+  url: string;
+  contentType: string;
+  body: Buffer;
+}
+
+interface FetchOptions {
+  maxBytes: number;
+  accept: string;
+  allowPrivateAddresses?: boolean;
+}
+
+function fetchOnce(url: URL, options: FetchOptions, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, {
+      method: "GET",
+      headers: { "User-Agent": USER_AGENT, Accept: options.accept },
+      lookup: options.allowPrivateAddresses ? undefined : safeLookup,
+      signal,
+    }, resolve);
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/**
+ * GET a public URL with SSRF protections: http(s) only, private addresses refused,
+ * redirects re-validated and capped, total time capped, and body truncated at `maxBytes`.
+ */
+async function safeFetch(rawUrl: string, options: FetchOptions): Promise<FetchResult | null> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = new URL(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    if (url.username || url.password) return null;
+    if (!options.allowPrivateAddresses && isBlockedIpLiteral(url.hostname)) return null;
+
+    const res = await fetchOnce(url, options, signal);
+    const status = res.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && res.headers.location) {
+      res.resume();
+      if (redirects >= MAX_REDIRECTS) return null;
+      url = new URL(res.headers.location, url);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      res.resume();
+      return null;
+    }
+
+    const contentType = String(res.headers["content-type"] ?? "").split(";")[0]!.trim().toLowerCase();
+
+    // Images are identified from headers alone; never download the bytes
+    if (contentType.startsWith("image/")) {
+      res.destroy();
+      return { url: url.toString(), contentType, body: Buffer.alloc(0) };
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of res) {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size >= options.maxBytes) {
+        res.destroy();
+        break;
+      }
+    }
+    return { url: url.toString(), contentType, body: Buffer.concat(chunks).subarray(0, options.maxBytes) };
+  }
+}
+
+// ── Metadata parsing ──
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attrs[m[1]!.toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+function truncate(text: string | undefined, max: number): string | undefined {
+  if (!text) return undefined;
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  if (!trimmed) return undefined;
+  return trimmed.length > max ? `${trimmed.slice(0, max - 1)}…` : trimmed;
+}
+
+function resolveUrl(value: string | undefined, base: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    const resolved = new URL(value, base);
+    return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extract OpenGraph, Twitter card and basic HTML metadata from a page's markup.
+ */
+export function parseHtmlMetadata(html: string, pageUrl: string) {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.property ?? attrs.name)?.toLowerCase();
+    if (key && attrs.content !== undefined && !(key in meta)) meta[key] = attrs.content;
+  }
+
+  let oembedUrl: string | undefined;
+  for (const [tag] of html.matchAll(/<link\s[^>]*>/gi)) {
+    const attrs = parseAttributes(tag);
+    if (attrs.type?.toLowerCase() === "application/json+oembed") {
+      oembedUrl = resolveUrl(attrs.href, pageUrl);
+      break;
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+  const colorHex = meta["theme-color"]?.match(/^#([0-9a-f]{6})$/i)?.[1];
+
+  return {
+    title: meta["og:title"] ?? meta["twitter:title"] ?? (titleTag ? decodeEntities(titleTag) : undefined),
+    description: meta["og:description"] ?? meta["twitter:description"] ?? meta["description"],
+    siteName: meta["og:site_name"],
+    ogType: meta["og:type"],
+    image: resolveUrl(meta["og:image"] ?? meta["og:image:url"] ?? meta["twitter:image"], pageUrl),
+    largeImage: meta["twitter:card"] === "summary_large_image",
+    video: resolveUrl(meta["og:video:secure_url"] ?? meta["og:video"] ?? meta["og:video:url"], pageUrl),
+    videoWidth: Number(meta["og:video:width"]) || undefined,
+    videoHeight: Number(meta["og:video:height"]) || undefined,
+    color: colorHex ? parseInt(colorHex, 16) : undefined,
+    oembedUrl,
+  };
+}
+
+async function fetchOEmbed(url: string, allowPrivateAddresses?: boolean) {
+  const res = await safeFetch(url, { maxBytes: MAX_OEMBED_BYTES, accept: "application/json", allowPrivateAddresses });
+  if (!res) return null;
+  try {
+    return JSON.parse(res.body.toString("utf8")) as Record<string, any>;
+  } catch {
+    return null;
+  }
+}
+
+async function buildEmbed(url: string, allowPrivateAddresses?: boolean): Promise<UnfurledEmbed | null> {
+  const res = await safeFetch(url, {
+    maxBytes: MAX_HTML_BYTES,
+    accept: "text/html,application/xhtml+xml,image/*;q=0.8",
+    allowPrivateAddresses,
+  });
+  if (!res) return null;
+
+  if (res.contentType.startsWith("image/")) {
+    return { type: "image", url, thumbnail: { url: res.url } };
+  }
+  if (res.contentType !== "text/html" && res.contentType !== "application/xhtml+xml") {
+    return null;
+  }
+
+  const page = parseHtmlMetadata(res.body.toString("utf8"), res.url);
+  const oembed = page.oembedUrl ? await fetchOEmbed(page.oembedUrl, allowPrivateAddresses) : null;
+
+  const title = truncate(page.title ?? oembed?.title, 256);
+  const description = truncate(page.description, 350);
+  const image = page.image ?? resolveUrl(oembed?.thumbnail_url, res.url);
+  if (!title && !description && !image) return null;
+
+  const embed: UnfurledEmbed = {
+    type: page.video ? "video" : page.ogType === "article" ? "article" : "link",
+    url,
+    title,
+    description,
+    color: page.color,
+  };
+  if (image) {
+    if (page.largeImage) embed.image = { url: image };
+    else embed.thumbnail = { url: image };
+  }
+  if (page.video) {
+    embed.video = { url: page.video, width: page.videoWidth, height: page.videoHeight };
+  }
+  const providerName = page.siteName ?? oembed?.provider_name;
+  if (providerName) {
+    embed.provider = { name: truncate(providerName, 256), url: resolveUrl(oembed?.provider_url, res.url) };
+  }
+  if (oembed?.author_name) {
+    embed.author = { name: truncate(String(oembed.author_name), 256)!, url: resolveUrl(oembed.author_url, res.url) };
+  }
+  return embed;
+}
+
+/**
+ * Unfurl a single URL, caching the result (including failures) in Redis.
+ * `allowPrivateAddresses` disables the SSRF address check and exists for local fixtures only.
+ */
+export async function unfurlUrl(
+  url: string,
+  options?: { allowPrivateAddresses?: boolean }
+): Promise<UnfurledEmbed | null> {
+  const cacheKey = `${CACHE_PREFIX}${crypto.createHash("sha1").update(url).digest("hex")}`;
+  const cached = await redis.get(cacheKey);
+  if (cached) return JSON.parse(cached);
+
+  let embed: UnfurledEmbed | null = null;
+  try {
+    embed = await buildEmbed(url, options?.allowPrivateAddresses);
+  } catch {
+    embed = null;
+  }
+
+  await redis.setex(cacheKey, embed ? CACHE_TTL : NEGATIVE_CACHE_TTL, JSON.stringify(embed));
+  return embed;
+}
+
+/**
+ * Pull unfurlable URLs out of message content. Links wrapped in `<...>` are
+ * suppressed, trailing punctuation is dropped, and duplicates are removed.
+ */
+export function extractUrls(content: string): string[] {
+  const urls = new Set<string>();
+  for (const [raw] of content.matchAll(/(?<!<)https?:\/\/[^\s<>]+/gi)) {
+    const url = raw.replace(/[)\].,!?;:'"]+$/, "");
+    try {
+      urls.add(new URL(url).toString());
+    } catch { /* not a valid URL */ }
+    if (urls.size >= MAX_URLS_PER_MESSAGE) break;
+  }
+  return [...urls];
+}
+
+// ── Worker queue ──
+
+/**
+ * Queue a message for unfurling if it has links and embeds are not suppressed.
+ */
+export async function enqueueMessage(message: { id: string; content: string; flags?: number }) {
+  if ((message.flags ?? 0) & MessageFlags.SUPPRESS_EMBEDS) return;
+  if (extractUrls(message.content).length === 0) return;
+  await redis.lpush(QUEUE_KEY, message.id);
+}
+
+/**
+ * Unfurl one message and store its link embeds. Re-reads the message so edits and
+ * SUPPRESS_EMBEDS changes made while it was queued are respected.
+ */
+export async function unfurlMessage(messageId: string, options?: { allowPrivateAddresses?: boolean }) {
+  const message = await messageRepository.findById(messageId);
+  if (!message || message.flags & MessageFlags.SUPPRESS_EMBEDS) return null;
+
+  const urls = extractUrls(message.content);
+  const results = await Promise.all(urls.map((url) => unfurlUrl(url, options)));
+  const embeds = results.filter((e): e is UnfurledEmbed => e !== null);
+
+  await messageRepository.replaceLinkEmbeds(messageId, embeds.map((e) => ({
+    id: generateSnowflake(),
+    messageId,
+    type: e.type,
+    title: e.title ?? null,
+    description: e.description ?? null,
+    url: e.url,
+    color: e.color ?? null,
+    image: e.image ?? null,
+    thumbnail: e.thumbnail ?? null,
+    video: e.video ?? null,
+    provider: e.provider ?? null,
+    author: e.author ?? null,
+  })));
+  if (embeds.length === 0) return embeds;
+
+  const channel = await channelRepository.findById(message.channelId);
+  const update = { id: messageId, channelId: message.channelId, guildId: channel?.guildId ?? undefined, embeds };
+  if (channel?.guildId) {
+    await dispatchGuild(channel.guildId, "MESSAGE_UPDATE", update);
+  } else {
+    const participants = await channelRepository.findDMParticipantsByChannelIds([message.channelId]);
+    await Promise.all(participants.map((p) => dispatchUser(p.userId, "MESSAGE_UPDATE", update)));
+  }
+  return embeds;
+}
+
+/**
+ * Drain up to `batchSize` queued messages. Returns how many were processed.
+ */
+export async function processQueue(batchSize = 10): Promise<number> {
+  let processed = 0;
+  for (; processed < batchSize; processed++) {
+    const messageId = await redis.rpop(QUEUE_KEY);
+    if (!messageId) break;
+    try {
+      await unfurlMessage(messageId);
+    } catch (err) {
+      console.error(`Failed to unfurl message ${messageId}:`, err);
+    }
+  }
+  return processed;
+}
@@ -0,0 +1,259 @@
+import { generateSnowflake } from "@yxc/snowflake";
+import { PermissionFlags } from "@yxc/permissions";
+import { config } from "../config/config.js";
+import { ApiError } from "./auth.service.js";
+import * as fileService from "./file.service.js";
+import * as permissionService from "./permission.service.js";
+import { uploadRepository } from "../repositories/upload.repository.js";
+import { guildRepository } from "../repositories/guild.repository.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { messageRepository } from "../repositories/message.repository.js";
+
+// S3 requires every part except the last to be at least 5MB
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ATTACHMENTS = 10;
+
+type UploadSession = NonNullable<Awaited<ReturnType<typeof uploadRepository.findById>>>;
+
+/**
+ * Per-file upload limit for a guild (or DMs when `guildId` is null). Guilds may set
+ * their own `maxUploadSize`, bounded by the platform ceiling.
+ */
+export async function getMaxUploadSize(guildId: string | null): Promise<number> {
+  if (!guildId) return config.uploads.defaultMaxFileSize;
+  const guild = await guildRepository.findById(guildId);
+  return Math.min(guild?.maxUploadSize ?? config.uploads.defaultMaxFileSize, config.uploads.maxFileSize);
+}
+
+async function requireChannelAccess(userId: string, channelId: string) {
+  const channel = await channelRepository.findById(channelId);
+  if (!channel) throw new ApiError(404, "Channel not found");
+
+  if (channel.guildId) {
+    await permissionService.requireChannelPermission(
+      userId,
+      channel.guildId,
+      channelId,
+      PermissionFlags.VIEW_CHANNEL | PermissionFlags.ATTACH_FILES
+    );
+  } else if (!(await channelRepository.findDMRecipient(channelId, userId))) {
+    throw new ApiError(403, "Not a participant of this DM channel");
+  }
+  return channel;
+}
+
+function partCount(session: Pick<UploadSession, "size" | "chunkSize">) {
+  return Math.max(1, Math.ceil(session.size / session.chunkSize));
+}
+
+function expectedPartSize(session: UploadSession, partNumber: number) {
+  return partNumber < partCount(session) ? session.chunkSize : session.size - session.chunkSize * (partNumber - 1);
+}
+
+async function formatSession(session: UploadSession) {
+  const parts = await uploadRepository.findParts(session.id);
+  return {
+    id: session.id,
+    channelId: session.channelId,
+    filename: session.filename,
+    contentType: session.contentType,
+    size: session.size,
+    sha256: session.sha256,
+    status: session.status,
+    chunkSize: session.chunkSize,
+    partCount: partCount(session),
+    uploadedParts: parts.map((p) => p.partNumber),
+    expiresAt: session.expiresAt.toISOString(),
+  };
+}
+
+async function getOwnSession(userId: string, uploadId: string) {
+  const session = await uploadRepository.findById(uploadId);
+  if (!session || session.userId !== userId) throw new ApiError(404, "Upload not found");
+  return session;
+}
+
+async function getPendingSession(userId: string, uploadId: string) {
+  const session = await getOwnSession(userId, uploadId);
+  if (session.status !== "pending") throw new ApiError(409, "Upload is already complete");
+  if (session.expiresAt.getTime() < Date.now()) throw new ApiError(410, "Upload session has expired");
+  return session;
+}
+
+export async function createSession(
+  userId: string,
+  data: { channelId: string; filename: string; size: number; contentType: string; sha256: string }
+) {
+  const channel = await requireChannelAccess(userId, data.channelId);
+  fileService.assertUploadAllowed(data.size, data.contentType, await getMaxUploadSize(channel.guildId));
+
+  const id = generateSnowflake();
+  const sha256 = data.sha256.toLowerCase();
+  const objectKey = fileService.attachmentObjectKey(data.channelId, id, sha256, data.filename);
+  const s3UploadId = await fileService.createMultipartUpload(objectKey, data.contentType, data.filename);
+
+  const session = await uploadRepository.create({
+    id,
+    userId,
+    channelId: data.channelId,
+    filename: data.filename,
+    contentType: data.contentType,
+    size: data.size,
+    sha256,
+    chunkSize: CHUNK_SIZE,
+    objectKey,
+    s3UploadId,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  return formatSession(session);
+}
+
+export async function getSession(userId: string, uploadId: string) {
+  return formatSession(await getOwnSession(userId, uploadId));
+}
+
+/**
+ * Store one chunk. Re-sending a part replaces it, so clients can simply retry
+ * whatever `uploadedParts` doesn't list after a dropped connection.
+ */
+export async function uploadPart(userId: string, uploadId: string, partNumber: number, data: Buffer) {
+  const session = await getPendingSession(userId, uploadId);
+
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount(session)) {
+    throw new ApiError(400, `Part number must be between 1 and ${partCount(session)}`);
+  }
+  const expected = expectedPartSize(session, partNumber);
+  if (data.length !== expected) {
+    throw new ApiError(400, `Part ${partNumber} must be exactly ${expected} bytes`);
+  }
+
+  const etag = await fileService.uploadPart(session.objectKey, session.s3UploadId, partNumber, data);
+  await uploadRepository.upsertPart(session.id, partNumber, etag, data.length);
+  return { partNumber, size: data.length };
+}
+
+/**
+ * Assemble the parts and verify the result against the declared size and SHA-256.
+ * A mismatch discards the upload; the client has to start a new session.
+ */
+export async function completeSession(userId: string, uploadId: string) {
+  const session = await getPendingSession(userId, uploadId);
+
+  const parts = await uploadRepository.findParts(session.id);
+  const missing = [];
+  for (let n = 1; n <= partCount(session); n++) {
+    if (!parts.some((p) => p.partNumber === n)) missing.push(n);
+  }
+  if (missing.length > 0) {
+    throw new ApiError(400, `Missing parts: ${missing.join(", ")}`);
+  }
+
+  await fileService.completeMultipartUpload(session.objectKey, session.s3UploadId, parts);
+
+  const valid = await fileService.verifyStoredFile(session.objectKey, session);
+  if (!valid) {
+    await fileService.deleteFile(session.objectKey);
+    await uploadRepository.delete(session.id);
+    throw new ApiError(400, "Uploaded content does not match the declared size, hash or type");
+  }
+
+  const media = await fileService.describeStoredFile(session.objectKey, session.contentType);
+  const completed = await uploadRepository.transitionStatus(session.id, "pending", "completed", {
+    width: media?.width ?? null,
+    height: media?.height ?? null,
+    blurhash: media?.blurhash ?? null,
+  });
+  // A concurrent request completed it first
+  if (!completed) throw new ApiError(409, "Upload is already complete");
+  return formatSession((await uploadRepository.findById(session.id))!);
+}
+
+export async function cancelSession(userId: string, uploadId: string) {
+  const session = await getOwnSession(userId, uploadId);
+  if (session.status === "attached") throw new ApiError(409, "Upload is attached to a message");
+
+  if (session.status === "pending") {
+    await fileService.abortMultipartUpload(session.objectKey, session.s3UploadId).catch(() => {});
+  } else {
+    await fileService.deleteFile(session.objectKey);
+  }
+  await uploadRepository.delete(session.id);
+}
+
+/**
+ * Reserve completed uploads for a new message in `channelId`. Each upload moves to
+ * "attached" atomically, so one upload can't end up on two messages; if any claim
+ * fails the ones already taken are released. Call `attachClaimedUploads` once the
+ * message exists.
+ */
+export async function claimUploads(userId: string, channelId: string, uploadIds: string[]) {
+  const ids = [...new Set(uploadIds)];
+  if (ids.length > MAX_ATTACHMENTS) {
+    throw new ApiError(400, `A message can have at most ${MAX_ATTACHMENTS} attachments`);
+  }
+
+  const claimed: UploadSession[] = [];
+  try {
+    for (const id of ids) {
+      const session = await uploadRepository.findById(id);
+      if (!session || session.userId !== userId) throw new ApiError(400, `Unknown upload ${id}`);
+      if (session.channelId !== channelId) throw new ApiError(400, `Upload ${id} belongs to another channel`);
+      if (!(await uploadRepository.transitionStatus(id, "completed", "attached"))) {
+        throw new ApiError(400, `Upload ${id} is not complete or is already attached`);
+      }
+      claimed.push(session);
+    }
+  } catch (err) {
+    await Promise.all(claimed.map((s) => uploadRepository.transitionStatus(s.id, "attached", "completed")));
+    throw err;
+  }
+  return claimed;
+}
+
+/** Release claimed uploads when the message they were meant for could not be created */
+export async function releaseUploads(uploads: UploadSession[]) {
+  await Promise.all(uploads.map((s) => uploadRepository.transitionStatus(s.id, "attached", "completed")));
+}
+
+export async function attachClaimedUploads(messageId: string, uploads: UploadSession[]) {
+  if (uploads.length === 0) return;
+  await messageRepository.createAttachments(
+    uploads.map((s) => {
+      const url = fileService.attachmentUrl(s.channelId, s.id, s.filename);
+      return {
+        id: s.id,
+        messageId,
+        filename: s.filename,
+        size: s.size,
+        url,
+        proxyUrl: url,
+        contentType: s.contentType,
+        width: s.width,
+        height: s.height,
+        blurhash: s.blurhash,
+      };
+    })
+  );
+  await Promise.all(uploads.map((s) => uploadRepository.update(s.id, { messageId })));
+}
+
+/**
+ * Abort expired sessions that never made it onto a message. Returns how many were removed.
+ */
+export async function cleanupExpiredSessions(batchSize = 100): Promise<number> {
+  const expired = await uploadRepository.findExpired(new Date(), batchSize);
+  for (const session of expired) {
+    try {
+      if (session.status === "pending") {
+        await fileService.abortMultipartUpload(session.objectKey, session.s3UploadId);
+      } else {
+        await fileService.deleteFile(session.objectKey);
+      }
+    } catch {
+      // Already gone from S3; still drop the row
+    }
+    await uploadRepository.delete(session.id);
+  }
+  return expired.length;
+}
@@ -0,0 +1,443 @@
+import { ChannelType } from "@yxc/types";
+import type { VoiceState } from "@yxc/types";
+import { PermissionFlags } from "@yxc/permissions";
+import { redis } from "../config/redis.js";
+import { config } from "../config/config.js";
+import { ApiError } from "./auth.service.js";
+import * as permissionService from "./permission.service.js";
+import * as stageService from "./stage.service.js";
+import { channelRepository } from "../repositories/channel.repository.js";
+import { memberRepository } from "../repositories/member.repository.js";
+import { dispatchGuild, dispatchUser } from "../utils/dispatch.js";
+
+/**
+ * Authoritative voice state. Who is in which channel, server mute/deaf and stage
+ * suppression are decided here and kept in Redis so every API and gateway pod
+ * shares one view; the media server only carries audio and video.
+ *
+ *   voice:guild:{guildId}  hash of userId -> StoredVoiceState JSON
+ *   voice:user:{userId}    guild the user is connected in (one voice connection per user)
+ *   voice:connected        "{guildId}:{userId}" members, swept for dead gateway connections
+ *   voice:rest:{userId}    lease on a state joined over REST, renewed by joining again
+ */
+interface StoredVoiceState extends VoiceState {
+  /** Gateway connection that owns this state; null when joined over REST */
+  connId: string | null;
+}
+
+export interface VoiceConnection {
+  userId: string;
+  sessionId: string;
+  connId: string | null;
+}
+
+const CONNECTED_KEY = "voice:connected";
+const VOICE_CHANNEL_TYPES = new Set<number>([ChannelType.GUILD_VOICE, ChannelType.GUILD_STAGE_VOICE]);
+const MEDIA_TIMEOUT_MS = 5000;
+// REST clients have no socket to watch, so their state lapses unless they rejoin within this
+const REST_STATE_TTL = 10 * 60; // seconds
+
+// Write a state if the target channel has room. Users already in the channel
+// always fit. KEYS[1] = guild hash; ARGV = userId, channelId, state JSON, userLimit (0 = none)
+const JOIN_SCRIPT = `
+local limit = tonumber(ARGV[4])
+if limit > 0 then
+  local current = redis.call('HGET', KEYS[1], ARGV[1])
+  if not current or cjson.decode(current).channelId ~= ARGV[2] then
+    local count = 0
+    for _, raw in ipairs(redis.call('HVALS', KEYS[1])) do
+      if cjson.decode(raw).channelId == ARGV[2] then count = count + 1 end
+    end
+    if count >= limit then return 0 end
+  end
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+return 1
+`;
+
+// Replace a state only while the user is still connected, so an update racing a
+// disconnect can't bring the state back. KEYS[1] = guild hash; ARGV = userId, state JSON
+const UPDATE_SCRIPT = `
+if redis.call('HEXISTS', KEYS[1], ARGV[1]) == 0 then return 0 end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return 1
+`;
+
+function guildKey(guildId: string) {
+  return `voice:guild:${guildId}`;
+}
+
+function userKey(userId: string) {
+  return `voice:user:${userId}`;
+}
+
+function restLeaseKey(userId: string) {
+  return `voice:rest:${userId}`;
+}
+
+function toVoiceState({ connId: _connId, ...state }: StoredVoiceState): VoiceState {
+  return state;
+}
+
+async function getStoredState(guildId: string, userId: string): Promise<StoredVoiceState | null> {
+  const raw = await redis.hget(guildKey(guildId), userId);
+  return raw ? (JSON.parse(raw) as StoredVoiceState) : null;
+}
+
+async function requireVoiceChannel(guildId: string, channelId: string) {
+  const channel = await channelRepository.findById(channelId);
+  if (!channel || channel.guildId !== guildId) throw new ApiError(404, "Channel not found");
+  if (!VOICE_CHANNEL_TYPES.has(channel.type)) throw new ApiError(400, "Channel is not a voice channel");
+  return channel;
+}
+
+async function replaceState(state: StoredVoiceState): Promise<boolean> {
+  const updated = await redis.eval(UPDATE_SCRIPT, 1, guildKey(state.guildId), state.userId, JSON.stringify(state));
+  return updated === 1;
+}
+
+/** End a live stage once nobody is left in its channel */
+async function endStageIfEmpty(guildId: string, channelId: string) {
+  const states = await getGuildVoiceStates(guildId);
+  if (!states.some((s) => s.channelId === channelId)) {
+    await stageService.endStage(guildId, channelId);
+  }
+}
+
+export async function getVoiceState(guildId: string, userId: string): Promise<VoiceState | null> {
+  const state = await getStoredState(guildId, userId);
+  return state ? toVoiceState(state) : null;
+}
+
+export async function getGuildVoiceStates(guildId: string): Promise<VoiceState[]> {
+  const raw = await redis.hvals(guildKey(guildId));
+  return raw.map((r) => toVoiceState(JSON.parse(r)));
+}
+
+/** Voice states for several guilds in one round trip, for READY */
+export async function getVoiceStatesForGuilds(guildIds: string[]): Promise<Map<string, VoiceState[]>> {
+  const byGuild = new Map<string, VoiceState[]>();
+  if (guildIds.length === 0) return byGuild;
+
+  const pipeline = redis.pipeline();
+  for (const guildId of guildIds) pipeline.hvals(guildKey(guildId));
+  const results = (await pipeline.exec()) ?? [];
+  guildIds.forEach((guildId, i) => {
+    const [err, raw] = results[i] ?? [];
+    byGuild.set(guildId, err ? [] : (raw as string[]).map((r) => toVoiceState(JSON.parse(r))));
+  });
+  return byGuild;
+}
+
+/**
+ * Join, switch or leave a voice channel for the calling user (gateway op 4).
+ * `channelId: null` disconnects. Joining checks CONNECT and the channel's
+ * `userLimit` (MOVE_MEMBERS bypasses it); stage channels are joined suppressed.
+ */
+export async function updateOwnVoiceState(
+  conn: VoiceConnection,
+  data: {
+    guildId: string;
+    channelId: string | null;
+    selfMute?: boolean;
+    selfDeaf?: boolean;
+    selfVideo?: boolean;
+    selfStream?: boolean;
+  }
+): Promise<VoiceState | null> {
+  if (!data.channelId) {
+    await disconnect(data.guildId, conn.userId);
+    return null;
+  }
+
+  const channel = await requireVoiceChannel(data.guildId, data.channelId);
+  const member = await memberRepository.findByUserAndGuild(conn.userId, data.guildId);
+  if (!member) throw new ApiError(403, "Not a member of this guild");
+
+  const perms = await permissionService.getChannelPermissions(conn.userId, data.guildId, channel.id);
+  if (!perms.has(PermissionFlags.VIEW_CHANNEL | PermissionFlags.CONNECT)) {
+    throw new ApiError(403, "Missing permissions");
+  }
+
+  // One voice connection per user: joining here leaves any other guild
+  const currentGuildId = await redis.get(userKey(conn.userId));
+  if (currentGuildId && currentGuildId !== data.guildId) {
+    await disconnect(currentGuildId, conn.userId);
+  }
+
+  const previous = await getStoredState(data.guildId, conn.userId);
+  const sameChannel = previous?.channelId === channel.id;
+  const state: StoredVoiceState = {
+    userId: conn.userId,
+    guildId: data.guildId,
+    channelId: channel.id,
+    sessionId: conn.sessionId,
+    deaf: member.deaf,
+    // Without SPEAK (denied, or stripped by a timeout) the member joins server muted
+    mute: member.mute || !perms.has(PermissionFlags.SPEAK),
+    selfMute: data.selfMute ?? false,
+    selfDeaf: data.selfDeaf ?? false,
+    selfVideo: data.selfVideo ?? false,
+    selfStream: (data.selfStream ?? false) && perms.has(PermissionFlags.STREAM),
+    // Speakers keep their spot across self mute/deaf updates
+    suppress: sameChannel ? previous.suppress : channel.type === ChannelType.GUILD_STAGE_VOICE,
+    requestToSpeakTimestamp: sameChannel ? previous.requestToSpeakTimestamp : null,
+    connId: conn.connId,
+  };
+
+  const userLimit = perms.has(PermissionFlags.MOVE_MEMBERS) ? 0 : (channel.userLimit ?? 0);
+  const joined = await redis.eval(
+    JOIN_SCRIPT, 1, guildKey(data.guildId),
+    conn.userId, channel.id, JSON.stringify(state), String(userLimit)
+  );
+  if (joined !== 1) throw new ApiError(403, "Voice channel is full");
+
+  const pipeline = redis
+    .pipeline()
+    .set(userKey(conn.userId), data.guildId)
+    .sadd(CONNECTED_KEY, `${data.guildId}:${conn.userId}`);
+  if (!conn.connId) pipeline.set(restLeaseKey(conn.userId), data.guildId, "EX", REST_STATE_TTL);
+  await pipeline.exec();
+
+  const voiceState = toVoiceState(state);
+  await dispatchGuild(data.guildId, "VOICE_STATE_UPDATE", voiceState);
+  if (previous?.channelId && !sameChannel) {
+    await endStageIfEmpty(data.guildId, previous.channelId);
+  }
+  return voiceState;
+}
+
+/**
+ * Remove a user from voice in a guild and tell the media server to drop them.
+ * Returns the final (disconnected) state, or null if they weren't connected.
+ */
+export async function disconnect(guildId: string, userId: string): Promise<VoiceState | null> {
+  const previous = await getStoredState(guildId, userId);
+  if (!previous) return null;
+
+  // Another request may have disconnected them in the meantime
+  if ((await redis.hdel(guildKey(guildId), userId)) === 0) return null;
+  await redis.srem(CONNECTED_KEY, `${guildId}:${userId}`);
+  if ((await redis.get(userKey(userId))) === guildId) await redis.del(userKey(userId));
+
+  const state: VoiceState = {
+    ...toVoiceState(previous),
+    channelId: null,
+    suppress: false,
+    requestToSpeakTimestamp: null,
+  };
+  await dispatchGuild(guildId, "VOICE_STATE_UPDATE", state);
+  await releaseMedia(guildId, userId);
+  if (previous.channelId) await endStageIfEmpty(guildId, previous.channelId);
+  return state;
+}
+
+/**
+ * Drop whatever voice state a gateway connection owned once its socket closes.
+ * States joined over REST have no connection and go with any of the user's sockets.
+ */
+export async function disconnectConnection(userId: string, connId: string) {
+  const guildId = await redis.get(userKey(userId));
+  if (!guildId) return;
+  const state = await getStoredState(guildId, userId);
+  if (state && (state.connId === connId || state.connId === null)) {
+    await disconnect(guildId, userId);
+  }
+}
+
+/** Disconnect everyone in a voice channel, e.g. because it was deleted. Returns how many. */
+export async function disconnectChannel(guildId: string, channelId: string): Promise<number> {
+  let removed = 0;
+  for (const state of await getGuildVoiceStates(guildId)) {
+    if (state.channelId === channelId && (await disconnect(guildId, state.userId))) removed++;
+  }
+  return removed;
+}
+
+/** Move a connected member to another voice channel (MOVE_MEMBERS), or disconnect them with null. */
+export async function moveMember(guildId: string, userId: string, channelId: string | null) {
+  if (!channelId) {
+    const state = await disconnect(guildId, userId);
+    if (!state) throw new ApiError(400, "Target user is not connected to voice");
+    return state;
+  }
+
+  const channel = await requireVoiceChannel(guildId, channelId);
+  const previous = await getStoredState(guildId, userId);
+  if (!previous?.channelId) throw new ApiError(400, "Target user is not connected to voice");
+  if (previous.channelId === channel.id) return toVoiceState(previous);
+
+  // Moves ignore the user limit, like Discord
+  const state: StoredVoiceState = {
+    ...previous,
+    channelId: channel.id,
+    suppress: channel.type === ChannelType.GUILD_STAGE_VOICE,
+    requestToSpeakTimestamp: null,
+  };
+  if (!(await replaceState(state))) throw new ApiError(400, "Target user is not connected to voice");
+
+  const voiceState = toVoiceState(state);
+  await dispatchGuild(guildId, "VOICE_STATE_UPDATE", voiceState);
+  await releaseMedia(guildId, userId);
+  await connectMedia(voiceState).catch((err) => console.error("Voice service forwarding failed:", err));
+  await endStageIfEmpty(guildId, previous.channelId);
+  return voiceState;
+}
+
+/**
+ * Apply a member's server mute/deaf to their live voice state, if they're connected.
+ * A member with an active timeout stays muted whatever `mute` asks for.
+ */
+export async function applyServerVoiceState(guildId: string, userId: string, data: { mute?: boolean; deaf?: boolean }) {
+  const previous = await getStoredState(guildId, userId);
+  if (!previous) return null;
+
+  const member = await memberRepository.findByUserAndGuild(userId, guildId);
+  const timedOut = !!member?.communicationDisabledUntil && member.communicationDisabledUntil.getTime() > Date.now();
+
+  const state: StoredVoiceState = {
+    ...previous,
+    mute: timedOut || (data.mute ?? previous.mute),
+    deaf: data.deaf ?? previous.deaf,
+  };
+  if (!(await replaceState(state))) return null;
+
+  const voiceState = toVoiceState(state);
+  await dispatchGuild(guildId, "VOICE_STATE_UPDATE", voiceState);
+  return voiceState;
+}
+
+/**
+ * Change a member's stage state: `suppress` moves them between audience and speakers,
+ * `requestToSpeakTimestamp` raises or lowers their hand. Bringing someone on stage
+ * clears their request. Permission checks are up to the caller.
+ */
+export async function updateStageVoiceState(
+  guildId: string,
+  userId: string,
+  data: { channelId: string; suppress?: boolean; requestToSpeakTimestamp?: string | null }
+) {
+  const channel = await requireVoiceChannel(guildId, data.channelId);
+  if (channel.type !== ChannelType.GUILD_STAGE_VOICE) throw new ApiError(400, "Channel is not a stage channel");
+
+  const previous = await getStoredState(guildId, userId);
+  if (previous?.channelId !== channel.id) throw new ApiError(400, "User is not connected to this stage");
+
+  const state: StoredVoiceState = { ...previous };
+  if (data.requestToSpeakTimestamp !== undefined) state.requestToSpeakTimestamp = data.requestToSpeakTimestamp;
+  if (data.suppress !== undefined) {
+    state.suppress = data.suppress;
+    if (!data.suppress) state.requestToSpeakTimestamp = null;
+  }
+  if (!(await replaceState(state))) throw new ApiError(400, "User is not connected to this stage");
+
+  const voiceState = toVoiceState(state);
+  await dispatchGuild(guildId, "VOICE_STATE_UPDATE", voiceState);
+  return voiceState;
+}
+
+// ── Media server ──
+
+function mediaHeaders() {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.stream.internalKey) headers["x-internal-key"] = config.stream.internalKey;
+  return headers;
+}
+
+/**
+ * Ask the media server for a room token for this voice state and send it to the
+ * user's clients as VOICE_SERVER_UPDATE. Returns null when no media server is
+ * configured or it refused; network errors are thrown so callers can trip breakers.
+ */
+export async function connectMedia(state: VoiceState): Promise<{ token: string; endpoint: string } | null> {
+  if (!config.stream.url || !state.channelId) return null;
+
+  const channel = await channelRepository.findById(state.channelId);
+  const res = await fetch(`${config.stream.url}/api/voice/${state.guildId}/${state.channelId}/join`, {
+    method: "POST",
+    headers: mediaHeaders(),
+    body: JSON.stringify({
+      userId: state.userId,
+      channelType: channel?.type ?? ChannelType.GUILD_VOICE,
+      selfMute: state.selfMute || state.mute || state.suppress,
+      selfDeaf: state.selfDeaf || state.deaf,
+    }),
+    signal: AbortSignal.timeout(MEDIA_TIMEOUT_MS),
+  });
+  if (!res.ok) return null;
+
+  const body = (await res.json()) as { livekitToken?: string; livekitUrl?: string };
+  if (!body.livekitToken || !body.livekitUrl) return null;
+
+  const server = { token: body.livekitToken, endpoint: body.livekitUrl };
+  await dispatchUser(state.userId, "VOICE_SERVER_UPDATE", {
+    guildId: state.guildId,
+    channelId: state.channelId,
+    ...server,
+  });
+  return server;
+}
+
+/**
+ * Join a voice channel over REST and hand back the media token in one go. If the media
+ * server can't take the user, the join is rolled back so nobody is left showing as
+ * connected without audio.
+ */
+export async function joinWithMedia(
+  conn: VoiceConnection,
+  data: { guildId: string; channelId: string; selfMute?: boolean; selfDeaf?: boolean }
+) {
+  const voiceState = (await updateOwnVoiceState(conn, data))!;
+  const server = await connectMedia(voiceState).catch((err) => {
+    console.error("Voice service join failed:", err);
+    return null;
+  });
+  if (!server) {
+    await disconnect(data.guildId, conn.userId);
+    throw new ApiError(503, "Voice service unavailable");
+  }
+  return { voiceState, ...server };
+}
+
+/** Tell the media server to drop a user from the guild's rooms. Best effort. */
+async function releaseMedia(guildId: string, userId: string) {
+  if (!config.stream.url) return;
+  try {
+    await fetch(`${config.stream.url}/api/voice/${guildId}/leave`, {
+      method: "POST",
+      headers: mediaHeaders(),
+      body: JSON.stringify({ userId }),
+      signal: AbortSignal.timeout(MEDIA_TIMEOUT_MS),
+    });
+  } catch (err) {
+    console.error("Voice service leave failed:", err);
+  }
+}
+
+// ── Cleanup ──
+
+/**
+ * Disconnect voice states whose gateway connection is gone, e.g. after a pod
+ * crashed without running its close handlers. Gateway sessions live under
+ * `session:{connId}` and expire shortly after their last heartbeat; states joined
+ * over REST go once their lease runs out.
+ */
+export async function cleanupStaleVoiceStates(): Promise<number> {
+  let cursor = "0";
+  let removed = 0;
+  do {
+    const [next, entries] = await redis.sscan(CONNECTED_KEY, cursor, "COUNT", 200);
+    cursor = next;
+    for (const entry of entries) {
+      const [guildId, userId] = entry.split(":") as [string, string];
+      const state = await getStoredState(guildId, userId);
+      if (!state) {
+        await redis.srem(CONNECTED_KEY, entry);
+      } else {
+        const alive = await redis.exists(state.connId ? `session:${state.connId}` : restLeaseKey(userId));
+        if (!alive && (await disconnect(guildId, userId))) removed++;
+      }
+    }
+  } while (cursor !== "0");
+  return removed;
+}
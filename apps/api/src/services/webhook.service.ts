@@ -1,5 +1,8 @@
 import { generateSnowflake } from "@yxc/snowflake";
 import { ApiError } from "./auth.service.js";
+import * as searchService from "./search.service.js";
+import * as unfurlService from "./unfurl.service.js";
+import * as mentionService from "./mention.service.js";
 import crypto from "crypto";
 import { webhookRepository } from "../repositories/webhook.repository.js";
 import { messageRepository } from "../repositories/message.repository.js";
@@ -63,7 +66,12 @@ export async function executeWebhook(
   webhookId: string,
   token: string,
   content: string,
-  options?: { username?: string; avatarUrl?: string; tts?: boolean }
+  options?: {
+    username?: string;
+    avatarUrl?: string;
+    tts?: boolean;
+    allowedMentions?: mentionService.AllowedMentions;
+  }
 ) {
   const webhook = await webhookRepository.findById(webhookId);
 
@@ -77,6 +85,12 @@ export async function executeWebhook(
   }
 
   const id = generateSnowflake();
+  const resolvedMentions = await mentionService.resolveMentions(
+    webhook.id,
+    { id: webhook.channelId, guildId: webhook.guildId },
+    content,
+    { allowedMentions: options?.allowedMentions, bypassMentionPermissions: true }
+  );
 
   const message = await messageRepository.create({
     id,
@@ -86,16 +100,28 @@ export async function executeWebhook(
     type: 0,
     tts: options?.tts ?? false,
     webhookId: webhook.id,
+    mentionEveryone: resolvedMentions.mentionEveryone,
+    mentions: resolvedMentions.mentions,
+    mentionRoles: resolvedMentions.mentionRoles,
   });
 
   // Update channel last message
   await messageRepository.updateLastMessageId(webhook.channelId, id);
+  await searchService.indexMessage(message, webhook.guildId);
+  await unfurlService.enqueueMessage(message);
+
+  mentionService
+    .notifyMentions(message, webhook.guildId, resolvedMentions.recipients)
+    .catch((err) => console.error(`Failed to deliver mentions for message ${id}:`, err));
 
   return {
     id: message.id,
     channelId: message.channelId,
     content: message.content,
     webhookId: webhook.id,
+    mentionEveryone: message.mentionEveryone,
+    mentions: message.mentions ?? [],
+    mentionRoles: message.mentionRoles ?? [],
     author: {
       id: webhook.id,
       username: options?.username ?? webhook.name,
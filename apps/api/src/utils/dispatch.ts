@@ -1,36 +1,29 @@
 import { redisPub, redis } from "../config/redis.js";
-
-// Events that should be durably queued via Redis Streams for guaranteed delivery
-const DURABLE_EVENTS = new Set([
-  "MESSAGE_CREATE",
-  "MESSAGE_UPDATE",
-  "MESSAGE_DELETE",
-  "MESSAGE_DELETE_BULK",
-]);
-
-const STREAM_KEY = "zent:events:stream";
-const STREAM_MAX_LEN = 100_000; // Auto-trim stream to prevent unbounded growth
+import { DURABLE_EVENTS, EVENT_STREAM_KEY, EVENT_STREAM_MAX_LEN } from "./event-stream.js";
 
 /**
  * Dispatch event to all members of a guild via Redis pub/sub.
- * Critical message events are also written to Redis Streams for durability.
+ * Critical message events are also written to Redis Streams for durability; the
+ * entry ID rides along in the pub/sub payload so gateways can tell which stream
+ * entries they already delivered.
  */
 export async function dispatchGuild(guildId: string, event: string, data: unknown) {
-  const payload = JSON.stringify({ event, data });
+  let payload = JSON.stringify({ event, data });
 
   if (DURABLE_EVENTS.has(event)) {
     // Write to stream for durability, then publish for real-time delivery
-    await redis.xadd(
-      STREAM_KEY,
+    const streamId = await redis.xadd(
+      EVENT_STREAM_KEY,
       "MAXLEN",
       "~",
-      String(STREAM_MAX_LEN),
+      String(EVENT_STREAM_MAX_LEN),
       "*",
       "type", "guild",
       "target", guildId,
       "event", event,
       "payload", payload
     );
+    payload = JSON.stringify({ event, data, streamId });
   }
 
   await redisPub.publish(`gateway:guild:${guildId}`, payload);
@@ -0,0 +1,289 @@
+/**
+ * Durable event log in Redis Streams. `dispatchGuild` appends MESSAGE_* events here
+ * next to the pub/sub publish; this module reads them back, either as a range (RESUME
+ * replay) or as a change feed: each consumer group sees every event at least once,
+ * and entries stay pending until the handler acknowledges them by returning.
+ */
+import type Redis from "ioredis";
+import { redis } from "../config/redis.js";
+
+export const EVENT_STREAM_KEY = "zent:events:stream";
+export const EVENT_STREAM_MAX_LEN = 100_000; // Auto-trim stream to prevent unbounded growth
+
+// Events that should be durably queued via Redis Streams for guaranteed delivery
+export const DURABLE_EVENTS = new Set([
+  "MESSAGE_CREATE",
+  "MESSAGE_UPDATE",
+  "MESSAGE_DELETE",
+  "MESSAGE_DELETE_BULK",
+]);
+
+export interface StreamEvent {
+  id: string;
+  type: "guild" | "user";
+  target: string;
+  event: string;
+  data: unknown;
+}
+
+export interface ChangeFeedOptions {
+  group: string;
+  consumer: string;
+  /** Only hand these events to the handler; others are acknowledged unseen */
+  events?: Iterable<string>;
+  /** Where a new group starts reading: "$" for new events only, "0" for the whole stream */
+  startId?: string;
+  batchSize?: number;
+  /** Entries left pending this long (crashed consumer, handler error) are retried */
+  retryAfterMs?: number;
+  /** Give up on an entry after this many deliveries */
+  maxDeliveries?: number;
+  /**
+   * The group belongs to this process alone: it starts fresh from "$", is destroyed
+   * on stop, and is reaped by `cleanupEphemeralGroups` if the process dies.
+   */
+  ephemeral?: boolean;
+  handler: (event: StreamEvent) => Promise<void>;
+}
+
+export interface ChangeFeedSubscription {
+  /** Group name in Redis (ephemeral groups get a prefix) */
+  group: string;
+  stop(): Promise<void>;
+}
+
+export interface ConsumerGroupStats {
+  consumers: number;
+  pending: number;
+  /** Entries not yet delivered to the group; null when Redis can't tell (after trimming) */
+  lag: number | null;
+  lastDeliveredId: string;
+}
+
+const BLOCK_MS = 5000;
+const RETRY_CHECK_INTERVAL_MS = 10_000;
+const EPHEMERAL_HEARTBEAT_PREFIX = "zent:events:group:";
+const EPHEMERAL_HEARTBEAT_TTL = 120; // seconds
+
+type RawEntry = [id: string, fields: string[]];
+
+function parseEntry([id, fields]: RawEntry): StreamEvent | null {
+  const values: Record<string, string> = {};
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    values[fields[i]!] = fields[i + 1]!;
+  }
+  if ((values.type !== "guild" && values.type !== "user") || !values.target || !values.payload) return null;
+  try {
+    const { event, data } = JSON.parse(values.payload) as { event: string; data: unknown };
+    return { id, type: values.type, target: values.target, event, data };
+  } catch {
+    return null;
+  }
+}
+
+/** Milliseconds part of a stream entry ID */
+export function streamIdTime(id: string): number {
+  return Number(id.split("-")[0]);
+}
+
+export function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq] = a.split("-").map(Number) as [number, number];
+  const [bMs, bSeq] = b.split("-").map(Number) as [number, number];
+  return aMs !== bMs ? aMs - bMs : (aSeq ?? 0) - (bSeq ?? 0);
+}
+
+/** ID of the newest entry, or "0-0" for an empty stream */
+export async function getLatestStreamId(): Promise<string> {
+  const [latest] = (await redis.xrevrange(EVENT_STREAM_KEY, "+", "-", "COUNT", 1)) as RawEntry[];
+  return latest?.[0] ?? "0-0";
+}
+
+/**
+ * Events after `afterId` (up to and including `untilId`) for the given targets, oldest
+ * first. Returns null when the range can't be served completely: `afterId` was already
+ * trimmed away, or more than `maxScanned` entries would have to be read.
+ */
+export async function readEventsAfter(
+  afterId: string,
+  targets: Set<string>,
+  untilId = "+",
+  maxScanned = 20_000
+): Promise<StreamEvent[] | null> {
+  const [oldest] = (await redis.xrange(EVENT_STREAM_KEY, "-", "+", "COUNT", 1)) as RawEntry[];
+  if (oldest && afterId !== "0-0" && compareStreamIds(oldest[0], afterId) > 0) return null;
+
+  const events: StreamEvent[] = [];
+  let cursor = afterId;
+  let scanned = 0;
+  while (scanned < maxScanned) {
+    const page = (await redis.xrange(EVENT_STREAM_KEY, `(${cursor}`, untilId, "COUNT", 1000)) as RawEntry[];
+    if (page.length === 0) return events;
+    scanned += page.length;
+    for (const raw of page) {
+      const entry = parseEntry(raw);
+      if (entry && targets.has(entry.target)) events.push(entry);
+    }
+    cursor = page[page.length - 1]![0];
+  }
+  return null;
+}
+
+async function ensureGroup(group: string, startId: string) {
+  try {
+    await redis.xgroup("CREATE", EVENT_STREAM_KEY, group, startId, "MKSTREAM");
+  } catch (err) {
+    if (!(err instanceof Error) || !err.message.includes("BUSYGROUP")) throw err;
+  }
+}
+
+export async function destroyConsumerGroup(group: string) {
+  await redis.xgroup("DESTROY", EVENT_STREAM_KEY, group);
+}
+
+/** Consumer groups on the stream by name */
+export async function getConsumerGroups(): Promise<Map<string, ConsumerGroupStats>> {
+  const groups = new Map<string, ConsumerGroupStats>();
+  let rows: unknown[][];
+  try {
+    rows = (await redis.xinfo("GROUPS", EVENT_STREAM_KEY)) as unknown[][];
+  } catch {
+    return groups; // Stream doesn't exist yet
+  }
+  for (const row of rows) {
+    const info: Record<string, unknown> = {};
+    for (let i = 0; i + 1 < row.length; i += 2) info[String(row[i])] = row[i + 1];
+    groups.set(String(info.name), {
+      consumers: Number(info.consumers ?? 0),
+      pending: Number(info.pending ?? 0),
+      lag: info.lag === null || info.lag === undefined ? null : Number(info.lag),
+      lastDeliveredId: String(info["last-delivered-id"] ?? "0-0"),
+    });
+  }
+  return groups;
+}
+
+export async function getConsumerGroupStats(group: string): Promise<ConsumerGroupStats | null> {
+  return (await getConsumerGroups()).get(group) ?? null;
+}
+
+/** Destroy ephemeral groups whose process stopped heartbeating. Returns how many. */
+export async function cleanupEphemeralGroups(): Promise<number> {
+  let removed = 0;
+  for (const group of (await getConsumerGroups()).keys()) {
+    if (!group.startsWith("ephemeral:")) continue;
+    if (await redis.exists(`${EPHEMERAL_HEARTBEAT_PREFIX}${group}`)) continue;
+    await destroyConsumerGroup(group);
+    removed++;
+  }
+  return removed;
+}
+
+/**
+ * Read the stream through a consumer group until stopped. Consumers sharing a group
+ * split the events between them; use a separate group per independent reader.
+ */
+export function subscribeChangeFeed(options: ChangeFeedOptions): ChangeFeedSubscription {
+  const {
+    consumer,
+    startId = "$",
+    batchSize = 100,
+    retryAfterMs = 60_000,
+    maxDeliveries = 5,
+    handler,
+  } = options;
+  const group = options.ephemeral ? `ephemeral:${options.group}` : options.group;
+  const events = options.events ? new Set(options.events) : null;
+
+  // XREADGROUP BLOCK holds the connection, so each feed gets its own
+  const connection: Redis = redis.duplicate();
+  let stopped = false;
+  let lastRetryCheck = 0;
+
+  async function handle(raw: RawEntry) {
+    const entry = parseEntry(raw);
+    if (entry && (!events || events.has(entry.event))) {
+      try {
+        await handler(entry);
+      } catch (err) {
+        // Left pending; retried once it has been idle for retryAfterMs
+        console.error(`Change feed ${group} failed to handle ${raw[0]}:`, err);
+        return;
+      }
+    }
+    await connection.xack(EVENT_STREAM_KEY, group, raw[0]);
+  }
+
+  // Take over entries another consumer (or an earlier attempt) left unacknowledged
+  async function retryPending() {
+    const pending = (await connection.xpending(
+      EVENT_STREAM_KEY, group, "IDLE", retryAfterMs, "-", "+", batchSize
+    )) as Array<[id: string, consumer: string, idle: number, deliveries: number]>;
+    if (pending.length === 0) return;
+
+    const exhausted = pending.filter(([, , , deliveries]) => deliveries >= maxDeliveries).map(([id]) => id);
+    if (exhausted.length > 0) {
+      console.error(`Change feed ${group} dropping ${exhausted.length} entr(ies) after ${maxDeliveries} attempts`);
+      await connection.xack(EVENT_STREAM_KEY, group, ...exhausted);
+    }
+
+    if (exhausted.length === pending.length) return;
+    // XAUTOCLAIM also drops pending entries that were trimmed out of the stream
+    const [, claimed] = (await connection.xautoclaim(
+      EVENT_STREAM_KEY, group, consumer, retryAfterMs, "0-0", "COUNT", batchSize
+    )) as [next: string, entries: RawEntry[]];
+    for (const raw of claimed) await handle(raw);
+  }
+
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  if (options.ephemeral) {
+    const heartbeat = () =>
+      redis.set(`${EPHEMERAL_HEARTBEAT_PREFIX}${group}`, "1", "EX", EPHEMERAL_HEARTBEAT_TTL).catch(() => {});
+    void heartbeat();
+    heartbeatTimer = setInterval(heartbeat, (EPHEMERAL_HEARTBEAT_TTL / 4) * 1000);
+  }
+
+  const loop = (async () => {
+    // Whatever an earlier process with this name left behind is not ours to finish
+    if (options.ephemeral) await destroyConsumerGroup(group).catch(() => {});
+    while (!stopped) {
+      try {
+        await ensureGroup(group, startId);
+        while (!stopped) {
+          if (Date.now() - lastRetryCheck > RETRY_CHECK_INTERVAL_MS) {
+            lastRetryCheck = Date.now();
+            await retryPending();
+          }
+
+          const result = (await connection.xreadgroup(
+            "GROUP", group, consumer,
+            "COUNT", batchSize,
+            "BLOCK", BLOCK_MS,
+            "STREAMS", EVENT_STREAM_KEY, ">"
+          )) as Array<[key: string, entries: RawEntry[]]> | null;
+          for (const [, entries] of result ?? []) {
+            for (const raw of entries) await handle(raw);
+          }
+        }
+      } catch (err) {
+        if (stopped) break;
+        // NOGROUP after the stream was deleted, or a dropped connection: recreate and go on
+        console.error(`Change feed ${group} read failed:`, err);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+  })();
+
+  return {
+    group,
+    async stop() {
+      stopped = true;
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      connection.disconnect();
+      await loop;
+      if (options.ephemeral) {
+        await destroyConsumerGroup(group).catch(() => {});
+        await redis.del(`${EPHEMERAL_HEARTBEAT_PREFIX}${group}`).catch(() => {});
+      }
+    },
+  };
+}
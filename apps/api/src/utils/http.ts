@@ -0,0 +1,95 @@
+/**
+ * Helpers for serving stored objects over HTTP: byte ranges, conditional
+ * requests and Content-Disposition.
+ */
+
+export type ByteRange = { start: number; end: number };
+
+/**
+ * Parse a `Range` header against an object of `size` bytes.
+ * Returns the range to send, "unsatisfiable" for a 416, or null to send the whole
+ * object (no header, a non-byte unit, malformed input, or multiple ranges).
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match) return null;
+
+  const [, rawStart, rawEnd] = match;
+  if (!rawStart && !rawEnd) return null;
+
+  let start: number;
+  let end: number;
+  if (!rawStart) {
+    // Suffix range: the last N bytes
+    const suffix = Number(rawEnd);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = Number(rawStart);
+    end = rawEnd ? Math.min(Number(rawEnd), size - 1) : size - 1;
+    if (rawEnd && Number(rawEnd) < start) return null;
+  }
+
+  if (start >= size || size === 0) return "unsatisfiable";
+  return { start, end };
+}
+
+function etagMatches(header: string, etag: string): boolean {
+  if (header.trim() === "*") return true;
+  // Weak comparison, as required for If-None-Match
+  const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header.split(",").some((tag) => strip(tag) === strip(etag));
+}
+
+/**
+ * Whether a GET can be answered with 304 Not Modified. If-None-Match takes
+ * precedence over If-Modified-Since when both are present.
+ */
+export function isNotModified(
+  headers: Record<string, string | string[] | undefined>,
+  etag: string,
+  lastModified: Date
+): boolean {
+  const ifNoneMatch = headers["if-none-match"];
+  if (typeof ifNoneMatch === "string") return etagMatches(ifNoneMatch, etag);
+
+  const ifModifiedSince = headers["if-modified-since"];
+  if (typeof ifModifiedSince === "string") {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have one-second precision
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+/**
+ * Whether a Range request should be honoured given its If-Range validator. A stale
+ * validator means the client's partial copy is outdated, so the full object is sent.
+ */
+export function isRangeFresh(
+  headers: Record<string, string | string[] | undefined>,
+  etag: string,
+  lastModified: Date
+): boolean {
+  const ifRange = headers["if-range"];
+  if (typeof ifRange !== "string") return true;
+  if (ifRange.trim().startsWith('"') || ifRange.trim().startsWith("W/")) {
+    // If-Range requires a strong match
+    return !ifRange.trim().startsWith("W/") && ifRange.trim() === etag;
+  }
+  // A date validator must match Last-Modified exactly (RFC 9110 §13.1.5), at HTTP's one-second precision
+  const date = Date.parse(ifRange);
+  return !Number.isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 === date;
+}
+
+/**
+ * Build a Content-Disposition header that survives non-ASCII filenames: an ASCII
+ * fallback in `filename` plus the exact name in RFC 5987 `filename*`.
+ */
+export function contentDisposition(filename: string, type: "inline" | "attachment" = "inline"): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
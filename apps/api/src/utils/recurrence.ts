@@ -0,0 +1,107 @@
+/**
+ * Recurrence rules for scheduled events: the part of iCalendar RRULE we support
+ * (FREQ=DAILY/WEEKLY/MONTHLY, INTERVAL, BYDAY for weekly rules, COUNT, UNTIL),
+ * evaluated in UTC from the series' first occurrence.
+ */
+
+export interface RecurrenceRule {
+  frequency: "daily" | "weekly" | "monthly";
+  interval?: number;
+  /** Weekly rules only; 0 = Monday … 6 = Sunday. Defaults to the first occurrence's weekday. */
+  byWeekday?: number[];
+  /** Total number of occurrences, the first one included */
+  count?: number;
+  /** ISO timestamp; no occurrence starts after it */
+  endDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ICAL_WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+// Bounds the walk for rules without COUNT or UNTIL (about 270 years of daily events)
+const MAX_OCCURRENCES = 100_000;
+
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function* candidates(rule: RecurrenceRule, anchor: Date): Generator<Date> {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const start = anchor.getTime();
+
+  if (rule.frequency === "daily") {
+    for (let i = 0; ; i++) yield new Date(start + i * interval * DAY_MS);
+  }
+
+  if (rule.frequency === "weekly") {
+    const days = [...new Set(rule.byWeekday?.length ? rule.byWeekday : [weekdayIndex(anchor)])].sort();
+    const weekStart = start - weekdayIndex(anchor) * DAY_MS;
+    for (let week = 0; ; week += interval) {
+      for (const day of days) {
+        const time = weekStart + (week * 7 + day) * DAY_MS;
+        if (time >= start) yield new Date(time);
+      }
+    }
+  }
+
+  // Monthly on the first occurrence's day of month; months without that day are skipped
+  const day = anchor.getUTCDate();
+  for (let month = 0; ; month += interval) {
+    const date = new Date(Date.UTC(
+      anchor.getUTCFullYear(), anchor.getUTCMonth() + month, day,
+      anchor.getUTCHours(), anchor.getUTCMinutes(), anchor.getUTCSeconds(), anchor.getUTCMilliseconds()
+    ));
+    if (date.getUTCDate() === day) yield date;
+  }
+}
+
+/** Occurrence start times of the series beginning at `anchor`, in order */
+export function* occurrences(rule: RecurrenceRule, anchor: Date): Generator<Date> {
+  const until = rule.endDate ? new Date(rule.endDate).getTime() : Infinity;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  let emitted = 0;
+  for (const date of candidates(rule, anchor)) {
+    if (emitted >= limit || date.getTime() > until) return;
+    emitted++;
+    yield date;
+  }
+}
+
+/** First occurrence starting after `after`, or null once the series is over */
+export function nextOccurrence(rule: RecurrenceRule, anchor: Date, after: Date): Date | null {
+  for (const date of occurrences(rule, anchor)) {
+    if (date.getTime() > after.getTime()) return date;
+  }
+  return null;
+}
+
+/** Occurrences starting in [from, until), at most `limit` of them */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  anchor: Date,
+  from: Date,
+  until: Date,
+  limit = 100
+): Date[] {
+  const result: Date[] = [];
+  for (const date of occurrences(rule, anchor)) {
+    if (date.getTime() >= until.getTime() || result.length >= limit) break;
+    if (date.getTime() >= from.getTime()) result.push(date);
+  }
+  return result;
+}
+
+function formatICalTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** The rule as an iCalendar RRULE value, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE` */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...new Set(rule.byWeekday)].sort().map((d) => ICAL_WEEKDAYS[d]).join(",")}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.endDate) parts.push(`UNTIL=${formatICalTime(new Date(rule.endDate))}`);
+  return parts.join(";");
+}
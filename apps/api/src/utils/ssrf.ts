@@ -0,0 +1,57 @@
+/**
+ * Guards for outbound requests to user-supplied URLs (link previews, interaction
+ * endpoints, push services), so they can't be pointed at internal hosts.
+ */
+
+import dns from "dns";
+import net from "net";
+import type { LookupFunction } from "net";
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, "ipv6");
+}
+
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it maps to
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return blockedAddresses.check(mapped[1]!, "ipv4");
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Whether a URL hostname is an IP literal in a blocked range. IP-literal hosts skip
+ * DNS (and so safeLookup) entirely, so callers check them before connecting.
+ */
+export function isBlockedIpLiteral(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  return net.isIP(host) !== 0 && isBlockedAddress(host);
+}
+
+/**
+ * DNS lookup that refuses private addresses. Used as the socket `lookup`, so the
+ * address that is checked is the one that gets connected to (no rebinding window).
+ */
+export const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err, address, family);
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.some((a) => isBlockedAddress(a.address))) {
+      return callback(new Error(`Refusing to connect to private address for ${hostname}`), address, family);
+    }
+    callback(null, address, family);
+  });
+};
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import zlib from 'zlib';
+import { WebSocket } from 'ws';
+
+const etf = await import('../../src/gateway/etf.js');
+const { GatewayTransport, PreparedDispatch, parseTransportOptions } = await import('../../src/gateway/transport.js');
+
+function createSocket() {
+  return { readyState: WebSocket.OPEN, send: vi.fn(), terminate: vi.fn() } as any;
+}
+
+describe('Gateway transport', () => {
+  // ── parseTransportOptions ──
+
+  describe('parseTransportOptions', () => {
+    it('should default to uncompressed JSON', () => {
+      expect(parseTransportOptions(new URLSearchParams(''))).toEqual({ encoding: 'json', compress: null });
+      expect(parseTransportOptions(new URLSearchParams('encoding=etf&compress=zlib-stream')))
+        .toEqual({ encoding: 'etf', compress: 'zlib-stream' });
+    });
+
+    it('should reject unsupported values', () => {
+      expect(parseTransportOptions(new URLSearchParams('encoding=msgpack'))).toBeNull();
+      expect(parseTransportOptions(new URLSearchParams('compress=zstd-stream'))).toBeNull();
+    });
+  });
+
+  // ── ETF ──
+
+  describe('etf', () => {
+    it('should round-trip nested payloads', () => {
+      const payload = {
+        op: 0,
+        t: 'MESSAGE_CREATE',
+        s: 70000,
+        d: {
+          id: '123456789012345678',
+          content: 'héllo',
+          pinned: false,
+          editedAt: null,
+          mentions: [],
+          embeds: [{ title: 'x', fields: [{ name: 'a', value: 'b', inline: true }] }],
+          score: -1.5,
+          big: 2 ** 40,
+          skipped: undefined,
+        },
+      };
+
+      expect(etf.decode(etf.encode(payload))).toEqual({
+        ...payload,
+        d: { ...payload.d, skipped: undefined },
+      });
+      expect(etf.decode(etf.encode(payload))).not.toHaveProperty('d.skipped');
+    });
+
+    it('should decode bigs beyond the safe integer range as strings', () => {
+      expect(etf.decode(etf.encode(2n ** 64n))).toBe('18446744073709551616');
+      expect(etf.decode(etf.encode(-(2n ** 40n)))).toBe(-(2 ** 40));
+    });
+
+    it('should reject truncated or forged input', () => {
+      const encoded = etf.encode({ content: 'hello' });
+      expect(() => etf.decode(encoded.subarray(0, encoded.length - 2))).toThrow(etf.EtfError);
+      expect(() => etf.decode(Buffer.from([131, 108, 0xff, 0xff, 0xff, 0xff]))).toThrow('exceeds input');
+      expect(() => etf.decode(Buffer.from([100]))).toThrow('version');
+    });
+
+    it('should splice pre-encoded data into dispatch frames', () => {
+      const data = { id: '1', name: 'general' };
+      const frame = etf.encodeDispatch(0, 'CHANNEL_CREATE', 5, etf.encodeTerm(data));
+      expect(etf.decode(frame)).toEqual({ op: 0, t: 'CHANNEL_CREATE', s: 5, d: data });
+    });
+  });
+
+  // ── PreparedDispatch ──
+
+  describe('PreparedDispatch', () => {
+    it('should produce the same frame as encoding the whole payload', () => {
+      const dispatch = new PreparedDispatch('GUILD_UPDATE', { id: '1', name: 'a "quoted" name' });
+
+      expect(JSON.parse(dispatch.frame('json', 3) as string)).toEqual({
+        op: 0, t: 'GUILD_UPDATE', s: 3, d: { id: '1', name: 'a "quoted" name' },
+      });
+      expect(dispatch.frame('etf', 4)).toEqual(
+        etf.encode({ op: 0, t: 'GUILD_UPDATE', s: 4, d: { id: '1', name: 'a "quoted" name' } })
+      );
+    });
+  });
+
+  // ── GatewayTransport ──
+
+  describe('GatewayTransport', () => {
+    it('should send frames as-is without compression', () => {
+      const ws = createSocket();
+      const transport = new GatewayTransport(ws, { encoding: 'json', compress: null });
+
+      transport.send(transport.encode({ op: 11 }));
+
+      expect(ws.send).toHaveBeenCalledWith('{"op":11}');
+    });
+
+    it('should share one zlib context across frames with zlib-stream', async () => {
+      const ws = createSocket();
+      const transport = new GatewayTransport(ws, { encoding: 'json', compress: 'zlib-stream' });
+
+      const payloads = [{ op: 10, d: { heartbeatInterval: 41250 } }, { op: 11 }, { op: 11 }];
+      for (const payload of payloads) transport.send(transport.encode(payload));
+      // Deflate runs on the libuv threadpool
+      await vi.waitFor(() => expect(ws.send).toHaveBeenCalledTimes(3));
+      const inflate = zlib.createInflate();
+      const received: unknown[] = [];
+      for (const [frame] of ws.send.mock.calls) {
+        expect([...frame.subarray(-4)]).toEqual([0x00, 0x00, 0xff, 0xff]);
+        const text = await new Promise<string>((resolve) => {
+          const chunks: Buffer[] = [];
+          const onData = (chunk: Buffer) => chunks.push(chunk);
+          inflate.on('data', onData);
+          inflate.write(frame);
+          inflate.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+            inflate.off('data', onData);
+            resolve(Buffer.concat(chunks).toString());
+          });
+        });
+        received.push(JSON.parse(text));
+      }
+      expect(received).toEqual(payloads);
+
+      transport.close();
+    });
+
+    it('should decode ETF frames and refuse text frames', () => {
+      const transport = new GatewayTransport(createSocket(), { encoding: 'etf', compress: null });
+
+      expect(transport.decode(etf.encode({ op: 1, d: 42 }))).toEqual({ op: 1, d: 42 });
+      expect(() => transport.decode('{"op":1}')).toThrow('binary');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionFlags } from '@yxc/permissions';
+
+// ── Mocks ──
+
+const mockGuildRepository = {
+  findOwnerById: vi.fn(),
+};
+
+const mockRoleRepository = {
+  findByGuildId: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findByGuildId: vi.fn(),
+};
+
+const mockPermissionRepository = {
+  findOverwritesByGuildId: vi.fn(),
+};
+
+const mockMemberRepository = {
+  getMemberRolesByGuildAndUserIds: vi.fn(),
+};
+
+const mockThreadRepository = {
+  findJoinedPrivateThreadIds: vi.fn(),
+};
+
+vi.mock('../../src/repositories/guild.repository.js', () => ({ guildRepository: mockGuildRepository }));
+vi.mock('../../src/repositories/role.repository.js', () => ({ roleRepository: mockRoleRepository }));
+vi.mock('../../src/repositories/channel.repository.js', () => ({ channelRepository: mockChannelRepository }));
+vi.mock('../../src/repositories/permission.repository.js', () => ({ permissionRepository: mockPermissionRepository }));
+vi.mock('../../src/repositories/member.repository.js', () => ({ memberRepository: mockMemberRepository }));
+vi.mock('../../src/repositories/thread.repository.js', () => ({ threadRepository: mockThreadRepository }));
+
+const visibility = await import('../../src/gateway/visibility.js');
+
+const VIEW = PermissionFlags.VIEW_CHANNEL.toString();
+
+// general: public; staff: @everyone denied, staff role allowed; thread-1 lives in staff;
+// secret-thread is a private thread in general
+const channels = [
+  { id: 'general', type: 0, parentId: null },
+  { id: 'staff', type: 0, parentId: null },
+  { id: 'thread-1', type: 11, parentId: 'staff' },
+  { id: 'secret-thread', type: 12, parentId: 'general' },
+];
+
+const overwrites = [
+  { channelId: 'staff', targetId: 'everyone', targetType: 0, allow: '0', deny: VIEW },
+  { channelId: 'staff', targetId: 'role-staff', targetType: 0, allow: VIEW, deny: '0' },
+];
+
+let memberRoles: Array<{ userId: string; roleId: string }>;
+
+describe('Gateway channel visibility', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    visibility.invalidateGuild('guild-1');
+    memberRoles = [{ userId: 'mod', roleId: 'role-staff' }];
+
+    mockGuildRepository.findOwnerById.mockResolvedValue({ ownerId: 'owner' });
+    mockRoleRepository.findByGuildId.mockResolvedValue([
+      { id: 'everyone', name: '@everyone', permissions: VIEW, position: 0 },
+      { id: 'role-staff', name: 'Staff', permissions: '0', position: 1 },
+    ]);
+    mockChannelRepository.findByGuildId.mockImplementation(async () => channels);
+    mockPermissionRepository.findOverwritesByGuildId.mockImplementation(async () => overwrites);
+    mockMemberRepository.getMemberRolesByGuildAndUserIds.mockImplementation(async (_guildId: string, userIds: string[]) =>
+      memberRoles.filter((r) => userIds.includes(r.userId))
+    );
+    mockThreadRepository.findJoinedPrivateThreadIds.mockImplementation(async (userId: string) =>
+      userId === 'member' ? ['secret-thread'] : []
+    );
+  });
+
+  // ── dispatchChannelId ──
+
+  describe('dispatchChannelId', () => {
+    it('should scope message and thread events to their channel', () => {
+      expect(visibility.dispatchChannelId('MESSAGE_CREATE', { channelId: 'general' })).toBe('general');
+      expect(visibility.dispatchChannelId('TYPING_START', { channelId: 'staff' })).toBe('staff');
+      expect(visibility.dispatchChannelId('THREAD_CREATE', { id: 'thread-1', parentId: 'staff' })).toBe('staff');
+      expect(visibility.dispatchChannelId('THREAD_UPDATE', { id: 'secret-thread', type: 12, parentId: 'general' }))
+        .toBe('secret-thread');
+    });
+
+    it('should leave guild-wide events unscoped', () => {
+      expect(visibility.dispatchChannelId('CHANNEL_UPDATE', { id: 'staff' })).toBeNull();
+      expect(visibility.dispatchChannelId('GUILD_MEMBER_UPDATE', { userId: 'mod' })).toBeNull();
+    });
+  });
+
+  // ── hasGuildPermission ──
+
+  describe('hasGuildPermission', () => {
+    it('should gate moderator-only events on the guild permission', async () => {
+      expect(visibility.dispatchPermission('MODERATION_QUEUE_UPDATE')).toBe(PermissionFlags.MODERATE_MEMBERS);
+      expect(visibility.dispatchPermission('MESSAGE_CREATE')).toBeNull();
+
+      mockRoleRepository.findByGuildId.mockResolvedValue([
+        { id: 'everyone', name: '@everyone', permissions: VIEW, position: 0 },
+        { id: 'role-staff', name: 'Staff', permissions: PermissionFlags.MODERATE_MEMBERS.toString(), position: 1 },
+      ]);
+      expect(await visibility.hasGuildPermission('guild-1', 'mod', PermissionFlags.MODERATE_MEMBERS)).toBe(true);
+      expect(await visibility.hasGuildPermission('guild-1', 'member', PermissionFlags.MODERATE_MEMBERS)).toBe(false);
+      expect(await visibility.hasGuildPermission('guild-1', 'owner', PermissionFlags.MODERATE_MEMBERS)).toBe(true);
+    });
+
+    it('should only send automod rules and actions to members who can manage the guild', async () => {
+      for (const event of [
+        'AUTO_MODERATION_RULE_CREATE',
+        'AUTO_MODERATION_RULE_UPDATE',
+        'AUTO_MODERATION_RULE_DELETE',
+        'AUTO_MODERATION_ACTION_EXECUTION',
+      ]) {
+        expect(visibility.dispatchPermission(event)).toBe(PermissionFlags.MANAGE_GUILD);
+      }
+
+      mockRoleRepository.findByGuildId.mockResolvedValue([
+        { id: 'everyone', name: '@everyone', permissions: VIEW, position: 0 },
+        { id: 'role-staff', name: 'Staff', permissions: PermissionFlags.MODERATE_MEMBERS.toString(), position: 1 },
+      ]);
+      expect(await visibility.hasGuildPermission('guild-1', 'mod', PermissionFlags.MANAGE_GUILD)).toBe(false);
+      expect(await visibility.hasGuildPermission('guild-1', 'member', PermissionFlags.MANAGE_GUILD)).toBe(false);
+      expect(await visibility.hasGuildPermission('guild-1', 'owner', PermissionFlags.MANAGE_GUILD)).toBe(true);
+    });
+  });
+
+  // ── canViewChannel ──
+
+  describe('canViewChannel', () => {
+    it('should hide private channels from members without an allowed role', async () => {
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'general')).toBe(true);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'staff')).toBe(false);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'mod', 'staff')).toBe(true);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'owner', 'staff')).toBe(true);
+    });
+
+    it('should check threads against their parent channel', async () => {
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'thread-1')).toBe(false);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'mod', 'thread-1')).toBe(true);
+    });
+
+    it('should only show private threads to their members and thread managers', async () => {
+      mockRoleRepository.findByGuildId.mockResolvedValue([
+        { id: 'everyone', name: '@everyone', permissions: VIEW, position: 0 },
+        { id: 'role-staff', name: 'Staff', permissions: PermissionFlags.MANAGE_THREADS.toString(), position: 1 },
+      ]);
+      memberRoles.push({ userId: 'mod', roleId: 'role-staff' });
+
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'secret-thread')).toBe(true);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'outsider', 'secret-thread')).toBe(false);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'mod', 'secret-thread')).toBe(true);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'owner', 'secret-thread')).toBe(true);
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'outsider', 'general')).toBe(true);
+    });
+
+    it('should pick up thread joins after invalidateMember', async () => {
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'outsider', 'secret-thread')).toBe(false);
+
+      mockThreadRepository.findJoinedPrivateThreadIds.mockResolvedValue(['secret-thread']);
+      visibility.invalidateMember('guild-1', 'outsider');
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'outsider', 'secret-thread')).toBe(true);
+    });
+
+    it('should fail closed for unknown channels', async () => {
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'mod', 'deleted')).toBe(false);
+    });
+
+    it('should load the guild and member roles once', async () => {
+      visibility.preloadMembers('guild-1', ['member', 'mod']);
+      const cache = new Map();
+      await Promise.all([
+        visibility.canViewChannel(cache, 'guild-1', 'member', 'general'),
+        visibility.canViewChannel(new Map(), 'guild-1', 'mod', 'staff'),
+      ]);
+      await visibility.canViewChannel(cache, 'guild-1', 'member', 'general');
+
+      expect(mockChannelRepository.findByGuildId).toHaveBeenCalledTimes(1);
+      expect(mockMemberRepository.getMemberRolesByGuildAndUserIds).toHaveBeenCalledTimes(1);
+      expect(cache.get('guild-1')).toEqual(new Map([['general', true]]));
+    });
+  });
+
+  // ── invalidation ──
+
+  describe('invalidation', () => {
+    it('should pick up role changes after invalidateMember', async () => {
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'staff')).toBe(false);
+
+      memberRoles.push({ userId: 'member', roleId: 'role-staff' });
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'staff')).toBe(false);
+
+      visibility.invalidateMember('guild-1', 'member');
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'staff')).toBe(true);
+    });
+
+    it('should pick up overwrite changes after invalidateGuild', async () => {
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'staff')).toBe(false);
+
+      mockPermissionRepository.findOverwritesByGuildId.mockResolvedValue([]);
+      visibility.invalidateGuild('guild-1');
+      expect(await visibility.canViewChannel(new Map(), 'guild-1', 'member', 'staff')).toBe(true);
+    });
+  });
+});
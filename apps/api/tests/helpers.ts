@@ -106,6 +106,8 @@ export function createMockMessage(overrides: Record<string, any> = {}) {
     tts: false,
     pinned: false,
     mentionEveryone: false,
+    mentions: [],
+    mentionRoles: [],
     webhookId: null,
     editedAt: null,
     createdAt: new Date('2026-01-01T00:00:00Z'),
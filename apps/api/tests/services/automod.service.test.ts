@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionsBitfield, PermissionFlags } from '@yxc/permissions';
+
+// ── Mocks ──
+
+const mockAutomodRepository = {
+  findByGuildId: vi.fn(),
+  findById: vi.fn(),
+  countByTriggerType: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+};
+
+const mockMemberRepository = {
+  getMemberRoleIds: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+};
+
+const mockRedis = {
+  incr: vi.fn(),
+  incrby: vi.fn(),
+  expire: vi.fn(),
+};
+
+const mockGetGuildPermissions = vi.fn();
+const mockDispatchGuild = vi.fn();
+const mockCreateMessage = vi.fn();
+const mockCreateAuditLogEntry = vi.fn();
+const mockTimeoutMember = vi.fn();
+
+vi.mock('../../src/repositories/automod.repository.js', () => ({
+  automodRepository: mockAutomodRepository,
+}));
+vi.mock('../../src/repositories/member.repository.js', () => ({
+  memberRepository: mockMemberRepository,
+}));
+vi.mock('../../src/repositories/channel.repository.js', () => ({
+  channelRepository: mockChannelRepository,
+}));
+vi.mock('../../src/services/permission.service.js', () => ({
+  getGuildPermissions: mockGetGuildPermissions,
+}));
+vi.mock('../../src/services/message.service.js', () => ({
+  createMessage: mockCreateMessage,
+}));
+vi.mock('../../src/services/member.service.js', () => ({
+  timeoutMember: mockTimeoutMember,
+  getMemberUpdate: vi.fn(async (guildId: string, userId: string) => ({ guildId, userId })),
+}));
+vi.mock('../../src/services/auditlog.service.js', () => ({
+  createAuditLogEntry: mockCreateAuditLogEntry,
+}));
+vi.mock('../../src/utils/dispatch.js', () => ({
+  dispatchGuild: mockDispatchGuild,
+}));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  redis: mockRedis,
+}));
+vi.mock('@yxc/snowflake', () => ({
+  generateSnowflake: vi.fn(() => 'rule-snowflake-1'),
+}));
+
+const automodService = await import('../../src/services/automod.service.js');
+const { AutoModTriggerType, AutoModActionType } = automodService;
+
+let guildCounter = 0;
+
+function createRuleRow(overrides: Record<string, any> = {}) {
+  return {
+    id: 'rule-1',
+    guildId: 'guild-1',
+    name: 'No bad words',
+    creatorId: 'owner-1',
+    eventType: 1,
+    triggerType: AutoModTriggerType.KEYWORD,
+    triggerMetadata: { keywordFilter: ['cat*', '*dog', 'fish'] },
+    actions: [{ type: AutoModActionType.BLOCK_MESSAGE }],
+    enabled: true,
+    exemptRoles: [],
+    exemptChannels: [],
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Each test uses a fresh guild ID so the per-guild rule cache never leaks between tests
+function useRules(...rows: Record<string, any>[]) {
+  const guildId = `guild-${++guildCounter}`;
+  mockAutomodRepository.findByGuildId.mockResolvedValue(rows.map((r) => ({ ...r, guildId })));
+  return guildId;
+}
+
+const channel = { id: 'ch-1', parentId: null };
+
+describe('AutoMod Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetGuildPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.SEND_MESSAGES));
+    mockMemberRepository.getMemberRoleIds.mockResolvedValue([]);
+    mockCreateMessage.mockResolvedValue({ id: 'alert-msg-1' });
+  });
+
+  // ── checkMessage ──
+
+  describe('checkMessage', () => {
+    it('should apply keyword wildcards', async () => {
+      const guildId = useRules(createRuleRow());
+
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'catalog')).blocked).toBe(true);
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'hotdog')).blocked).toBe(true);
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'FISH!')).blocked).toBe(true);
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'selfish')).blocked).toBe(false);
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'dogma')).blocked).toBe(false);
+    });
+
+    it('should honour the allow list and regex patterns', async () => {
+      const guildId = useRules(createRuleRow({
+        triggerMetadata: { keywordFilter: ['cat*'], regexPatterns: ['b[a@]d\\s+word'], allowList: ['category'] },
+      }));
+
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'new category')).blocked).toBe(false);
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'a B@D  word')).blocked).toBe(true);
+    });
+
+    it('should return the custom block message and emit an execution event', async () => {
+      const guildId = useRules(createRuleRow({
+        actions: [{ type: AutoModActionType.BLOCK_MESSAGE, metadata: { customMessage: 'Keep it civil' } }],
+      }));
+
+      const result = await automodService.checkMessage(guildId, channel, 'user-1', 'cats');
+
+      expect(result).toEqual({ blocked: true, message: 'Keep it civil' });
+      expect(mockDispatchGuild).toHaveBeenCalledWith(guildId, 'AUTO_MODERATION_ACTION_EXECUTION', expect.objectContaining({
+        ruleId: 'rule-1',
+        userId: 'user-1',
+        matchedKeyword: 'cat*',
+        matchedContent: 'cats',
+      }));
+    });
+
+    it('should send alerts and time out without blocking', async () => {
+      const guildId = useRules(createRuleRow({
+        triggerType: AutoModTriggerType.MENTION_SPAM,
+        triggerMetadata: { mentionTotalLimit: 2 },
+        actions: [
+          { type: AutoModActionType.SEND_ALERT_MESSAGE, metadata: { channelId: 'mod-log' } },
+          { type: AutoModActionType.TIMEOUT, metadata: { durationSeconds: 60 } },
+        ],
+      }));
+
+      const result = await automodService.checkMessage(guildId, channel, 'user-1', '<@1> <@!2> <@&3>');
+
+      expect(result.blocked).toBe(false);
+      expect(mockCreateMessage).toHaveBeenCalledWith('mod-log', 'user-1', '<@1> <@!2> <@&3>', { type: 24 });
+      expect(mockTimeoutMember).toHaveBeenCalledWith(guildId, 'user-1', expect.any(Date));
+      expect(mockDispatchGuild).toHaveBeenCalledWith(guildId, 'GUILD_MEMBER_UPDATE', { guildId, userId: 'user-1' });
+    });
+
+    it('should skip exempt roles, exempt parent channels and MANAGE_GUILD members', async () => {
+      const guildId = useRules(
+        createRuleRow({ exemptRoles: ['role-trusted'] }),
+        createRuleRow({ id: 'rule-2', exemptChannels: ['parent-1'] }),
+      );
+
+      mockMemberRepository.getMemberRoleIds.mockResolvedValue([{ roleId: 'role-trusted' }]);
+      const threaded = await automodService.checkMessage(guildId, { id: 'thread-1', parentId: 'parent-1' }, 'user-1', 'cat');
+      expect(threaded.blocked).toBe(false);
+
+      mockMemberRepository.getMemberRoleIds.mockResolvedValue([]);
+      mockGetGuildPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.MANAGE_GUILD));
+      expect((await automodService.checkMessage(guildId, channel, 'mod-1', 'cat')).blocked).toBe(false);
+    });
+
+    it('should flag repeated duplicate messages as spam', async () => {
+      const guildId = useRules(createRuleRow({ triggerType: AutoModTriggerType.SPAM, triggerMetadata: {} }));
+
+      mockRedis.incr.mockResolvedValueOnce(1).mockResolvedValueOnce(3);
+
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'buy now')).blocked).toBe(false);
+      expect((await automodService.checkMessage(guildId, channel, 'user-1', 'buy now')).blocked).toBe(true);
+    });
+  });
+
+  // ── createRule ──
+
+  describe('createRule', () => {
+    const baseInput = {
+      name: 'Rule',
+      eventType: 1,
+      triggerMetadata: {},
+      enabled: true,
+      exemptRoles: [],
+      exemptChannels: [],
+    };
+
+    it('should reject timeouts on spam rules', async () => {
+      await expect(automodService.createRule('guild-1', 'owner-1', {
+        ...baseInput,
+        triggerType: AutoModTriggerType.SPAM,
+        actions: [{ type: AutoModActionType.TIMEOUT, metadata: { durationSeconds: 60 } }],
+      })).rejects.toThrow('Timeout actions are only allowed');
+    });
+
+    it('should reject regex patterns prone to catastrophic backtracking', async () => {
+      await expect(automodService.createRule('guild-1', 'owner-1', {
+        ...baseInput,
+        triggerType: AutoModTriggerType.KEYWORD,
+        triggerMetadata: { regexPatterns: ['(a+)+$'] },
+        actions: [{ type: AutoModActionType.BLOCK_MESSAGE }],
+      })).rejects.toThrow('Regex pattern is too complex');
+    });
+
+    it('should enforce the per-trigger rule limit', async () => {
+      mockAutomodRepository.countByTriggerType.mockResolvedValue(1);
+
+      await expect(automodService.createRule('guild-1', 'owner-1', {
+        ...baseInput,
+        triggerType: AutoModTriggerType.MENTION_SPAM,
+        triggerMetadata: { mentionTotalLimit: 5 },
+        actions: [{ type: AutoModActionType.BLOCK_MESSAGE }],
+      })).rejects.toThrow('Maximum number of rules');
+    });
+
+    it('should reject alert channels from another guild', async () => {
+      mockChannelRepository.findById.mockResolvedValue({ id: 'ch-x', guildId: 'other-guild' });
+
+      await expect(automodService.createRule('guild-1', 'owner-1', {
+        ...baseInput,
+        triggerType: AutoModTriggerType.KEYWORD,
+        triggerMetadata: { keywordFilter: ['x'] },
+        actions: [{ type: AutoModActionType.SEND_ALERT_MESSAGE, metadata: { channelId: 'ch-x' } }],
+      })).rejects.toThrow('Alert channel must belong to this guild');
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks ──
+
+const mockBackupRepository = {
+  findById: vi.fn(),
+  findByGuildId: vi.fn(),
+  create: vi.fn(),
+  delete: vi.fn(),
+};
+
+const mockGuildRepository = {
+  findById: vi.fn(),
+  findOwnerById: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findByGuildId: vi.fn(),
+};
+
+const mockRoleRepository = {
+  findByGuildId: vi.fn(),
+};
+
+const mockPermissionRepository = {
+  findOverwritesByChannelId: vi.fn(),
+  setOverwrite: vi.fn(),
+};
+
+const mockChannelService = {
+  createChannel: vi.fn(),
+};
+
+const mockRoleService = {
+  createRole: vi.fn(),
+};
+
+const mockInvalidateGuildPermissions = vi.fn();
+
+vi.mock('../../src/repositories/backup.repository.js', () => ({
+  backupRepository: mockBackupRepository,
+}));
+vi.mock('../../src/repositories/guild.repository.js', () => ({
+  guildRepository: mockGuildRepository,
+}));
+vi.mock('../../src/repositories/channel.repository.js', () => ({
+  channelRepository: mockChannelRepository,
+}));
+vi.mock('../../src/repositories/role.repository.js', () => ({
+  roleRepository: mockRoleRepository,
+}));
+vi.mock('../../src/repositories/emoji.repository.js', () => ({
+  emojiRepository: { findByGuildId: vi.fn() },
+}));
+vi.mock('../../src/repositories/permission.repository.js', () => ({
+  permissionRepository: mockPermissionRepository,
+}));
+vi.mock('../../src/services/channel.service.js', () => mockChannelService);
+vi.mock('../../src/services/role.service.js', () => mockRoleService);
+vi.mock('../../src/services/permission.service.js', () => ({
+  invalidateGuildPermissions: mockInvalidateGuildPermissions,
+}));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), del: vi.fn() },
+}));
+vi.mock('@yxc/snowflake', () => ({
+  generateSnowflake: vi.fn(() => 'backup-snowflake-1'),
+}));
+
+const backupService = await import('../../src/services/backup.service.js');
+
+const GUILD_ID = 'guild-1';
+
+function createBackupData() {
+  return {
+    guild: { name: 'Test Guild' },
+    channels: [
+      { id: 'cat-1', name: 'Staff', type: 4, topic: null, position: 0, parentId: null, nsfw: false, rateLimitPerUser: 0, bitrate: null, userLimit: null, messageRetentionSeconds: null },
+      { id: 'ch-general', name: 'general', type: 0, topic: null, position: 1, parentId: null, nsfw: false, rateLimitPerUser: 0, bitrate: null, userLimit: null, messageRetentionSeconds: null },
+      { id: 'ch-mods', name: 'mods', type: 0, topic: 'mod chat', position: 2, parentId: 'cat-1', nsfw: false, rateLimitPerUser: 0, bitrate: null, userLimit: null, messageRetentionSeconds: null },
+    ],
+    roles: [
+      { id: GUILD_ID, name: '@everyone', color: 0, hoist: false, position: 0, permissions: '1024', mentionable: false },
+      { id: 'role-mod', name: 'Moderator', color: 255, hoist: true, position: 1, permissions: '8192', mentionable: true },
+    ],
+    emojis: [],
+    permissionOverwrites: [
+      { channelId: 'ch-mods', targetId: GUILD_ID, targetType: 0, allow: '0', deny: '1024' },
+      { channelId: 'ch-mods', targetId: 'role-mod', targetType: 0, allow: '1024', deny: '0' },
+    ],
+  };
+}
+
+function createBackup(data = createBackupData()) {
+  return {
+    id: 'backup-1',
+    guildId: GUILD_ID,
+    createdBy: 'owner-1',
+    data,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+describe('Backup Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGuildRepository.findOwnerById.mockResolvedValue({ ownerId: 'owner-1' });
+    mockPermissionRepository.findOverwritesByChannelId.mockResolvedValue([]);
+  });
+
+  // ── restoreBackup ──
+
+  describe('restoreBackup', () => {
+    it('should throw 403 when a non-owner restores', async () => {
+      await expect(
+        backupService.restoreBackup(GUILD_ID, 'backup-1', 'not-owner')
+      ).rejects.toThrow('Only the owner can restore backups');
+    });
+
+    it('should throw 404 when the backup belongs to another guild', async () => {
+      mockBackupRepository.findById.mockResolvedValue({ ...createBackup(), guildId: 'other-guild' });
+
+      await expect(
+        backupService.restoreBackup(GUILD_ID, 'backup-1', 'owner-1')
+      ).rejects.toThrow('Backup not found');
+    });
+
+    it('should plan missing channels and roles without writing on dry run', async () => {
+      mockBackupRepository.findById.mockResolvedValue(createBackup());
+      mockChannelRepository.findByGuildId.mockResolvedValue([{ id: 'ch-general', name: 'general', type: 0 }]);
+      mockRoleRepository.findByGuildId.mockResolvedValue([{ id: GUILD_ID, name: '@everyone' }]);
+
+      const result = await backupService.restoreBackup(GUILD_ID, 'backup-1', 'owner-1', { dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.plan.roles).toEqual([
+        { sourceId: 'role-mod', name: 'Moderator', action: 'create', targetId: null },
+      ]);
+      expect(result.plan.channels.map((c) => [c.sourceId, c.action])).toEqual([
+        ['cat-1', 'create'],
+        ['ch-general', 'keep'],
+        ['ch-mods', 'create'],
+      ]);
+      expect(result.plan.permissionOverwrites).toHaveLength(2);
+      expect(mockRoleService.createRole).not.toHaveBeenCalled();
+      expect(mockChannelService.createChannel).not.toHaveBeenCalled();
+      expect(mockPermissionRepository.setOverwrite).not.toHaveBeenCalled();
+    });
+
+    it('should recreate channels under restored categories and remap overwrite targets', async () => {
+      mockBackupRepository.findById.mockResolvedValue(createBackup());
+      mockChannelRepository.findByGuildId.mockResolvedValue([{ id: 'ch-general', name: 'general', type: 0 }]);
+      mockRoleRepository.findByGuildId.mockResolvedValue([{ id: GUILD_ID, name: '@everyone' }]);
+      mockRoleService.createRole.mockResolvedValue({ id: 'new-role-mod', name: 'Moderator' });
+      mockChannelService.createChannel
+        .mockResolvedValueOnce({ id: 'new-cat-1', name: 'Staff' })
+        .mockResolvedValueOnce({ id: 'new-ch-mods', name: 'mods' });
+
+      const result = await backupService.restoreBackup(GUILD_ID, 'backup-1', 'owner-1');
+
+      expect(result.createdRoles).toHaveLength(1);
+      expect(result.createdChannels).toHaveLength(2);
+      expect(mockChannelService.createChannel).toHaveBeenLastCalledWith(GUILD_ID, expect.objectContaining({
+        name: 'mods',
+        parentId: 'new-cat-1',
+      }));
+      expect(mockPermissionRepository.setOverwrite).toHaveBeenCalledWith(expect.objectContaining({
+        channelId: 'new-ch-mods',
+        targetId: GUILD_ID,
+      }));
+      expect(mockPermissionRepository.setOverwrite).toHaveBeenCalledWith(expect.objectContaining({
+        channelId: 'new-ch-mods',
+        targetId: 'new-role-mod',
+      }));
+      expect(result.updatedChannelIds).toEqual([]);
+      expect(mockInvalidateGuildPermissions).toHaveBeenCalledWith(GUILD_ID);
+    });
+
+    it('should put recreated roles back at their backed-up positions, lowest first', async () => {
+      const backup = createBackup();
+      backup.data.roles.push(
+        { id: 'role-admin', name: 'Admin', color: 0, hoist: true, position: 3, permissions: '8', mentionable: false },
+        { id: 'role-helper', name: 'Helper', color: 0, hoist: false, position: 2, permissions: '0', mentionable: false },
+      );
+      mockBackupRepository.findById.mockResolvedValue(backup);
+      mockChannelRepository.findByGuildId.mockResolvedValue([]);
+      mockRoleRepository.findByGuildId.mockResolvedValue([{ id: GUILD_ID, name: '@everyone' }]);
+      mockRoleService.createRole.mockImplementation(async (_guildId: string, data: { name: string }) => ({ id: `new-${data.name}` }));
+      mockChannelService.createChannel.mockImplementation(async (_guildId: string, data: { name: string }) => ({ id: `new-${data.name}` }));
+
+      await backupService.restoreBackup(GUILD_ID, 'backup-1', 'owner-1');
+
+      expect(mockRoleService.createRole.mock.calls.map(([, data]) => [data.name, data.position])).toEqual([
+        ['Moderator', 1],
+        ['Helper', 2],
+        ['Admin', 3],
+      ]);
+    });
+
+    it('should only restore overwrites missing from existing channels', async () => {
+      mockBackupRepository.findById.mockResolvedValue(createBackup());
+      mockChannelRepository.findByGuildId.mockResolvedValue([
+        { id: 'cat-1', name: 'Staff', type: 4 },
+        { id: 'ch-general', name: 'general', type: 0 },
+        { id: 'ch-mods', name: 'mods', type: 0 },
+      ]);
+      mockRoleRepository.findByGuildId.mockResolvedValue([
+        { id: GUILD_ID, name: '@everyone' },
+        { id: 'role-mod', name: 'Moderator' },
+      ]);
+      mockPermissionRepository.findOverwritesByChannelId.mockResolvedValue([{ targetId: GUILD_ID }]);
+
+      const result = await backupService.restoreBackup(GUILD_ID, 'backup-1', 'owner-1');
+
+      expect(mockRoleService.createRole).not.toHaveBeenCalled();
+      expect(mockChannelService.createChannel).not.toHaveBeenCalled();
+      expect(mockPermissionRepository.setOverwrite).toHaveBeenCalledTimes(1);
+      expect(mockPermissionRepository.setOverwrite).toHaveBeenCalledWith(expect.objectContaining({
+        channelId: 'ch-mods',
+        targetId: 'role-mod',
+      }));
+      expect(result.updatedChannelIds).toEqual(['ch-mods']);
+    });
+
+    it('should skip overwrites from legacy backups without source IDs', async () => {
+      const data = createBackupData();
+      data.permissionOverwrites = data.permissionOverwrites.map(({ channelId: _channelId, ...o }) => o) as any;
+      mockBackupRepository.findById.mockResolvedValue(createBackup(data));
+      mockChannelRepository.findByGuildId.mockResolvedValue([]);
+      mockRoleRepository.findByGuildId.mockResolvedValue([{ id: GUILD_ID, name: '@everyone' }]);
+
+      const result = await backupService.restoreBackup(GUILD_ID, 'backup-1', 'owner-1', { dryRun: true });
+
+      expect(result.plan.permissionOverwrites).toHaveLength(0);
+      expect(result.plan.skippedOverwrites).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks ──
+
+const mockGuildRepository = {
+  findById: vi.fn(),
+  findOwnerById: vi.fn(),
+};
+
+const mockGuildSettingsRepository = {
+  findPreview: vi.fn(),
+  upsertPreview: vi.fn(),
+  searchDiscoverable: vi.fn(),
+  countDiscoverable: vi.fn(),
+  findDiscoverableGuildIds: vi.fn(),
+  updatePreviewCounts: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+};
+
+const mockMemberRepository = {
+  countByGuildIds: vi.fn(),
+  countOnlineByGuildIds: vi.fn(),
+};
+
+const mockMessageRepository = {
+  findUnexpired: vi.fn(),
+};
+
+vi.mock('../../src/repositories/guild.repository.js', () => ({ guildRepository: mockGuildRepository }));
+vi.mock('../../src/repositories/guild-settings.repository.js', () => ({
+  guildSettingsRepository: mockGuildSettingsRepository,
+}));
+vi.mock('../../src/repositories/channel.repository.js', () => ({ channelRepository: mockChannelRepository }));
+vi.mock('../../src/repositories/member.repository.js', () => ({ memberRepository: mockMemberRepository }));
+vi.mock('../../src/repositories/message.repository.js', () => ({ messageRepository: mockMessageRepository }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+
+const discoveryService = await import('../../src/services/discovery.service.js');
+
+function message(id: string) {
+  return {
+    id,
+    content: `message ${id}`,
+    authorId: 'user-1',
+    authorSnapshot: { id: 'user-1', username: 'alice', displayName: null, avatar: null },
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    editedTimestamp: null,
+  };
+}
+
+describe('Discovery Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGuildRepository.findOwnerById.mockResolvedValue({ ownerId: 'owner' });
+    mockGuildSettingsRepository.upsertPreview.mockImplementation(async (guildId: string, data: Record<string, any>) => ({
+      guildId,
+      discoverable: false,
+      category: null,
+      tags: [],
+      approximateMemberCount: 0,
+      approximatePresenceCount: 0,
+      ...data,
+    }));
+    mockMemberRepository.countByGuildIds.mockImplementation(async (ids: string[]) => ids.map((guildId) => ({ guildId, count: 10 })));
+    mockMemberRepository.countOnlineByGuildIds.mockImplementation(async (ids: string[]) => ids.map((guildId) => ({ guildId, count: 3 })));
+  });
+
+  // ── updateDiscoverySettings ──
+
+  describe('updateDiscoverySettings', () => {
+    it('should only let the owner change discovery settings', async () => {
+      await expect(discoveryService.updateDiscoverySettings('guild-1', 'admin', { discoverable: true }))
+        .rejects.toThrow('Only the owner can change discovery settings');
+      expect(mockGuildSettingsRepository.upsertPreview).not.toHaveBeenCalled();
+    });
+
+    it('should normalize tags and count members when listing the guild', async () => {
+      const settings = await discoveryService.updateDiscoverySettings('guild-1', 'owner', {
+        discoverable: true,
+        category: 'gaming',
+        tags: [' RPG ', 'rpg', 'Co-op'],
+      });
+
+      expect(mockGuildSettingsRepository.upsertPreview).toHaveBeenCalledWith('guild-1', {
+        discoverable: true,
+        category: 'gaming',
+        tags: ['rpg', 'co-op'],
+        approximateMemberCount: 10,
+        approximatePresenceCount: 3,
+      });
+      expect(settings).toMatchObject({ discoverable: true, approximateMemberCount: 10 });
+    });
+  });
+
+  // ── requireCanPublishChannel ──
+
+  describe('requireCanPublishChannel', () => {
+    it('should reject DMs, voice channels and non-owners', async () => {
+      await expect(discoveryService.requireCanPublishChannel({ guildId: null, type: 1 }, 'owner'))
+        .rejects.toThrow('Only guild channels can be public');
+      await expect(discoveryService.requireCanPublishChannel({ guildId: 'guild-1', type: 2 }, 'owner'))
+        .rejects.toThrow('Only text and announcement channels can be public');
+      await expect(discoveryService.requireCanPublishChannel({ guildId: 'guild-1', type: 0 }, 'admin'))
+        .rejects.toThrow('Only the owner can make channels public');
+      await expect(discoveryService.requireCanPublishChannel({ guildId: 'guild-1', type: 5 }, 'owner'))
+        .resolves.toBeUndefined();
+    });
+  });
+
+  // ── getPublicChannel ──
+
+  describe('getPublicChannel', () => {
+    it('should 404 for channels that are not public', async () => {
+      mockChannelRepository.findById.mockResolvedValue({ id: 'ch-1', guildId: 'guild-1', isPublic: false });
+      await expect(discoveryService.getPublicChannel('ch-1', { limit: 50 }))
+        .rejects.toThrow('Channel not found or not public');
+    });
+
+    it('should page messages inside the retention window', async () => {
+      vi.useFakeTimers({ now: new Date('2026-03-01T00:00:00Z') });
+      mockChannelRepository.findById.mockResolvedValue({
+        id: 'ch-1', guildId: 'guild-1', isPublic: true, name: 'news', topic: null, type: 0,
+        messageRetentionSeconds: 86400,
+      });
+      mockGuildRepository.findById.mockResolvedValue({ id: 'guild-1', name: 'Guild', icon: null, description: null });
+      mockMessageRepository.findUnexpired.mockResolvedValue([message('m3'), message('m2'), message('m1')]);
+
+      const page = await discoveryService.getPublicChannel('ch-1', { before: 'm4', limit: 2 });
+      vi.useRealTimers();
+
+      expect(mockMessageRepository.findUnexpired).toHaveBeenCalledWith('ch-1', {
+        before: 'm4',
+        limit: 3,
+        since: new Date('2026-02-28T00:00:00Z'),
+      });
+      expect(page.messages.map((m) => m.id)).toEqual(['m3', 'm2']);
+      expect(page.messages[0]!.author).toMatchObject({ username: 'alice' });
+      expect(page.hasMore).toBe(true);
+    });
+  });
+
+  // ── refreshDiscoveryCounts ──
+
+  describe('refreshDiscoveryCounts', () => {
+    it('should walk discoverable guilds in batches from a cursor', async () => {
+      const firstBatch = Array.from({ length: 100 }, (_, i) => `guild-${String(i).padStart(3, '0')}`);
+      mockGuildSettingsRepository.findDiscoverableGuildIds
+        .mockResolvedValueOnce(firstBatch)
+        .mockResolvedValueOnce(['guild-100']);
+
+      const refreshed = await discoveryService.refreshDiscoveryCounts();
+
+      expect(refreshed).toBe(101);
+      expect(mockGuildSettingsRepository.findDiscoverableGuildIds).toHaveBeenNthCalledWith(1, null, 100);
+      expect(mockGuildSettingsRepository.findDiscoverableGuildIds).toHaveBeenNthCalledWith(2, 'guild-099', 100);
+      expect(mockGuildSettingsRepository.updatePreviewCounts).toHaveBeenCalledWith('guild-100', 10, 3);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks ──
+
+const mockEventRepository = {
+  findByStatusStartingBefore: vi.fn(),
+  findByStatusEndingBefore: vi.fn(),
+  findRecurringWithoutEndStartedBefore: vi.fn(),
+  findInterestedUserIds: vi.fn(),
+  update: vi.fn(),
+};
+
+const mockRedis = {
+  get: vi.fn(),
+  set: vi.fn(),
+};
+
+vi.mock('../../src/repositories/event.repository.js', () => ({ eventRepository: mockEventRepository }));
+vi.mock('../../src/repositories/guild.repository.js', () => ({ guildRepository: {} }));
+vi.mock('../../src/services/notification.service.js', () => ({ createNotification: vi.fn() }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  redis: mockRedis,
+  redisPub: { publish: vi.fn() },
+}));
+
+const eventService = await import('../../src/services/event.service.js');
+
+describe('Event Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEventRepository.findByStatusStartingBefore.mockResolvedValue([]);
+    mockEventRepository.findByStatusEndingBefore.mockResolvedValue([]);
+    mockEventRepository.findRecurringWithoutEndStartedBefore.mockResolvedValue([]);
+    mockEventRepository.update.mockImplementation(async (id: string, data: object) => ({ id, ...data }));
+    mockRedis.get.mockResolvedValue(null);
+  });
+
+  // ── processEventLifecycle ──
+
+  describe('processEventLifecycle', () => {
+    it('should move a series on when an occurrence has no end time', async () => {
+      const now = new Date('2026-03-02T21:00:00Z');
+      mockEventRepository.findRecurringWithoutEndStartedBefore.mockResolvedValue([{
+        id: 'event-1',
+        guildId: 'guild-1',
+        status: 2,
+        scheduledStartTime: new Date('2026-03-02T18:00:00Z'),
+        scheduledEndTime: null,
+        recurrenceRule: { frequency: 'daily' },
+        recurrenceAnchor: new Date('2026-03-01T18:00:00Z'),
+      }]);
+
+      const result = await eventService.processEventLifecycle(now);
+
+      expect(result.ended).toBe(1);
+      expect(mockEventRepository.findRecurringWithoutEndStartedBefore)
+        .toHaveBeenCalledWith(2, new Date('2026-03-02T19:00:00Z'));
+      expect(mockEventRepository.update).toHaveBeenCalledWith('event-1', {
+        status: 1,
+        scheduledStartTime: new Date('2026-03-03T18:00:00Z'),
+        scheduledEndTime: null,
+      });
+    });
+  });
+
+  // ── calendar tokens ──
+
+  describe('calendar tokens', () => {
+    it('should accept a token only for the guild and session version it was issued for', async () => {
+      const token = await eventService.createCalendarToken('user-1', 'guild-1');
+
+      await expect(eventService.verifyCalendarToken('guild-1', token)).resolves.toBe('user-1');
+      await expect(eventService.verifyCalendarToken('guild-2', token)).rejects.toThrow('Invalid calendar token');
+      await expect(eventService.verifyCalendarToken('guild-1', token.replace('user-1', 'user-2')))
+        .rejects.toThrow('Invalid calendar token');
+
+      mockRedis.get.mockResolvedValue('1');
+      await expect(eventService.verifyCalendarToken('guild-1', token)).rejects.toThrow('Invalid calendar token');
+    });
+  });
+});
@@ -53,6 +53,10 @@ vi.mock('../../src/services/permission.service.js', () => ({
 vi.mock('../../src/config/env.js', () => ({
   env: { VOICE_SERVICE_URL: '', VOICE_INTERNAL_KEY: '' },
 }));
+vi.mock('../../src/services/voice.service.js', () => ({
+  getGuildVoiceStates: vi.fn(async () => []),
+  getVoiceStatesForGuilds: vi.fn(async () => new Map()),
+}));
 vi.mock('../../src/config/redis.js', () => ({
   redis: { get: vi.fn(), set: vi.fn(), del: vi.fn() },
 }));
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+// ── Mocks ──
+
+const mockApplicationRepository = {
+  findSigningKey: vi.fn(),
+  setSigningKey: vi.fn(),
+};
+
+const mockUserRepository = {
+  findPublicById: vi.fn(),
+};
+
+const mockInteractionService = {
+  InteractionType: { PING: 1, APPLICATION_COMMAND: 2 },
+  InteractionResponseType: { PONG: 1, CHANNEL_MESSAGE_WITH_SOURCE: 4, DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE: 5 },
+  createDeferredResponse: vi.fn(() => ({ type: 5 })),
+  respondToInteraction: vi.fn(),
+};
+
+const mockDispatchUser = vi.fn();
+const mockIsBlockedIpLiteral = vi.fn();
+
+vi.mock('../../src/repositories/application.repository.js', () => ({
+  applicationRepository: mockApplicationRepository,
+}));
+vi.mock('../../src/repositories/user.repository.js', () => ({
+  userRepository: mockUserRepository,
+}));
+vi.mock('../../src/services/interaction.service.js', () => mockInteractionService);
+// The test endpoint listens on loopback, so the private-address guard is stubbed per test
+vi.mock('../../src/utils/ssrf.js', () => ({
+  isBlockedIpLiteral: mockIsBlockedIpLiteral,
+  safeLookup: dns.lookup,
+}));
+vi.mock('../../src/utils/dispatch.js', () => ({
+  dispatchUser: mockDispatchUser,
+}));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), del: vi.fn() },
+}));
+
+const deliveryService = await import('../../src/services/interaction-delivery.service.js');
+
+// Mirrors verifySignature in rest/routes/interactions.ts
+function verify(publicKeyHex: string, signature: string, timestamp: string, body: string) {
+  const keyObj = crypto.createPublicKey({
+    key: Buffer.concat([Buffer.from('302a300506032b6570032100', 'hex'), Buffer.from(publicKeyHex, 'hex')]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(null, Buffer.from(timestamp + body), keyObj, Buffer.from(signature, 'hex'));
+}
+
+function createMockApplication(overrides: Record<string, any> = {}) {
+  return {
+    id: 'app-1',
+    name: 'Test Bot',
+    icon: null,
+    description: '',
+    botPublic: true,
+    botRequireCodeGrant: false,
+    ownerId: 'owner-1',
+    botUserId: 'bot-user-1',
+    verifyKey: '',
+    flags: 0,
+    interactionsEndpointUrl: null as string | null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createMockInteraction(overrides: Record<string, any> = {}) {
+  return {
+    id: 'interaction-1',
+    applicationId: 'app-1',
+    type: 2,
+    guildId: 'guild-1',
+    channelId: 'ch-1',
+    userId: 'user-1',
+    token: 'token-1',
+    data: { name: 'ping' },
+    version: 1,
+    createdAt: new Date(),
+    respondedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Interaction Delivery Service', () => {
+  const keys = deliveryService.generateSigningKeyPair();
+  const requests: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  let respond: (res: http.ServerResponse) => void;
+  let endpoint: string;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      respond(res);
+    });
+  });
+  const reply = (status: number, payload: unknown) => (res: http.ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+  };
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/interactions`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requests.length = 0;
+    respond = reply(200, { type: 1 });
+    mockIsBlockedIpLiteral.mockReturnValue(false);
+    mockApplicationRepository.findSigningKey.mockResolvedValue(keys.privateKey);
+    mockUserRepository.findPublicById.mockResolvedValue({ id: 'user-1', username: 'alice', displayName: null, avatar: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ── Signing ──
+
+  describe('signPayload', () => {
+    it('should produce signatures that verify against the hex verify key', () => {
+      const signature = deliveryService.signPayload(keys.privateKey, '1700000000', '{"type":1}');
+      expect(keys.verifyKey).toHaveLength(64);
+      expect(verify(keys.verifyKey, signature, '1700000000', '{"type":1}')).toBe(true);
+      expect(verify(keys.verifyKey, signature, '1700000001', '{"type":1}')).toBe(false);
+    });
+  });
+
+  // ── validateInteractionsEndpoint ──
+
+  describe('validateInteractionsEndpoint', () => {
+    it('should accept an endpoint that answers PING with PONG', async () => {
+      await deliveryService.validateInteractionsEndpoint('app-1', endpoint);
+
+      const { headers, body } = requests[0]!;
+      expect(JSON.parse(body).type).toBe(1);
+      expect(verify(
+        keys.verifyKey,
+        headers['x-signature-ed25519'] as string,
+        headers['x-signature-timestamp'] as string,
+        body
+      )).toBe(true);
+    });
+
+    it('should reject an endpoint that does not PONG', async () => {
+      respond = reply(200, { ok: true });
+
+      await expect(
+        deliveryService.validateInteractionsEndpoint('app-1', endpoint)
+      ).rejects.toThrow('expected PONG');
+    });
+
+    it('should refuse endpoints on private addresses without contacting them', async () => {
+      mockIsBlockedIpLiteral.mockReturnValue(true);
+
+      await expect(
+        deliveryService.validateInteractionsEndpoint('app-1', 'http://169.254.169.254/latest/meta-data')
+      ).rejects.toThrow('not a public http(s) URL');
+      await expect(
+        deliveryService.validateInteractionsEndpoint('app-1', endpoint)
+      ).rejects.toThrow('not a public http(s) URL');
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should not follow redirects', async () => {
+      respond = (res) => res.writeHead(307, { Location: 'http://10.0.0.1/' }).end();
+
+      await expect(
+        deliveryService.validateInteractionsEndpoint('app-1', endpoint)
+      ).rejects.toThrow('Application endpoint returned 307');
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should generate a signing key for legacy applications', async () => {
+      mockApplicationRepository.findSigningKey.mockResolvedValue(null);
+
+      await deliveryService.validateInteractionsEndpoint('app-1', endpoint);
+
+      expect(mockApplicationRepository.setSigningKey).toHaveBeenCalledWith('app-1', expect.any(String), expect.any(String));
+    });
+  });
+
+  // ── deliverInteraction ──
+
+  describe('deliverInteraction', () => {
+    it('should fall back to the gateway for bots without an endpoint', async () => {
+      const result = await deliveryService.deliverInteraction(
+        createMockApplication() as any,
+        createMockInteraction() as any
+      );
+
+      expect(requests).toHaveLength(0);
+      expect(mockDispatchUser).toHaveBeenCalledWith('bot-user-1', 'INTERACTION_CREATE', expect.objectContaining({
+        id: 'interaction-1',
+        guild_id: 'guild-1',
+        member: { user: expect.objectContaining({ id: 'user-1' }) },
+      }));
+      expect(result).toEqual({ type: 5 });
+    });
+
+    it('should POST to the endpoint and apply the bot response', async () => {
+      respond = reply(200, { type: 4, data: { content: 'pong' } });
+      mockInteractionService.respondToInteraction.mockResolvedValue({ type: 4, data: { id: 'msg-1', content: 'pong' } });
+
+      const result = await deliveryService.deliverInteraction(
+        createMockApplication({ interactionsEndpointUrl: endpoint }) as any,
+        createMockInteraction() as any
+      );
+
+      expect(mockInteractionService.respondToInteraction).toHaveBeenCalledWith('interaction-1', 'token-1', 4, { content: 'pong' });
+      expect(result).toEqual({ type: 4, data: { id: 'msg-1', content: 'pong' } });
+    });
+
+    it('should report a timeout when the endpoint is too slow', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      respond = () => {};
+
+      const delivery = deliveryService.deliverInteraction(
+        createMockApplication({ interactionsEndpointUrl: endpoint }) as any,
+        createMockInteraction() as any
+      );
+      const assertion = expect(delivery).rejects.toThrow('Application did not respond in time');
+      await vi.advanceTimersByTimeAsync(3000);
+      await assertion;
+    });
+  });
+});
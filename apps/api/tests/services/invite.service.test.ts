@@ -8,9 +8,20 @@ const mockInviteRepository = {
   create: vi.fn(),
   delete: vi.fn(),
   incrementUsesInTx: vi.fn(),
+  createUseInTx: vi.fn(),
+  countUses: vi.fn(),
+  findExpired: vi.fn(),
+  deleteByCodes: vi.fn(),
+  summarizeUses: vi.fn(),
   transaction: vi.fn(),
 };
 
+const mockGuildRepository = {
+  findById: vi.fn(),
+  findByVanityCode: vi.fn(),
+  update: vi.fn(),
+};
+
 const mockMemberRepository = {
   findByUserAndGuild: vi.fn(),
   findBan: vi.fn(),
@@ -23,6 +34,9 @@ vi.mock('../../src/repositories/invite.repository.js', () => ({
 vi.mock('../../src/repositories/member.repository.js', () => ({
   memberRepository: mockMemberRepository,
 }));
+vi.mock('../../src/repositories/guild.repository.js', () => ({
+  guildRepository: mockGuildRepository,
+}));
 vi.mock('../../src/config/env.js', () => ({
   env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
 }));
@@ -51,6 +65,7 @@ function createMockInvite(overrides: Record<string, any> = {}) {
 describe('Invite Service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockGuildRepository.findByVanityCode.mockResolvedValue(null);
   });
 
   // ── createInvite ──
@@ -160,6 +175,40 @@ describe('Invite Service', () => {
       expect(result.alreadyMember).toBe(true);
     });
 
+    it('should record the use and mark members of temporary invites', async () => {
+      mockInviteRepository.findByCode.mockResolvedValue(createMockInvite({ temporary: true, uses: 2 }));
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue(null);
+      mockMemberRepository.findBan.mockResolvedValue(null);
+      mockInviteRepository.transaction.mockImplementation(async (cb: any) => cb({}));
+
+      await inviteService.useInvite('abc123', 'new-user');
+      expect(mockMemberRepository.createInTx).toHaveBeenCalledWith({}, {
+        userId: 'new-user', guildId: 'guild-1', temporary: true,
+      });
+      expect(mockInviteRepository.createUseInTx).toHaveBeenCalledWith({}, expect.objectContaining({
+        guildId: 'guild-1', code: 'abc123', channelId: 'ch-1', inviterId: 'user-1', userId: 'new-user', vanity: false,
+      }));
+      expect(mockInviteRepository.incrementUsesInTx).toHaveBeenCalledWith({}, 'abc123', 2);
+    });
+
+    it('should join through a vanity code without an invite row', async () => {
+      mockInviteRepository.findByCode.mockResolvedValue(null);
+      mockGuildRepository.findByVanityCode.mockResolvedValue({
+        id: 'guild-1', systemChannelId: 'ch-1', createdAt: new Date('2026-01-01T00:00:00Z'),
+      });
+      mockInviteRepository.countUses.mockResolvedValue(7);
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue(null);
+      mockMemberRepository.findBan.mockResolvedValue(null);
+      mockInviteRepository.transaction.mockImplementation(async (cb: any) => cb({}));
+
+      const invite = await inviteService.getInvite('zent');
+      expect(invite).toMatchObject({ code: 'zent', guildId: 'guild-1', uses: 7, maxUses: 0, expiresAt: null, vanity: true });
+
+      await inviteService.useInvite('zent', 'new-user');
+      expect(mockInviteRepository.createUseInTx).toHaveBeenCalledWith({}, expect.objectContaining({ code: 'zent', vanity: true }));
+      expect(mockInviteRepository.incrementUsesInTx).not.toHaveBeenCalled();
+    });
+
     it('should throw 403 when user is banned', async () => {
       mockInviteRepository.findByCode.mockResolvedValue(createMockInvite());
       mockMemberRepository.findByUserAndGuild.mockResolvedValue(null);
@@ -187,4 +236,46 @@ describe('Invite Service', () => {
       await expect(inviteService.deleteInvite('nonexistent')).rejects.toThrow('Invite not found');
     });
   });
+
+  // ── deleteExpiredInvites ──
+
+  describe('deleteExpiredInvites', () => {
+    it('should delete and return expired invites', async () => {
+      const expired = [createMockInvite({ code: 'old1' }), createMockInvite({ code: 'old2' })];
+      mockInviteRepository.findExpired.mockResolvedValue(expired);
+
+      const result = await inviteService.deleteExpiredInvites();
+      expect(mockInviteRepository.deleteByCodes).toHaveBeenCalledWith(['old1', 'old2']);
+      expect(result).toEqual(expired);
+    });
+  });
+
+  // ── setVanityUrl ──
+
+  describe('setVanityUrl', () => {
+    it('should normalize and claim a free code', async () => {
+      mockGuildRepository.findById.mockResolvedValue({ id: 'guild-1', vanityUrlCode: null });
+      mockInviteRepository.findByCode.mockResolvedValue(null);
+      mockGuildRepository.update.mockImplementation(async (_id: string, data: any) => ({ id: 'guild-1', ...data }));
+
+      const result = await inviteService.setVanityUrl('guild-1', 'Zent-Fans');
+      expect(mockGuildRepository.update).toHaveBeenCalledWith('guild-1', { vanityUrlCode: 'zent-fans' });
+      expect(result.previousCode).toBeNull();
+    });
+
+    it('should reject malformed codes and codes in use', async () => {
+      mockGuildRepository.findById.mockResolvedValue({ id: 'guild-1', vanityUrlCode: null });
+
+      await expect(inviteService.setVanityUrl('guild-1', 'no spaces')).rejects.toThrow('Vanity code must be');
+
+      mockGuildRepository.findByVanityCode.mockResolvedValue({ id: 'guild-2' });
+      mockInviteRepository.findByCode.mockResolvedValue(null);
+      await expect(inviteService.setVanityUrl('guild-1', 'taken')).rejects.toThrow('already taken');
+
+      mockGuildRepository.findByVanityCode.mockResolvedValue(null);
+      mockInviteRepository.findByCode.mockResolvedValue(createMockInvite({ code: 'abc123' }));
+      await expect(inviteService.setVanityUrl('guild-1', 'abc123')).rejects.toThrow('already taken');
+      expect(mockGuildRepository.update).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import sharp from 'sharp';
+
+// ── Mocks ──
+
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+
+const mediaService = await import('../../src/services/media.service.js');
+
+function solidPng(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: { r: 200, g: 40, b: 40 } } }).png().toBuffer();
+}
+
+describe('Media Service', () => {
+  // ── parseVariantOptions ──
+
+  describe('parseVariantOptions', () => {
+    it('should return null when no variant is requested', () => {
+      expect(mediaService.parseVariantOptions({})).toBeNull();
+    });
+
+    it('should parse size, format and quality', () => {
+      expect(mediaService.parseVariantOptions({ size: '64', format: 'jpg', quality: '50' })).toEqual({
+        size: 64,
+        format: 'jpeg',
+        quality: 50,
+      });
+      expect(mediaService.parseVariantOptions({ format: 'webp' })).toEqual({ format: 'webp', quality: 80 });
+    });
+
+    it('should reject sizes that are not a power of two or out of range', () => {
+      expect(() => mediaService.parseVariantOptions({ size: '100' })).toThrow('power of two');
+      expect(() => mediaService.parseVariantOptions({ size: '8' })).toThrow('power of two');
+      expect(() => mediaService.parseVariantOptions({ size: '8192' })).toThrow('power of two');
+    });
+
+    it('should reject unknown formats and bad quality', () => {
+      expect(() => mediaService.parseVariantOptions({ format: 'gif' })).toThrow('format must be');
+      expect(() => mediaService.parseVariantOptions({ quality: '0' })).toThrow('quality must be');
+    });
+  });
+
+  // ── variantKey ──
+
+  describe('variantKey', () => {
+    it('should keep variants outside the source prefix', () => {
+      const key = mediaService.variantKey('attachments/ch-1/att-1/abc.png', { size: 128, quality: 80 }, 'image/png');
+      expect(key).toBe('variants/attachments/ch-1/att-1/abc.png/128-q80.png');
+      expect(mediaService.variantKey('avatars/u/a.gif', { quality: 80 }, 'image/gif')).toBe('variants/avatars/u/a.gif/full-q80.webp');
+    });
+  });
+
+  // ── renderVariant ──
+
+  describe('renderVariant', () => {
+    it('should downscale within the requested box and re-encode', async () => {
+      const source = await solidPng(400, 200);
+
+      const variant = await mediaService.renderVariant(source, 'image/png', { size: 64, format: 'webp', quality: 80 });
+      const meta = await sharp(variant.data).metadata();
+
+      expect(variant.contentType).toBe('image/webp');
+      expect(meta.format).toBe('webp');
+      expect(meta.width).toBe(64);
+      expect(meta.height).toBe(32);
+    });
+
+    it('should never upscale', async () => {
+      const source = await solidPng(20, 20);
+
+      const variant = await mediaService.renderVariant(source, 'image/png', { size: 256, quality: 80 });
+      const meta = await sharp(variant.data).metadata();
+
+      expect(variant.contentType).toBe('image/png');
+      expect(meta.width).toBe(20);
+    });
+  });
+
+  // ── analyzeImage ──
+
+  describe('analyzeImage', () => {
+    it('should report dimensions and a blurhash', async () => {
+      const result = await mediaService.analyzeImage(await solidPng(300, 120));
+
+      expect(result.width).toBe(300);
+      expect(result.height).toBe(120);
+      expect(result.blurhash).toMatch(/^[0-9A-Za-z#$%*+,\-.:;=?@[\]^_{|}~]{28}$/);
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionsBitfield, PermissionFlags } from '@yxc/permissions';
+
+// ── In-memory Redis ──
+
+const hashes = new Map<string, Record<string, string>>();
+const sets = new Map<string, Set<string>>();
+
+const mockRedis = {
+  exists: vi.fn(async (key: string) => (hashes.has(key) ? 1 : 0)),
+  hsetnx: vi.fn(async (key: string, field: string, value: string) => {
+    const hash = hashes.get(key) ?? {};
+    if (field in hash) return 0;
+    hashes.set(key, { ...hash, [field]: value });
+    return 1;
+  }),
+  hset: vi.fn(async (key: string, ...args: any[]) => {
+    const values = typeof args[0] === 'string' ? { [args[0]]: args[1] } : args[0];
+    hashes.set(key, { ...(hashes.get(key) ?? {}), ...values });
+  }),
+  hgetall: vi.fn(async (key: string) => ({ ...(hashes.get(key) ?? {}) })),
+  hincrby: vi.fn(async (key: string, field: string, by: number) => {
+    const hash = hashes.get(key)!;
+    hash[field] = String(Number(hash[field] ?? 0) + by);
+    return Number(hash[field]);
+  }),
+  del: vi.fn(async (key: string) => hashes.delete(key)),
+  sadd: vi.fn(async (key: string, member: string) => sets.set(key, new Set([...(sets.get(key) ?? []), member]))),
+  srem: vi.fn(async (key: string, member: string) => sets.get(key)?.delete(member)),
+  smembers: vi.fn(async (key: string) => [...(sets.get(key) ?? [])]),
+};
+
+const mockMemberRepository = {
+  countPruneCandidates: vi.fn(),
+  findPruneCandidates: vi.fn(),
+  deleteMemberRoles: vi.fn(),
+  delete: vi.fn(),
+  findBansByUserIds: vi.fn(),
+  createBan: vi.fn(),
+  findByUserAndGuild: vi.fn(),
+  update: vi.fn(),
+  findExpiredTimeouts: vi.fn(),
+  findTemporary: vi.fn(),
+  getMemberRoleIds: vi.fn(),
+};
+
+const mockUserRepository = {
+  findPublicByIds: vi.fn(),
+};
+
+const mockMessageRepository = {
+  findIdsByAuthorsInGuild: vi.fn(),
+  deleteByIds: vi.fn(),
+};
+
+const mockGuildRepository = {
+  findOwnerById: vi.fn(),
+};
+
+const mockHasGatewaySession = vi.fn();
+const mockCreateAuditLogEntry = vi.fn();
+const mockApplyServerVoiceState = vi.fn();
+const mockGetGuildPermissions = vi.fn();
+const mockInvalidatePermissions = vi.fn();
+const mockValidateMemberHierarchy = vi.fn();
+
+vi.mock('../../src/config/redis.js', () => ({ redis: mockRedis }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/repositories/member.repository.js', () => ({ memberRepository: mockMemberRepository }));
+vi.mock('../../src/repositories/guild.repository.js', () => ({ guildRepository: mockGuildRepository }));
+vi.mock('../../src/repositories/user.repository.js', () => ({ userRepository: mockUserRepository }));
+vi.mock('../../src/repositories/message.repository.js', () => ({ messageRepository: mockMessageRepository }));
+vi.mock('../../src/services/voice.service.js', () => ({
+  disconnect: vi.fn(),
+  applyServerVoiceState: mockApplyServerVoiceState,
+}));
+vi.mock('../../src/services/permission.service.js', () => ({
+  getGuildPermissions: mockGetGuildPermissions,
+  invalidatePermissions: mockInvalidatePermissions,
+}));
+vi.mock('../../src/services/role.service.js', () => ({
+  validateMemberHierarchy: mockValidateMemberHierarchy,
+  getMemberRoles: vi.fn(async () => []),
+}));
+vi.mock('../../src/services/notification-delivery.service.js', () => ({ hasGatewaySession: mockHasGatewaySession }));
+vi.mock('../../src/services/auditlog.service.js', () => ({ createAuditLogEntry: mockCreateAuditLogEntry }));
+
+const memberService = await import('../../src/services/member.service.js');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Member Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hashes.clear();
+    sets.clear();
+    mockGuildRepository.findOwnerById.mockResolvedValue({ ownerId: 'owner' });
+    mockHasGatewaySession.mockResolvedValue(false);
+    mockMemberRepository.countPruneCandidates.mockResolvedValue(150);
+    mockGetGuildPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.SEND_MESSAGES));
+  });
+
+  // ── startPrune ──
+
+  describe('startPrune', () => {
+    it('should queue the prune with a fixed cutoff and return the estimate', async () => {
+      const before = Date.now();
+      const result = await memberService.startPrune('guild-1', 'mod', { days: 30, includeRoles: ['role-1'] }, 'cleanup');
+
+      expect(result).toEqual({ pruned: 150 });
+      const state = hashes.get('zent:prune:guild-1')!;
+      expect(state).toMatchObject({ actorId: 'mod', days: '30', includeRoles: '["role-1"]', cursor: '', reason: 'cleanup' });
+      const cutoff = new Date(state.inactiveSince!).getTime();
+      expect(cutoff).toBeGreaterThanOrEqual(before - 30 * DAY);
+      expect(cutoff).toBeLessThanOrEqual(Date.now() - 30 * DAY);
+      expect(sets.get('zent:prune:active')).toEqual(new Set(['guild-1']));
+    });
+
+    it('should refuse a second prune while one is running', async () => {
+      await memberService.startPrune('guild-1', 'mod', { days: 7, includeRoles: [] });
+      await expect(memberService.startPrune('guild-1', 'mod-2', { days: 7, includeRoles: [] }))
+        .rejects.toThrow('A prune is already running');
+    });
+
+    it('should not leave the guild locked when starting the prune fails', async () => {
+      mockMemberRepository.countPruneCandidates.mockRejectedValueOnce(new Error('db down'));
+      await expect(memberService.startPrune('guild-1', 'mod', { days: 7, includeRoles: [] })).rejects.toThrow('db down');
+      expect(hashes.has('zent:prune:guild-1')).toBe(false);
+
+      mockRedis.sadd.mockRejectedValueOnce(new Error('redis down'));
+      await expect(memberService.startPrune('guild-1', 'mod', { days: 7, includeRoles: [] })).rejects.toThrow('redis down');
+      expect(hashes.has('zent:prune:guild-1')).toBe(false);
+
+      await expect(memberService.startPrune('guild-1', 'mod', { days: 7, includeRoles: [] }))
+        .resolves.toEqual({ pruned: 150 });
+    });
+  });
+
+  // ── runPruneBatches ──
+
+  describe('runPruneBatches', () => {
+    it('should resume from its cursor and write one audit log entry at the end', async () => {
+      await memberService.startPrune('guild-1', 'mod', { days: 7, includeRoles: [] }, 'cleanup');
+      const firstBatch = Array.from({ length: 100 }, (_, i) => `user-${String(i).padStart(3, '0')}`);
+      mockMemberRepository.findPruneCandidates.mockResolvedValueOnce(firstBatch);
+
+      const first = await memberService.runPruneBatches();
+      expect(first).toHaveLength(100);
+      expect(hashes.get('zent:prune:guild-1')).toMatchObject({ cursor: 'user-099', removed: '100' });
+      expect(mockCreateAuditLogEntry).not.toHaveBeenCalled();
+
+      mockMemberRepository.findPruneCandidates.mockResolvedValueOnce(['user-100', 'owner', 'user-online']);
+      mockHasGatewaySession.mockImplementation(async (userId: string) => userId === 'user-online');
+
+      const second = await memberService.runPruneBatches();
+      expect(mockMemberRepository.findPruneCandidates).toHaveBeenLastCalledWith(
+        'guild-1', expect.any(Date), [], 'user-099', 100
+      );
+      expect(second).toEqual([{ guildId: 'guild-1', userId: 'user-100' }]);
+      expect(mockCreateAuditLogEntry).toHaveBeenCalledTimes(1);
+      expect(mockCreateAuditLogEntry).toHaveBeenCalledWith('guild-1', 'mod', 21, undefined, 'cleanup', {
+        deleteMemberDays: { new: 7 },
+        membersRemoved: { new: 101 },
+      });
+      expect(hashes.has('zent:prune:guild-1')).toBe(false);
+      expect(sets.get('zent:prune:active')?.size).toBe(0);
+    });
+  });
+
+  // ── bulkBan ──
+
+  describe('bulkBan', () => {
+    it('should ban who it can and report the rest', async () => {
+      mockUserRepository.findPublicByIds.mockResolvedValue(
+        ['owner', 'mod', 'raider-1', 'raider-2', 'raider-3', 'old-ban'].map((id) => ({ id }))
+      );
+      mockMemberRepository.findBansByUserIds.mockResolvedValue([{ userId: 'old-ban' }]);
+      mockMemberRepository.createBan.mockImplementation(async ({ userId }: { userId: string }) => {
+        if (userId === 'raider-3') throw new Error('deadlock');
+      });
+
+      const result = await memberService.bulkBan(
+        'guild-1', 'mod', ['raider-1', 'raider-2', 'raider-1', 'owner', 'mod', 'ghost', 'old-ban', 'raider-3'], 'raid'
+      );
+
+      expect(result.bannedUsers).toEqual(['raider-1', 'raider-2']);
+      expect(result.failedUsers).toEqual(['owner', 'mod', 'ghost', 'old-ban', 'raider-3']);
+      expect(mockMemberRepository.createBan).toHaveBeenCalledWith({
+        guildId: 'guild-1', userId: 'raider-1', bannedBy: 'mod', reason: 'raid',
+      });
+    });
+
+    it('should report members the caller does not outrank instead of banning them', async () => {
+      mockUserRepository.findPublicByIds.mockResolvedValue([{ id: 'raider-1' }, { id: 'admin' }]);
+      mockMemberRepository.findBansByUserIds.mockResolvedValue([]);
+      mockValidateMemberHierarchy.mockImplementation(async (_actor: string, _guild: string, target: string) => {
+        if (target === 'admin') throw new Error('Cannot moderate a member with an equal or higher role');
+      });
+
+      const result = await memberService.bulkBan('guild-1', 'mod', ['raider-1', 'admin']);
+
+      expect(result).toEqual({ bannedUsers: ['raider-1'], failedUsers: ['admin'] });
+      expect(mockMemberRepository.createBan).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ── banMember ──
+
+  describe('banMember', () => {
+    it('should refuse to ban a member the caller does not outrank', async () => {
+      mockValidateMemberHierarchy.mockRejectedValueOnce(new Error('Cannot moderate a member with an equal or higher role'));
+
+      await expect(memberService.banMember('guild-1', 'admin', 'mod')).rejects.toThrow('equal or higher role');
+      expect(mockValidateMemberHierarchy).toHaveBeenCalledWith('mod', 'guild-1', 'admin');
+      expect(mockMemberRepository.delete).not.toHaveBeenCalled();
+      expect(mockMemberRepository.createBan).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── purgeMessages ──
+
+  describe('purgeMessages', () => {
+    it('should delete in batches and group the IDs by channel', async () => {
+      const firstBatch = Array.from({ length: 1000 }, (_, i) => ({ id: `m${i}`, channelId: i % 2 ? 'ch-1' : 'ch-2' }));
+      mockMessageRepository.findIdsByAuthorsInGuild
+        .mockResolvedValueOnce(firstBatch)
+        .mockResolvedValueOnce([{ id: 'm1000', channelId: 'ch-3' }]);
+
+      const deleted = await memberService.purgeMessages('guild-1', ['raider-1'], 3600);
+
+      expect(mockMessageRepository.deleteByIds).toHaveBeenCalledTimes(2);
+      expect(deleted.get('ch-1')).toHaveLength(500);
+      expect(deleted.get('ch-2')).toHaveLength(500);
+      expect(deleted.get('ch-3')).toEqual(['m1000']);
+      const since: Date = mockMessageRepository.findIdsByAuthorsInGuild.mock.calls[0]![2];
+      expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(3600 * 1000);
+    });
+
+    it('should do nothing without a window', async () => {
+      const deleted = await memberService.purgeMessages('guild-1', ['raider-1'], 0);
+      expect(deleted.size).toBe(0);
+      expect(mockMessageRepository.findIdsByAuthorsInGuild).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── timeoutMember ──
+
+  describe('timeoutMember', () => {
+    beforeEach(() => {
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({ userId: 'user-1', guildId: 'guild-1', mute: false });
+    });
+
+    it('should store the timeout, drop cached permissions and mute the member in voice', async () => {
+      const until = new Date(Date.now() + 60_000);
+      await memberService.timeoutMember('guild-1', 'user-1', until, 'mod');
+
+      expect(mockValidateMemberHierarchy).toHaveBeenCalledWith('mod', 'guild-1', 'user-1');
+      expect(mockMemberRepository.update).toHaveBeenCalledWith('user-1', 'guild-1', { communicationDisabledUntil: until });
+      expect(mockInvalidatePermissions).toHaveBeenCalledWith('user-1', 'guild-1');
+      expect(mockApplyServerVoiceState).toHaveBeenCalledWith('guild-1', 'user-1', { mute: true });
+    });
+
+    it('should reject timeouts past 28 days and administrator targets', async () => {
+      await expect(memberService.timeoutMember('guild-1', 'user-1', new Date(Date.now() + 29 * DAY), 'mod'))
+        .rejects.toThrow('Timeout duration cannot exceed 28 days');
+
+      mockGetGuildPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.ADMINISTRATOR));
+      await expect(memberService.timeoutMember('guild-1', 'user-1', new Date(Date.now() + DAY)))
+        .rejects.toThrow('Cannot time out an administrator');
+      expect(mockMemberRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should lift a timeout and keep a server mute', async () => {
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({ userId: 'user-1', guildId: 'guild-1', mute: true });
+      await memberService.timeoutMember('guild-1', 'user-1', null, 'mod');
+
+      expect(mockGetGuildPermissions).not.toHaveBeenCalled();
+      expect(mockMemberRepository.update).toHaveBeenCalledWith('user-1', 'guild-1', { communicationDisabledUntil: null });
+      expect(mockApplyServerVoiceState).toHaveBeenCalledWith('guild-1', 'user-1', { mute: true });
+    });
+  });
+
+  // ── validateTimeout ──
+
+  describe('validateTimeout', () => {
+    it('should check the hierarchy when lifting a timeout too', async () => {
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({ userId: 'admin', guildId: 'guild-1', mute: false });
+      mockValidateMemberHierarchy.mockRejectedValueOnce(new Error('Cannot moderate a member with an equal or higher role'));
+
+      await expect(memberService.timeoutMember('guild-1', 'admin', null, 'mod')).rejects.toThrow('equal or higher role');
+      expect(mockValidateMemberHierarchy).toHaveBeenCalledWith('mod', 'guild-1', 'admin');
+      expect(mockMemberRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── pruneTemporaryMembers ──
+
+  describe('pruneTemporaryMembers', () => {
+    it('should page past a full batch of members who are still online', async () => {
+      const joinedAt = new Date('2026-01-01T00:00:00Z');
+      const online = Array.from({ length: 500 }, (_, i) => ({ guildId: 'guild-1', userId: `online-${i}`, joinedAt }));
+      mockMemberRepository.findTemporary
+        .mockResolvedValueOnce(online)
+        .mockResolvedValueOnce([{ guildId: 'guild-1', userId: 'gone', joinedAt }]);
+      mockMemberRepository.getMemberRoleIds.mockResolvedValue([]);
+      mockHasGatewaySession.mockImplementation(async (userId: string) => userId !== 'gone');
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({ userId: 'gone', guildId: 'guild-1' });
+
+      const removed = await memberService.pruneTemporaryMembers();
+
+      expect(removed).toEqual([{ guildId: 'guild-1', userId: 'gone' }]);
+      expect(mockMemberRepository.findTemporary).toHaveBeenCalledTimes(2);
+      expect(mockMemberRepository.findTemporary.mock.calls[1]![1]).toEqual(online[499]);
+    });
+  });
+
+  // ── liftExpiredTimeouts ──
+
+  describe('liftExpiredTimeouts', () => {
+    it('should clear run-out timeouts and restore each member\'s own mute', async () => {
+      const now = new Date();
+      mockMemberRepository.findExpiredTimeouts.mockResolvedValue([
+        { userId: 'user-1', guildId: 'guild-1', mute: false },
+        { userId: 'user-2', guildId: 'guild-2', mute: true },
+      ]);
+
+      const lifted = await memberService.liftExpiredTimeouts(now);
+
+      expect(mockMemberRepository.findExpiredTimeouts).toHaveBeenCalledWith(now);
+      expect(lifted).toEqual([{ userId: 'user-1', guildId: 'guild-1' }, { userId: 'user-2', guildId: 'guild-2' }]);
+      expect(mockMemberRepository.update).toHaveBeenCalledWith('user-2', 'guild-2', { communicationDisabledUntil: null });
+      expect(mockInvalidatePermissions).toHaveBeenCalledTimes(2);
+      expect(mockApplyServerVoiceState).toHaveBeenCalledWith('guild-1', 'user-1', { mute: false });
+      expect(mockApplyServerVoiceState).toHaveBeenCalledWith('guild-2', 'user-2', { mute: true });
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionsBitfield, PermissionFlags } from '@yxc/permissions';
+
+// ── Mocks ──
+
+const mockGuildRepository = {
+  findOwnerById: vi.fn(),
+};
+
+const mockRoleRepository = {
+  findByGuildId: vi.fn(),
+};
+
+const mockMemberRepository = {
+  findUserIdsInGuild: vi.fn(),
+  findUserIdsByRoleIds: vi.fn(),
+  findByGuildIdWithLimit: vi.fn(),
+  getMemberRolesByGuildAndUserIds: vi.fn(),
+};
+
+const mockPermissionRepository = {
+  findOverwritesByChannelId: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findDMParticipantsByChannelIds: vi.fn(),
+};
+
+const mockNotificationSettingsRepository = {
+  findForUsers: vi.fn(),
+};
+
+const mockPermissionService = {
+  getChannelPermissions: vi.fn(),
+};
+
+const mockReadstateService = {
+  incrementMentionCounts: vi.fn(),
+};
+
+const mockNotificationService = {
+  createNotification: vi.fn(),
+};
+
+const presence: Record<string, string> = {};
+const mockRedis = {
+  pipeline: vi.fn(() => {
+    const keys: string[] = [];
+    const pipeline = {
+      hget: (key: string) => (keys.push(key), pipeline),
+      exec: async () => keys.map((key) => [null, presence[key.replace('presence:', '')] ?? null]),
+    };
+    return pipeline;
+  }),
+};
+
+vi.mock('../../src/config/redis.js', () => ({ redis: mockRedis }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/repositories/guild.repository.js', () => ({ guildRepository: mockGuildRepository }));
+vi.mock('../../src/repositories/role.repository.js', () => ({ roleRepository: mockRoleRepository }));
+vi.mock('../../src/repositories/member.repository.js', () => ({ memberRepository: mockMemberRepository }));
+vi.mock('../../src/repositories/permission.repository.js', () => ({ permissionRepository: mockPermissionRepository }));
+vi.mock('../../src/repositories/channel.repository.js', () => ({ channelRepository: mockChannelRepository }));
+vi.mock('../../src/repositories/notification-settings.repository.js', () => ({
+  notificationSettingsRepository: mockNotificationSettingsRepository,
+}));
+vi.mock('../../src/services/permission.service.js', () => mockPermissionService);
+vi.mock('../../src/services/readstate.service.js', () => mockReadstateService);
+vi.mock('../../src/services/notification.service.js', () => mockNotificationService);
+
+const mentionService = await import('../../src/services/mention.service.js');
+
+const VIEW = PermissionFlags.VIEW_CHANNEL.toString();
+const channel = { id: 'channel-1', guildId: 'guild-1' };
+
+// 101 has the (unmentionable) staff role; 103 is denied the channel; 100 writes the messages
+const members = ['100', '101', '102', '103'];
+const memberRoles = [{ userId: '101', roleId: '201' }];
+
+function settingsRow(overrides: Record<string, unknown>) {
+  return {
+    userId: '101', guildId: 'guild-1', channelId: 'global', level: 'all',
+    suppressEveryone: false, suppressRoles: false, muted: false, muteUntil: null,
+    ...overrides,
+  };
+}
+
+function message(overrides: Record<string, unknown> = {}) {
+  return { id: 'message-1', channelId: 'channel-1', authorId: '100', content: 'hi <@101>', flags: 0, ...overrides };
+}
+
+describe('Mention Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(presence)) delete presence[key];
+
+    mockGuildRepository.findOwnerById.mockResolvedValue({ ownerId: 'owner' });
+    mockRoleRepository.findByGuildId.mockResolvedValue([
+      { id: '200', name: '@everyone', permissions: VIEW, position: 0, mentionable: false },
+      { id: '201', name: 'Staff', permissions: '0', position: 1, mentionable: false },
+      { id: '202', name: 'Fans', permissions: '0', position: 2, mentionable: true },
+    ]);
+    mockPermissionRepository.findOverwritesByChannelId.mockResolvedValue([
+      { targetId: '103', targetType: 1, allow: '0', deny: VIEW },
+    ]);
+    mockPermissionService.getChannelPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.VIEW_CHANNEL));
+    mockMemberRepository.findUserIdsInGuild.mockImplementation(async (_g: string, ids: string[]) =>
+      ids.filter((id) => members.includes(id)));
+    mockMemberRepository.findUserIdsByRoleIds.mockImplementation(async (_g: string, roleIds: string[]) =>
+      memberRoles.filter((r) => roleIds.includes(r.roleId)).map((r) => r.userId));
+    mockMemberRepository.findByGuildIdWithLimit.mockResolvedValue(members.map((userId) => ({ userId })));
+    mockMemberRepository.getMemberRolesByGuildAndUserIds.mockImplementation(async (_g: string, ids: string[]) =>
+      memberRoles.filter((r) => ids.includes(r.userId)));
+    mockNotificationSettingsRepository.findForUsers.mockResolvedValue([]);
+  });
+
+  // ── parseMentions ──
+
+  describe('parseMentions', () => {
+    it('should find user, role, @everyone and @here mentions', () => {
+      expect(mentionService.parseMentions('<@1> <@!1> <@&2> @here')).toEqual({
+        users: ['1'], roles: ['2'], everyone: false, here: true,
+      });
+      expect(mentionService.parseMentions('hello @everyone')).toMatchObject({ everyone: true, here: false });
+    });
+  });
+
+  // ── resolveMentions ──
+
+  describe('resolveMentions', () => {
+    it('should skip users outside the guild and recipients who cannot see the channel', async () => {
+      const resolved = await mentionService.resolveMentions('100', channel, '<@1> <@102> <@103> <@100>');
+
+      expect(resolved.mentions).toEqual(['102', '103', '100']);
+      expect(resolved.recipients).toEqual(new Map([['102', 'user']]));
+    });
+
+    it('should only ping unmentionable roles with MENTION_EVERYONE', async () => {
+      const content = '<@&201> <@&202> <@&200>';
+
+      const resolved = await mentionService.resolveMentions('100', channel, content);
+      expect(resolved.mentionRoles).toEqual(['202']);
+
+      mockPermissionService.getChannelPermissions.mockResolvedValue(
+        new PermissionsBitfield(PermissionFlags.VIEW_CHANNEL | PermissionFlags.MENTION_EVERYONE)
+      );
+      const privileged = await mentionService.resolveMentions('100', channel, content);
+      expect(privileged.mentionRoles).toEqual(['201', '202']);
+      expect(privileged.recipients).toEqual(new Map([['101', 'role']]));
+    });
+
+    it('should require MENTION_EVERYONE for @everyone and reach only online members with @here', async () => {
+      const denied = await mentionService.resolveMentions('100', channel, '@everyone');
+      expect(denied.mentionEveryone).toBe(false);
+      expect(denied.recipients.size).toBe(0);
+
+      mockPermissionService.getChannelPermissions.mockResolvedValue(
+        new PermissionsBitfield(PermissionFlags.VIEW_CHANNEL | PermissionFlags.MENTION_EVERYONE)
+      );
+      const everyone = await mentionService.resolveMentions('100', channel, '@everyone <@102>');
+      expect(everyone.mentionEveryone).toBe(true);
+      expect(everyone.recipients).toEqual(new Map([['101', 'everyone'], ['102', 'user']]));
+
+      presence['102'] = 'online';
+      presence['101'] = 'offline';
+      const here = await mentionService.resolveMentions('100', channel, '@here');
+      expect(here.recipients).toEqual(new Map([['102', 'everyone']]));
+    });
+
+    it('should only ping what allowed_mentions lists', async () => {
+      mockPermissionService.getChannelPermissions.mockResolvedValue(
+        new PermissionsBitfield(PermissionFlags.VIEW_CHANNEL | PermissionFlags.MENTION_EVERYONE)
+      );
+      const content = '@everyone <@101> <@102> <@&202>';
+
+      const none = await mentionService.resolveMentions('100', channel, content, { allowedMentions: { parse: [] } });
+      expect(none).toMatchObject({ mentions: [], mentionRoles: [], mentionEveryone: false });
+      expect(none.recipients.size).toBe(0);
+
+      const listed = await mentionService.resolveMentions('100', channel, content, {
+        allowedMentions: { users: ['102'], roles: ['202'] },
+      });
+      expect(listed).toMatchObject({ mentions: ['102'], mentionRoles: ['202'], mentionEveryone: false });
+      expect(listed.recipients).toEqual(new Map([['102', 'user']]));
+    });
+
+    it('should ping the replied-to author unless allowed_mentions leaves out replied_user', async () => {
+      const reply = await mentionService.resolveMentions('100', channel, 'agreed', { repliedUserId: '102' });
+      expect(reply.recipients).toEqual(new Map([['102', 'user']]));
+
+      const quiet = await mentionService.resolveMentions('100', channel, 'agreed', {
+        repliedUserId: '102', allowedMentions: { parse: ['users'] },
+      });
+      expect(quiet.mentions).toEqual([]);
+
+      const opted = await mentionService.resolveMentions('100', channel, 'agreed', {
+        repliedUserId: '102', allowedMentions: { repliedUser: true },
+      });
+      expect(opted.mentions).toEqual(['102']);
+    });
+
+    it('should let webhooks ping @everyone and unmentionable roles', async () => {
+      mockPermissionService.getChannelPermissions.mockResolvedValue(new PermissionsBitfield(0n));
+
+      const resolved = await mentionService.resolveMentions('900', channel, '@everyone <@&201>', {
+        bypassMentionPermissions: true,
+      });
+
+      expect(mockPermissionService.getChannelPermissions).not.toHaveBeenCalled();
+      expect(resolved).toMatchObject({ mentionEveryone: true, mentionRoles: ['201'] });
+    });
+
+    it('should limit DM mentions to the participants', async () => {
+      mockChannelRepository.findDMParticipantsByChannelIds.mockResolvedValue([
+        { channelId: 'dm-1', userId: '100' },
+        { channelId: 'dm-1', userId: '301' },
+      ]);
+
+      const resolved = await mentionService.resolveMentions('100', { id: 'dm-1', guildId: null }, '<@301> <@302> @everyone');
+
+      expect(resolved).toMatchObject({ mentions: ['301'], mentionEveryone: false });
+      expect(resolved.recipients).toEqual(new Map([['301', 'user']]));
+    });
+  });
+
+  // ── notifyMentions ──
+
+  describe('notifyMentions', () => {
+    it('should count and notify mentioned users', async () => {
+      await mentionService.notifyMentions(message(), 'guild-1', new Map([['101', 'user']]));
+
+      expect(mockReadstateService.incrementMentionCounts).toHaveBeenCalledWith(['101'], 'channel-1');
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith('101', 'mention', 'You were mentioned',
+        expect.objectContaining({ sourceMessageId: 'message-1', sourceGuildId: 'guild-1', sourceUserId: '100' }));
+    });
+
+    it('should drop suppressed @everyone and role mentions entirely', async () => {
+      mockNotificationSettingsRepository.findForUsers.mockResolvedValue([
+        settingsRow({ userId: '101', suppressEveryone: true }),
+        settingsRow({ userId: '102', suppressRoles: true }),
+      ]);
+
+      await mentionService.notifyMentions(message(), 'guild-1', new Map([
+        ['101', 'everyone'], ['102', 'role'], ['103', 'everyone'],
+      ]));
+
+      expect(mockReadstateService.incrementMentionCounts).toHaveBeenCalledWith(['103'], 'channel-1');
+      expect(mockNotificationService.createNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count but not notify muted users and level "none"', async () => {
+      mockNotificationSettingsRepository.findForUsers.mockResolvedValue([
+        settingsRow({ userId: '101', muted: true }),
+        settingsRow({ userId: '102', muted: true, muteUntil: new Date(Date.now() - 1000) }),
+        settingsRow({ userId: '103', guildId: 'global', level: 'none' }),
+        settingsRow({ userId: '104', level: 'none' }),
+        settingsRow({ userId: '104', channelId: 'channel-1', level: 'mentions' }),
+      ]);
+
+      await mentionService.notifyMentions(message(), 'guild-1', new Map([
+        ['101', 'user'], ['102', 'user'], ['103', 'user'], ['104', 'user'],
+      ]));
+
+      expect(mockReadstateService.incrementMentionCounts).toHaveBeenCalledWith(
+        ['101', '102', '103', '104'], 'channel-1'
+      );
+      expect(mockNotificationService.createNotification.mock.calls.map(([userId]) => userId)).toEqual(['102', '104']);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionFlags } from '@yxc/permissions';
+import { MessageFlags } from '@yxc/types';
+
+// ── Mocks ──
+
+const mockMessageRepository = {
+  findById: vi.fn(),
+  update: vi.fn(),
+  replaceLinkEmbeds: vi.fn(),
+  findAttachmentsByMessageIds: vi.fn(async () => []),
+  findEmbedsByMessageIds: vi.fn(async () => []),
+};
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+};
+
+const mockPermissionService = {
+  requireChannelPermission: vi.fn(),
+  requireGuildPermission: vi.fn(),
+};
+
+const mockUnfurlService = {
+  enqueueMessage: vi.fn(),
+  extractUrls: vi.fn(() => []),
+};
+
+const mockMentionService = {
+  resolveMentions: vi.fn(),
+  notifyMentions: vi.fn(),
+  emptyMentions: vi.fn(() => ({ mentions: [], mentionRoles: [], mentionEveryone: false, recipients: new Map() })),
+};
+
+vi.mock('../../src/repositories/message.repository.js', () => ({ messageRepository: mockMessageRepository }));
+vi.mock('../../src/repositories/channel.repository.js', () => ({ channelRepository: mockChannelRepository }));
+vi.mock('../../src/repositories/user.repository.js', () => ({ userRepository: { findPublicById: vi.fn() } }));
+vi.mock('../../src/repositories/reaction.repository.js', () => ({ reactionRepository: { getAggregated: vi.fn() } }));
+vi.mock('../../src/repositories/poll.repository.js', () => ({ pollRepository: {} }));
+vi.mock('../../src/repositories/thread.repository.js', () => ({ threadRepository: {} }));
+vi.mock('../../src/services/permission.service.js', () => mockPermissionService);
+vi.mock('../../src/services/unfurl.service.js', () => mockUnfurlService);
+vi.mock('../../src/services/poll.service.js', () => ({ getPollByMessageId: vi.fn() }));
+vi.mock('../../src/services/search.service.js', () => ({ indexMessage: vi.fn() }));
+vi.mock('../../src/services/mention.service.js', () => mockMentionService);
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  redis: { get: vi.fn() },
+}));
+
+const messageService = await import('../../src/services/message.service.js');
+
+describe('Message Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMessageRepository.findById.mockResolvedValue({ id: 'msg-1', channelId: 'ch-1', authorId: 'author', content: 'https://example.com', flags: 0 });
+    mockChannelRepository.findById.mockResolvedValue({ id: 'ch-1', guildId: 'guild-1' });
+    mockPermissionService.requireChannelPermission.mockResolvedValue(undefined);
+    mockMentionService.notifyMentions.mockResolvedValue(undefined);
+  });
+
+  // ── updateMessage ──
+
+  describe('updateMessage', () => {
+    const allowedMentions = { parse: [], users: ['bob'] };
+
+    function mentioning(...userIds: string[]) {
+      return {
+        mentions: userIds,
+        mentionRoles: [],
+        mentionEveryone: false,
+        recipients: new Map(userIds.map((id) => [id, 'user'])),
+      };
+    }
+
+    it('should resolve the edit with the original allowed_mentions and notify only new mentions', async () => {
+      mockMessageRepository.findById.mockResolvedValue({
+        id: 'msg-1', channelId: 'ch-1', authorId: 'author', type: 0, flags: 0,
+        content: 'hi <@bob>', mentions: ['bob'], allowedMentions, referencedMessageId: null,
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+      });
+      mockMentionService.resolveMentions.mockImplementation(async (_author: string, _channel: unknown, content: string) =>
+        content === 'hi <@bob>' ? mentioning('bob') : mentioning('bob', 'carol')
+      );
+
+      await messageService.updateMessage('msg-1', 'author', 'hi <@bob> and <@carol>');
+
+      expect(mockMentionService.resolveMentions).toHaveBeenCalledWith(
+        'author', expect.objectContaining({ id: 'ch-1' }), 'hi <@bob> and <@carol>', { allowedMentions, repliedUserId: null }
+      );
+      expect(mockMessageRepository.update).toHaveBeenCalledWith('msg-1', expect.objectContaining({ mentions: ['bob', 'carol'] }));
+      const [, , recipients] = mockMentionService.notifyMentions.mock.calls[0]!;
+      expect([...recipients.keys()]).toEqual(['carol']);
+    });
+  });
+
+  // ── setEmbedsSuppressed ──
+
+  describe('setEmbedsSuppressed', () => {
+    it('should let the author suppress embeds without a permission check', async () => {
+      await messageService.setEmbedsSuppressed('msg-1', 'author', true);
+
+      expect(mockPermissionService.requireChannelPermission).not.toHaveBeenCalled();
+      expect(mockMessageRepository.update).toHaveBeenCalledWith('msg-1', { flags: MessageFlags.SUPPRESS_EMBEDS });
+      expect(mockMessageRepository.replaceLinkEmbeds).toHaveBeenCalledWith('msg-1', []);
+    });
+
+    it('should check MANAGE_MESSAGES in the channel for anyone else', async () => {
+      mockPermissionService.requireChannelPermission.mockRejectedValue(new Error('Missing permissions'));
+
+      await expect(messageService.setEmbedsSuppressed('msg-1', 'other', true)).rejects.toThrow('Missing permissions');
+      expect(mockPermissionService.requireChannelPermission)
+        .toHaveBeenCalledWith('other', 'guild-1', 'ch-1', PermissionFlags.MANAGE_MESSAGES);
+      expect(mockPermissionService.requireGuildPermission).not.toHaveBeenCalled();
+      expect(mockMessageRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionsBitfield, PermissionFlags } from '@yxc/permissions';
+
+// ── Mocks ──
+
+const mockModerationQueueRepository = {
+  findById: vi.fn(),
+  reassign: vi.fn(),
+  escalate: vi.fn(),
+  resolve: vi.fn(),
+  findOpenByKey: vi.fn(),
+  create: vi.fn(),
+  addReporter: vi.fn(),
+  findReporterIds: vi.fn(),
+};
+
+const mockMessageRepository = {
+  findById: vi.fn(),
+  delete: vi.fn(),
+  findAttachmentsByMessageIds: vi.fn(),
+  findByChannelId: vi.fn(),
+  findAfter: vi.fn(),
+};
+
+const mockMemberRepository = {
+  findByUserAndGuild: vi.fn(),
+  getMemberRoleIds: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+};
+
+const mockUserRepository = {
+  findPublicById: vi.fn(),
+};
+
+const mockMemberService = {
+  banMember: vi.fn(),
+  kickMember: vi.fn(),
+  timeoutMember: vi.fn(),
+  getMemberUpdate: vi.fn(async (guildId: string, userId: string) => ({ guildId, userId })),
+};
+
+const mockRequireGuildPermission = vi.fn();
+const mockRequireChannelPermission = vi.fn();
+const mockCreateNotification = vi.fn();
+const mockGetGuildPermissions = vi.fn();
+const mockValidateMemberHierarchy = vi.fn();
+const mockCreateAuditLogEntry = vi.fn();
+const mockDispatchGuild = vi.fn();
+
+vi.mock('../../src/repositories/moderation-queue.repository.js', () => ({
+  moderationQueueRepository: mockModerationQueueRepository,
+}));
+vi.mock('../../src/repositories/message.repository.js', () => ({ messageRepository: mockMessageRepository }));
+vi.mock('../../src/repositories/member.repository.js', () => ({ memberRepository: mockMemberRepository }));
+vi.mock('../../src/repositories/channel.repository.js', () => ({ channelRepository: mockChannelRepository }));
+vi.mock('../../src/repositories/user.repository.js', () => ({ userRepository: mockUserRepository }));
+vi.mock('../../src/services/member.service.js', () => mockMemberService);
+vi.mock('../../src/services/permission.service.js', () => ({
+  requireGuildPermission: mockRequireGuildPermission,
+  requireChannelPermission: mockRequireChannelPermission,
+  getGuildPermissions: mockGetGuildPermissions,
+}));
+vi.mock('../../src/services/role.service.js', () => ({ validateMemberHierarchy: mockValidateMemberHierarchy }));
+vi.mock('../../src/services/auditlog.service.js', () => ({ createAuditLogEntry: mockCreateAuditLogEntry }));
+vi.mock('../../src/services/notification.service.js', () => ({ createNotification: mockCreateNotification }));
+vi.mock('@yxc/snowflake', () => ({ generateSnowflake: vi.fn(() => 'item-new') }));
+vi.mock('../../src/utils/dispatch.js', () => ({ dispatchGuild: mockDispatchGuild }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+
+const moderationQueueService = await import('../../src/services/moderation-queue.service.js');
+
+let item: Record<string, any>;
+
+function createItem(overrides: Record<string, any> = {}) {
+  return {
+    id: 'item-1',
+    guildId: 'guild-1',
+    type: 'user',
+    targetId: 'spammer',
+    reason: 'spam',
+    reportedBy: 'reporter',
+    status: 'pending',
+    moderatorId: null,
+    moderatorNote: null,
+    assigneeId: null,
+    claimedAt: null,
+    escalatedAt: null,
+    resolution: null,
+    createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+    resolvedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Moderation Queue Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    item = createItem();
+    mockModerationQueueRepository.findById.mockImplementation(async () => item);
+    mockModerationQueueRepository.reassign.mockImplementation(async (_id: string, _from: string | null, to: string | null) => {
+      item = { ...item, assigneeId: to, claimedAt: to ? new Date() : null };
+      return true;
+    });
+    mockModerationQueueRepository.resolve.mockImplementation(async (_id: string, data: Record<string, any>) => {
+      item = { ...item, ...data, resolvedAt: new Date() };
+      return true;
+    });
+    mockUserRepository.findPublicById.mockResolvedValue({ id: 'spammer', username: 'spammer', avatar: null });
+    mockModerationQueueRepository.findReporterIds.mockResolvedValue([]);
+  });
+
+  // ── createQueueItem ──
+
+  describe('createQueueItem', () => {
+    it('should open a new item keyed by its target', async () => {
+      mockModerationQueueRepository.findOpenByKey.mockResolvedValue(null);
+      mockModerationQueueRepository.create.mockImplementation(async (data: Record<string, any>) =>
+        createItem({ ...data, createdAt: new Date() }));
+
+      const created = await moderationQueueService.createQueueItem('guild-1', 'user', 'spammer', 'spam', 'reporter');
+
+      expect(mockModerationQueueRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'item-new', openKey: 'guild-1:user:spammer', snapshot: null,
+      }));
+      expect(mockDispatchGuild).toHaveBeenCalledWith('guild-1', 'MODERATION_QUEUE_ADD', expect.objectContaining({ id: 'item-new' }));
+      expect(created.overdue).toBe(false);
+    });
+
+    it('should fold repeat reports into the open item', async () => {
+      mockModerationQueueRepository.findOpenByKey.mockResolvedValue(item);
+      mockModerationQueueRepository.addReporter.mockImplementation(async () => {
+        item = { ...item, reporterCount: 2 };
+        return true;
+      });
+
+      const updated = await moderationQueueService.createQueueItem('guild-1', 'user', 'spammer', 'also spam', 'reporter-2');
+
+      expect(mockModerationQueueRepository.create).not.toHaveBeenCalled();
+      expect(mockModerationQueueRepository.addReporter).toHaveBeenCalledWith('item-1', 'reporter-2', 'also spam');
+      expect(updated.reporterCount).toBe(2);
+
+      mockModerationQueueRepository.addReporter.mockResolvedValue(false);
+      await expect(moderationQueueService.createQueueItem('guild-1', 'user', 'spammer', 'spam', 'reporter'))
+        .rejects.toThrow('You already reported this');
+    });
+
+    it('should join an item opened by a concurrent report', async () => {
+      mockModerationQueueRepository.findOpenByKey.mockResolvedValueOnce(null).mockResolvedValueOnce(item);
+      mockModerationQueueRepository.create.mockRejectedValue(Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' }));
+      mockModerationQueueRepository.addReporter.mockResolvedValue(true);
+
+      await moderationQueueService.createQueueItem('guild-1', 'user', 'spammer', 'spam', 'reporter-2');
+      expect(mockModerationQueueRepository.addReporter).toHaveBeenCalledWith('item-1', 'reporter-2', 'spam');
+    });
+  });
+
+  // ── reportMessage ──
+
+  describe('reportMessage', () => {
+    function message(id: string, authorId: string, content: string) {
+      return {
+        id, channelId: 'ch-1', authorId, content, authorSnapshot: { id: authorId, username: authorId },
+        createdAt: new Date('2026-01-01T00:00:00Z'), editedTimestamp: null,
+      };
+    }
+
+    it('should snapshot the message, its attachments and surrounding messages', async () => {
+      mockChannelRepository.findById.mockResolvedValue({ id: 'ch-1', guildId: 'guild-1' });
+      mockMessageRepository.findById.mockResolvedValue(message('m5', 'spammer', 'buy now'));
+      mockMessageRepository.findAttachmentsByMessageIds.mockResolvedValue([
+        { id: 'a1', messageId: 'm5', filename: 'scam.png', size: 10, url: 'https://cdn/scam.png', contentType: 'image/png' },
+      ]);
+      mockMessageRepository.findByChannelId.mockResolvedValue([message('m4', 'alice', 'hi'), message('m3', 'bob', 'hey')]);
+      mockMessageRepository.findAfter.mockResolvedValue([message('m6', 'alice', 'reported')]);
+      mockModerationQueueRepository.findOpenByKey.mockResolvedValue(null);
+      mockModerationQueueRepository.create.mockImplementation(async (data: Record<string, any>) => createItem(data));
+
+      await moderationQueueService.reportMessage('ch-1', 'm5', 'reporter', 'scam');
+
+      expect(mockRequireChannelPermission).toHaveBeenCalledWith('reporter', 'guild-1', 'ch-1', PermissionFlags.VIEW_CHANNEL);
+      const { type, targetId, snapshot } = mockModerationQueueRepository.create.mock.calls[0]![0];
+      expect({ type, targetId }).toEqual({ type: 'message', targetId: 'm5' });
+      expect(snapshot.message).toMatchObject({
+        content: 'buy now',
+        attachments: [{ filename: 'scam.png', url: 'https://cdn/scam.png' }],
+      });
+      expect(snapshot.context.map((m: { id: string }) => m.id)).toEqual(['m3', 'm4', 'm6']);
+    });
+
+    it('should refuse reports of your own messages', async () => {
+      mockChannelRepository.findById.mockResolvedValue({ id: 'ch-1', guildId: 'guild-1' });
+      mockMessageRepository.findById.mockResolvedValue(message('m1', 'reporter', 'oops'));
+
+      await expect(moderationQueueService.reportMessage('ch-1', 'm1', 'reporter', 'oops'))
+        .rejects.toThrow("You can't report your own message");
+      expect(mockModerationQueueRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── claimQueueItem ──
+
+  describe('claimQueueItem', () => {
+    it('should assign the item and tell the other moderators', async () => {
+      const claimed = await moderationQueueService.claimQueueItem('guild-1', 'item-1', 'mod-1');
+
+      expect(mockModerationQueueRepository.reassign).toHaveBeenCalledWith('item-1', null, 'mod-1');
+      expect(claimed.assigneeId).toBe('mod-1');
+      expect(claimed.overdue).toBe(true);
+      expect(mockDispatchGuild).toHaveBeenCalledWith('guild-1', 'MODERATION_QUEUE_UPDATE', expect.objectContaining({
+        id: 'item-1',
+        assigneeId: 'mod-1',
+      }));
+    });
+
+    it('should refuse items claimed by someone else or from another guild', async () => {
+      item = createItem({ assigneeId: 'mod-2' });
+      await expect(moderationQueueService.claimQueueItem('guild-1', 'item-1', 'mod-1'))
+        .rejects.toThrow('Item is claimed by another moderator');
+      await expect(moderationQueueService.claimQueueItem('guild-2', 'item-1', 'mod-1'))
+        .rejects.toThrow('Queue item not found');
+    });
+
+    it('should need MANAGE_GUILD for escalated items', async () => {
+      item = createItem({ status: 'escalated' });
+      await moderationQueueService.claimQueueItem('guild-1', 'item-1', 'mod-1');
+      expect(mockRequireGuildPermission).toHaveBeenCalledWith('mod-1', 'guild-1', PermissionFlags.MANAGE_GUILD);
+    });
+  });
+
+  // ── assignQueueItem ──
+
+  describe('assignQueueItem', () => {
+    it('should only hand items to members who can work them', async () => {
+      mockGetGuildPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.SEND_MESSAGES));
+      await expect(moderationQueueService.assignQueueItem('guild-1', 'item-1', 'mod-1', 'member'))
+        .rejects.toThrow("Assignee can't work this item");
+
+      mockGetGuildPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.MODERATE_MEMBERS));
+      const assigned = await moderationQueueService.assignQueueItem('guild-1', 'item-1', 'mod-1', 'mod-2');
+      expect(assigned.assigneeId).toBe('mod-2');
+    });
+  });
+
+  // ── resolveQueueItem ──
+
+  describe('resolveQueueItem', () => {
+    it('should ban the reported user with an audit log entry', async () => {
+      const resolved = await moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'ban', { note: 'raid' });
+
+      expect(mockRequireGuildPermission).toHaveBeenCalledWith('mod-1', 'guild-1', PermissionFlags.BAN_MEMBERS);
+      expect(mockValidateMemberHierarchy).toHaveBeenCalledWith('mod-1', 'guild-1', 'spammer');
+      expect(mockMemberService.banMember).toHaveBeenCalledWith('guild-1', 'spammer', 'mod-1', 'raid');
+      expect(mockCreateAuditLogEntry).toHaveBeenCalledWith('guild-1', 'mod-1', 22, 'spammer', 'raid');
+      expect(mockModerationQueueRepository.resolve).toHaveBeenCalledWith('item-1', {
+        status: 'approved', resolution: 'ban', moderatorId: 'mod-1', moderatorNote: 'raid',
+      });
+      expect(resolved).toMatchObject({ status: 'approved', resolution: 'ban', overdue: false });
+    });
+
+    it('should delete a reported message and time out its author', async () => {
+      item = createItem({ type: 'message', targetId: 'msg-1' });
+      mockMessageRepository.findById.mockResolvedValue({ id: 'msg-1', channelId: 'ch-1', authorId: 'author' });
+      mockChannelRepository.findById.mockResolvedValue({ id: 'ch-1', guildId: 'guild-1' });
+
+      await moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'delete');
+      expect(mockMessageRepository.delete).toHaveBeenCalledWith('msg-1');
+      expect(mockDispatchGuild).toHaveBeenCalledWith('guild-1', 'MESSAGE_DELETE', { id: 'msg-1', channelId: 'ch-1', guildId: 'guild-1' });
+      expect(mockCreateAuditLogEntry).toHaveBeenCalledWith('guild-1', 'mod-1', 72, 'author', 'spam');
+
+      item = createItem({ type: 'message', targetId: 'msg-1' });
+      await moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'timeout', { timeoutSeconds: 3600 });
+      expect(mockMemberService.timeoutMember).toHaveBeenCalledWith('guild-1', 'author', expect.any(Date), 'mod-1');
+      expect(mockDispatchGuild).toHaveBeenCalledWith('guild-1', 'GUILD_MEMBER_UPDATE', { guildId: 'guild-1', userId: 'author' });
+    });
+
+    it('should act on the snapshot author once the reported message is gone', async () => {
+      item = createItem({
+        type: 'message',
+        targetId: 'msg-1',
+        snapshot: { channelId: 'ch-1', message: { id: 'msg-1', author: { id: 'author' }, content: 'spam' } },
+      });
+      mockMessageRepository.findById.mockResolvedValue(null);
+
+      await expect(moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'delete'))
+        .rejects.toThrow('Reported message not found');
+
+      await moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'ban');
+      expect(mockValidateMemberHierarchy).toHaveBeenCalledWith('mod-1', 'guild-1', 'author');
+      expect(mockMemberService.banMember).toHaveBeenCalledWith('guild-1', 'author', 'mod-1', 'spam');
+    });
+
+    it('should not act on items claimed by another moderator', async () => {
+      item = createItem({ assigneeId: 'mod-2' });
+
+      await expect(moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'kick'))
+        .rejects.toThrow('Item is claimed by another moderator');
+      expect(mockMemberService.kickMember).not.toHaveBeenCalled();
+    });
+
+    it('should reject deleting anything but a message report', async () => {
+      await expect(moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'delete'))
+        .rejects.toThrow('Only message reports can be resolved by deleting');
+    });
+
+    it('should let every reporter know the report was handled', async () => {
+      mockModerationQueueRepository.findReporterIds.mockResolvedValue(['reporter', 'reporter-2']);
+
+      await moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'kick');
+
+      await vi.waitFor(() => expect(mockCreateNotification).toHaveBeenCalledTimes(2));
+      expect(mockCreateNotification).toHaveBeenCalledWith('reporter-2', 'report_resolved', 'Your report was reviewed', {
+        body: expect.stringContaining('took action on the member'),
+        sourceGuildId: 'guild-1',
+      });
+    });
+
+    it('should dismiss without touching the target', async () => {
+      const resolved = await moderationQueueService.resolveQueueItem('guild-1', 'item-1', 'mod-1', 'dismiss');
+
+      expect(resolved).toMatchObject({ status: 'rejected', resolution: 'dismiss' });
+      expect(mockMemberService.banMember).not.toHaveBeenCalled();
+      expect(mockCreateAuditLogEntry).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── In-memory Redis ──
+
+const lists = new Map<string, string[]>();
+const sortedSets = new Map<string, Map<string, number>>();
+const sets = new Map<string, Set<string>>();
+const keys = new Set<string>();
+
+function queued() {
+  const ops: Array<() => unknown> = [];
+  const chain: Record<string, any> = {
+    rpush: (key: string, value: string) => (ops.push(() => lists.set(key, [...(lists.get(key) ?? []), value])), chain),
+    ltrim: () => chain,
+    expire: () => chain,
+    zadd: (key: string, _nx: string, score: number, member: string) => (ops.push(() => {
+      const set = sortedSets.get(key) ?? new Map();
+      if (!set.has(member)) set.set(member, score);
+      sortedSets.set(key, set);
+    }), chain),
+    lrange: (key: string) => (ops.push(() => lists.get(key) ?? []), chain),
+    del: (key: string) => (ops.push(() => lists.delete(key)), chain),
+    exists: (key: string) => (ops.push(() => (keys.has(key) ? 1 : 0)), chain),
+    exec: async () => ops.map((op) => [null, op()]),
+  };
+  return chain;
+}
+
+const mockRedis = {
+  smembers: vi.fn(async (key: string) => [...(sets.get(key) ?? [])]),
+  pipeline: vi.fn(queued),
+  multi: vi.fn(queued),
+  zrangebyscore: vi.fn(async (key: string, _min: number, max: number) =>
+    [...(sortedSets.get(key) ?? [])].filter(([, score]) => score <= max).map(([member]) => member)),
+  zrem: vi.fn(async (key: string, member: string) => (sortedSets.get(key)?.delete(member) ? 1 : 0)),
+};
+
+const mockPushService = {
+  isPushConfigured: vi.fn(() => true),
+  sendPush: vi.fn(),
+};
+
+const mockMailService = {
+  isMailConfigured: vi.fn(() => true),
+  sendNotificationDigest: vi.fn(),
+};
+
+const mockNotificationSettingsRepository = {
+  findForUsers: vi.fn(),
+};
+
+const mockUserRepository = {
+  findById: vi.fn(),
+};
+
+vi.mock('../../src/config/redis.js', () => ({ redis: mockRedis }));
+vi.mock('../../src/services/push.service.js', () => mockPushService);
+vi.mock('../../src/services/mail.service.js', () => mockMailService);
+vi.mock('../../src/repositories/notification-settings.repository.js', () => ({
+  notificationSettingsRepository: mockNotificationSettingsRepository,
+}));
+vi.mock('../../src/repositories/user.repository.js', () => ({ userRepository: mockUserRepository }));
+
+const deliveryService = await import('../../src/services/notification-delivery.service.js');
+
+function notification(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'notif-1', type: 'mention', title: 'You were mentioned', body: 'hi <@1>',
+    sourceGuildId: 'guild-1', sourceChannelId: 'channel-1', sourceMessageId: 'message-1', sourceUserId: 'user-2',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function settingsRow(overrides: Record<string, unknown>) {
+  return {
+    userId: 'user-1', guildId: 'guild-1', channelId: 'global', level: 'all',
+    suppressEveryone: false, suppressRoles: false, muted: false, muteUntil: null,
+    pushEnabled: true, emailEnabled: true,
+    ...overrides,
+  };
+}
+
+const MINUTE = 60_000;
+
+describe('Notification Delivery Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lists.clear();
+    sortedSets.clear();
+    sets.clear();
+    keys.clear();
+    mockNotificationSettingsRepository.findForUsers.mockResolvedValue([]);
+    mockUserRepository.findById.mockResolvedValue({
+      id: 'user-1', username: 'alice', displayName: null, email: 'alice@example.com', verified: true, isGuest: false,
+    });
+  });
+
+  // ── queueNotification ──
+
+  describe('queueNotification', () => {
+    it('should skip users with a live gateway session', async () => {
+      sets.set('user_sessions:user-1', new Set(['conn-stale', 'conn-live']));
+      keys.add('session:conn-live');
+
+      await deliveryService.queueNotification('user-1', notification());
+
+      expect(lists.size).toBe(0);
+      expect(mockNotificationSettingsRepository.findForUsers).not.toHaveBeenCalled();
+    });
+
+    it('should respect mutes, levels and per-channel delivery toggles', async () => {
+      mockNotificationSettingsRepository.findForUsers.mockResolvedValue([
+        settingsRow({ level: 'mentions', emailEnabled: false }),
+      ]);
+
+      await deliveryService.queueNotification('user-1', notification({ type: 'reply' }));
+      expect(lists.size).toBe(0);
+
+      await deliveryService.queueNotification('user-1', notification());
+      expect([...lists.keys()]).toEqual(['zent:notify:pending:push:user-1']);
+
+      mockNotificationSettingsRepository.findForUsers.mockResolvedValue([
+        settingsRow({ channelId: 'channel-1', muted: true, muteUntil: new Date(Date.now() + MINUTE) }),
+      ]);
+      await deliveryService.queueNotification('user-2', notification());
+      expect(lists.has('zent:notify:pending:push:user-2')).toBe(false);
+    });
+
+    it('should deliver account notifications despite a muted guild', async () => {
+      mockNotificationSettingsRepository.findForUsers.mockResolvedValue([
+        settingsRow({ guildId: 'global', muted: true }),
+      ]);
+
+      await deliveryService.queueNotification('user-1', notification({
+        type: 'friend_request', sourceGuildId: null, sourceChannelId: null, sourceMessageId: null,
+      }));
+
+      expect(lists.size).toBe(2);
+    });
+  });
+
+  // ── flushDueDeliveries ──
+
+  describe('flushDueDeliveries', () => {
+    it('should send one push per batch and hold the email digest until its window passes', async () => {
+      const start = Date.now();
+      await deliveryService.queueNotification('user-1', notification({ id: 'notif-1' }));
+      await deliveryService.queueNotification('user-1', notification({ id: 'notif-2', body: 'second' }));
+
+      expect(await deliveryService.flushDueDeliveries(start + 1000)).toBe(0);
+
+      expect(await deliveryService.flushDueDeliveries(start + MINUTE)).toBe(1);
+      expect(mockPushService.sendPush).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        title: '2 new notifications', body: 'second', count: 2,
+      }));
+      expect(mockMailService.sendNotificationDigest).not.toHaveBeenCalled();
+
+      expect(await deliveryService.flushDueDeliveries(start + 20 * MINUTE)).toBe(1);
+      expect(mockMailService.sendNotificationDigest).toHaveBeenCalledWith(
+        'alice@example.com', 'alice', [expect.objectContaining({ id: 'notif-1' }), expect.objectContaining({ id: 'notif-2' })]
+      );
+      expect(lists.size).toBe(0);
+    });
+
+    it('should drop batches for users who came back online and skip unverified emails', async () => {
+      const start = Date.now();
+      await deliveryService.queueNotification('user-1', notification());
+      sets.set('user_sessions:user-1', new Set(['conn-1']));
+      keys.add('session:conn-1');
+
+      expect(await deliveryService.flushDueDeliveries(start + 20 * MINUTE)).toBe(0);
+      expect(mockPushService.sendPush).not.toHaveBeenCalled();
+
+      keys.clear();
+      mockUserRepository.findById.mockResolvedValue({ id: 'user-1', verified: false, isGuest: false });
+      await deliveryService.queueNotification('user-1', notification());
+      await deliveryService.flushDueDeliveries(start + 20 * MINUTE);
+      expect(mockPushService.sendPush).toHaveBeenCalledTimes(1);
+      expect(mockMailService.sendNotificationDigest).not.toHaveBeenCalled();
+    });
+  });
+});
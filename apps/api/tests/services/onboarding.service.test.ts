@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionFlags } from '@yxc/permissions';
+
+// ── Mocks ──
+
+const mockGuildSettingsRepository = {
+  findOnboarding: vi.fn(),
+  replaceResponses: vi.fn(),
+  countOnboardedMembers: vi.fn(),
+  countRespondentsByPrompt: vi.fn(),
+  countResponsesByOption: vi.fn(),
+};
+
+const mockMemberRepository = {
+  findByUserAndGuild: vi.fn(),
+  getMemberRoleIds: vi.fn(),
+  update: vi.fn(),
+};
+
+const mockRoleRepository = {
+  findByGuildId: vi.fn(),
+};
+
+const mockRoleService = {
+  addRoleToMember: vi.fn(),
+  removeRoleFromMember: vi.fn(),
+  validateRoleHierarchy: vi.fn(),
+};
+
+const mockRequireGuildPermission = vi.fn();
+
+vi.mock('../../src/repositories/guild-settings.repository.js', () => ({
+  guildSettingsRepository: mockGuildSettingsRepository,
+}));
+vi.mock('../../src/repositories/member.repository.js', () => ({ memberRepository: mockMemberRepository }));
+vi.mock('../../src/repositories/role.repository.js', () => ({ roleRepository: mockRoleRepository }));
+vi.mock('../../src/services/role.service.js', () => mockRoleService);
+vi.mock('../../src/services/permission.service.js', () => ({ requireGuildPermission: mockRequireGuildPermission }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+
+const onboardingService = await import('../../src/services/onboarding.service.js');
+
+const prompts = [
+  {
+    id: 'p-games',
+    type: 0,
+    title: 'What do you play?',
+    singleSelect: false,
+    required: true,
+    inOnboarding: true,
+    options: [
+      { id: 'o-rpg', title: 'RPGs', channelIds: ['ch-rpg'], roleIds: ['role-rpg'] },
+      { id: 'o-fps', title: 'Shooters', channelIds: ['ch-fps'], roleIds: ['role-fps', 'role-deleted'] },
+    ],
+  },
+  {
+    id: 'p-region',
+    type: 0,
+    title: 'Where are you?',
+    singleSelect: true,
+    required: false,
+    inOnboarding: true,
+    options: [
+      { id: 'o-eu', title: 'Europe', channelIds: [], roleIds: ['role-eu'] },
+      { id: 'o-na', title: 'North America', channelIds: [], roleIds: ['role-na'] },
+    ],
+  },
+];
+
+describe('Onboarding Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGuildSettingsRepository.findOnboarding.mockResolvedValue({
+      guildId: 'guild-1',
+      enabled: true,
+      defaultChannelIds: ['ch-general'],
+      mode: 0,
+      prompts,
+    });
+    mockMemberRepository.findByUserAndGuild.mockResolvedValue({ userId: 'user-1', guildId: 'guild-1' });
+    mockMemberRepository.getMemberRoleIds.mockResolvedValue([]);
+    mockRoleRepository.findByGuildId.mockResolvedValue(
+      ['guild-1', 'role-rpg', 'role-fps', 'role-eu', 'role-na'].map((id) => ({ id }))
+    );
+    mockRequireGuildPermission.mockResolvedValue(undefined);
+    mockRoleService.validateRoleHierarchy.mockResolvedValue(undefined);
+  });
+
+  // ── submitOnboardingResponses ──
+
+  describe('submitOnboardingResponses', () => {
+    it('should record answers, grant mapped roles and store the opted-in channels', async () => {
+      const result = await onboardingService.submitOnboardingResponses('guild-1', 'user-1', [
+        { promptId: 'p-games', optionIds: ['o-rpg', 'o-fps'] },
+        { promptId: 'p-region', optionIds: ['o-eu'] },
+      ]);
+
+      expect(mockGuildSettingsRepository.replaceResponses).toHaveBeenCalledWith('guild-1', 'user-1', [
+        { promptId: 'p-games', optionId: 'o-rpg' },
+        { promptId: 'p-games', optionId: 'o-fps' },
+        { promptId: 'p-region', optionId: 'o-eu' },
+      ], ['ch-general', 'ch-rpg', 'ch-fps']);
+      const granted = mockRoleService.addRoleToMember.mock.calls.map((c) => c[2]);
+      expect(granted).toEqual(['role-rpg', 'role-fps', 'role-eu']);
+      expect(result).toEqual({ channelIds: ['ch-general', 'ch-rpg', 'ch-fps'], rolesChanged: true });
+      expect(mockMemberRepository.update).toHaveBeenCalledWith('user-1', 'guild-1', {
+        onboardingRoleIds: ['role-rpg', 'role-fps', 'role-eu'],
+      });
+    });
+
+    it('should take back roles onboarding granted for options the member dropped', async () => {
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({
+        userId: 'user-1', guildId: 'guild-1', onboardingRoleIds: ['role-fps', 'role-eu'],
+      });
+      mockMemberRepository.getMemberRoleIds.mockResolvedValue([{ roleId: 'role-fps' }, { roleId: 'role-eu' }]);
+
+      await onboardingService.submitOnboardingResponses('guild-1', 'user-1', [
+        { promptId: 'p-games', optionIds: ['o-fps'] },
+      ]);
+
+      expect(mockRoleService.addRoleToMember).not.toHaveBeenCalled();
+      expect(mockRoleService.removeRoleFromMember).toHaveBeenCalledTimes(1);
+      expect(mockRoleService.removeRoleFromMember).toHaveBeenCalledWith('guild-1', 'user-1', 'role-eu');
+      expect(mockMemberRepository.update).toHaveBeenCalledWith('user-1', 'guild-1', { onboardingRoleIds: ['role-fps'] });
+    });
+
+    it('should leave roles a moderator granted when the member drops the option', async () => {
+      // role-eu was already held when the member picked Europe, so onboarding never recorded it
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({
+        userId: 'user-1', guildId: 'guild-1', onboardingRoleIds: ['role-fps'],
+      });
+      mockMemberRepository.getMemberRoleIds.mockResolvedValue([{ roleId: 'role-fps' }, { roleId: 'role-eu' }]);
+
+      const result = await onboardingService.submitOnboardingResponses('guild-1', 'user-1', [
+        { promptId: 'p-games', optionIds: ['o-fps'] },
+      ]);
+
+      expect(mockRoleService.removeRoleFromMember).not.toHaveBeenCalled();
+      expect(result.rolesChanged).toBe(false);
+    });
+
+    it('should enforce required and single-select prompts', async () => {
+      await expect(onboardingService.submitOnboardingResponses('guild-1', 'user-1', [
+        { promptId: 'p-region', optionIds: ['o-eu'] },
+      ])).rejects.toThrow('Prompt "What do you play?" is required');
+
+      await expect(onboardingService.submitOnboardingResponses('guild-1', 'user-1', [
+        { promptId: 'p-games', optionIds: ['o-rpg'] },
+        { promptId: 'p-region', optionIds: ['o-eu', 'o-na'] },
+      ])).rejects.toThrow('Prompt "Where are you?" takes a single option');
+
+      await expect(onboardingService.submitOnboardingResponses('guild-1', 'user-1', [
+        { promptId: 'p-games', optionIds: ['o-eu'] },
+      ])).rejects.toThrow('Unknown option for prompt "What do you play?"');
+      expect(mockGuildSettingsRepository.replaceResponses).not.toHaveBeenCalled();
+    });
+
+    it('should refuse answers while onboarding is disabled', async () => {
+      mockGuildSettingsRepository.findOnboarding.mockResolvedValue({ enabled: false, prompts: [], defaultChannelIds: [] });
+      await expect(onboardingService.submitOnboardingResponses('guild-1', 'user-1', []))
+        .rejects.toThrow('Onboarding is not enabled');
+    });
+  });
+
+  // ── validatePromptRoles ──
+
+  describe('validatePromptRoles', () => {
+    beforeEach(() => {
+      mockGuildSettingsRepository.findOnboarding.mockResolvedValue(null);
+    });
+
+    it('should not let a MANAGE_GUILD-only member map roles to options', async () => {
+      mockRequireGuildPermission.mockImplementation(async (_userId: string, _guildId: string, permission: bigint) => {
+        if (permission === PermissionFlags.MANAGE_ROLES) throw new Error('Missing permissions');
+      });
+
+      await expect(onboardingService.validatePromptRoles('guild-1', 'manager', [
+        { options: [{ roleIds: ['role-admin'] }] },
+      ])).rejects.toThrow('Missing permissions');
+      expect(mockRoleService.validateRoleHierarchy).not.toHaveBeenCalled();
+
+      // Prompts that grant no roles only need MANAGE_GUILD
+      await expect(onboardingService.validatePromptRoles('guild-1', 'manager', [{ options: [{ roleIds: [] }] }]))
+        .resolves.toBeUndefined();
+    });
+
+    it('should only allow existing roles below the caller\'s highest', async () => {
+      mockRoleService.validateRoleHierarchy.mockImplementation(async (_actor: string, _guild: string, roleId: string) => {
+        if (roleId === 'role-na') throw new Error('Cannot manage a role equal to or higher than your highest role');
+      });
+
+      await expect(onboardingService.validatePromptRoles('guild-1', 'mod', [
+        { options: [{ roleIds: ['role-rpg'] }, { roleIds: ['role-na'] }] },
+      ])).rejects.toThrow('equal to or higher');
+      expect(mockRoleService.validateRoleHierarchy).toHaveBeenCalledWith('mod', 'guild-1', 'role-rpg');
+
+      await expect(onboardingService.validatePromptRoles('guild-1', 'owner', [{ options: [{ roleIds: ['guild-1'] }] }]))
+        .rejects.toThrow("can't grant @everyone");
+      await expect(onboardingService.validatePromptRoles('guild-1', 'owner', [{ options: [{ roleIds: ['role-deleted'] }] }]))
+        .rejects.toThrow('Unknown role role-deleted');
+    });
+
+    it('should only check roles the new prompts add', async () => {
+      mockGuildSettingsRepository.findOnboarding.mockResolvedValue({ prompts });
+      mockRoleService.validateRoleHierarchy.mockRejectedValue(
+        new Error('Cannot manage a role equal to or higher than your highest role')
+      );
+
+      // Every role here is already mapped by the current prompts
+      await expect(onboardingService.validatePromptRoles('guild-1', 'mod', prompts)).resolves.toBeUndefined();
+      expect(mockRequireGuildPermission).not.toHaveBeenCalled();
+
+      await expect(onboardingService.validatePromptRoles('guild-1', 'mod', [
+        ...prompts,
+        { options: [{ roleIds: ['role-rpg', 'role-new'] }] },
+      ])).rejects.toThrow('Unknown role role-new');
+    });
+  });
+
+  // ── filterOnboardedChannels ──
+
+  describe('filterOnboardedChannels', () => {
+    const channels = [
+      { id: 'cat-games', parentId: null },
+      { id: 'ch-rpg', parentId: 'cat-games' },
+      { id: 'ch-fps', parentId: 'cat-games' },
+      { id: 'cat-regions', parentId: null },
+      { id: 'ch-eu', parentId: 'cat-regions' },
+      { id: 'ch-general', parentId: null },
+    ];
+    const ids = (list: { id: string }[]) => list.map((c) => c.id);
+
+    it('should keep opted-in channels, their categories and opted-in categories\' children', () => {
+      expect(ids(onboardingService.filterOnboardedChannels(channels, ['ch-general', 'ch-rpg'])))
+        .toEqual(['cat-games', 'ch-rpg', 'ch-general']);
+      expect(ids(onboardingService.filterOnboardedChannels(channels, ['cat-regions'])))
+        .toEqual(['cat-regions', 'ch-eu']);
+    });
+
+    it('should leave members who never answered with every channel', () => {
+      expect(onboardingService.filterOnboardedChannels(channels, null)).toBe(channels);
+    });
+  });
+
+  // ── getOnboardingStats ──
+
+  describe('getOnboardingStats', () => {
+    it('should report completion per prompt and picks per option', async () => {
+      mockGuildSettingsRepository.countOnboardedMembers.mockResolvedValue(4);
+      mockGuildSettingsRepository.countRespondentsByPrompt.mockResolvedValue([{ promptId: 'p-games', count: 4 }, { promptId: 'p-region', count: 1 }]);
+      mockGuildSettingsRepository.countResponsesByOption.mockResolvedValue([{ optionId: 'o-rpg', count: 3 }, { optionId: 'o-na', count: 1 }]);
+
+      const stats = await onboardingService.getOnboardingStats('guild-1');
+
+      expect(stats.onboardedMembers).toBe(4);
+      expect(stats.prompts[1]).toEqual({
+        id: 'p-region',
+        title: 'Where are you?',
+        required: false,
+        completed: 1,
+        completionRate: 0.25,
+        options: [
+          { id: 'o-eu', title: 'Europe', count: 0 },
+          { id: 'o-na', title: 'North America', count: 1 },
+        ],
+      });
+    });
+  });
+});
@@ -15,6 +15,7 @@ const mockPollRepository = {
   deleteVote: vi.fn(),
   deleteVotesByUserInTx: vi.fn(),
   setExpired: vi.fn(),
+  findExpired: vi.fn(),
 };
 
 const mockDb = {
@@ -200,7 +201,7 @@ describe('Poll Service', () => {
       mockPollRepository.findById
         .mockResolvedValueOnce(createMockPoll()) // endPoll check
         .mockResolvedValueOnce(createMockPoll()); // getPoll after
-      mockPollRepository.setExpired.mockResolvedValue(undefined);
+      mockPollRepository.setExpired.mockResolvedValue(true);
       mockPollRepository.findOptions.mockResolvedValue([]);
       mockPollRepository.findVotesByPollId.mockResolvedValue([]);
 
@@ -209,6 +210,13 @@ describe('Poll Service', () => {
       expect(result).toBeDefined();
     });
 
+    it('should refuse to end a poll twice', async () => {
+      mockPollRepository.findById.mockResolvedValue(createMockPoll());
+      mockPollRepository.setExpired.mockResolvedValue(false);
+
+      await expect(pollService.endPoll('poll-1')).rejects.toThrow('Poll has already ended');
+    });
+
     it('should throw 404 when ending non-existent poll', async () => {
       mockPollRepository.findById.mockResolvedValue(null);
 
@@ -218,6 +226,64 @@ describe('Poll Service', () => {
     });
   });
 
+  // ── endExpiredPolls ──
+
+  describe('endExpiredPolls', () => {
+    it('should end polls that ran out in the last day and skip ones ended meanwhile', async () => {
+      const now = new Date('2026-03-01T12:00:00Z');
+      mockPollRepository.findExpired.mockResolvedValue([{ id: 'poll-1' }, { id: 'poll-2' }]);
+      mockPollRepository.findById.mockImplementation(async (id: string) => createMockPoll({ id }));
+      mockPollRepository.setExpired.mockImplementation(async (id: string) => id === 'poll-1');
+      mockPollRepository.findOptions.mockResolvedValue([]);
+      mockPollRepository.findVotesByPollId.mockResolvedValue([]);
+
+      const ended = await pollService.endExpiredPolls(now);
+
+      expect(mockPollRepository.findExpired).toHaveBeenCalledWith(new Date('2026-02-28T12:00:00Z'), now, 100);
+      expect(ended.map((p) => p.id)).toEqual(['poll-1']);
+    });
+
+    it('should keep ending the batch when one poll fails', async () => {
+      mockPollRepository.findExpired.mockResolvedValue([{ id: 'poll-1' }, { id: 'poll-2' }]);
+      mockPollRepository.findById.mockImplementation(async (id: string) => createMockPoll({ id }));
+      mockPollRepository.setExpired.mockImplementation(async (id: string) => {
+        if (id === 'poll-1') throw new Error('deadlock');
+        return true;
+      });
+      mockPollRepository.findOptions.mockResolvedValue([]);
+      mockPollRepository.findVotesByPollId.mockResolvedValue([]);
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const ended = await pollService.endExpiredPolls();
+      consoleError.mockRestore();
+
+      expect(ended.map((p) => p.id)).toEqual(['poll-2']);
+    });
+  });
+
+  // ── formatPollResults ──
+
+  describe('formatPollResults', () => {
+    const option = (text: string, votes: number) => ({ id: text, text, position: 0, votes, voted: false });
+
+    it('should name the winner with its share of voters', () => {
+      const text = pollService.formatPollResults({
+        question: 'Favorite color?',
+        totalVotes: 4,
+        options: [option('Red', 3), option('Blue', 1)],
+      });
+      expect(text).toBe('📊 **Favorite color?** has ended\n🏆 **Red** won with 3 votes (75%)\n4 people voted');
+    });
+
+    it('should report ties and polls nobody voted in', () => {
+      expect(pollService.formatPollResults({
+        question: 'Q', totalVotes: 2, options: [option('A', 1), option('B', 1)],
+      })).toContain('🏆 **A**, **B** tied with 1 vote each (50%)');
+      expect(pollService.formatPollResults({ question: 'Q', totalVotes: 0, options: [option('A', 0)] }))
+        .toBe('📊 **Q** has ended\nNo votes were cast');
+    });
+  });
+
   // ── getPoll ──
 
   describe('getPoll', () => {
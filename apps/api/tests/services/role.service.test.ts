@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks ──
+
+const mockRoleRepository = {
+  findByGuildId: vi.fn(),
+  shiftPositions: vi.fn(),
+  create: vi.fn(),
+};
+
+const mockInvalidateGuildPermissions = vi.fn();
+const mockDispatchGuild = vi.fn();
+
+vi.mock('../../src/repositories/role.repository.js', () => ({ roleRepository: mockRoleRepository }));
+vi.mock('../../src/repositories/guild.repository.js', () => ({ guildRepository: {} }));
+vi.mock('../../src/services/permission.service.js', () => ({
+  invalidateGuildPermissions: mockInvalidateGuildPermissions,
+  invalidatePermissions: vi.fn(),
+}));
+vi.mock('../../src/utils/dispatch.js', () => ({ dispatchGuild: mockDispatchGuild }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  redis: { get: vi.fn() },
+}));
+vi.mock('@yxc/snowflake', () => ({
+  generateSnowflake: vi.fn(() => 'role-new'),
+}));
+
+const roleService = await import('../../src/services/role.service.js');
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+function role(id: string, position: number) {
+  return { id, guildId: 'guild-1', name: id, position, createdAt };
+}
+
+describe('Role Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRoleRepository.create.mockImplementation(async (data: object) => ({ ...data, createdAt }));
+  });
+
+  // ── createRole ──
+
+  describe('createRole', () => {
+    it('should put new roles on top without touching the others', async () => {
+      mockRoleRepository.findByGuildId.mockResolvedValue([role('guild-1', 0), role('mod', 1)]);
+
+      const created = await roleService.createRole('guild-1', { name: 'new' });
+
+      expect(created.position).toBe(2);
+      expect(mockRoleRepository.shiftPositions).not.toHaveBeenCalled();
+      expect(mockDispatchGuild).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch the roles shifted up to make room and invalidate permissions', async () => {
+      mockRoleRepository.findByGuildId
+        .mockResolvedValueOnce([role('guild-1', 0), role('member', 1), role('mod', 2)])
+        .mockResolvedValueOnce([role('guild-1', 0), role('member', 1), role('role-new', 2), role('mod', 3)]);
+
+      const created = await roleService.createRole('guild-1', { name: 'new', position: 2 });
+
+      expect(created.position).toBe(2);
+      expect(mockRoleRepository.shiftPositions).toHaveBeenCalledWith('guild-1', 2);
+      expect(mockInvalidateGuildPermissions).toHaveBeenCalledWith('guild-1');
+      expect(mockDispatchGuild).toHaveBeenCalledTimes(1);
+      expect(mockDispatchGuild).toHaveBeenCalledWith('guild-1', 'GUILD_ROLE_UPDATE', {
+        guildId: 'guild-1',
+        role: expect.objectContaining({ id: 'mod', position: 3 }),
+      });
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionFlags, PermissionsBitfield } from '@yxc/permissions';
+
+// ── Mocks ──
+
+const mockSearchRepository = {
+  searchGuildMessages: vi.fn(),
+  countGuildMessages: vi.fn(),
+  replaceMessageTokens: vi.fn(),
+  findUnindexedMessages: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+  findByGuildId: vi.fn(),
+};
+
+const mockThreadRepository = {
+  findJoinedPrivateThreadIds: vi.fn(),
+};
+
+const mockGetChannelPermissions = vi.fn();
+const mockIsMember = vi.fn();
+
+vi.mock('../../src/repositories/search.repository.js', () => ({
+  searchRepository: mockSearchRepository,
+}));
+vi.mock('../../src/repositories/channel.repository.js', () => ({
+  channelRepository: mockChannelRepository,
+}));
+vi.mock('../../src/repositories/thread.repository.js', () => ({
+  threadRepository: mockThreadRepository,
+}));
+vi.mock('../../src/services/permission.service.js', () => ({
+  getChannelPermissions: mockGetChannelPermissions,
+}));
+vi.mock('../../src/services/guild.service.js', () => ({
+  isMember: mockIsMember,
+}));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), del: vi.fn() },
+}));
+
+const searchService = await import('../../src/services/search.service.js');
+
+const READ = new PermissionsBitfield(PermissionFlags.VIEW_CHANNEL | PermissionFlags.READ_MESSAGE_HISTORY);
+const VIEW_ONLY = new PermissionsBitfield(PermissionFlags.VIEW_CHANNEL);
+
+const defaultOptions = { sort: 'timestamp' as const, order: 'desc' as const, limit: 25, offset: 0 };
+
+describe('Search Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsMember.mockResolvedValue(true);
+    mockSearchRepository.searchGuildMessages.mockResolvedValue([]);
+    mockSearchRepository.countGuildMessages.mockResolvedValue(0);
+  });
+
+  // ── parseSearchQuery ──
+
+  describe('parseSearchQuery', () => {
+    it('should split operators from free text', () => {
+      const parsed = searchService.parseSearchQuery(
+        'deploy Failed from:<@123> in:<#456> has:attachment has:link mentions:<@!789> pinned:true'
+      );
+
+      expect(parsed.terms).toEqual(['deploy', 'failed']);
+      expect(parsed.authorIds).toEqual(['123']);
+      expect(parsed.channelIds).toEqual(['456']);
+      expect(parsed.mentionIds).toEqual(['789']);
+      expect(parsed.has).toEqual(['attachment', 'link']);
+      expect(parsed.pinned).toBe(true);
+    });
+
+    it('should parse dates and quoted phrases', () => {
+      const parsed = searchService.parseSearchQuery('"release notes" before:2026-02-01 after:2026-01-01');
+
+      expect(parsed.phrases).toEqual(['release notes']);
+      expect(parsed.terms).toEqual(['release', 'notes']);
+      expect(parsed.before?.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+      expect(parsed.after?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    });
+
+    it('should reject invalid dates and has: values', () => {
+      expect(() => searchService.parseSearchQuery('before:yesterday')).toThrow('Invalid date for before:');
+      expect(() => searchService.parseSearchQuery('has:video')).toThrow('Unknown has: filter');
+    });
+
+    it('should treat unknown operators as text', () => {
+      expect(searchService.parseSearchQuery('foo:bar').terms).toEqual(['foo', 'bar']);
+    });
+  });
+
+  // ── searchGuildMessages ──
+
+  describe('searchGuildMessages', () => {
+    it('should throw 403 for non-members', async () => {
+      mockIsMember.mockResolvedValue(false);
+
+      await expect(
+        searchService.searchGuildMessages('user-1', 'guild-1', { q: 'hello', ...defaultOptions })
+      ).rejects.toThrow('Not a member of this guild');
+    });
+
+    it('should only search channels the user can read, including their threads', async () => {
+      mockChannelRepository.findByGuildId.mockResolvedValue([
+        { id: 'ch-public', type: 0, parentId: null },
+        { id: 'ch-secret', type: 0, parentId: null },
+        { id: 'ch-no-history', type: 0, parentId: null },
+        { id: 'thread-public', type: 11, parentId: 'ch-public' },
+        { id: 'thread-secret', type: 11, parentId: 'ch-secret' },
+      ]);
+      mockGetChannelPermissions.mockImplementation(async (_u: string, _g: string, channelId: string) => {
+        if (channelId === 'ch-public') return READ;
+        if (channelId === 'ch-no-history') return VIEW_ONLY;
+        return new PermissionsBitfield(0n);
+      });
+
+      await searchService.searchGuildMessages('user-1', 'guild-1', { q: 'hello', ...defaultOptions });
+
+      const [, filters] = mockSearchRepository.searchGuildMessages.mock.calls[0]!;
+      expect(filters.channelIds.sort()).toEqual(['ch-public', 'thread-public']);
+      expect(filters.tokens).toEqual(['hello']);
+    });
+
+    it('should only include private threads the user joined or can manage', async () => {
+      mockChannelRepository.findByGuildId.mockResolvedValue([
+        { id: 'ch-public', type: 0, parentId: null },
+        { id: 'ch-mods', type: 0, parentId: null },
+        { id: 'private-joined', type: 12, parentId: 'ch-public' },
+        { id: 'private-other', type: 12, parentId: 'ch-public' },
+        { id: 'private-mods', type: 12, parentId: 'ch-mods' },
+      ]);
+      mockGetChannelPermissions.mockImplementation(async (_u: string, _g: string, channelId: string) =>
+        channelId === 'ch-mods'
+          ? new PermissionsBitfield(
+            PermissionFlags.VIEW_CHANNEL | PermissionFlags.READ_MESSAGE_HISTORY | PermissionFlags.MANAGE_THREADS
+          )
+          : READ
+      );
+      mockThreadRepository.findJoinedPrivateThreadIds.mockResolvedValue(['private-joined']);
+
+      await searchService.searchGuildMessages('user-1', 'guild-1', { q: 'hello', ...defaultOptions });
+
+      const [, filters] = mockSearchRepository.searchGuildMessages.mock.calls[0]!;
+      expect(filters.channelIds.sort()).toEqual(['ch-mods', 'ch-public', 'private-joined', 'private-mods']);
+      expect(mockThreadRepository.findJoinedPrivateThreadIds).toHaveBeenCalledWith('user-1', 'guild-1');
+    });
+
+    it('should return nothing when in: names an unreadable channel', async () => {
+      mockChannelRepository.findByGuildId.mockResolvedValue([
+        { id: 'ch-public', type: 0, parentId: null },
+        { id: 'ch-secret', type: 0, parentId: null },
+      ]);
+      mockGetChannelPermissions.mockImplementation(async (_u: string, _g: string, channelId: string) =>
+        channelId === 'ch-public' ? READ : new PermissionsBitfield(0n)
+      );
+
+      const result = await searchService.searchGuildMessages('user-1', 'guild-1', {
+        q: 'hello in:ch-secret',
+        ...defaultOptions,
+      });
+
+      expect(result).toEqual({ results: [], totalCount: 0 });
+      expect(mockSearchRepository.searchGuildMessages).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── indexMessage ──
+
+  describe('indexMessage', () => {
+    it('should store token frequencies for guild messages', async () => {
+      await searchService.indexMessage({ id: 'msg-1', channelId: 'ch-1', content: 'Ship it, ship it now!' }, 'guild-1');
+
+      expect(mockSearchRepository.replaceMessageTokens).toHaveBeenCalledWith(
+        'msg-1',
+        'guild-1',
+        'ch-1',
+        new Map([['ship', 2], ['it', 2], ['now', 1]])
+      );
+    });
+
+    it('should skip DM messages', async () => {
+      mockChannelRepository.findById.mockResolvedValue({ id: 'dm-1', guildId: null });
+
+      await searchService.indexMessage({ id: 'msg-1', channelId: 'dm-1', content: 'secret' });
+
+      expect(mockSearchRepository.replaceMessageTokens).not.toHaveBeenCalled();
+    });
+  });
+});
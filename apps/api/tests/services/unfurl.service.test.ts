@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+// ── Mocks ──
+
+const mockRedis = {
+  get: vi.fn(),
+  setex: vi.fn(),
+  lpush: vi.fn(),
+  rpop: vi.fn(),
+};
+
+const mockMessageRepository = {
+  findById: vi.fn(),
+  replaceLinkEmbeds: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+  findDMParticipantsByChannelIds: vi.fn(),
+};
+
+const mockDispatchGuild = vi.fn();
+
+vi.mock('../../src/config/redis.js', () => ({
+  redis: mockRedis,
+}));
+vi.mock('../../src/repositories/message.repository.js', () => ({
+  messageRepository: mockMessageRepository,
+}));
+vi.mock('../../src/repositories/channel.repository.js', () => ({
+  channelRepository: mockChannelRepository,
+}));
+vi.mock('../../src/utils/dispatch.js', () => ({
+  dispatchGuild: mockDispatchGuild,
+  dispatchUser: vi.fn(),
+}));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('@yxc/snowflake', () => ({
+  generateSnowflake: vi.fn(() => 'embed-snowflake-1'),
+}));
+
+const unfurlService = await import('../../src/services/unfurl.service.js');
+
+// ── Fixture server ──
+
+let server: http.Server;
+let base: string;
+
+const articlePage = `<!doctype html><html><head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Fixture &amp; Friends">
+  <meta property="og:description" content="A page served by the test fixture.">
+  <meta property="og:type" content="article">
+  <meta property="og:site_name" content="Fixture Site">
+  <meta property="og:image" content="/cover.png">
+  <meta name="theme-color" content="#ff8800">
+  <link rel="alternate" type="application/json+oembed" href="/oembed.json">
+</head><body></body></html>`;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    switch (req.url) {
+      case '/article':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        return res.end(articlePage);
+      case '/oembed.json':
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ author_name: 'Jane Doe', author_url: 'https://example.com/jane' }));
+      case '/cover.png':
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        return res.end(Buffer.alloc(4096));
+      case '/plain':
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        return res.end('no metadata here');
+      default: {
+        // /loop/N redirects to /loop/N+1 forever
+        const loop = req.url?.match(/^\/loop\/(\d+)$/);
+        if (loop) {
+          res.writeHead(302, { Location: `/loop/${Number(loop[1]) + 1}` });
+          return res.end();
+        }
+        res.writeHead(404);
+        return res.end();
+      }
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const fixture = { allowPrivateAddresses: true };
+
+describe('Unfurl Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedis.get.mockResolvedValue(null);
+  });
+
+  // ── unfurlUrl ──
+
+  describe('unfurlUrl', () => {
+    it('should build an article embed from OpenGraph and oEmbed metadata', async () => {
+      const embed = await unfurlService.unfurlUrl(`${base}/article`, fixture);
+
+      expect(embed).toEqual({
+        type: 'article',
+        url: `${base}/article`,
+        title: 'Fixture & Friends',
+        description: 'A page served by the test fixture.',
+        color: 0xff8800,
+        thumbnail: { url: `${base}/cover.png` },
+        provider: { name: 'Fixture Site', url: undefined },
+        author: { name: 'Jane Doe', url: 'https://example.com/jane' },
+      });
+      expect(mockRedis.setex).toHaveBeenCalledWith(expect.stringMatching(/^unfurl:/), 3600, JSON.stringify(embed));
+    });
+
+    it('should return an image embed without downloading the body', async () => {
+      const embed = await unfurlService.unfurlUrl(`${base}/cover.png`, fixture);
+
+      expect(embed).toEqual({ type: 'image', url: `${base}/cover.png`, thumbnail: { url: `${base}/cover.png` } });
+    });
+
+    it('should refuse private addresses by default and cache the failure', async () => {
+      const embed = await unfurlService.unfurlUrl(`${base}/article`);
+
+      expect(embed).toBeNull();
+      expect(mockRedis.setex).toHaveBeenCalledWith(expect.stringMatching(/^unfurl:/), 600, 'null');
+    });
+
+    it('should give up after too many redirects', async () => {
+      expect(await unfurlService.unfurlUrl(`${base}/loop/0`, fixture)).toBeNull();
+    });
+
+    it('should skip pages without metadata', async () => {
+      expect(await unfurlService.unfurlUrl(`${base}/plain`, fixture)).toBeNull();
+    });
+
+    it('should serve cached results without fetching', async () => {
+      mockRedis.get.mockResolvedValue(JSON.stringify({ type: 'link', url: 'https://cached.test', title: 'Cached' }));
+
+      const embed = await unfurlService.unfurlUrl('https://cached.test');
+
+      expect(embed).toEqual({ type: 'link', url: 'https://cached.test', title: 'Cached' });
+      expect(mockRedis.setex).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── extractUrls / enqueueMessage ──
+
+  describe('extractUrls', () => {
+    it('should drop suppressed links, trailing punctuation and duplicates', () => {
+      const urls = unfurlService.extractUrls(
+        'see https://a.test/page, <https://b.test/hidden> and (https://c.test/x) https://a.test/page'
+      );
+
+      expect(urls).toEqual(['https://a.test/page', 'https://c.test/x']);
+    });
+  });
+
+  describe('enqueueMessage', () => {
+    it('should skip messages with SUPPRESS_EMBEDS or no links', async () => {
+      await unfurlService.enqueueMessage({ id: 'm1', content: 'https://a.test', flags: 1 << 2 });
+      await unfurlService.enqueueMessage({ id: 'm2', content: 'no links' });
+      await unfurlService.enqueueMessage({ id: 'm3', content: 'https://a.test' });
+
+      expect(mockRedis.lpush).toHaveBeenCalledTimes(1);
+      expect(mockRedis.lpush).toHaveBeenCalledWith('zent:unfurl:queue', 'm3');
+    });
+  });
+
+  // ── unfurlMessage ──
+
+  describe('unfurlMessage', () => {
+    it('should store link embeds and dispatch a message update', async () => {
+      mockMessageRepository.findById.mockResolvedValue({
+        id: 'msg-1', channelId: 'ch-1', content: `look ${base}/article`, flags: 0,
+      });
+      mockChannelRepository.findById.mockResolvedValue({ id: 'ch-1', guildId: 'guild-1' });
+
+      const embeds = await unfurlService.unfurlMessage('msg-1', fixture);
+
+      expect(embeds).toHaveLength(1);
+      expect(mockMessageRepository.replaceLinkEmbeds).toHaveBeenCalledWith('msg-1', [
+        expect.objectContaining({ id: 'embed-snowflake-1', messageId: 'msg-1', type: 'article', url: `${base}/article` }),
+      ]);
+      expect(mockDispatchGuild).toHaveBeenCalledWith('guild-1', 'MESSAGE_UPDATE', expect.objectContaining({
+        id: 'msg-1', channelId: 'ch-1', embeds,
+      }));
+    });
+
+    it('should do nothing once embeds have been suppressed', async () => {
+      mockMessageRepository.findById.mockResolvedValue({
+        id: 'msg-1', channelId: 'ch-1', content: `${base}/article`, flags: 1 << 2,
+      });
+
+      expect(await unfurlService.unfurlMessage('msg-1', fixture)).toBeNull();
+      expect(mockMessageRepository.replaceLinkEmbeds).not.toHaveBeenCalled();
+    });
+  });
+});
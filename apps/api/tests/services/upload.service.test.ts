@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionFlags } from '@yxc/permissions';
+
+// ── Mocks ──
+
+const mockUploadRepository = {
+  findById: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  transitionStatus: vi.fn(),
+  delete: vi.fn(),
+  findParts: vi.fn(),
+  upsertPart: vi.fn(),
+  findExpired: vi.fn(),
+};
+
+const mockGuildRepository = {
+  findById: vi.fn(),
+};
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+  findDMRecipient: vi.fn(),
+};
+
+const mockMessageRepository = {
+  createAttachments: vi.fn(),
+};
+
+const mockRequireChannelPermission = vi.fn();
+
+const mockFileService = {
+  assertUploadAllowed: vi.fn(),
+  attachmentObjectKey: vi.fn(() => 'attachments/ch-1/upload-1/abc.mp4'),
+  attachmentUrl: vi.fn(() => 'http://localhost:4000/attachments/ch-1/upload-1/video.mp4'),
+  createMultipartUpload: vi.fn(),
+  uploadPart: vi.fn(),
+  completeMultipartUpload: vi.fn(),
+  abortMultipartUpload: vi.fn(),
+  verifyStoredFile: vi.fn(),
+  describeStoredFile: vi.fn(),
+  deleteFile: vi.fn(),
+};
+
+vi.mock('../../src/repositories/upload.repository.js', () => ({
+  uploadRepository: mockUploadRepository,
+}));
+vi.mock('../../src/repositories/guild.repository.js', () => ({
+  guildRepository: mockGuildRepository,
+}));
+vi.mock('../../src/repositories/channel.repository.js', () => ({
+  channelRepository: mockChannelRepository,
+}));
+vi.mock('../../src/repositories/message.repository.js', () => ({
+  messageRepository: mockMessageRepository,
+}));
+vi.mock('../../src/services/file.service.js', () => mockFileService);
+vi.mock('../../src/services/permission.service.js', () => ({
+  requireChannelPermission: mockRequireChannelPermission,
+}));
+vi.mock('../../src/config/config.js', () => ({
+  config: { uploads: { defaultMaxFileSize: 50 * 1024 * 1024, maxFileSize: 500 * 1024 * 1024 } },
+}));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('@yxc/snowflake', () => ({
+  generateSnowflake: vi.fn(() => 'upload-1'),
+}));
+
+const uploadService = await import('../../src/services/upload.service.js');
+const { CHUNK_SIZE } = uploadService;
+
+function createSession(overrides: Record<string, any> = {}) {
+  return {
+    id: 'upload-1',
+    userId: 'user-1',
+    channelId: 'ch-1',
+    filename: 'video.mp4',
+    contentType: 'video/mp4',
+    size: CHUNK_SIZE * 2 + 100,
+    sha256: 'a'.repeat(64),
+    chunkSize: CHUNK_SIZE,
+    objectKey: 'attachments/ch-1/upload-1/abc.mp4',
+    s3UploadId: 's3-upload-1',
+    status: 'pending',
+    width: null,
+    height: null,
+    blurhash: null,
+    messageId: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Upload Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChannelRepository.findById.mockResolvedValue({ id: 'ch-1', guildId: 'guild-1' });
+    mockUploadRepository.findParts.mockResolvedValue([]);
+  });
+
+  // ── getMaxUploadSize ──
+
+  describe('getMaxUploadSize', () => {
+    it('should use the guild override, capped at the platform ceiling', async () => {
+      mockGuildRepository.findById.mockResolvedValueOnce({ maxUploadSize: 100 * 1024 * 1024 });
+      expect(await uploadService.getMaxUploadSize('guild-1')).toBe(100 * 1024 * 1024);
+
+      mockGuildRepository.findById.mockResolvedValueOnce({ maxUploadSize: 2 * 1024 * 1024 * 1024 });
+      expect(await uploadService.getMaxUploadSize('guild-1')).toBe(500 * 1024 * 1024);
+    });
+
+    it('should fall back to the default for DMs and guilds without an override', async () => {
+      mockGuildRepository.findById.mockResolvedValueOnce({ maxUploadSize: null });
+      expect(await uploadService.getMaxUploadSize('guild-1')).toBe(50 * 1024 * 1024);
+      expect(await uploadService.getMaxUploadSize(null)).toBe(50 * 1024 * 1024);
+    });
+  });
+
+  // ── createSession ──
+
+  describe('createSession', () => {
+    it('should start an S3 multipart upload and report the part layout', async () => {
+      mockGuildRepository.findById.mockResolvedValue({ maxUploadSize: null });
+      mockFileService.createMultipartUpload.mockResolvedValue('s3-upload-1');
+      mockUploadRepository.create.mockImplementation(async (data) => createSession(data));
+
+      const session = await uploadService.createSession('user-1', {
+        channelId: 'ch-1',
+        filename: 'video.mp4',
+        size: CHUNK_SIZE * 2 + 100,
+        contentType: 'video/mp4',
+        sha256: 'A'.repeat(64),
+      });
+
+      expect(mockFileService.assertUploadAllowed).toHaveBeenCalledWith(CHUNK_SIZE * 2 + 100, 'video/mp4', 50 * 1024 * 1024);
+      expect(mockUploadRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        sha256: 'a'.repeat(64),
+        s3UploadId: 's3-upload-1',
+      }));
+      expect(session).toMatchObject({ id: 'upload-1', partCount: 3, chunkSize: CHUNK_SIZE, uploadedParts: [] });
+    });
+
+    it('should require ATTACH_FILES in the channel', async () => {
+      mockRequireChannelPermission.mockRejectedValueOnce(new Error('Missing permissions'));
+
+      await expect(uploadService.createSession('user-1', {
+        channelId: 'ch-1',
+        filename: 'video.mp4',
+        size: 100,
+        contentType: 'video/mp4',
+        sha256: 'a'.repeat(64),
+      })).rejects.toThrow('Missing permissions');
+      expect(mockRequireChannelPermission).toHaveBeenCalledWith(
+        'user-1', 'guild-1', 'ch-1', PermissionFlags.VIEW_CHANNEL | PermissionFlags.ATTACH_FILES
+      );
+      expect(mockFileService.createMultipartUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── uploadPart ──
+
+  describe('uploadPart', () => {
+    it('should reject parts of the wrong size', async () => {
+      mockUploadRepository.findById.mockResolvedValue(createSession());
+
+      await expect(uploadService.uploadPart('user-1', 'upload-1', 3, Buffer.alloc(99)))
+        .rejects.toThrow('Part 3 must be exactly 100 bytes');
+      await expect(uploadService.uploadPart('user-1', 'upload-1', 4, Buffer.alloc(100)))
+        .rejects.toThrow('Part number must be between 1 and 3');
+    });
+
+    it('should store the part and record its etag', async () => {
+      mockUploadRepository.findById.mockResolvedValue(createSession());
+      mockFileService.uploadPart.mockResolvedValue('etag-3');
+
+      const result = await uploadService.uploadPart('user-1', 'upload-1', 3, Buffer.alloc(100));
+
+      expect(result).toEqual({ partNumber: 3, size: 100 });
+      expect(mockUploadRepository.upsertPart).toHaveBeenCalledWith('upload-1', 3, 'etag-3', 100);
+    });
+
+    it('should hide other users\' sessions and refuse expired ones', async () => {
+      mockUploadRepository.findById.mockResolvedValueOnce(createSession({ userId: 'user-2' }));
+      await expect(uploadService.uploadPart('user-1', 'upload-1', 1, Buffer.alloc(1))).rejects.toThrow('Upload not found');
+
+      mockUploadRepository.findById.mockResolvedValueOnce(createSession({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(uploadService.uploadPart('user-1', 'upload-1', 1, Buffer.alloc(1))).rejects.toThrow('expired');
+    });
+  });
+
+  // ── completeSession ──
+
+  describe('completeSession', () => {
+    it('should list missing parts', async () => {
+      mockUploadRepository.findById.mockResolvedValue(createSession());
+      mockUploadRepository.findParts.mockResolvedValue([{ partNumber: 2, etag: 'e2', size: CHUNK_SIZE }]);
+
+      await expect(uploadService.completeSession('user-1', 'upload-1')).rejects.toThrow('Missing parts: 1, 3');
+      expect(mockFileService.completeMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it('should discard the upload when the hash does not match', async () => {
+      mockUploadRepository.findById.mockResolvedValue(createSession());
+      mockUploadRepository.findParts.mockResolvedValue([1, 2, 3].map((n) => ({ partNumber: n, etag: `e${n}`, size: 1 })));
+      mockFileService.verifyStoredFile.mockResolvedValue(false);
+
+      await expect(uploadService.completeSession('user-1', 'upload-1')).rejects.toThrow('does not match');
+      expect(mockFileService.deleteFile).toHaveBeenCalledWith('attachments/ch-1/upload-1/abc.mp4');
+      expect(mockUploadRepository.delete).toHaveBeenCalledWith('upload-1');
+    });
+
+    it('should record media metadata once verified', async () => {
+      mockUploadRepository.findById.mockResolvedValue(createSession());
+      mockUploadRepository.findParts.mockResolvedValue([1, 2, 3].map((n) => ({ partNumber: n, etag: `e${n}`, size: 1 })));
+      mockFileService.verifyStoredFile.mockResolvedValue(true);
+      mockFileService.describeStoredFile.mockResolvedValue({ width: 1920, height: 1080, blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj' });
+      mockUploadRepository.transitionStatus.mockResolvedValue(true);
+      mockUploadRepository.findById
+        .mockResolvedValueOnce(createSession())
+        .mockResolvedValueOnce(createSession({ status: 'completed', width: 1920, height: 1080 }));
+
+      const session = await uploadService.completeSession('user-1', 'upload-1');
+
+      expect(mockUploadRepository.transitionStatus).toHaveBeenCalledWith('upload-1', 'pending', 'completed', {
+        width: 1920,
+        height: 1080,
+        blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+      });
+      expect(session.status).toBe('completed');
+    });
+
+    it('should let only one of two concurrent completions win', async () => {
+      mockUploadRepository.findById.mockResolvedValue(createSession());
+      mockUploadRepository.findParts.mockResolvedValue([1, 2, 3].map((n) => ({ partNumber: n, etag: `e${n}`, size: 1 })));
+      mockFileService.verifyStoredFile.mockResolvedValue(true);
+      mockFileService.describeStoredFile.mockResolvedValue(null);
+      mockUploadRepository.transitionStatus.mockResolvedValue(false);
+
+      await expect(uploadService.completeSession('user-1', 'upload-1')).rejects.toThrow('Upload is already complete');
+      expect(mockUploadRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── claimUploads ──
+
+  describe('claimUploads', () => {
+    it('should release earlier claims when a later upload is unavailable', async () => {
+      mockUploadRepository.findById
+        .mockResolvedValueOnce(createSession({ id: 'upload-1', status: 'completed' }))
+        .mockResolvedValueOnce(createSession({ id: 'upload-2', status: 'attached' }));
+      mockUploadRepository.transitionStatus
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+
+      await expect(uploadService.claimUploads('user-1', 'ch-1', ['upload-1', 'upload-2']))
+        .rejects.toThrow('Upload upload-2 is not complete or is already attached');
+      expect(mockUploadRepository.transitionStatus).toHaveBeenLastCalledWith('upload-1', 'attached', 'completed');
+    });
+
+    it('should refuse uploads made for another channel', async () => {
+      mockUploadRepository.findById.mockResolvedValue(createSession({ status: 'completed', channelId: 'ch-2' }));
+
+      await expect(uploadService.claimUploads('user-1', 'ch-1', ['upload-1'])).rejects.toThrow('another channel');
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PermissionsBitfield, PermissionFlags } from '@yxc/permissions';
+
+// ── In-memory Redis ──
+
+const hashes = new Map<string, Map<string, string>>();
+const strings = new Map<string, string>();
+const sets = new Map<string, Set<string>>();
+
+function hash(key: string) {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+}
+
+function set(key: string) {
+  if (!sets.has(key)) sets.set(key, new Set());
+  return sets.get(key)!;
+}
+
+const mockRedis = {
+  hget: vi.fn(async (key: string, field: string) => hashes.get(key)?.get(field) ?? null),
+  hvals: vi.fn(async (key: string) => [...(hashes.get(key)?.values() ?? [])]),
+  hdel: vi.fn(async (key: string, field: string) => (hashes.get(key)?.delete(field) ? 1 : 0)),
+  get: vi.fn(async (key: string) => strings.get(key) ?? null),
+  set: vi.fn(async (key: string, value: string) => void strings.set(key, value)),
+  del: vi.fn(async (key: string) => (strings.delete(key) ? 1 : 0)),
+  exists: vi.fn(async (key: string) => (strings.has(key) ? 1 : 0)),
+  sadd: vi.fn(async (key: string, member: string) => void set(key).add(member)),
+  srem: vi.fn(async (key: string, member: string) => void set(key).delete(member)),
+  sscan: vi.fn(async (key: string) => ['0', [...set(key)]]),
+  // Mirrors the service's two scripts: JOIN (4 args, user limit) and UPDATE (2 args, only if present)
+  eval: vi.fn(async (_script: string, _keys: number, key: string, ...args: string[]) => {
+    const states = hash(key);
+    if (args.length === 4) {
+      const [userId, channelId, json, limit] = args as [string, string, string, string];
+      const current = states.get(userId);
+      if (Number(limit) > 0 && (!current || JSON.parse(current).channelId !== channelId)) {
+        const count = [...states.values()].filter((s) => JSON.parse(s).channelId === channelId).length;
+        if (count >= Number(limit)) return 0;
+      }
+      states.set(userId, json);
+      return 1;
+    }
+    const [userId, json] = args as [string, string];
+    if (!states.has(userId)) return 0;
+    states.set(userId, json);
+    return 1;
+  }),
+  pipeline: vi.fn(() => {
+    const ops: Array<() => Promise<unknown>> = [];
+    const pipeline = {
+      set: (key: string, value: string) => (ops.push(() => mockRedis.set(key, value)), pipeline),
+      sadd: (key: string, member: string) => (ops.push(() => mockRedis.sadd(key, member)), pipeline),
+      hvals: (key: string) => (ops.push(() => mockRedis.hvals(key)), pipeline),
+      exec: async () => Promise.all(ops.map(async (op) => [null, await op()])),
+    };
+    return pipeline;
+  }),
+};
+
+// ── Mocks ──
+
+const mockChannelRepository = {
+  findById: vi.fn(),
+};
+
+const mockMemberRepository = {
+  findByUserAndGuild: vi.fn(),
+};
+
+const mockPermissionService = {
+  getChannelPermissions: vi.fn(),
+};
+
+const mockStageService = {
+  endStage: vi.fn(),
+};
+
+const mockDispatch = {
+  dispatchGuild: vi.fn(),
+  dispatchUser: vi.fn(),
+};
+
+vi.mock('../../src/config/redis.js', () => ({ redis: mockRedis }));
+vi.mock('../../src/config/env.js', () => ({
+  env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
+}));
+vi.mock('../../src/config/config.js', () => ({ config: { stream: { url: '', internalKey: '' } } }));
+vi.mock('../../src/repositories/channel.repository.js', () => ({ channelRepository: mockChannelRepository }));
+vi.mock('../../src/repositories/member.repository.js', () => ({ memberRepository: mockMemberRepository }));
+vi.mock('../../src/services/permission.service.js', () => mockPermissionService);
+vi.mock('../../src/services/stage.service.js', () => mockStageService);
+vi.mock('../../src/utils/dispatch.js', () => mockDispatch);
+
+const voiceService = await import('../../src/services/voice.service.js');
+
+const CONNECT = PermissionFlags.VIEW_CHANNEL | PermissionFlags.CONNECT;
+
+const channels: Record<string, any> = {
+  'voice-1': { id: 'voice-1', guildId: 'guild-1', type: 2, userLimit: 2 },
+  'voice-2': { id: 'voice-2', guildId: 'guild-1', type: 2, userLimit: null },
+  'stage-1': { id: 'stage-1', guildId: 'guild-1', type: 13, userLimit: null },
+  'voice-other': { id: 'voice-other', guildId: 'guild-2', type: 2, userLimit: null },
+  'text-1': { id: 'text-1', guildId: 'guild-1', type: 0, userLimit: null },
+};
+
+function join(userId: string, channelId: string | null, guildId = 'guild-1', connId: string | null = `conn-${userId}`) {
+  return voiceService.updateOwnVoiceState({ userId, sessionId: `session-${userId}`, connId }, { guildId, channelId });
+}
+
+describe('Voice Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hashes.clear();
+    strings.clear();
+    sets.clear();
+    mockChannelRepository.findById.mockImplementation(async (id: string) => channels[id] ?? null);
+    mockMemberRepository.findByUserAndGuild.mockResolvedValue({ mute: false, deaf: false });
+    mockPermissionService.getChannelPermissions.mockResolvedValue(new PermissionsBitfield(CONNECT));
+  });
+
+  // ── updateOwnVoiceState ──
+
+  describe('updateOwnVoiceState', () => {
+    it('should record the state and dispatch it to the guild', async () => {
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({ mute: true, deaf: false });
+
+      const state = await join('user-1', 'voice-2');
+
+      expect(state).toMatchObject({ userId: 'user-1', channelId: 'voice-2', mute: true, suppress: false });
+      expect(state).not.toHaveProperty('connId');
+      expect(mockDispatch.dispatchGuild).toHaveBeenCalledWith('guild-1', 'VOICE_STATE_UPDATE', state);
+      expect(await voiceService.getGuildVoiceStates('guild-1')).toEqual([state]);
+    });
+
+    it('should join stage channels suppressed', async () => {
+      expect(await join('user-1', 'stage-1')).toMatchObject({ suppress: true, requestToSpeakTimestamp: null });
+    });
+
+    it('should reject non-voice channels and users without CONNECT', async () => {
+      await expect(join('user-1', 'text-1')).rejects.toThrow('not a voice channel');
+
+      mockPermissionService.getChannelPermissions.mockResolvedValue(new PermissionsBitfield(PermissionFlags.VIEW_CHANNEL));
+      await expect(join('user-1', 'voice-2')).rejects.toThrow('Missing permissions');
+    });
+
+    it('should enforce the user limit unless the user has MOVE_MEMBERS', async () => {
+      await join('user-1', 'voice-1');
+      await join('user-2', 'voice-1');
+      await expect(join('user-3', 'voice-1')).rejects.toThrow('Voice channel is full');
+
+      // Members already inside can still update their state
+      await expect(join('user-2', 'voice-1')).resolves.toMatchObject({ channelId: 'voice-1' });
+
+      mockPermissionService.getChannelPermissions.mockResolvedValue(
+        new PermissionsBitfield(CONNECT | PermissionFlags.MOVE_MEMBERS)
+      );
+      await expect(join('user-3', 'voice-1')).resolves.toMatchObject({ channelId: 'voice-1' });
+    });
+
+    it('should leave voice in other guilds when joining', async () => {
+      await join('user-1', 'voice-other', 'guild-2');
+      await join('user-1', 'voice-2');
+
+      expect(await voiceService.getVoiceState('guild-2', 'user-1')).toBeNull();
+      expect(mockDispatch.dispatchGuild).toHaveBeenCalledWith('guild-2', 'VOICE_STATE_UPDATE',
+        expect.objectContaining({ userId: 'user-1', channelId: null }));
+    });
+  });
+
+  // ── joinWithMedia ──
+
+  describe('joinWithMedia', () => {
+    it('should roll the join back when the media server is unavailable', async () => {
+      await expect(voiceService.joinWithMedia(
+        { userId: 'user-1', sessionId: 'rest', connId: null },
+        { guildId: 'guild-1', channelId: 'voice-2' }
+      )).rejects.toThrow('Voice service unavailable');
+
+      expect(await voiceService.getVoiceState('guild-1', 'user-1')).toBeNull();
+      expect(strings.has('voice:user:user-1')).toBe(false);
+      expect(mockDispatch.dispatchGuild).toHaveBeenLastCalledWith('guild-1', 'VOICE_STATE_UPDATE',
+        expect.objectContaining({ userId: 'user-1', channelId: null }));
+    });
+  });
+
+  // ── disconnect ──
+
+  describe('disconnect', () => {
+    it('should end the stage once the last participant leaves', async () => {
+      await join('user-1', 'stage-1');
+      await join('user-2', 'stage-1');
+
+      await join('user-1', null);
+      expect(mockStageService.endStage).not.toHaveBeenCalled();
+
+      await join('user-2', 'voice-2');
+      expect(mockStageService.endStage).toHaveBeenCalledWith('guild-1', 'stage-1');
+    });
+
+    it('should only clean up states owned by the closing connection', async () => {
+      await join('user-1', 'voice-2');
+
+      await voiceService.disconnectConnection('user-1', 'conn-other');
+      expect(await voiceService.getVoiceState('guild-1', 'user-1')).not.toBeNull();
+
+      await voiceService.disconnectConnection('user-1', 'conn-user-1');
+      expect(await voiceService.getVoiceState('guild-1', 'user-1')).toBeNull();
+    });
+  });
+
+  // ── moderation ──
+
+  describe('moveMember / applyServerVoiceState', () => {
+    it('should move connected members and refuse others', async () => {
+      await join('user-1', 'voice-1');
+
+      await expect(voiceService.moveMember('guild-1', 'user-1', 'stage-1'))
+        .resolves.toMatchObject({ channelId: 'stage-1', suppress: true });
+      await expect(voiceService.moveMember('guild-1', 'user-2', 'voice-2')).rejects.toThrow('not connected');
+    });
+
+    it('should apply server mute to live voice states', async () => {
+      await join('user-1', 'voice-2');
+
+      await expect(voiceService.applyServerVoiceState('guild-1', 'user-1', { mute: true }))
+        .resolves.toMatchObject({ mute: true, deaf: false });
+      await expect(voiceService.applyServerVoiceState('guild-1', 'user-2', { mute: true })).resolves.toBeNull();
+    });
+
+    it('should keep a timed out member muted', async () => {
+      await join('user-1', 'voice-2');
+      mockMemberRepository.findByUserAndGuild.mockResolvedValue({
+        mute: false,
+        deaf: false,
+        communicationDisabledUntil: new Date(Date.now() + 60_000),
+      });
+
+      await expect(voiceService.applyServerVoiceState('guild-1', 'user-1', { mute: false }))
+        .resolves.toMatchObject({ mute: true });
+    });
+  });
+
+  // ── updateStageVoiceState ──
+
+  describe('updateStageVoiceState', () => {
+    it('should clear the speaker request when bringing someone on stage', async () => {
+      await join('user-1', 'stage-1');
+
+      const raised = await voiceService.updateStageVoiceState('guild-1', 'user-1', {
+        channelId: 'stage-1',
+        requestToSpeakTimestamp: '2026-01-01T00:00:00.000Z',
+      });
+      expect(raised.requestToSpeakTimestamp).toBe('2026-01-01T00:00:00.000Z');
+
+      const speaking = await voiceService.updateStageVoiceState('guild-1', 'user-1', { channelId: 'stage-1', suppress: false });
+      expect(speaking).toMatchObject({ suppress: false, requestToSpeakTimestamp: null });
+
+      // Self mute/deaf updates keep the speaker on stage
+      await expect(join('user-1', 'stage-1')).resolves.toMatchObject({ suppress: false });
+    });
+  });
+
+  // ── cleanupStaleVoiceStates ──
+
+  describe('cleanupStaleVoiceStates', () => {
+    it('should disconnect states whose gateway session expired', async () => {
+      await join('user-1', 'voice-2');
+      await join('user-2', 'voice-2');
+      strings.set('session:conn-user-2', '1');
+
+      expect(await voiceService.cleanupStaleVoiceStates()).toBe(1);
+      expect(await voiceService.getVoiceState('guild-1', 'user-1')).toBeNull();
+      expect(await voiceService.getVoiceState('guild-1', 'user-2')).not.toBeNull();
+    });
+
+    it('should disconnect states joined over REST once their lease is gone', async () => {
+      await join('user-1', 'voice-2', 'guild-1', null);
+      expect(await voiceService.cleanupStaleVoiceStates()).toBe(0);
+
+      strings.delete('voice:rest:user-1');
+      expect(await voiceService.cleanupStaleVoiceStates()).toBe(1);
+      expect(await voiceService.getVoiceState('guild-1', 'user-1')).toBeNull();
+    });
+  });
+
+  // ── disconnectChannel ──
+
+  describe('disconnectChannel', () => {
+    it('should disconnect only the members in that channel', async () => {
+      await join('user-1', 'voice-2');
+      await join('user-2', 'stage-1');
+
+      expect(await voiceService.disconnectChannel('guild-1', 'voice-2')).toBe(1);
+      expect(await voiceService.getVoiceState('guild-1', 'user-1')).toBeNull();
+      expect(await voiceService.getVoiceState('guild-1', 'user-2')).not.toBeNull();
+    });
+  });
+});
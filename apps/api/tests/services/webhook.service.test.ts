@@ -23,6 +23,16 @@ vi.mock('../../src/repositories/webhook.repository.js', () => ({
 vi.mock('../../src/repositories/message.repository.js', () => ({
   messageRepository: mockMessageRepository,
 }));
+vi.mock('../../src/services/search.service.js', () => ({
+  indexMessage: vi.fn(),
+}));
+vi.mock('../../src/services/unfurl.service.js', () => ({
+  enqueueMessage: vi.fn(),
+}));
+vi.mock('../../src/services/mention.service.js', () => ({
+  resolveMentions: vi.fn(async () => ({ mentions: [], mentionRoles: [], mentionEveryone: false, recipients: new Map() })),
+  notifyMentions: vi.fn(async () => {}),
+}));
 vi.mock('../../src/config/env.js', () => ({
   env: { AUTH_SECRET: 'test-secret-that-is-at-least-32-characters!!' },
 }));
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── In-memory stream ──
+
+type Entry = [string, string[]];
+
+let entries: Entry[] = [];
+const groups = new Map<string, { lastId: string; pending: Map<string, number> }>();
+const strings = new Map<string, string>();
+
+function cmp(a: string, b: string) {
+  const [aMs, aSeq] = a.split('-').map(Number) as [number, number];
+  const [bMs, bSeq] = b.split('-').map(Number) as [number, number];
+  return aMs !== bMs ? aMs - bMs : aSeq - bSeq;
+}
+
+function inRange(id: string, start: string, end: string) {
+  const afterStart = start === '-' || (start.startsWith('(') ? cmp(id, start.slice(1)) > 0 : cmp(id, start) >= 0);
+  return afterStart && (end === '+' || cmp(id, end) <= 0);
+}
+
+const mockRedis: Record<string, any> = {
+  xrange: vi.fn(async (_key: string, start: string, end: string, _count: string, n: number) =>
+    entries.filter(([id]) => inRange(id, start, end)).slice(0, n)),
+  xrevrange: vi.fn(async () => entries.slice(-1)),
+  xgroup: vi.fn(async (command: string, _key: string, group: string, startId?: string) => {
+    if (command === 'DESTROY') return groups.delete(group) ? 1 : 0;
+    if (groups.has(group)) throw new Error('BUSYGROUP Consumer Group name already exists');
+    const lastId = startId === '$' ? entries[entries.length - 1]?.[0] ?? '0-0' : startId!;
+    groups.set(group, { lastId, pending: new Map() });
+    return 'OK';
+  }),
+  xreadgroup: vi.fn(async (_g: string, group: string, _consumer: string, _c: string, count: number) => {
+    const state = groups.get(group)!;
+    const batch = entries.filter(([id]) => cmp(id, state.lastId) > 0).slice(0, count);
+    if (batch.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return null;
+    }
+    for (const [id] of batch) state.pending.set(id, (state.pending.get(id) ?? 0) + 1);
+    state.lastId = batch[batch.length - 1]![0];
+    return [['zent:events:stream', batch]];
+  }),
+  xack: vi.fn(async (_key: string, group: string, ...ids: string[]) => {
+    for (const id of ids) groups.get(group)?.pending.delete(id);
+  }),
+  xpending: vi.fn(async () => []),
+  xautoclaim: vi.fn(async () => ['0-0', []]),
+  xinfo: vi.fn(async () =>
+    [...groups].map(([name, g]) => ['name', name, 'consumers', 1, 'pending', g.pending.size, 'last-delivered-id', g.lastId, 'lag', 0])),
+  exists: vi.fn(async (key: string) => (strings.has(key) ? 1 : 0)),
+  set: vi.fn(async (key: string, value: string) => void strings.set(key, value)),
+  del: vi.fn(async (key: string) => (strings.delete(key) ? 1 : 0)),
+  disconnect: vi.fn(),
+};
+mockRedis.duplicate = vi.fn(() => mockRedis);
+
+vi.mock('../../src/config/redis.js', () => ({ redis: mockRedis }));
+
+const eventStream = await import('../../src/utils/event-stream.js');
+
+function add(id: string, target: string, event = 'MESSAGE_CREATE', data: unknown = { id }) {
+  entries.push([id, ['type', 'guild', 'target', target, 'event', event, 'payload', JSON.stringify({ event, data })]]);
+}
+
+describe('Event stream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entries = [];
+    groups.clear();
+    strings.clear();
+  });
+
+  // ── readEventsAfter ──
+
+  describe('readEventsAfter', () => {
+    it('should return events for the requested targets after the cursor', async () => {
+      add('1-0', 'guild-1');
+      add('2-0', 'guild-2');
+      add('3-0', 'guild-1', 'MESSAGE_DELETE');
+      add('4-0', 'guild-1');
+
+      const events = await eventStream.readEventsAfter('1-0', new Set(['guild-1']), '3-0');
+
+      expect(events).toEqual([
+        { id: '3-0', type: 'guild', target: 'guild-1', event: 'MESSAGE_DELETE', data: { id: '3-0' } },
+      ]);
+    });
+
+    it('should refuse ranges that were already trimmed or are too long', async () => {
+      add('5-0', 'guild-1');
+      add('6-0', 'guild-1');
+
+      expect(await eventStream.readEventsAfter('2-0', new Set(['guild-1']))).toBeNull();
+      expect(await eventStream.readEventsAfter('5-0', new Set(['guild-1']), '+', 0)).toBeNull();
+      expect(await eventStream.readEventsAfter('5-0', new Set(['guild-1']))).toHaveLength(1);
+    });
+  });
+
+  // ── subscribeChangeFeed ──
+
+  describe('subscribeChangeFeed', () => {
+    it('should hand matching events to the handler and acknowledge everything', async () => {
+      add('1-0', 'guild-1');
+      add('2-0', 'guild-1', 'TYPING_START');
+      const handler = vi.fn(async () => {});
+
+      const feed = eventStream.subscribeChangeFeed({
+        group: 'search', consumer: 'worker-1', startId: '0', events: ['MESSAGE_CREATE'], handler,
+      });
+      add('3-0', 'guild-2');
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+      await feed.stop();
+
+      expect(handler.mock.calls.map(([event]: any) => event.id)).toEqual(['1-0', '3-0']);
+      expect(groups.get('search')!.pending.size).toBe(0);
+    });
+
+    it('should leave entries pending when the handler fails', async () => {
+      add('1-0', 'guild-1');
+      add('2-0', 'guild-1');
+      const handler = vi.fn(async (event: { id: string }) => {
+        if (event.id === '1-0') throw new Error('index unavailable');
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const feed = eventStream.subscribeChangeFeed({ group: 'unfurl', consumer: 'worker-1', startId: '0', handler });
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+      await feed.stop();
+
+      expect([...groups.get('unfurl')!.pending.keys()]).toEqual(['1-0']);
+    });
+
+    it('should start ephemeral groups from scratch and remove them on stop', async () => {
+      groups.set('ephemeral:gateway:pod-1', { lastId: '0-0', pending: new Map([['1-0', 1]]) });
+      add('1-0', 'guild-1');
+      const handler = vi.fn(async () => {});
+
+      const feed = eventStream.subscribeChangeFeed({ group: 'gateway:pod-1', consumer: 'gateway', ephemeral: true, handler });
+      expect(feed.group).toBe('ephemeral:gateway:pod-1');
+      await vi.waitFor(() => expect(groups.get('ephemeral:gateway:pod-1')?.pending.size).toBe(0));
+      expect(strings.has('zent:events:group:ephemeral:gateway:pod-1')).toBe(true);
+
+      await feed.stop();
+      expect(handler).not.toHaveBeenCalled();
+      expect(groups.has('ephemeral:gateway:pod-1')).toBe(false);
+    });
+  });
+
+  // ── cleanupEphemeralGroups ──
+
+  describe('cleanupEphemeralGroups', () => {
+    it('should destroy ephemeral groups without a heartbeat', async () => {
+      groups.set('search', { lastId: '0-0', pending: new Map() });
+      groups.set('ephemeral:gateway:alive', { lastId: '0-0', pending: new Map() });
+      groups.set('ephemeral:gateway:dead', { lastId: '0-0', pending: new Map() });
+      strings.set('zent:events:group:ephemeral:gateway:alive', '1');
+
+      expect(await eventStream.cleanupEphemeralGroups()).toBe(1);
+      expect([...groups.keys()]).toEqual(['search', 'ephemeral:gateway:alive']);
+    });
+  });
+});
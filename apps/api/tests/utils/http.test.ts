@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { parseRange, isNotModified, isRangeFresh, contentDisposition } from '../../src/utils/http.js';
+
+const etag = '"abc123"';
+const lastModified = new Date('2026-01-01T12:00:00.500Z');
+
+describe('HTTP helpers', () => {
+  // ── parseRange ──
+
+  describe('parseRange', () => {
+    it('should parse bounded, open-ended and suffix ranges', () => {
+      expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+      expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+    });
+
+    it('should clamp the end to the object size', () => {
+      expect(parseRange('bytes=500-5000', 1000)).toEqual({ start: 500, end: 999 });
+    });
+
+    it('should report ranges starting past the end as unsatisfiable', () => {
+      expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+      expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    });
+
+    it('should ignore missing, malformed and multi-range headers', () => {
+      expect(parseRange(undefined, 1000)).toBeNull();
+      expect(parseRange('items=0-1', 1000)).toBeNull();
+      expect(parseRange('bytes=50-10', 1000)).toBeNull();
+      expect(parseRange('bytes=0-1,5-6', 1000)).toBeNull();
+    });
+  });
+
+  // ── isNotModified ──
+
+  describe('isNotModified', () => {
+    it('should match If-None-Match lists and weak tags', () => {
+      expect(isNotModified({ 'if-none-match': '"other", W/"abc123"' }, etag, lastModified)).toBe(true);
+      expect(isNotModified({ 'if-none-match': '*' }, etag, lastModified)).toBe(true);
+      expect(isNotModified({ 'if-none-match': '"other"' }, etag, lastModified)).toBe(false);
+    });
+
+    it('should compare If-Modified-Since at second precision', () => {
+      expect(isNotModified({ 'if-modified-since': 'Thu, 01 Jan 2026 12:00:00 GMT' }, etag, lastModified)).toBe(true);
+      expect(isNotModified({ 'if-modified-since': 'Thu, 01 Jan 2026 11:59:59 GMT' }, etag, lastModified)).toBe(false);
+    });
+
+    it('should prefer If-None-Match over If-Modified-Since', () => {
+      expect(isNotModified({
+        'if-none-match': '"other"',
+        'if-modified-since': 'Thu, 01 Jan 2026 12:00:00 GMT',
+      }, etag, lastModified)).toBe(false);
+    });
+  });
+
+  // ── isRangeFresh ──
+
+  describe('isRangeFresh', () => {
+    it('should require a strong ETag match or an unchanged date', () => {
+      expect(isRangeFresh({}, etag, lastModified)).toBe(true);
+      expect(isRangeFresh({ 'if-range': etag }, etag, lastModified)).toBe(true);
+      expect(isRangeFresh({ 'if-range': 'W/"abc123"' }, etag, lastModified)).toBe(false);
+      expect(isRangeFresh({ 'if-range': 'Thu, 01 Jan 2026 12:00:00 GMT' }, etag, lastModified)).toBe(true);
+      expect(isRangeFresh({ 'if-range': 'Wed, 31 Dec 2025 12:00:00 GMT' }, etag, lastModified)).toBe(false);
+      // Later dates aren't an exact match either
+      expect(isRangeFresh({ 'if-range': 'Fri, 02 Jan 2026 12:00:00 GMT' }, etag, lastModified)).toBe(false);
+    });
+  });
+
+  // ── contentDisposition ──
+
+  describe('contentDisposition', () => {
+    it('should include an ASCII fallback and the encoded original name', () => {
+      expect(contentDisposition('résumé "final".pdf')).toBe(
+        `inline; filename="r_sum_ _final_.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%22final%22.pdf`
+      );
+    });
+  });
+});
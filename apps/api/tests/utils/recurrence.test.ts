@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { nextOccurrence, occurrencesBetween, toRRule } from '../../src/utils/recurrence.js';
+import { buildCalendar } from '../../src/utils/ical.js';
+
+// A Monday
+const anchor = new Date('2026-01-05T18:00:00.000Z');
+
+function iso(dates: Date[]) {
+  return dates.map((d) => d.toISOString());
+}
+
+describe('Recurrence rules', () => {
+  // ── occurrencesBetween ──
+
+  describe('occurrencesBetween', () => {
+    it('should step daily rules by their interval', () => {
+      const dates = occurrencesBetween({ frequency: 'daily', interval: 2 }, anchor, anchor, new Date('2026-01-12T00:00:00Z'));
+      expect(iso(dates)).toEqual([
+        '2026-01-05T18:00:00.000Z',
+        '2026-01-07T18:00:00.000Z',
+        '2026-01-09T18:00:00.000Z',
+        '2026-01-11T18:00:00.000Z',
+      ]);
+    });
+
+    it('should expand weekly rules over their weekdays, skipping off-interval weeks', () => {
+      const dates = occurrencesBetween(
+        { frequency: 'weekly', interval: 2, byWeekday: [2, 0] },
+        anchor, anchor, new Date('2026-02-01T00:00:00Z')
+      );
+      expect(iso(dates)).toEqual([
+        '2026-01-05T18:00:00.000Z',
+        '2026-01-07T18:00:00.000Z',
+        '2026-01-19T18:00:00.000Z',
+        '2026-01-21T18:00:00.000Z',
+      ]);
+    });
+
+    it('should skip months without the first occurrence\'s day', () => {
+      const dates = occurrencesBetween(
+        { frequency: 'monthly' },
+        new Date('2026-01-31T09:00:00Z'), new Date('2026-01-01T00:00:00Z'), new Date('2026-06-01T00:00:00Z')
+      );
+      expect(iso(dates)).toEqual([
+        '2026-01-31T09:00:00.000Z',
+        '2026-03-31T09:00:00.000Z',
+        '2026-05-31T09:00:00.000Z',
+      ]);
+    });
+
+    it('should stop after count occurrences or past endDate', () => {
+      const far = new Date('2027-01-01T00:00:00Z');
+      expect(occurrencesBetween({ frequency: 'daily', count: 3 }, anchor, anchor, far)).toHaveLength(3);
+      expect(occurrencesBetween({ frequency: 'weekly', endDate: '2026-01-19T18:00:00.000Z' }, anchor, anchor, far))
+        .toHaveLength(3);
+    });
+  });
+
+  // ── nextOccurrence ──
+
+  describe('nextOccurrence', () => {
+    it('should return the first occurrence strictly after the given time', () => {
+      const rule = { frequency: 'weekly' as const };
+      expect(nextOccurrence(rule, anchor, anchor)?.toISOString()).toBe('2026-01-12T18:00:00.000Z');
+      expect(nextOccurrence(rule, anchor, new Date('2026-02-01T00:00:00Z'))?.toISOString())
+        .toBe('2026-02-02T18:00:00.000Z');
+    });
+
+    it('should return null once the series is over', () => {
+      expect(nextOccurrence({ frequency: 'daily', count: 2 }, anchor, new Date('2026-01-06T18:00:00Z'))).toBeNull();
+    });
+  });
+
+  // ── toRRule ──
+
+  describe('toRRule', () => {
+    it('should format rules as iCalendar RRULE values', () => {
+      expect(toRRule({ frequency: 'weekly', interval: 2, byWeekday: [2, 0] })).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+      expect(toRRule({ frequency: 'monthly', endDate: '2026-12-31T23:59:59.000Z' }))
+        .toBe('FREQ=MONTHLY;UNTIL=20261231T235959Z');
+      expect(toRRule({ frequency: 'daily', interval: 1, count: 5 })).toBe('FREQ=DAILY;COUNT=5');
+    });
+  });
+
+  // ── buildCalendar ──
+
+  describe('buildCalendar', () => {
+    it('should escape text, fold long lines and use CRLF', () => {
+      const calendar = buildCalendar('Game night', [{
+        uid: '1@zent',
+        start: anchor,
+        end: null,
+        summary: 'Board games; snacks, drinks',
+        description: 'x'.repeat(100),
+        rrule: 'FREQ=WEEKLY',
+      }], anchor);
+
+      const lines = calendar.split('\r\n');
+      expect(lines).toContain('SUMMARY:Board games\\; snacks\\, drinks');
+      expect(lines).toContain('DTSTART:20260105T180000Z');
+      expect(lines).toContain('RRULE:FREQ=WEEKLY');
+      expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(lines.find((line) => line.startsWith('DESCRIPTION:'))).toHaveLength(75);
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { isBlockedAddress, isBlockedIpLiteral, safeLookup } from '../../src/utils/ssrf.js';
+
+describe('SSRF guards', () => {
+  // ── isBlockedAddress ──
+
+  describe('isBlockedAddress', () => {
+    it('should block private, loopback and mapped addresses', () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:10.0.0.1']) {
+        expect(isBlockedAddress(address)).toBe(true);
+      }
+      expect(isBlockedAddress('93.184.216.34')).toBe(false);
+      expect(isBlockedAddress('2606:2800:220:1::1')).toBe(false);
+    });
+  });
+
+  // ── isBlockedIpLiteral ──
+
+  describe('isBlockedIpLiteral', () => {
+    it('should block private IP literals, bracketed IPv6 included, and leave names to the lookup', () => {
+      expect(isBlockedIpLiteral('169.254.169.254')).toBe(true);
+      expect(isBlockedIpLiteral('[::1]')).toBe(true);
+      expect(isBlockedIpLiteral('93.184.216.34')).toBe(false);
+      expect(isBlockedIpLiteral('localhost')).toBe(false);
+    });
+  });
+
+  // ── safeLookup ──
+
+  describe('safeLookup', () => {
+    it('should refuse names that resolve to private addresses', async () => {
+      const err = await new Promise((resolve) => safeLookup('localhost', {}, (e) => resolve(e)));
+      expect(err).toBeInstanceOf(Error);
+      expect((err as Error).message).toContain('private address');
+    });
+  });
+});
@@ -112,6 +112,7 @@ export type GatewayEvent =
   | "NOTIFICATION_CREATE"
   // Moderation
   | "MODERATION_QUEUE_ADD"
+  | "MODERATION_QUEUE_UPDATE"
   | "AUTO_MODERATION_RULE_CREATE"
   | "AUTO_MODERATION_RULE_UPDATE"
   | "AUTO_MODERATION_RULE_DELETE"
@@ -128,6 +128,17 @@ export interface RolePermission {
   position: number;
 }
 
+// Taken away from timed-out members; they can still read along
+export const TIMEOUT_DENIED_PERMISSIONS =
+  PermissionFlags.SEND_MESSAGES |
+  PermissionFlags.SEND_MESSAGES_IN_THREADS |
+  PermissionFlags.CREATE_PUBLIC_THREADS |
+  PermissionFlags.CREATE_PRIVATE_THREADS |
+  PermissionFlags.ADD_REACTIONS |
+  PermissionFlags.SPEAK |
+  PermissionFlags.REQUEST_TO_SPEAK |
+  PermissionFlags.SEND_VOICE_MESSAGES;
+
 /**
  * Compute final permissions for a member in a guild channel.
  *
@@ -139,7 +150,8 @@ export interface RolePermission {
  *    a. @everyone overwrite
  *    b. All role overwrites OR'd
  *    c. Member-specific overwrite
- * 5. If no VIEW_CHANNEL -> deny all
+ * 5. Timed out? -> strip TIMEOUT_DENIED_PERMISSIONS
+ * 6. If no VIEW_CHANNEL -> deny all
  */
 export function computePermissions(params: {
   userId: string;
@@ -147,8 +159,10 @@ export function computePermissions(params: {
   everyoneRole: RolePermission;
   memberRoles: RolePermission[];
   channelOverwrites?: PermissionOverwrite[];
+  /** The member's timeout is still running */
+  communicationDisabled?: boolean;
 }): PermissionsBitfield {
-  const { userId, guildOwnerId, everyoneRole, memberRoles, channelOverwrites } = params;
+  const { userId, guildOwnerId, everyoneRole, memberRoles, channelOverwrites, communicationDisabled } = params;
 
   // Owner gets everything
   if (userId === guildOwnerId) {
@@ -168,6 +182,7 @@ export function computePermissions(params: {
 
   // No channel overwrites? Return base
   if (!channelOverwrites || channelOverwrites.length === 0) {
+    if (communicationDisabled) base &= ~TIMEOUT_DENIED_PERMISSIONS;
     return new PermissionsBitfield(base);
   }
 
@@ -200,6 +215,9 @@ export function computePermissions(params: {
     base |= memberOverwrite.allow;
   }
 
+  // A timeout overrides anything the overwrites allow
+  if (communicationDisabled) base &= ~TIMEOUT_DENIED_PERMISSIONS;
+
   // Implicit denial: no VIEW_CHANNEL -> no channel permissions
   if ((base & PermissionFlags.VIEW_CHANNEL) === 0n) {
     return PermissionsBitfield.none();
@@ -52,6 +52,16 @@ export enum MessageType {
   THREAD_CREATED = 18,
   REPLY = 19,
   AUTO_MODERATION_ACTION = 24,
+  POLL_RESULT = 46,
+}
+
+// ── Message Flags ──
+export enum MessageFlags {
+  CROSSPOSTED = 1 << 0,
+  IS_CROSSPOST = 1 << 1,
+  SUPPRESS_EMBEDS = 1 << 2,
+  EPHEMERAL = 1 << 6,
+  SUPPRESS_NOTIFICATIONS = 1 << 12,
 }
 
 // ── Relationship Types ──
@@ -77,6 +87,8 @@ export enum AuditLogActionType {
   MEMBER_BAN_REMOVE = 23,
   MEMBER_UPDATE = 24,
   MEMBER_ROLE_UPDATE = 25,
+  MEMBER_MOVE = 26,
+  MEMBER_DISCONNECT = 27,
   ROLE_CREATE = 30,
   ROLE_UPDATE = 31,
   ROLE_DELETE = 32,
@@ -93,6 +105,9 @@ export enum AuditLogActionType {
   MESSAGE_BULK_DELETE = 73,
   MESSAGE_PIN = 74,
   MESSAGE_UNPIN = 75,
+  STAGE_INSTANCE_CREATE = 83,
+  STAGE_INSTANCE_UPDATE = 84,
+  STAGE_INSTANCE_DELETE = 85,
   THREAD_CREATE = 110,
   THREAD_UPDATE = 111,
   THREAD_DELETE = 112,
@@ -159,6 +174,7 @@ export interface Channel {
   ownerId: string | null;
   flags: number;
   messageRetentionSeconds: number | null;
+  isPublic: boolean;
   createdAt: string;
 }
 
@@ -171,6 +187,8 @@ export interface Message {
   flags: number;
   tts: boolean;
   mentionEveryone: boolean;
+  mentions: string[];
+  mentionRoles: string[];
   pinned: boolean;
   editedTimestamp: string | null;
   referencedMessageId: string | null;
@@ -270,6 +288,7 @@ export interface VoiceState {
   selfStream: boolean;
   selfVideo: boolean;
   suppress: boolean;
+  requestToSpeakTimestamp: string | null;
 }
 
 export interface ReadState {
@@ -348,6 +367,7 @@ export interface UpdateChannelRequest {
   rateLimitPerUser?: number;
   bitrate?: number;
   userLimit?: number;
+  isPublic?: boolean;
 }
 
 export interface LoginRequest {